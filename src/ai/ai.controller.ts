@@ -27,6 +27,7 @@ import { GenerateHashtagsDto } from './dto/generate-hashtag.dto';
 import { GenerateHolidayPostDto } from './dto/generate-holiday-post.dto';
 import { OptimizeContentDto } from './dto/optimize-content.dto';
 import { GenerateImageDto } from './dto/generate-image.dto';
+import { GenerateAltTextDto } from './dto/generate-alt-text.dto';
 
 @ApiTags('AI Module')
 @ApiBearerAuth()
@@ -110,6 +111,19 @@ export class AiController {
     return this.aiService.generateHashtags(workspaceId, dto.prompt);
   }
 
+  @Post('alt-text')
+  @ApiOperation({
+    summary: 'Draft alt text for a library image',
+    description:
+      "Describes the image for screen readers. Set save to store it as the file's alt text.",
+  })
+  async generateAltText(
+    @Param('workspaceId') workspaceId: string,
+    @Body() dto: GenerateAltTextDto,
+  ) {
+    return this.aiService.generateAltText(workspaceId, dto);
+  }
+
   @Post('optimize')
   @ApiOperation({ summary: 'Optimize or rewrite content' })
   async optimizeContent(
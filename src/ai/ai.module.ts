@@ -14,5 +14,6 @@ import { HuggingFaceProvider } from './providers/huggingface.provider';
   imports:[PostMediaModule],
   controllers: [AiController],
   providers: [AiService, AiQuotaService, AiProviderFactory , GeminiProvider, OpenAiProvider, PromptBuilder, ScraperService, HuggingFaceProvider],
+  exports: [AiService],
 })
 export class AiModule {}
@@ -51,6 +51,7 @@ export const AI_COSTS: Record<string, number> = {
   HASHTAGS: 1,       // Lightweight list generation
   OPTIMIZE: 1,       // Quick rewrite/edit
   HOLIDAY_POST: 1,   // Specific holiday generation
+  ALT_TEXT: 1,       // Image description for accessibility
 };
 
 // Helper Types derived from the constant
@@ -0,0 +1,37 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class GenerateAltTextDto {
+  @ApiProperty({
+    description: 'Image from the media library to describe',
+    example: 'cl9abc123xyz',
+  })
+  @IsString()
+  @IsNotEmpty()
+  mediaFileId: string;
+
+  @ApiPropertyOptional({
+    description:
+      'The post caption, so the description can name what the post is about',
+    example: 'Our team at the Lagos product launch 🚀',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  context?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Save the draft as the file's alt text instead of only returning it",
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  save?: boolean;
+}
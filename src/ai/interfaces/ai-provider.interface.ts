@@ -6,6 +6,9 @@ export interface IAiProvider {
 
   // 🎨 Optional method: Not every provider has an "artist" inside
   generateImage?(prompt: string, model?: string): Promise<Buffer>;
+
+  // 👁️ Optional method: only vision-capable providers can read images
+  describeImage?(options: ImageDescribeOptions): Promise<TextGenResult>;
 }
 
 
@@ -30,4 +33,11 @@ export interface TextGenOptions {
   temperature?: number;
   maxTokens?: number;
   responseFormat?: 'text' | 'json';
-}
\ No newline at end of file
+}
+
+export interface ImageDescribeOptions {
+  imageUrl: string;
+  system?: string;
+  user: string;
+  maxTokens?: number;
+}
@@ -1,7 +1,7 @@
 import { Injectable, InternalServerErrorException, ServiceUnavailableException, Logger, UnauthorizedException, NotFoundException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import OpenAI from 'openai';
-import { IAiProvider, TextGenOptions, TextGenResult } from '../interfaces/ai-provider.interface';
+import { IAiProvider, ImageDescribeOptions, TextGenOptions, TextGenResult } from '../interfaces/ai-provider.interface';
 import { AiProvider } from '@generated/enums';
 
 
@@ -13,6 +13,7 @@ export class HuggingFaceProvider implements IAiProvider {
   private readonly apiKey: string;
   
   private readonly textModel = 'zai-org/GLM-4.6:novita'; 
+  private readonly visionModel = 'Qwen/Qwen2.5-VL-7B-Instruct';
 
   constructor(private readonly config: ConfigService) {
     this.apiKey = this.config.get<string>('HF_API_KEY');
@@ -112,6 +113,46 @@ export class HuggingFaceProvider implements IAiProvider {
     }
   }
 
+  /**
+   * 👁️ DESCRIBE IMAGE (Vision chat via the same router)
+   * The router fetches the image itself, so only the URL is sent.
+   */
+  async describeImage(options: ImageDescribeOptions): Promise<TextGenResult> {
+    try {
+      const completion = await this.client.chat.completions.create({
+        model: this.visionModel,
+        messages: [
+          {
+            role: 'system',
+            content: options.system || 'You are a helpful AI assistant.',
+          },
+          {
+            role: 'user',
+            content: [
+              { type: 'image_url', image_url: { url: options.imageUrl } },
+              { type: 'text', text: options.user },
+            ],
+          },
+        ],
+        max_tokens: options.maxTokens ?? 300,
+        temperature: 0.2,
+      });
+
+      return {
+        text: completion.choices[0]?.message?.content || '',
+        model: completion.model,
+        provider: AiProvider.HUGGINGFACE,
+        usage: {
+          inputTokens: completion.usage?.prompt_tokens ?? 0,
+          outputTokens: completion.usage?.completion_tokens ?? 0,
+          totalTokens: completion.usage?.total_tokens ?? 0,
+        },
+      };
+    } catch (error: any) {
+      this.handleError(error);
+    }
+  }
+
   // Centralized Error Handling
   private handleError(error: any): never {
     this.logger.error('Hugging Face Router API call failed:', error);
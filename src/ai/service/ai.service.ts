@@ -5,6 +5,7 @@ import {
   ForbiddenException,
   ServiceUnavailableException,
   HttpException,
+  Logger,
 } from '@nestjs/common';
 import { PrismaService } from '@/prisma/prisma.service';
 import { AiFeature, AiProvider, AiType } from '@generated/enums';
@@ -21,9 +22,12 @@ import { RepurposeContentDto } from '../dto/repurpose-content.dto';
 import { TextGenResult } from '../interfaces/ai-provider.interface';
 import { PostMediaService } from '@/post-media/post-media.service';
 import { HuggingFaceProvider } from '../providers/huggingface.provider';
+import { GenerateAltTextDto } from '../dto/generate-alt-text.dto';
 
 @Injectable()
 export class AiService {
+  private readonly logger = new Logger(AiService.name);
+
   constructor(
     private readonly prisma: PrismaService,
     private readonly quota: AiQuotaService,
@@ -605,7 +609,89 @@ export class AiService {
   }
 
   /**
-   * 3. AI INSIGHTS (Best Time to Post)
+   * 3. ALT TEXT DRAFT
+   * Describes a library image for screen readers. The user is expected to
+   * review it, so it's only saved when they ask.
+   */
+  async generateAltText(workspaceId: string, dto: GenerateAltTextDto) {
+    const file = await this.prisma.mediaFile.findFirst({
+      where: { id: dto.mediaFileId, workspaceId },
+      select: { id: true, url: true, mimeType: true },
+    });
+    if (!file) throw new NotFoundException('Media file not found');
+    if (!file.mimeType.startsWith('image/')) {
+      throw new BadRequestException('Alt text can only be drafted for images.');
+    }
+
+    const ctx = await this.getWorkspaceContext(workspaceId);
+    await this.quota.assertCanUse(workspaceId, AiFeature.ALT_TEXT);
+
+    const provider = this.pickProviderForWorkspace(workspaceId);
+    const visionProvider = this.providerFactory.getProvider(provider);
+    if (!visionProvider.describeImage) {
+      throw new ServiceUnavailableException(
+        'Image descriptions are not available right now.',
+      );
+    }
+
+    const system = `You write alt text for social media images. Describe what matters for someone who can't see the image in one or two plain sentences, under 250 characters. Transcribe any important text in the image. Don't start with "Image of" or "Picture of", don't add hashtags, emojis or opinions. Reply with the alt text only.`;
+    const user = dto.context
+      ? `The image is posted with this caption (for context only, don't repeat it): "${dto.context}"`
+      : 'Write alt text for this image.';
+
+    try {
+      const result = await visionProvider.describeImage({
+        imageUrl: file.url,
+        system,
+        user,
+        maxTokens: 200,
+      });
+
+      const altText = result.text
+        .trim()
+        .replace(/^["'“]+|["'”]+$/g, '')
+        .slice(0, 1500);
+      if (!altText) {
+        throw new ServiceUnavailableException(
+          'Could not describe this image. Please try again.',
+        );
+      }
+
+      if (dto.save) {
+        await this.postMedia.updateAltText(workspaceId, file.id, altText);
+      }
+
+      const log = await this.logGeneration({
+        workspaceId,
+        organizationId: ctx.organizationId,
+        type: AiType.TEXT,
+        feature: AiFeature.ALT_TEXT,
+        provider,
+        creditCost: this.getFeatureCost(AiFeature.ALT_TEXT, 1),
+        model: result.model,
+        prompt: system + '\n\nUSER:\n' + user,
+        input: { mediaFileId: file.id },
+        output: { text: altText },
+        usage: result.usage,
+        brandKitId: null,
+        postId: null,
+      });
+
+      return { altText, saved: !!dto.save, generationId: log.id };
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      this.logger.error(
+        `Alt text generation failed for media ${dto.mediaFileId}: ${(error as Error)?.message ?? error}`,
+        (error as Error)?.stack,
+      );
+      throw new ServiceUnavailableException(
+        'AI service is temporarily unavailable. Please try again.',
+      );
+    }
+  }
+
+  /**
+   * 4. AI INSIGHTS (Best Time to Post)
    * Analyzes past posts (if any) or gives general best practices
    */
   // async getPostingRecommendations(workspaceId: string, platform: string) {
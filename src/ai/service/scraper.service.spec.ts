@@ -0,0 +1,37 @@
+import axios from 'axios';
+import { BadRequestException } from '@nestjs/common';
+import { ScraperService } from './scraper.service';
+
+jest.mock('axios');
+
+describe('ScraperService', () => {
+  const scraper = new ScraperService();
+
+  beforeEach(() => jest.resetAllMocks());
+
+  it.each([
+    'http://169.254.169.254/latest/meta-data/',
+    'http://127.0.0.1:6379/',
+    'http://[::1]/admin',
+  ])('refuses %s without fetching it', async (url) => {
+    await expect(scraper.scrapeUrl(url)).rejects.toThrow(BadRequestException);
+    expect(axios.get).not.toHaveBeenCalled();
+  });
+
+  it('fetches through the guarded agents and re-checks redirects', async () => {
+    (axios.get as jest.Mock).mockResolvedValue({
+      status: 200,
+      data: `<article>${'Readable text. '.repeat(20)}</article>`,
+    });
+
+    await scraper.scrapeUrl('https://blog.example.com/post');
+
+    const options = (axios.get as jest.Mock).mock.calls[0][1];
+    expect(options.proxy).toBe(false);
+    expect(options.httpAgent).toBeDefined();
+    expect(options.httpsAgent).toBeDefined();
+    expect(() => options.beforeRedirect({ href: 'http://10.0.0.5/' })).toThrow(
+      'private or internal address',
+    );
+  });
+});
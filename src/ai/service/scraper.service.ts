@@ -7,6 +7,12 @@ import {
 } from '@nestjs/common';
 import axios from 'axios';
 import * as cheerio from 'cheerio';
+import {
+  assertPublicUrl,
+  PRIVATE_ADDRESS_MESSAGE,
+  publicHttpAgent,
+  publicHttpsAgent,
+} from '@/common/utility/public-url.util';
 
 @Injectable()
 export class ScraperService {
@@ -14,11 +20,11 @@ export class ScraperService {
     // 0) Validate URL early (true 400)
     let parsed: URL;
     try {
-      parsed = new URL(url);
-      if (!['http:', 'https:'].includes(parsed.protocol)) {
-        throw new Error('Invalid protocol');
+      parsed = assertPublicUrl(url);
+    } catch (error) {
+      if ((error as Error).message === PRIVATE_ADDRESS_MESSAGE) {
+        throw new BadRequestException(PRIVATE_ADDRESS_MESSAGE);
       }
-    } catch {
       throw new BadRequestException('Invalid URL. Please provide a valid http/https link.');
     }
 
@@ -30,6 +36,13 @@ export class ScraperService {
         },
         timeout: 8000,
         maxRedirects: 5,
+        // Never reach our own network, on the first hop or after a redirect
+        beforeRedirect: (options) => {
+          assertPublicUrl(options.href);
+        },
+        httpAgent: publicHttpAgent,
+        httpsAgent: publicHttpsAgent,
+        proxy: false,
         // avoid downloading huge pages
         maxContentLength: 2_000_000,
         validateStatus: () => true, // we will handle status codes ourselves
@@ -90,6 +103,10 @@ export class ScraperService {
         throw error;
       }
 
+      if ((error as Error)?.message?.includes(PRIVATE_ADDRESS_MESSAGE)) {
+        throw new BadRequestException(PRIVATE_ADDRESS_MESSAGE);
+      }
+
       // Axios errors (timeouts, DNS, etc.) => 503 usually
       if (axios.isAxiosError(error)) {
         if (error.code === 'ECONNABORTED') {
@@ -6,11 +6,16 @@ import { TwitterAnalyticsProvider } from './providers/twitter.provider';
 import { LinkedInAnalyticsProvider } from './providers/linkedin.provider';
 import { FacebookAnalyticsProvider } from './providers/facebook-analytics.provider';
 import { InstagramAnalyticsProvider } from './providers/instagram-analytics.provider';
+import { SandboxAnalyticsProvider } from './providers/sandbox-analytics.provider';
 import { HttpModule } from '@nestjs/axios';
 import { AnalyticsNormalizerService } from './services/analytics-normalizer.service';
 import { AnalyticsRepository } from './services/analytics.repository';
 import { AnalyticsScheduler } from './scheduler/analytics.scheduler';
 import { BullModule } from '@nestjs/bullmq';
+import { PublishingMetricsService } from './services/publishing-metrics.service';
+import { PublishingMetricsController } from './publishing-metrics.controller';
+import { LabelAnalyticsService } from './services/label-analytics.service';
+import { LabelAnalyticsController } from './label-analytics.controller';
 
 @Module({
   imports: [
@@ -19,7 +24,11 @@ import { BullModule } from '@nestjs/bullmq';
       name: 'analytics-queue',
     }),
   ],
-  controllers: [AnalyticsController],
+  controllers: [
+    AnalyticsController,
+    PublishingMetricsController,
+    LabelAnalyticsController,
+  ],
   providers: [
     AnalyticsService,
     EncryptionService,
@@ -27,10 +36,13 @@ import { BullModule } from '@nestjs/bullmq';
     LinkedInAnalyticsProvider,
     FacebookAnalyticsProvider,
     InstagramAnalyticsProvider,
+    SandboxAnalyticsProvider,
     AnalyticsService,
     AnalyticsNormalizerService,
     AnalyticsRepository,
     AnalyticsScheduler,
+    PublishingMetricsService,
+    LabelAnalyticsService,
   ],
   exports: [AnalyticsService, AnalyticsNormalizerService, AnalyticsRepository, BullModule],
 })
@@ -0,0 +1,47 @@
+import { Platform } from '@generated/enums';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { toIdList } from '@/common/utility/query-list.util';
+
+export class LabelAnalyticsQueryDto {
+  @ApiPropertyOptional({
+    description: 'Lookback window in days, by publish date',
+    default: 30,
+    minimum: 1,
+    maximum: 365,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  days: number = 30;
+
+  @ApiPropertyOptional({
+    enum: Platform,
+    description: 'Only include this platform',
+  })
+  @IsOptional()
+  @IsEnum(Platform)
+  platform?: Platform;
+
+  @ApiPropertyOptional({
+    description: 'Comma-separated label IDs. Defaults to every label.',
+    example: 'lbl_product,lbl_hiring',
+    type: String,
+  })
+  @IsOptional()
+  @Transform(({ value }) => toIdList(value))
+  @IsArray()
+  @IsString({ each: true })
+  labelIds?: string[];
+}
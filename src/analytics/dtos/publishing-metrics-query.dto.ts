@@ -0,0 +1,61 @@
+import { Platform } from '@generated/enums';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class PublishingMetricsQueryDto {
+  @ApiPropertyOptional({
+    description: 'Lookback window in days',
+    default: 30,
+    minimum: 1,
+    maximum: 365,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  days: number = 30;
+
+  @ApiPropertyOptional({
+    enum: Platform,
+    description: 'Only include this platform',
+  })
+  @IsOptional()
+  @IsEnum(Platform)
+  platform?: Platform;
+
+  @ApiPropertyOptional({ description: 'Only include this social profile' })
+  @IsOptional()
+  @IsString()
+  socialProfileId?: string;
+}
+
+export class PublishingErrorsQueryDto extends PublishingMetricsQueryDto {
+  @ApiPropertyOptional({
+    description: 'How many distinct errors to return',
+    default: 10,
+    maximum: 50,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit: number = 10;
+}
+
+export class PublishingTrendsQueryDto extends PublishingMetricsQueryDto {
+  @ApiPropertyOptional({ enum: ['day', 'week'], default: 'day' })
+  @IsOptional()
+  @IsIn(['day', 'week'])
+  interval: 'day' | 'week' = 'day';
+}
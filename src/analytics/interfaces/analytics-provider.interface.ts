@@ -18,6 +18,14 @@ export interface UnifiedPostMetrics {
   impressions: number;
   reach: number;
   engagementCount: number;
+  poll?: PollResult; // Native polls only
+}
+
+// Votes per option, in the order the options were published
+export interface PollResult {
+  options: { label: string; votes: number }[];
+  totalVotes: number;
+  isOpen?: boolean; // Unknown on networks that don't report it
 }
 
 // ==========================================
@@ -45,6 +53,13 @@ export interface IAnalyticsProvider {
     credentials: AuthCredentials, 
     context?: Record<string, any>
   ): Promise<FetchPostResult[]>;
+
+  // For networks whose post stats don't include poll votes (LinkedIn).
+  // Keyed by platform post ID; posts without a poll are left out.
+  getPollResults?(
+    postIds: string[],
+    credentials: AuthCredentials,
+  ): Promise<Map<string, PollResult>>;
 }
 export interface AuthCredentials {
   accessToken: string;
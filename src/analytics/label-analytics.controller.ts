@@ -0,0 +1,39 @@
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ContextGuard } from '@/common/guards/context.guard';
+import { PermissionsGuard } from '@/common/guards/permission.guard';
+import { FeatureGuard } from '@/common/guards/feature.guard';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { RequireFeature } from '@/common/decorators/require-feature.decorator';
+import { PermissionAction, PermissionResource } from '@generated/enums';
+import { LabelAnalyticsService } from './services/label-analytics.service';
+import { LabelAnalyticsQueryDto } from './dtos/label-analytics-query.dto';
+
+@ApiTags('Analytics - Labels')
+@ApiBearerAuth()
+@UseGuards(ContextGuard, PermissionsGuard, FeatureGuard)
+@RequireFeature('hasLabels')
+@RequirePermission(PermissionResource.ANALYTICS, PermissionAction.READ)
+@Controller('analytics/workspaces/:workspaceId/labels')
+export class LabelAnalyticsController {
+  constructor(private readonly service: LabelAnalyticsService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Reach and engagement per label',
+    description:
+      'Posts with several labels count towards each of them. Posts without a label are reported separately.',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  getLabelPerformance(
+    @Param('workspaceId') workspaceId: string,
+    @Query() query: LabelAnalyticsQueryDto,
+  ) {
+    return this.service.getLabelPerformance(workspaceId, query);
+  }
+}
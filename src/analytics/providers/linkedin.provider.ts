@@ -7,6 +7,7 @@ import {
   FetchAccountResult,
   FetchPostResult,
   IAnalyticsProvider,
+  PollResult,
 } from '../interfaces/analytics-provider.interface';
 import { DateTime } from 'luxon';
 import * as https from 'https';
@@ -463,6 +464,8 @@ export class LinkedInAnalyticsProvider implements IAnalyticsProvider {
           reposts: shares,
           clicks: clicks,
           videoViews: s.videoViews ?? 0,
+          // Only reported for document (PDF) posts
+          documentViews: s.documentViews ?? null,
         },
       };
     });
@@ -522,6 +525,46 @@ export class LinkedInAnalyticsProvider implements IAnalyticsProvider {
     return mappings[urn] ?? urn.split(':').pop() ?? urn;
   }
 
+  /**
+   * Poll votes aren't part of the share statistics, so they're read from
+   * the post itself (one call per poll post).
+   */
+  async getPollResults(
+    postUrns: string[],
+    credentials: AuthCredentials,
+  ): Promise<Map<string, PollResult>> {
+    const out = new Map<string, PollResult>();
+
+    for (const urn of postUrns) {
+      try {
+        const { data } = await firstValueFrom(
+          this.http.get(`${this.baseUrl}/posts/${encodeURIComponent(urn)}`, {
+            headers: this.headers(credentials.accessToken),
+            httpsAgent: this.httpsAgent,
+          }),
+        );
+
+        const poll = data?.content?.poll;
+        if (!poll?.options) continue;
+
+        const options = poll.options.map((o: any) => ({
+          label: o.text,
+          votes: o.voteCount ?? 0,
+        }));
+        out.set(urn, {
+          options,
+          totalVotes: options.reduce((sum, o) => sum + o.votes, 0),
+        });
+      } catch (e: any) {
+        this.logger.error(
+          `LinkedIn poll fetch failed for ${urn}: ${e?.response?.data?.message || e.message}`,
+        );
+      }
+    }
+
+    return out;
+  }
+
   async fetchPersonalProfilePostStats(
     token: string,
     postUrns: string[],
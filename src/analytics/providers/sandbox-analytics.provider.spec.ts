@@ -0,0 +1,39 @@
+import { SandboxAnalyticsProvider } from './sandbox-analytics.provider';
+
+describe('SandboxAnalyticsProvider', () => {
+  const provider = new SandboxAnalyticsProvider();
+  const creds = { accessToken: 'sbx_token' };
+  const idPublishedAt = (date: Date) =>
+    `sbx_${date.getTime().toString(36)}_abcd`;
+
+  afterEach(() => jest.useRealTimers());
+
+  it('returns the same account snapshot for repeated syncs on one day', async () => {
+    const first = await provider.getAccountStats('sbx_page_1', creds);
+    const second = await provider.getAccountStats('sbx_page_1', creds);
+
+    expect(second.unified).toEqual(first.unified);
+    expect(first.unified.followersTotal).toBeGreaterThan(0);
+    expect(first.specific).toBeNull();
+  });
+
+  it('grows post reach with age and keeps engagement consistent', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-03-10T12:00:00Z'));
+    const fresh = idPublishedAt(new Date('2026-03-10T11:00:00Z'));
+    const older = idPublishedAt(new Date('2026-03-08T11:00:00Z'));
+
+    const [early] = await provider.getPostStats([fresh], creds);
+    jest.setSystemTime(new Date('2026-03-12T11:00:00Z'));
+    const [later] = await provider.getPostStats([fresh], creds);
+    const [other] = await provider.getPostStats([older], creds);
+
+    expect(later.unified.impressions).toBeGreaterThan(
+      early.unified.impressions,
+    );
+    expect(later.unified.postId).toBe(fresh);
+    expect(other.unified.reach).toBeLessThanOrEqual(other.unified.impressions);
+    expect(other.unified.engagementCount).toBeGreaterThanOrEqual(
+      other.unified.likes + other.unified.comments,
+    );
+  });
+});
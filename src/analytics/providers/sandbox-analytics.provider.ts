@@ -0,0 +1,111 @@
+import { Injectable } from '@nestjs/common';
+import { Platform } from '@generated/enums';
+import {
+  AuthCredentials,
+  FetchAccountResult,
+  FetchPostResult,
+  IAnalyticsProvider,
+} from '../interfaces/analytics-provider.interface';
+import {
+  sandboxInt,
+  sandboxPublishedAt,
+  sandboxRandom,
+} from '@/common/utility/sandbox.util';
+import { DateTime } from 'luxon';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Day 0 for follower growth; any fixed date works
+const GROWTH_EPOCH = Date.UTC(2025, 0, 1);
+
+/**
+ * Plausible numbers for the simulated network. Values are derived from the
+ * IDs and the current day, so a second sync on the same day returns the same
+ * snapshot, and posts keep gaining reach for a couple of days after publishing.
+ */
+@Injectable()
+export class SandboxAnalyticsProvider implements IAnalyticsProvider {
+  platform: Platform = 'SANDBOX';
+
+  async getAccountStats(
+    id: string,
+    _credentials: AuthCredentials,
+  ): Promise<FetchAccountResult> {
+    const now = new Date();
+    const day = DateTime.fromJSDate(now, { zone: 'utc' }).toISODate();
+    const days = Math.max(
+      0,
+      Math.floor((now.getTime() - GROWTH_EPOCH) / DAY_MS),
+    );
+
+    const base = sandboxInt(800, 25_000, id, 'followers');
+    const dailyGain = sandboxInt(2, 40, id, 'gain');
+    // A few unfollows now and then, so growth isn't a straight line
+    const wobble = sandboxInt(-15, 15, id, day);
+    const followersTotal = Math.max(0, base + days * dailyGain + wobble);
+
+    const impressions = Math.round(
+      followersTotal * (0.2 + sandboxRandom(id, day, 'impressions') * 0.6),
+    );
+    const reach = Math.round(
+      impressions * (0.6 + sandboxRandom(id, day, 'reach') * 0.3),
+    );
+    const engagementCount = Math.round(
+      impressions * (0.01 + sandboxRandom(id, day, 'engagement') * 0.05),
+    );
+
+    return {
+      platformId: id,
+      fetchedAt: now,
+      unified: {
+        followersTotal,
+        impressions,
+        reach,
+        profileViews: sandboxInt(5, 40, id, day, 'views') * 10,
+        clicks: Math.round(engagementCount * 0.3),
+        engagementCount,
+      },
+      specific: null,
+    };
+  }
+
+  async getPostStats(
+    postIds: string[],
+    _credentials: AuthCredentials,
+  ): Promise<FetchPostResult[]> {
+    const now = Date.now();
+
+    return postIds.map((postId) => {
+      const publishedAt = sandboxPublishedAt(postId)?.getTime() ?? now;
+      const ageHours = Math.max(0, (now - publishedAt) / 3_600_000);
+
+      // Most reach arrives in the first day or two, then flattens out
+      const potential = sandboxInt(300, 6_000, postId, 'potential');
+      const impressions = Math.round(
+        potential * (1 - Math.exp(-ageHours / 18)),
+      );
+      const reach = Math.round(
+        impressions * (0.65 + sandboxRandom(postId, 'reach') * 0.25),
+      );
+      const likes = Math.round(
+        impressions * (0.02 + sandboxRandom(postId, 'likes') * 0.06),
+      );
+      const comments = Math.round(
+        likes * (0.05 + sandboxRandom(postId, 'comments') * 0.2),
+      );
+      const shares = Math.round(likes * sandboxRandom(postId, 'shares') * 0.15);
+
+      return {
+        unified: {
+          postId,
+          likes,
+          comments,
+          impressions,
+          reach,
+          engagementCount: likes + comments + shares,
+        },
+        specific: null,
+      };
+    });
+  }
+}
@@ -6,6 +6,7 @@ import {
   FetchAccountResult,
   FetchPostResult,
   IAnalyticsProvider,
+  PollResult,
 } from '../interfaces/analytics-provider.interface';
 
 @Injectable()
@@ -64,10 +65,19 @@ export class TwitterAnalyticsProvider implements IAnalyticsProvider {
             'public_metrics',
             'non_public_metrics',
             'organic_metrics',
+            'attachments',
           ],
+          expansions: ['attachments.poll_ids'],
+          'poll.fields': ['options', 'voting_status'],
         });
+        const polls = new Map(
+          (resp.includes?.polls ?? []).map((p: any) => [p.id, p]),
+        );
         const mapped = (resp.data ?? []).map((tweet) =>
-          this.mapToDomain(tweet),
+          this.mapToDomain(
+            tweet,
+            polls.get(tweet.attachments?.poll_ids?.[0] ?? ''),
+          ),
         );
         results.push(...mapped);
       } catch (e: any) {
@@ -113,7 +123,7 @@ export class TwitterAnalyticsProvider implements IAnalyticsProvider {
   }
   }
 
-private mapToDomain(tweet: any): FetchPostResult {
+private mapToDomain(tweet: any, poll?: any): FetchPostResult {
     const publicM = tweet.public_metrics ?? {};
     const organic = tweet.organic_metrics;
     const nonPublic = tweet.non_public_metrics;
@@ -128,6 +138,7 @@ private mapToDomain(tweet: any): FetchPostResult {
         impressions: nonPublic?.impression_count ?? organic?.impression_count ?? 0,
         reach: 0,
         engagementCount: (publicM.like_count ?? 0) + (publicM.reply_count ?? 0) + (publicM.retweet_count ?? 0) + linkClicks,
+        ...(poll && { poll: this.mapPoll(poll) }),
       },
       specific: {
         retweets: publicM.retweet_count ?? 0,
@@ -138,6 +149,18 @@ private mapToDomain(tweet: any): FetchPostResult {
     };
   }
 
+  private mapPoll(poll: any): PollResult {
+    const options = [...(poll.options ?? [])]
+      .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+      .map((o) => ({ label: o.label, votes: o.votes ?? 0 }));
+
+    return {
+      options,
+      totalVotes: options.reduce((sum, o) => sum + o.votes, 0),
+      isOpen: poll.voting_status === 'open',
+    };
+  }
+
   private chunkArray<T>(array: T[], size: number): T[][] {
     const chunks: T[][] = [];
     for (let i = 0; i < array.length; i += size) {
@@ -0,0 +1,65 @@
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ContextGuard } from '@/common/guards/context.guard';
+import { PermissionsGuard } from '@/common/guards/permission.guard';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { PermissionAction, PermissionResource } from '@generated/enums';
+import { PublishingMetricsService } from './services/publishing-metrics.service';
+import {
+  PublishingErrorsQueryDto,
+  PublishingMetricsQueryDto,
+  PublishingTrendsQueryDto,
+} from './dtos/publishing-metrics-query.dto';
+
+@ApiTags('Analytics - Publishing Reliability')
+@ApiBearerAuth()
+@UseGuards(ContextGuard, PermissionsGuard)
+@RequirePermission(PermissionResource.ANALYTICS, PermissionAction.READ)
+@Controller('analytics/workspaces/:workspaceId/publishing')
+export class PublishingMetricsController {
+  constructor(private readonly service: PublishingMetricsService) {}
+
+  @Get('success-rate')
+  @ApiOperation({
+    summary: 'Publish success rate overall, per platform and per profile',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiResponse({
+    status: 200,
+    description: 'Lowest success rates are listed first',
+  })
+  getSuccessRates(
+    @Param('workspaceId') workspaceId: string,
+    @Query() query: PublishingMetricsQueryDto,
+  ) {
+    return this.service.getSuccessRates(workspaceId, query);
+  }
+
+  @Get('errors')
+  @ApiOperation({ summary: 'Most frequent publish errors and error classes' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  getTopErrors(
+    @Param('workspaceId') workspaceId: string,
+    @Query() query: PublishingErrorsQueryDto,
+  ) {
+    return this.service.getTopErrors(workspaceId, query);
+  }
+
+  @Get('trends')
+  @ApiOperation({
+    summary: 'Publish attempts, success rate and latency over time',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  getTrends(
+    @Param('workspaceId') workspaceId: string,
+    @Query() query: PublishingTrendsQueryDto,
+  ) {
+    return this.service.getTrends(workspaceId, query);
+  }
+}
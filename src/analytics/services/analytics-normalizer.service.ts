@@ -62,6 +62,9 @@ export class AnalyticsNormalizerService {
       impressions: rawData.unified.impressions,
       reach: rawData.unified.reach,
       engagementCount: rawData.unified.engagementCount,
+      ...(rawData.unified.poll && {
+        pollResults: rawData.unified.poll as unknown as Prisma.InputJsonValue,
+      }),
     };
 
     return {
@@ -83,14 +86,16 @@ export class AnalyticsNormalizerService {
   }
 
   /**
-   * Maps your Platform enum to the exact relation keys in your Prisma Schema
+   * Maps your Platform enum to the exact relation keys in your Prisma Schema.
+   * Null when the platform has no specific stats table (SANDBOX).
    */
-  private getPlatformRelationKey(platform: Platform): string {
+  private getPlatformRelationKey(platform: Platform): string | null {
     switch (platform) {
       case 'TWITTER': return 'twitterStats';
       case 'LINKEDIN': return 'linkedInStats';
       case 'FACEBOOK': return 'facebookStats';
       case 'INSTAGRAM': return 'instagramStats';
+      case 'SANDBOX': return null;
       default: throw new Error(`Unsupported platform: ${platform}`);
     }
   }
@@ -37,11 +37,12 @@ export class AnalyticsRepository {
       select: {
         id: true,
         platformPostId: true, // The ID needed for the API (e.g., LinkedIn URN)
+        post: { select: { contentType: true } },
       },
     });
   }
 
-  async saveAccountAnalytics(payload: { baseData: any; specificKey: string; specificData: any }) {
+  async saveAccountAnalytics(payload: { baseData: any; specificKey: string | null; specificData: any }) {
     const { baseData, specificKey, specificData } = payload;
     const dateKey = startOfDay(new Date(baseData.date));
 
@@ -64,19 +65,19 @@ export class AnalyticsRepository {
         ...baseData,
         date: dateKey,
         // E.g., linkedInStats: { create: { demographics: {...} } }
-        [specificKey]: { create: specificData }, 
+        ...(specificKey && { [specificKey]: { create: specificData } }),
       },
       update: {
         ...baseData,
         date: dateKey,
         updatedAt: new Date(),
         // E.g., linkedInStats: { upsert: { create: {...}, update: {...} } }
-        [specificKey]: nestedWrite,
+        ...(specificKey && { [specificKey]: nestedWrite }),
       },
     });
   }
 
-  async savePostSnapshot(payload: { baseData: any; specificKey: string; specificData: any }) {
+  async savePostSnapshot(payload: { baseData: any; specificKey: string | null; specificData: any }) {
     const { baseData, specificKey, specificData } = payload;
     const dateKey = startOfDay(new Date(baseData.day));
 
@@ -97,13 +98,13 @@ export class AnalyticsRepository {
       create: {
         ...baseData,
         day: dateKey,
-        [specificKey]: { create: specificData },
+        ...(specificKey && { [specificKey]: { create: specificData } }),
       },
       update: {
         ...baseData,
         day: dateKey,
         fetchedAt: new Date(),
-        [specificKey]: nestedWrite,
+        ...(specificKey && { [specificKey]: nestedWrite }),
       },
     });
   }
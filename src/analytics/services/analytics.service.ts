@@ -9,11 +9,13 @@ import {
   FetchAccountResult,
   FetchPostResult,
   IAnalyticsProvider,
+  PollResult,
 } from '../interfaces/analytics-provider.interface';
 import { FacebookAnalyticsProvider } from '../providers/facebook-analytics.provider';
 import { InstagramAnalyticsProvider } from '../providers/instagram-analytics.provider';
 import { LinkedInAnalyticsProvider } from '../providers/linkedin.provider';
 import { TwitterAnalyticsProvider } from '../providers/twitter.provider';
+import { SandboxAnalyticsProvider } from '../providers/sandbox-analytics.provider';
 import { ConnectionStatus, PlanTier, Platform } from '@generated/enums';
 import { PrismaService } from '@/prisma/prisma.service';
 import { EncryptionService } from '@/common/utility/encryption.service';
@@ -33,6 +35,7 @@ export class AnalyticsService {
     private readonly twitterProvider: TwitterAnalyticsProvider,
     private readonly facebookProvider: FacebookAnalyticsProvider,
     private readonly instagramProvider: InstagramAnalyticsProvider,
+    private readonly sandboxProvider: SandboxAnalyticsProvider,
     private readonly prisma: PrismaService,
     private readonly encryptionService: EncryptionService,
     private readonly repo: AnalyticsRepository,
@@ -44,6 +47,7 @@ export class AnalyticsService {
       ['TWITTER', twitterProvider],
       ['FACEBOOK', facebookProvider],
       ['INSTAGRAM', instagramProvider],
+      ['SANDBOX', sandboxProvider],
     ]);
   }
 
@@ -88,6 +92,26 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * Poll votes for networks that report them outside post stats.
+   * Empty when the platform has no such lookup.
+   */
+  async fetchPollResults(
+    platform: Platform,
+    externalPostIds: string[],
+    credentials: AuthCredentials,
+  ): Promise<Map<string, PollResult>> {
+    const provider = this.getProvider(platform);
+    if (!provider.getPollResults || !externalPostIds.length) return new Map();
+
+    try {
+      return await provider.getPollResults(externalPostIds, credentials);
+    } catch (error) {
+      this.logger.error(`Failed to fetch poll results for ${platform}`, error);
+      return new Map();
+    }
+  }
+
   /**
    * Fetch detailed analytics for a single social profile
    */
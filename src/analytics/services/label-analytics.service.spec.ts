@@ -0,0 +1,97 @@
+import { LabelAnalyticsService } from './label-analytics.service';
+
+describe('LabelAnalyticsService', () => {
+  const prisma = {
+    postLabel: { findMany: jest.fn() },
+    post: { findMany: jest.fn() },
+  };
+  const service = new LabelAnalyticsService(prisma as any);
+
+  const snapshot = (impressions: number, engagementCount: number) => ({
+    impressions,
+    reach: Math.round(impressions / 2),
+    likes: engagementCount,
+    comments: 0,
+    engagementCount,
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    prisma.postLabel.findMany.mockResolvedValue([
+      { id: 'lbl_a', name: 'Product', color: '#111111' },
+      { id: 'lbl_b', name: 'Hiring', color: '#222222' },
+    ]);
+  });
+
+  it('counts multi-label posts towards each label and buckets unlabelled posts', async () => {
+    prisma.post.findMany.mockResolvedValue([
+      {
+        id: 'p1',
+        labels: [{ id: 'lbl_a' }, { id: 'lbl_b' }],
+        destinations: [
+          { postAnalyticsSnapshots: [snapshot(1000, 50)] },
+          { postAnalyticsSnapshots: [] },
+        ],
+      },
+      {
+        id: 'p2',
+        labels: [{ id: 'lbl_a' }],
+        destinations: [{ postAnalyticsSnapshots: [snapshot(500, 5)] }],
+      },
+      {
+        id: 'p3',
+        labels: [],
+        destinations: [{ postAnalyticsSnapshots: [snapshot(200, 10)] }],
+      },
+    ]);
+
+    const result = await service.getLabelPerformance('ws1', { days: 30 });
+
+    expect(result.labels.map((l) => l.label.id)).toEqual(['lbl_a', 'lbl_b']);
+    expect(result.labels[0]).toEqual(
+      expect.objectContaining({
+        posts: 2,
+        destinations: 3,
+        impressions: 1500,
+        engagement: 55,
+        engagementRate: 3.67,
+        avgEngagementPerPost: 27.5,
+      }),
+    );
+    expect(result.labels[1]).toEqual(
+      expect.objectContaining({ posts: 1, impressions: 1000, engagement: 50 }),
+    );
+    expect(result.unlabelled).toEqual(
+      expect.objectContaining({ posts: 1, impressions: 200, engagement: 10 }),
+    );
+  });
+
+  it('ignores labels outside the filter and skips the unlabelled bucket', async () => {
+    prisma.postLabel.findMany.mockResolvedValue([
+      { id: 'lbl_b', name: 'Hiring', color: '#222222' },
+    ]);
+    prisma.post.findMany.mockResolvedValue([
+      {
+        id: 'p1',
+        labels: [{ id: 'lbl_a' }, { id: 'lbl_b' }],
+        destinations: [{ postAnalyticsSnapshots: [snapshot(100, 4)] }],
+      },
+    ]);
+
+    const result = await service.getLabelPerformance('ws1', {
+      days: 7,
+      labelIds: ['lbl_b'],
+    });
+
+    expect(prisma.post.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          labels: { some: { id: { in: ['lbl_b'] } } },
+        }),
+      }),
+    );
+    expect(result.labels).toHaveLength(1);
+    expect(result.labels[0].engagement).toBe(4);
+    expect(result.unlabelled).toBeNull();
+  });
+});
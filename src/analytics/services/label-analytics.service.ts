@@ -0,0 +1,178 @@
+import { PrismaService } from '@/prisma/prisma.service';
+import { Prisma } from '@generated/client';
+import { Injectable } from '@nestjs/common';
+import { subDays } from 'date-fns';
+import { LabelAnalyticsQueryDto } from '../dtos/label-analytics-query.dto';
+
+type Totals = {
+  posts: Set<string>;
+  destinations: number;
+  impressions: number;
+  reach: number;
+  likes: number;
+  comments: number;
+  engagement: number;
+};
+
+// Bucket key for posts that carry no label at all
+const UNLABELLED = '__unlabelled__';
+
+@Injectable()
+export class LabelAnalyticsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Performance per label for posts published in the window, using the
+   * latest snapshot of each successful destination. A post with several
+   * labels counts towards each of them, so label totals can add up to more
+   * than the workspace total.
+   */
+  async getLabelPerformance(
+    workspaceId: string,
+    query: LabelAnalyticsQueryDto,
+  ) {
+    const end = new Date();
+    const start = subDays(end, query.days);
+
+    const destinationWhere: Prisma.PostDestinationWhereInput = {
+      status: 'SUCCESS',
+      publishedAt: { gte: start, lte: end },
+      ...(query.platform && { profile: { platform: query.platform } }),
+    };
+
+    const [labels, posts] = await Promise.all([
+      this.prisma.postLabel.findMany({
+        where: {
+          workspaceId,
+          ...(query.labelIds?.length && { id: { in: query.labelIds } }),
+        },
+        select: { id: true, name: true, color: true },
+        orderBy: { name: 'asc' },
+      }),
+      this.prisma.post.findMany({
+        where: {
+          workspaceId,
+          destinations: { some: destinationWhere },
+          ...(query.labelIds?.length && {
+            labels: { some: { id: { in: query.labelIds } } },
+          }),
+        },
+        select: {
+          id: true,
+          labels: { select: { id: true } },
+          destinations: {
+            where: destinationWhere,
+            select: {
+              postAnalyticsSnapshots: {
+                orderBy: { day: 'desc' },
+                take: 1,
+                select: {
+                  impressions: true,
+                  reach: true,
+                  likes: true,
+                  comments: true,
+                  engagementCount: true,
+                },
+              },
+            },
+          },
+        },
+      }),
+    ]);
+
+    const buckets = new Map<string, Totals>();
+    const bucketFor = (key: string) => {
+      let bucket = buckets.get(key);
+      if (!bucket) {
+        bucket = this.emptyTotals();
+        buckets.set(key, bucket);
+      }
+      return bucket;
+    };
+
+    const wanted = new Set(labels.map((l) => l.id));
+    for (const post of posts) {
+      const keys = post.labels.length
+        ? post.labels.map((l) => l.id).filter((id) => wanted.has(id))
+        : [UNLABELLED];
+
+      for (const key of keys) {
+        const bucket = bucketFor(key);
+        bucket.posts.add(post.id);
+        for (const dest of post.destinations) {
+          this.addSnapshot(bucket, dest.postAnalyticsSnapshots[0]);
+        }
+      }
+    }
+
+    return {
+      period: { start, end },
+      labels: labels
+        .map((label) => ({
+          label,
+          ...this.summarize(buckets.get(label.id) ?? this.emptyTotals()),
+        }))
+        .sort((a, b) => b.engagement - a.engagement),
+      // Only meaningful when looking at every label
+      unlabelled: query.labelIds?.length
+        ? null
+        : this.summarize(buckets.get(UNLABELLED) ?? this.emptyTotals()),
+    };
+  }
+
+  // ==========================================
+  // HELPERS
+  // ==========================================
+
+  private emptyTotals(): Totals {
+    return {
+      posts: new Set(),
+      destinations: 0,
+      impressions: 0,
+      reach: 0,
+      likes: 0,
+      comments: 0,
+      engagement: 0,
+    };
+  }
+
+  private addSnapshot(
+    totals: Totals,
+    snapshot?: {
+      impressions: number;
+      reach: number;
+      likes: number;
+      comments: number;
+      engagementCount: number;
+    },
+  ) {
+    totals.destinations += 1;
+    if (!snapshot) return;
+
+    totals.impressions += snapshot.impressions || 0;
+    totals.reach += snapshot.reach || 0;
+    totals.likes += snapshot.likes || 0;
+    totals.comments += snapshot.comments || 0;
+    totals.engagement += snapshot.engagementCount || 0;
+  }
+
+  private summarize(totals: Totals) {
+    const posts = totals.posts.size;
+    return {
+      posts,
+      destinations: totals.destinations,
+      impressions: totals.impressions,
+      reach: totals.reach,
+      likes: totals.likes,
+      comments: totals.comments,
+      engagement: totals.engagement,
+      // Percentage with two decimals
+      engagementRate: totals.impressions
+        ? Math.round((totals.engagement / totals.impressions) * 10000) / 100
+        : 0,
+      avgEngagementPerPost: posts
+        ? Math.round((totals.engagement / posts) * 10) / 10
+        : 0,
+    };
+  }
+}
@@ -0,0 +1,250 @@
+import { PrismaService } from '@/prisma/prisma.service';
+import { Platform, Prisma } from '@generated/client';
+import { Injectable } from '@nestjs/common';
+import { subDays } from 'date-fns';
+import {
+  PublishingErrorsQueryDto,
+  PublishingMetricsQueryDto,
+  PublishingTrendsQueryDto,
+} from '../dtos/publishing-metrics-query.dto';
+
+type Bucket = {
+  attempts: number;
+  succeeded: number;
+  failed: number;
+  latencySum: number;
+  latencyCount: number;
+};
+
+@Injectable()
+export class PublishingMetricsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Success rate overall, per platform and per profile for the window.
+   */
+  async getSuccessRates(workspaceId: string, query: PublishingMetricsQueryDto) {
+    const { where, start, end } = this.buildWhere(workspaceId, query);
+
+    const [byPlatformRows, byProfileRows] = await Promise.all([
+      this.prisma.publishingMetric.groupBy({
+        by: ['platform', 'success'],
+        where,
+        _count: { _all: true },
+        _avg: { latencyMs: true },
+      }),
+      this.prisma.publishingMetric.groupBy({
+        by: ['socialProfileId', 'success'],
+        where,
+        _count: { _all: true },
+        _avg: { latencyMs: true },
+      }),
+    ]);
+
+    const overall = this.emptyBucket();
+    const platforms = new Map<Platform, Bucket>();
+    for (const row of byPlatformRows) {
+      const bucket = platforms.get(row.platform) ?? this.emptyBucket();
+      this.addToBucket(bucket, row);
+      this.addToBucket(overall, row);
+      platforms.set(row.platform, bucket);
+    }
+
+    const profiles = new Map<string, Bucket>();
+    for (const row of byProfileRows) {
+      if (!row.socialProfileId) continue;
+      const bucket = profiles.get(row.socialProfileId) ?? this.emptyBucket();
+      this.addToBucket(bucket, row);
+      profiles.set(row.socialProfileId, bucket);
+    }
+
+    const profileInfo = await this.prisma.socialProfile.findMany({
+      where: { id: { in: [...profiles.keys()] } },
+      select: {
+        id: true,
+        platform: true,
+        name: true,
+        username: true,
+        picture: true,
+      },
+    });
+    const infoMap = new Map(profileInfo.map((p) => [p.id, p]));
+
+    return {
+      period: { start, end },
+      overall: this.summarize(overall),
+      byPlatform: [...platforms.entries()]
+        .map(([platform, bucket]) => ({ platform, ...this.summarize(bucket) }))
+        .sort((a, b) => a.successRate - b.successRate),
+      byProfile: [...profiles.entries()]
+        .map(([socialProfileId, bucket]) => ({
+          socialProfileId,
+          profile: infoMap.get(socialProfileId) ?? null,
+          ...this.summarize(bucket),
+        }))
+        .sort((a, b) => a.successRate - b.successRate),
+    };
+  }
+
+  /**
+   * Most frequent failure messages, with their class and when they last happened.
+   */
+  async getTopErrors(workspaceId: string, query: PublishingErrorsQueryDto) {
+    const {
+      where: baseWhere,
+      start,
+      end,
+    } = this.buildWhere(workspaceId, query);
+    const where: Prisma.PublishingMetricWhereInput = {
+      ...baseWhere,
+      success: false,
+    };
+
+    const [messages, classes] = await Promise.all([
+      this.prisma.publishingMetric.groupBy({
+        by: ['errorMessage', 'errorClass', 'platform'],
+        where,
+        _count: { _all: true },
+        _max: { timestamp: true },
+        _min: { timestamp: true },
+        orderBy: { _count: { id: 'desc' } },
+        take: query.limit,
+      }),
+      this.prisma.publishingMetric.groupBy({
+        by: ['errorClass'],
+        where,
+        _count: { _all: true },
+      }),
+    ]);
+
+    return {
+      period: { start, end },
+      byClass: classes
+        .map((c) => ({
+          errorClass: c.errorClass ?? 'UNKNOWN',
+          count: c._count._all,
+        }))
+        .sort((a, b) => b.count - a.count),
+      topErrors: messages.map((m) => ({
+        message: m.errorMessage ?? 'Unknown error',
+        errorClass: m.errorClass ?? 'UNKNOWN',
+        platform: m.platform,
+        count: m._count._all,
+        firstSeenAt: m._min.timestamp,
+        lastSeenAt: m._max.timestamp,
+      })),
+    };
+  }
+
+  /**
+   * Attempts / success rate / latency per day (or week) and platform.
+   */
+  async getTrends(workspaceId: string, query: PublishingTrendsQueryDto) {
+    const end = new Date();
+    const start = subDays(end, query.days);
+    const interval = query.interval === 'week' ? 'week' : 'day';
+
+    const rows = await this.prisma.$queryRaw<
+      {
+        bucket: Date;
+        platform: Platform;
+        attempts: number;
+        succeeded: number;
+        avgLatencyMs: number | null;
+      }[]
+    >`
+      SELECT
+        date_trunc(${interval}, m."timestamp") AS bucket,
+        m.platform AS platform,
+        COUNT(*)::int AS attempts,
+        (COUNT(*) FILTER (WHERE m.success))::int AS succeeded,
+        AVG(m."latencyMs")::int AS "avgLatencyMs"
+      FROM "PublishingMetric" m
+      WHERE m."workspaceId" = ${workspaceId}
+        AND m."timestamp" >= ${start}
+        AND m."timestamp" <= ${end}
+        ${query.platform ? Prisma.sql`AND m.platform::text = ${query.platform}` : Prisma.empty}
+        ${query.socialProfileId ? Prisma.sql`AND m."socialProfileId" = ${query.socialProfileId}` : Prisma.empty}
+      GROUP BY 1, 2
+      ORDER BY 1 ASC, 2 ASC
+    `;
+
+    return {
+      period: { start, end },
+      interval,
+      series: rows.map((r) => ({
+        date: r.bucket.toISOString().slice(0, 10),
+        platform: r.platform,
+        attempts: r.attempts,
+        succeeded: r.succeeded,
+        failed: r.attempts - r.succeeded,
+        successRate: this.rate(r.succeeded, r.attempts),
+        avgLatencyMs: r.avgLatencyMs,
+      })),
+    };
+  }
+
+  // ==========================================
+  // HELPERS
+  // ==========================================
+
+  private buildWhere(workspaceId: string, query: PublishingMetricsQueryDto) {
+    const end = new Date();
+    const start = subDays(end, query.days);
+
+    const where: Prisma.PublishingMetricWhereInput = {
+      workspaceId,
+      timestamp: { gte: start, lte: end },
+      ...(query.platform && { platform: query.platform }),
+      ...(query.socialProfileId && { socialProfileId: query.socialProfileId }),
+    };
+
+    return { where, start, end };
+  }
+
+  private emptyBucket(): Bucket {
+    return {
+      attempts: 0,
+      succeeded: 0,
+      failed: 0,
+      latencySum: 0,
+      latencyCount: 0,
+    };
+  }
+
+  private addToBucket(
+    bucket: Bucket,
+    row: {
+      success: boolean;
+      _count: { _all: number };
+      _avg: { latencyMs: number | null };
+    },
+  ) {
+    const count = row._count._all;
+    bucket.attempts += count;
+    if (row.success) bucket.succeeded += count;
+    else bucket.failed += count;
+
+    if (row._avg.latencyMs !== null) {
+      bucket.latencySum += row._avg.latencyMs * count;
+      bucket.latencyCount += count;
+    }
+  }
+
+  private summarize(bucket: Bucket) {
+    return {
+      attempts: bucket.attempts,
+      succeeded: bucket.succeeded,
+      failed: bucket.failed,
+      successRate: this.rate(bucket.succeeded, bucket.attempts),
+      avgLatencyMs: bucket.latencyCount
+        ? Math.round(bucket.latencySum / bucket.latencyCount)
+        : null,
+    };
+  }
+
+  private rate(part: number, total: number) {
+    // Percentage with one decimal
+    return total ? Math.round((part / total) * 1000) / 10 : 0;
+  }
+}
@@ -39,6 +39,9 @@ import { NotificationsModule } from './notifications/notifications.module';
 import { EventEmitterModule } from '@nestjs/event-emitter';
 import { PollingModule } from './polling/polling.module';
 import { SupportTicketModule } from './support-ticket/support-ticket.module';
+import { TemplatesModule } from './templates/templates.module';
+import { LinksModule } from './links/links.module';
+import { FeedsModule } from './feeds/feeds.module';
 import Redis from 'ioredis';
 
 @Module({
@@ -136,6 +139,12 @@ import Redis from 'ioredis';
     PollingModule,
 
     SupportTicketModule,
+
+    TemplatesModule,
+
+    LinksModule,
+
+    FeedsModule,
   ],
   controllers: [AppController],
   providers: [
@@ -9,6 +9,7 @@ import * as Holidays from 'date-holidays';
 import { CalendarEventDto } from './dtos/calendar-event.dto';
 import { CalendarInclude, GetCalendarQueryDto } from './dtos/get-calendar.dto';
 import { OBSERVANCES } from './observances';
+import { toIdList } from '@/common/utility/query-list.util';
 
 @Injectable()
 export class CalendarService {
@@ -80,6 +81,7 @@ export class CalendarService {
             zone,
             includeDrafts,
             query.platform,
+            toIdList(query.labelIds),
           )
         : Promise.resolve([]),
       includes.includes('campaigns')
@@ -116,6 +118,7 @@ export class CalendarService {
     zone: string,
     includeDrafts: boolean,
     platform?: string,
+    labelIds?: string[],
   ): Promise<CalendarEventDto[]> {
     const nowInZone = DateTime.now().setZone(zone);
     const fallbackDate =
@@ -135,6 +138,9 @@ export class CalendarService {
             },
           }
         : {}),
+      ...(labelIds?.length
+        ? { labels: { some: { id: { in: labelIds } } } }
+        : {}),
       OR: [
         // Scheduled posts within the visible range
         { scheduledAt: { gte: start.toJSDate(), lt: end.toJSDate() } },
@@ -158,6 +164,7 @@ export class CalendarService {
             },
           },
         },
+        labels: { select: { id: true, name: true, color: true } },
       } as any,
       orderBy: [{ scheduledAt: 'asc' }, { createdAt: 'asc' }],
     });
@@ -188,6 +195,7 @@ export class CalendarService {
           scheduledAt: scheduledIso,
           timezone: p.timezone ?? zone,
           campaignId: p.campaignId ?? null,
+          labels: p.labels ?? [],
         },
       } satisfies CalendarEventDto;
     });
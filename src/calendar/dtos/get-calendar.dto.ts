@@ -73,4 +73,13 @@ export class GetCalendarQueryDto {
   @IsOptional()
   @IsString()
   platform?: string;
-}
\ No newline at end of file
+
+  @ApiPropertyOptional({
+    description:
+      'Comma-separated label IDs. Only posts carrying at least one of them are returned.',
+    example: 'lbl_product,lbl_hiring',
+  })
+  @IsOptional()
+  @IsString()
+  labelIds?: string;
+}
@@ -6,6 +6,7 @@ import { UpdateCampaignDto } from './dto/request/update-campaign.dto';
 import { CampaignStatus } from '@generated/enums';
 import { RequireFeature } from '@/common/decorators/require-feature.decorator';
 import { FeatureGuard } from '@/common/guards/feature.guard';
+import { toIdList } from '@/common/utility/query-list.util';
 
 @ApiTags('Campaigns')
 @ApiBearerAuth()
@@ -59,8 +60,13 @@ export class CampaignController {
 
   @Get(':campaignId/posts')
   @ApiOperation({ summary: 'List posts in campaign' })
-  listPosts(@Param('workspaceId') workspaceId: string, @Param('campaignId') campaignId: string) {
-    return this.service.listPosts(workspaceId, campaignId);
+  @ApiQuery({ name: 'labelIds', required: false, description: 'Comma-separated label IDs', example: 'lbl_product' })
+  listPosts(
+    @Param('workspaceId') workspaceId: string,
+    @Param('campaignId') campaignId: string,
+    @Query('labelIds') labelIds?: string,
+  ) {
+    return this.service.listPosts(workspaceId, campaignId, toIdList(labelIds));
   }
 
   @Get(':id/analytics')
@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { CampaignService } from './campaigns.service';
 import { CampaignController } from './campaigns.controller';
+import { LinksModule } from '@/links/links.module';
 
 @Module({
+  imports: [LinksModule],
   controllers: [CampaignController],
   providers: [CampaignService],
 })
@@ -3,10 +3,14 @@ import { PrismaService } from '../prisma/prisma.service';
 import { CreateCampaignDto } from './dto/request/create-campaign.dto';
 import { UpdateCampaignDto } from './dto/request/update-campaign.dto';
 import { PublishStatus } from '@generated/enums';
+import { LinksService } from '@/links/links.service';
 
 @Injectable()
 export class CampaignService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly links: LinksService,
+  ) {}
 
   async create(workspaceId: string, dto: CreateCampaignDto) {
     if (dto.startDate && dto.endDate) {
@@ -156,7 +160,10 @@ async getCampaignAnalytics(workspaceId: string, campaignId: string) {
       }
     }
 
-    return stats;
+    // 5. Tracked short links: clicks we counted ourselves, split by network
+    const linkClicks = await this.links.getCampaignClicks(workspaceId, campaignId);
+
+    return { ...stats, linkClicks };
   }
 
  async get(workspaceId: string, campaignId: string) {
@@ -232,10 +239,14 @@ async getCampaignAnalytics(workspaceId: string, campaignId: string) {
     });
   }
 
-  async listPosts(workspaceId: string, campaignId: string) {
+  async listPosts(workspaceId: string, campaignId: string, labelIds?: string[]) {
     await this.get(workspaceId, campaignId);
     return await this.prisma.post.findMany({
-      where: { workspaceId, campaignId } as any,
+      where: {
+        workspaceId,
+        campaignId,
+        ...(labelIds?.length ? { labels: { some: { id: { in: labelIds } } } } : {}),
+      } as any,
       orderBy: { createdAt: 'desc' },
       include: {
         labels: true,
@@ -0,0 +1,99 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DelayedError } from 'bullmq';
+import { PlatformRateLimiterService } from './platform-rate-limiter.service';
+import { RedisService } from '@/redis/redis.service';
+import { PrismaService } from '@/prisma/prisma.service';
+
+describe('PlatformRateLimiterService', () => {
+  let service: PlatformRateLimiterService;
+  const redis = { eval: jest.fn() };
+  const prisma = {
+    platformRateLimitLog: { create: jest.fn().mockResolvedValue({}) },
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PlatformRateLimiterService,
+        { provide: RedisService, useValue: redis },
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<PlatformRateLimiterService>(
+      PlatformRateLimiterService,
+    );
+  });
+
+  it('uses the platform bucket for the request type and logs the decision', async () => {
+    redis.eval.mockResolvedValue([1, 0]);
+
+    const decision = await service.consume({
+      platform: 'INSTAGRAM',
+      socialProfileId: 'sp_1',
+      requestType: 'publish',
+    });
+
+    expect(decision).toEqual({ allowed: true, retryAfterMs: 0 });
+    // key, now, windowMs, limit, cost
+    const [, , key, , windowMs, limit, cost] = redis.eval.mock.calls[0];
+    expect(key).toBe('ratelimit:INSTAGRAM:sp_1:publish');
+    expect(windowMs).toBe(60 * 60 * 1000);
+    expect(limit).toBe(50);
+    expect(cost).toBe(1);
+    expect(prisma.platformRateLimitLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        platform: 'INSTAGRAM',
+        socialAccountId: 'sp_1',
+        requestType: 'publish',
+        status: 'allowed',
+      }),
+    });
+  });
+
+  it('maps insights onto LinkedIn analytics limits', async () => {
+    redis.eval.mockResolvedValue([1, 0]);
+
+    await service.consume({
+      platform: 'LINKEDIN',
+      socialProfileId: 'sp_2',
+      requestType: 'insights',
+    });
+
+    expect(redis.eval.mock.calls[0][5]).toBe(500);
+  });
+
+  it('fails open when redis errors', async () => {
+    redis.eval.mockRejectedValue(new Error('down'));
+
+    const decision = await service.consume({
+      platform: 'FACEBOOK',
+      socialProfileId: 'sp_3',
+      requestType: 'publish',
+    });
+
+    expect(decision.allowed).toBe(true);
+    expect(prisma.platformRateLimitLog.create).not.toHaveBeenCalled();
+  });
+
+  it('moves a blocked job to delayed instead of failing it', async () => {
+    redis.eval.mockResolvedValue([0, 30_000]);
+    const job = { moveToDelayed: jest.fn() } as any;
+
+    await expect(
+      service.deferJobIfLimited(job, 'token', {
+        platform: 'INSTAGRAM',
+        socialProfileId: 'sp_1',
+        requestType: 'dm',
+      }),
+    ).rejects.toBeInstanceOf(DelayedError);
+
+    const [runAt, token] = job.moveToDelayed.mock.calls[0];
+    expect(runAt).toBeGreaterThanOrEqual(Date.now() + 25_000);
+    expect(token).toBe('token');
+    expect(prisma.platformRateLimitLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ status: 'blocked' }),
+    });
+  });
+});
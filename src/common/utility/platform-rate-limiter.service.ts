@@ -0,0 +1,170 @@
+import { PrismaService } from '@/prisma/prisma.service';
+import { RedisService } from '@/redis/redis.service';
+import { Platform } from '@generated/enums';
+import { Injectable, Logger } from '@nestjs/common';
+import { DelayedError, Job } from 'bullmq';
+import { PLATFORM_LIMITS } from './platform-limits.config';
+
+export type RateLimitedRequest = 'publish' | 'dm' | 'insights';
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  retryAfterMs: number;
+};
+
+type LimitRule = { limit: number; window: number };
+
+/**
+ * Which PLATFORM_LIMITS bucket a request type draws from, per platform.
+ * Falls back to the platform's `general` bucket when there is no specific one.
+ */
+const BUCKET_ALIASES: Record<RateLimitedRequest, string[]> = {
+  publish: ['publish'],
+  dm: ['dm'],
+  insights: ['insights', 'analytics', 'fetchTweets'],
+};
+
+/**
+ * Sliding window on a sorted set: one member per consumed unit, scored by time.
+ * Returns { 1, 0 } when allowed, { 0, msUntilRoom } when blocked.
+ */
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4])
+local nonce = ARGV[5]
+
+redis.call('ZREMRANGEBYSCORE', key, 0, now - window)
+local used = redis.call('ZCARD', key)
+
+if used + cost <= limit then
+  for i = 1, cost do
+    redis.call('ZADD', key, now, nonce .. ':' .. i)
+  end
+  redis.call('PEXPIRE', key, window)
+  return { 1, 0 }
+end
+
+local index = math.max(used + cost - limit - 1, 0)
+local entry = redis.call('ZRANGE', key, index, index, 'WITHSCORES')
+local retry = window
+if entry[2] then retry = tonumber(entry[2]) + window - now end
+return { 0, retry }
+`;
+
+@Injectable()
+export class PlatformRateLimiterService {
+  private readonly logger = new Logger(PlatformRateLimiterService.name);
+
+  constructor(
+    private readonly redis: RedisService,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  /**
+   * Tries to take `cost` units from the profile's bucket for this request type.
+   * Fails open if Redis is unavailable: a missed limit is cheaper than a stuck queue.
+   */
+  async consume(args: {
+    platform: Platform;
+    socialProfileId: string;
+    requestType: RateLimitedRequest;
+    cost?: number;
+  }): Promise<RateLimitDecision> {
+    const { platform, socialProfileId, requestType } = args;
+    const rule = this.resolveRule(platform, requestType);
+    if (!rule) return { allowed: true, retryAfterMs: 0 };
+
+    const cost = Math.max(1, Math.min(args.cost ?? 1, rule.limit));
+    const windowMs = rule.window * 1000;
+    const now = Date.now();
+    const key = `ratelimit:${platform}:${socialProfileId}:${requestType}`;
+
+    let decision: RateLimitDecision;
+    try {
+      const [allowed, retryAfterMs] = (await this.redis.eval(
+        SLIDING_WINDOW_SCRIPT,
+        1,
+        key,
+        now,
+        windowMs,
+        rule.limit,
+        cost,
+        `${now}-${Math.random().toString(36).slice(2, 10)}`,
+      )) as [number, number];
+
+      decision = {
+        allowed: allowed === 1,
+        retryAfterMs: Math.max(Number(retryAfterMs) || 0, 0),
+      };
+    } catch (err: any) {
+      this.logger.warn(
+        `Rate limiter unavailable for ${key}, allowing request: ${err?.message ?? err}`,
+      );
+      return { allowed: true, retryAfterMs: 0 };
+    }
+
+    // Audit trail is best-effort; never block publishing on it
+    this.prisma.platformRateLimitLog
+      .create({
+        data: {
+          platform,
+          socialAccountId: socialProfileId,
+          requestType,
+          windowStart: new Date(now - windowMs),
+          windowEnd: new Date(now),
+          status: decision.allowed ? 'allowed' : 'blocked',
+        },
+      })
+      .catch((err) =>
+        this.logger.warn(`Failed to log rate limit decision: ${err?.message}`),
+      );
+
+    if (!decision.allowed) {
+      this.logger.warn(
+        `Rate limit hit for ${key}: retry in ${Math.ceil(decision.retryAfterMs / 1000)}s`,
+      );
+    }
+
+    return decision;
+  }
+
+  /**
+   * For BullMQ processors: if the request is over the limit, push the job back
+   * to delayed (without burning an attempt) and stop the current run.
+   */
+  async deferJobIfLimited(
+    job: Job,
+    token: string | undefined,
+    args: Parameters<PlatformRateLimiterService['consume']>[0],
+  ) {
+    const decision = await this.consume(args);
+    if (decision.allowed) return;
+
+    await this.deferJob(job, token, decision.retryAfterMs);
+  }
+
+  async deferJob(job: Job, token: string | undefined, delayMs: number) {
+    // Small jitter so a burst of blocked jobs doesn't wake up at the same instant
+    const jitter = Math.floor(Math.random() * 5000);
+    await job.moveToDelayed(Date.now() + delayMs + jitter, token);
+    throw new DelayedError();
+  }
+
+  private resolveRule(
+    platform: Platform,
+    requestType: RateLimitedRequest,
+  ): LimitRule | null {
+    const limits = PLATFORM_LIMITS[
+      platform.toLowerCase() as keyof typeof PLATFORM_LIMITS
+    ] as Record<string, LimitRule> | undefined;
+    if (!limits) return null;
+
+    for (const bucket of BUCKET_ALIASES[requestType]) {
+      if (limits[bucket]) return limits[bucket];
+    }
+    return limits.general ?? null;
+  }
+}
@@ -0,0 +1,21 @@
+import { PostStatus, PublishStatus } from '@generated/enums';
+
+/**
+ * Post status implied by its destinations. Null while any destination is
+ * still waiting or in flight. Cancelled destinations don't count either way;
+ * if every destination was cancelled nothing will go out, so it's a draft again.
+ * Deleted destinations were published before someone removed them on the network.
+ */
+export function settledPostStatus(
+  counts: Partial<Record<PublishStatus, number>>,
+): PostStatus | null {
+  const success = (counts.SUCCESS ?? 0) + (counts.DELETED ?? 0);
+  const failed = counts.FAILED ?? 0;
+  const remaining = (counts.SCHEDULED ?? 0) + (counts.PUBLISHING ?? 0);
+
+  if (remaining > 0) return null;
+  if (success > 0 && failed === 0) return 'PUBLISHED';
+  if (success > 0 && failed > 0) return 'PARTIAL';
+  if (failed > 0) return 'FAILED';
+  return 'DRAFT';
+}
@@ -0,0 +1,52 @@
+import {
+  assertPublicUrl,
+  isPublicAddress,
+  PRIVATE_ADDRESS_MESSAGE,
+  publicOnlyLookup,
+} from './public-url.util';
+
+describe('public-url.util', () => {
+  it('tells public addresses from internal ones', () => {
+    for (const ip of ['93.184.216.34', '2606:4700::1111']) {
+      expect(isPublicAddress(ip)).toBe(true);
+    }
+    for (const ip of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.20.0.5',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:10.0.0.1',
+    ]) {
+      expect(isPublicAddress(ip)).toBe(false);
+    }
+  });
+
+  it('rejects non-http schemes and private IP literals, including redirect targets', () => {
+    expect(assertPublicUrl('https://blog.example.com/feed').hostname).toBe(
+      'blog.example.com',
+    );
+    expect(() => assertPublicUrl('file:///etc/passwd')).toThrow(
+      'Only http and https URLs are supported',
+    );
+    expect(() =>
+      assertPublicUrl('http://169.254.169.254/latest/meta-data/'),
+    ).toThrow(PRIVATE_ADDRESS_MESSAGE);
+    expect(() => assertPublicUrl('http://[::1]:8080/')).toThrow(
+      PRIVATE_ADDRESS_MESSAGE,
+    );
+  });
+
+  it('refuses hostnames that resolve to a private address', async () => {
+    const err = await new Promise<NodeJS.ErrnoException | null>((resolve) =>
+      publicOnlyLookup('localhost', {}, (e) => resolve(e)),
+    );
+
+    expect(err?.message).toBe(PRIVATE_ADDRESS_MESSAGE);
+  });
+});
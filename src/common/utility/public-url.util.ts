@@ -0,0 +1,101 @@
+import { lookup as dnsLookup, LookupAddress } from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+
+/**
+ * Guards for fetching URLs that users give us (feeds, imports), so they
+ * can't be pointed at our own network: loopback, private ranges, link-local
+ * (cloud metadata at 169.254.169.254) and the like.
+ */
+
+export const PRIVATE_ADDRESS_MESSAGE =
+  'The URL points to a private or internal address';
+
+const BLOCKED = new BlockList();
+(
+  [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10], // carrier-grade NAT
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 4], // multicast + reserved
+  ] as const
+).forEach(([net, prefix]) => BLOCKED.addSubnet(net, prefix, 'ipv4'));
+(
+  [
+    ['::', 127], // unspecified + loopback
+    ['64:ff9b::', 96], // NAT64 onto IPv4
+    ['fc00::', 7], // unique local
+    ['fe80::', 10],
+    ['ff00::', 8],
+  ] as const
+).forEach(([net, prefix]) => BLOCKED.addSubnet(net, prefix, 'ipv6'));
+
+export function isPublicAddress(address: string) {
+  // ::ffff:10.0.0.1 reaches 10.0.0.1
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (mapped) return isPublicAddress(mapped);
+
+  const family = isIP(address);
+  if (!family) return false;
+  return !BLOCKED.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * http(s) only, and no private IP literals. Hostnames are checked when they
+ * resolve, by the agents below.
+ */
+export function assertPublicUrl(url: string) {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('The URL is not valid');
+  }
+
+  if (!['http:', 'https:'].includes(parsed.protocol)) {
+    throw new Error('Only http and https URLs are supported');
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && !isPublicAddress(host)) {
+    throw new Error(PRIVATE_ADDRESS_MESSAGE);
+  }
+
+  return parsed;
+}
+
+/**
+ * dns.lookup that refuses hostnames resolving to any non-public address.
+ * Used by the socket itself, so the address checked is the one connected to.
+ */
+export const publicOnlyLookup: LookupFunction = (
+  hostname,
+  options,
+  callback,
+) => {
+  dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, '', 0);
+
+    const list = addresses as LookupAddress[];
+    if (!list.length || list.some((a) => !isPublicAddress(a.address))) {
+      return callback(
+        Object.assign(new Error(PRIVATE_ADDRESS_MESSAGE), { code: 'EPRIVATE' }),
+        '',
+        0,
+      );
+    }
+
+    if (options.all) return callback(null, list);
+    callback(null, list[0].address, list[0].family);
+  });
+};
+
+export const publicHttpAgent = new http.Agent({ lookup: publicOnlyLookup });
+export const publicHttpsAgent = new https.Agent({ lookup: publicOnlyLookup });
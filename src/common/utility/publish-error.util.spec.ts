@@ -0,0 +1,105 @@
+import {
+  BadRequestException,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import {
+  classifyPublishError,
+  decidePublishRetry,
+  isNotFoundError,
+  MAX_AUTO_PUBLISH_RETRIES,
+} from './publish-error.util';
+
+describe('classifyPublishError', () => {
+  it('uses the HTTP status from axios errors', () => {
+    expect(classifyPublishError({ response: { status: 429 } })).toBe(
+      'RATE_LIMIT',
+    );
+    expect(classifyPublishError({ response: { status: 401 } })).toBe('AUTH');
+    expect(classifyPublishError({ response: { status: 403 } })).toBe(
+      'PERMISSION',
+    );
+  });
+
+  it('reads the message of provider-wrapped errors', () => {
+    expect(
+      classifyPublishError(
+        new InternalServerErrorException(
+          'Facebook Failed: Error validating access token: Session has expired',
+        ),
+      ),
+    ).toBe('AUTH');
+    expect(
+      classifyPublishError(
+        new InternalServerErrorException('LinkedIn Video Upload Failed'),
+      ),
+    ).toBe('MEDIA');
+    expect(
+      classifyPublishError(
+        new InternalServerErrorException('Instagram Failed: something odd'),
+      ),
+    ).toBe('PLATFORM');
+  });
+
+  it('treats our own request checks as validation errors', () => {
+    expect(
+      classifyPublishError(new BadRequestException('Page ID required')),
+    ).toBe('VALIDATION');
+  });
+
+  it('detects network failures by error code', () => {
+    expect(classifyPublishError({ code: 'ECONNRESET', message: 'x' })).toBe(
+      'NETWORK',
+    );
+  });
+});
+
+describe('decidePublishRetry', () => {
+  it('backs off transient errors, then gives up', () => {
+    expect(decidePublishRetry('NETWORK', 1)).toEqual({
+      action: 'retry',
+      delayMs: 30_000,
+    });
+    expect(decidePublishRetry('RATE_LIMIT', 2)).toEqual({
+      action: 'retry',
+      delayMs: 120_000,
+    });
+    expect(
+      decidePublishRetry('PLATFORM', MAX_AUTO_PUBLISH_RETRIES + 1),
+    ).toEqual({ action: 'fail' });
+  });
+
+  it('dead-letters auth and permission errors straight away', () => {
+    expect(decidePublishRetry('AUTH', 1)).toEqual({ action: 'dead-letter' });
+    expect(decidePublishRetry('PERMISSION', 1)).toEqual({
+      action: 'dead-letter',
+    });
+  });
+
+  it('does not retry content problems', () => {
+    expect(decidePublishRetry('VALIDATION', 1)).toEqual({ action: 'fail' });
+    expect(decidePublishRetry('MEDIA', 1)).toEqual({ action: 'fail' });
+  });
+});
+
+describe('isNotFoundError', () => {
+  it('recognises 404s and Graph API missing-object errors', () => {
+    expect(isNotFoundError({ response: { status: 404 } })).toBe(true);
+    expect(
+      isNotFoundError({
+        response: {
+          status: 400,
+          data: { error: { code: 100, error_subcode: 33 } },
+        },
+      }),
+    ).toBe(true);
+  });
+
+  it('does not treat auth or other Graph errors as missing', () => {
+    expect(isNotFoundError({ response: { status: 401 } })).toBe(false);
+    expect(
+      isNotFoundError({
+        response: { status: 400, data: { error: { code: 190 } } },
+      }),
+    ).toBe(false);
+  });
+});
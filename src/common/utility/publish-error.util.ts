@@ -0,0 +1,146 @@
+import { PublishErrorClass } from '@generated/enums';
+
+/**
+ * Buckets a publish failure into a coarse class for metrics and retry decisions.
+ * Providers mostly wrap platform errors in InternalServerErrorException with the
+ * original message, so this leans on HTTP status when present and message text otherwise.
+ */
+export function classifyPublishError(error: any): PublishErrorClass {
+  const status = extractStatus(error);
+  const message = String(
+    error?.response?.data?.error?.message ??
+      error?.response?.data?.message ??
+      error?.message ??
+      error ??
+      '',
+  ).toLowerCase();
+  const code = String(error?.code ?? error?.cause?.code ?? '');
+
+  if (
+    status === 429 ||
+    /rate limit|too many requests|\(#(4|17|32|613)\)/.test(message)
+  ) {
+    return PublishErrorClass.RATE_LIMIT;
+  }
+
+  if (
+    status === 401 ||
+    /access token|token (has )?expired|invalid token|oauth|unauthori[sz]ed|missing .*credentials|session has been invalidated/.test(
+      message,
+    )
+  ) {
+    return PublishErrorClass.AUTH;
+  }
+
+  if (
+    status === 403 ||
+    /permission|forbidden|not authori[sz]ed|\(#(10|200|190)\)|scope/.test(
+      message,
+    )
+  ) {
+    return PublishErrorClass.PERMISSION;
+  }
+
+  if (
+    [
+      'ECONNRESET',
+      'ETIMEDOUT',
+      'ECONNREFUSED',
+      'ENOTFOUND',
+      'EAI_AGAIN',
+      'ECONNABORTED',
+    ].includes(code) ||
+    /timeout|timed out|socket hang up|network error/.test(message)
+  ) {
+    return PublishErrorClass.NETWORK;
+  }
+
+  if (
+    /upload|media|video|image|container|transcod|aspect ratio|thumbnail/.test(
+      message,
+    )
+  ) {
+    return PublishErrorClass.MEDIA;
+  }
+
+  if (
+    status === 400 ||
+    status === 422 ||
+    /requires|must |cannot |empty|too long|exceeds/.test(message)
+  ) {
+    return PublishErrorClass.VALIDATION;
+  }
+
+  if (status && status >= 500) {
+    return PublishErrorClass.PLATFORM;
+  }
+
+  return PublishErrorClass.UNKNOWN;
+}
+
+/**
+ * The network says the object doesn't exist (deleted, or never did), as
+ * opposed to an auth or transient failure. Graph API reports this as a 400
+ * with code 100 / subcode 33 rather than a 404.
+ */
+export function isNotFoundError(error: any): boolean {
+  if (extractStatus(error) === 404) return true;
+
+  const graph = error?.response?.data?.error;
+  return graph?.code === 100 && graph?.error_subcode === 33;
+}
+
+function extractStatus(error: any): number | undefined {
+  const candidates = [
+    error?.response?.status,
+    error?.status,
+    error?.statusCode,
+    error?.code,
+  ];
+  for (const c of candidates) {
+    if (typeof c === 'number' && c >= 100 && c < 600) return c;
+  }
+  return undefined;
+}
+
+/** Worth retrying on its own after a pause. */
+const TRANSIENT_CLASSES: PublishErrorClass[] = [
+  PublishErrorClass.RATE_LIMIT,
+  PublishErrorClass.NETWORK,
+  PublishErrorClass.PLATFORM,
+  PublishErrorClass.UNKNOWN,
+];
+
+/** Retrying can't help until someone reconnects the account or fixes its role. */
+const DEAD_LETTER_CLASSES: PublishErrorClass[] = [
+  PublishErrorClass.AUTH,
+  PublishErrorClass.PERMISSION,
+];
+
+export const MAX_AUTO_PUBLISH_RETRIES = 3;
+
+export type PublishRetryDecision =
+  | { action: 'retry'; delayMs: number }
+  | { action: 'dead-letter' }
+  | { action: 'fail' };
+
+/**
+ * What to do with a destination after its `attempts`-th failed attempt.
+ * Transient errors back off 30s, 2m, 8m; validation and media errors need an edit.
+ */
+export function decidePublishRetry(
+  errorClass: PublishErrorClass,
+  attempts: number,
+): PublishRetryDecision {
+  if (DEAD_LETTER_CLASSES.includes(errorClass))
+    return { action: 'dead-letter' };
+
+  if (
+    TRANSIENT_CLASSES.includes(errorClass) &&
+    attempts <= MAX_AUTO_PUBLISH_RETRIES
+  ) {
+    return { action: 'retry', delayMs: 30_000 * 4 ** (attempts - 1) };
+  }
+
+  return { action: 'fail' };
+}
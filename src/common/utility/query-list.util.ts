@@ -0,0 +1,10 @@
+/**
+ * Query-string lists arrive as `a,b`, `?x=a&x=b` or a single value.
+ * Normalizes all three to a trimmed array, for use in a DTO @Transform.
+ */
+export function toIdList(value: unknown): string[] | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+
+  const parts = Array.isArray(value) ? value : String(value).split(',');
+  return parts.map((v) => String(v).trim()).filter(Boolean);
+}
@@ -0,0 +1,54 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Shared helpers for the SANDBOX platform. Everything the simulated network
+ * returns is derived from IDs and dates, so repeated syncs agree with each
+ * other and tests can assert exact numbers.
+ */
+
+export const SANDBOX_POST_URL = 'https://sandbox.rooli.app/posts';
+
+// Fake audience used for inbound DMs and comments
+export const SANDBOX_AUDIENCE = [
+  { id: 'sbx_user_ada', name: 'Ada Obi' },
+  { id: 'sbx_user_ben', name: 'Ben Carter' },
+  { id: 'sbx_user_chioma', name: 'Chioma Eze' },
+  { id: 'sbx_user_diego', name: 'Diego Alvarez' },
+  { id: 'sbx_user_emma', name: 'Emma Schultz' },
+  { id: 'sbx_user_farah', name: 'Farah Khan' },
+] as const;
+
+/** Stable value in [0, 1) for the given parts. */
+export function sandboxRandom(...parts: (string | number)[]) {
+  const digest = createHash('sha256').update(parts.join('|')).digest();
+  return digest.readUInt32BE(0) / 0x1_0000_0000;
+}
+
+/** Stable integer in [min, max] for the given parts. */
+export function sandboxInt(
+  min: number,
+  max: number,
+  ...parts: (string | number)[]
+) {
+  return min + Math.floor(sandboxRandom(...parts) * (max - min + 1));
+}
+
+export function sandboxPick<T>(
+  items: readonly T[],
+  ...parts: (string | number)[]
+) {
+  return items[sandboxInt(0, items.length - 1, ...parts)];
+}
+
+/**
+ * Post IDs carry their publish time, so analytics can age a post without
+ * a lookup: `sbx_<base36 ms>_<random>`.
+ */
+export function sandboxPostId(publishedAt = new Date()) {
+  return `sbx_${publishedAt.getTime().toString(36)}_${randomBytes(4).toString('hex')}`;
+}
+
+export function sandboxPublishedAt(postId: string): Date | null {
+  const ms = parseInt(postId.split('_')[1] ?? '', 36);
+  return Number.isFinite(ms) ? new Date(ms) : null;
+}
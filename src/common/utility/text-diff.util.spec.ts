@@ -0,0 +1,30 @@
+import { diffWords } from './text-diff.util';
+
+describe('diffWords', () => {
+  it('marks changed words and keeps the rest equal', () => {
+    expect(diffWords('Launch day is here', 'Launch week is here')).toEqual([
+      { op: 'equal', text: 'Launch ' },
+      { op: 'delete', text: 'day' },
+      { op: 'insert', text: 'week' },
+      { op: 'equal', text: ' is here' },
+    ]);
+  });
+
+  it('rebuilds both sides from the segments', () => {
+    const before = 'Old copy\nwith two lines';
+    const after = 'New copy\nwith three lines #launch';
+    const segments = diffWords(before, after);
+
+    const join = (skip: string) =>
+      segments
+        .filter((s) => s.op !== skip)
+        .map((s) => s.text)
+        .join('');
+    expect(join('insert')).toBe(before);
+    expect(join('delete')).toBe(after);
+  });
+
+  it('returns nothing for two empty strings', () => {
+    expect(diffWords('', '')).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+export type DiffSegment = {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+};
+
+// Above this many token pairs the LCS table gets too big; fall back to a plain replace
+const MAX_CELLS = 4_000_000;
+
+/**
+ * Word-level diff (whitespace is kept as its own token so the segments join
+ * back into the original strings). Adjacent segments with the same op are merged.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before ?? '');
+  const b = tokenize(after ?? '');
+
+  if (a.length * b.length > MAX_CELLS) {
+    return merge([
+      { op: 'delete', text: before ?? '' },
+      { op: 'insert', text: after ?? '' },
+    ]);
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: Uint32Array[] = Array.from(
+    { length: a.length + 1 },
+    () => new Uint32Array(b.length + 1),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      out.push({ op: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      out.push({ op: 'delete', text: a[i++] });
+    } else {
+      out.push({ op: 'insert', text: b[j++] });
+    }
+  }
+  while (i < a.length) out.push({ op: 'delete', text: a[i++] });
+  while (j < b.length) out.push({ op: 'insert', text: b[j++] });
+
+  return merge(out);
+}
+
+function tokenize(text: string) {
+  return text.split(/(\s+)/).filter((t) => t.length > 0);
+}
+
+function merge(segments: DiffSegment[]) {
+  const out: DiffSegment[] = [];
+  for (const s of segments) {
+    if (!s.text) continue;
+    const last = out[out.length - 1];
+    if (last && last.op === s.op) last.text += s.text;
+    else out.push({ ...s });
+  }
+  return out;
+}
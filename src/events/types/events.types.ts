@@ -11,6 +11,8 @@ export type DomainEventName =
   | 'publishing.post.published'
   | 'publishing.post.failed'
   | 'publishing.post.declined'
+  | 'publishing.post.removed'
+  | 'publishing.post.edited'
   | 'ticket.created'
   | 'ticket.comment.added'
   | 'ticket.updated'
@@ -117,12 +119,34 @@ export type DomainEventPayloadMap = {
     workspaceId: string;
     postId: string;
     postDestinationId?: string;
+    approvalId?: string;
     platform: string;
     profileName: string;
     snippet: string;
     reason: string;
   };
 
+  // Found missing on the network by reconciliation (deleted outside Rooli)
+  'publishing.post.removed': {
+    workspaceId: string;
+    postId: string;
+    postDestinationId: string;
+    platform: string;
+    profileName: string;
+    snippet: string;
+    missingSince: Date;
+  };
+
+  // Text changed on the network since the last reconciliation
+  'publishing.post.edited': {
+    workspaceId: string;
+    postId: string;
+    postDestinationId: string;
+    platform: string;
+    profileName: string;
+    snippet: string;
+  };
+
   'notification.created': {
     workspaceId: string;
     memberId: string;
@@ -0,0 +1,117 @@
+import { PaginationDto } from '@/common/dtos/pagination.dto';
+import { FeedItemStatus, FeedPostMode } from '@generated/enums';
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  OmitType,
+  PartialType,
+} from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class CreateFeedDto {
+  @ApiProperty({
+    description: 'RSS or Atom feed URL',
+    example: 'https://blog.example.com/feed.xml',
+  })
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  url: string;
+
+  @ApiPropertyOptional({
+    description: "Display name. Defaults to the feed's own title.",
+    example: 'Company blog',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  title?: string;
+
+  @ApiProperty({
+    description: 'Profiles every new item is posted to',
+    example: ['profile_linkedin_123', 'profile_x_456'],
+    type: [String],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  socialProfileIds: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Post text. Placeholders: {{title}}, {{link}}, {{summary}}, {{author}} and {{caption}} (the AI caption when useAi is on, otherwise the summary).',
+    example: '📰 {{title}}\n\n{{summary}}\n\n{{link}}',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(3000)
+  template?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Write a caption per platform from the article with AI repurposing (Business and Rocket plans). Falls back to the summary if generation fails.',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  useAi?: boolean;
+
+  @ApiPropertyOptional({
+    enum: FeedPostMode,
+    default: FeedPostMode.DRAFT,
+    description:
+      'DRAFT leaves new items for review, QUEUE schedules them into the next free queue slots.',
+  })
+  @IsOptional()
+  @IsEnum(FeedPostMode)
+  mode?: FeedPostMode;
+
+  @ApiPropertyOptional({
+    description: 'Most items turned into posts per poll; the rest are skipped',
+    default: 3,
+    minimum: 1,
+    maximum: 10,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  maxItemsPerPoll?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Also post the items already in the feed. By default only items published after subscribing are posted.',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  includeExisting?: boolean;
+}
+
+export class UpdateFeedDto extends PartialType(
+  OmitType(CreateFeedDto, ['url', 'includeExisting'] as const),
+) {
+  @ApiPropertyOptional({ description: 'Pause or resume polling' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class GetFeedItemsDto extends PaginationDto {
+  @ApiPropertyOptional({ enum: FeedItemStatus })
+  @IsOptional()
+  @IsEnum(FeedItemStatus)
+  status?: FeedItemStatus;
+}
@@ -0,0 +1,81 @@
+import { parseFeed, renderFeedTemplate } from './feed-parser.util';
+
+describe('parseFeed', () => {
+  it('reads RSS items newest first and strips HTML from descriptions', () => {
+    const feed = parseFeed(`<?xml version="1.0"?>
+      <rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/">
+        <channel>
+          <title>Rooli Blog</title>
+          <item>
+            <title>Older post</title>
+            <link>https://blog.example.com/older</link>
+            <pubDate>Mon, 02 Mar 2026 09:00:00 GMT</pubDate>
+          </item>
+          <item>
+            <title>Newer post</title>
+            <link>https://blog.example.com/newer</link>
+            <guid isPermaLink="false">post-42</guid>
+            <description><![CDATA[<p>Big <b>news</b> today</p>]]></description>
+            <dc:creator>Ada</dc:creator>
+            <pubDate>Tue, 03 Mar 2026 09:00:00 GMT</pubDate>
+          </item>
+        </channel>
+      </rss>`);
+
+    expect(feed.title).toBe('Rooli Blog');
+    expect(feed.items.map((i) => i.guid)).toEqual([
+      'post-42',
+      'https://blog.example.com/older',
+    ]);
+    expect(feed.items[0]).toMatchObject({
+      title: 'Newer post',
+      link: 'https://blog.example.com/newer',
+      summary: 'Big news today',
+      author: 'Ada',
+    });
+  });
+
+  it('reads Atom entries using the alternate link', () => {
+    const feed = parseFeed(`<?xml version="1.0"?>
+      <feed xmlns="http://www.w3.org/2005/Atom">
+        <title>Changelog</title>
+        <entry>
+          <id>tag:example.com,2026:1</id>
+          <title>v2 is out</title>
+          <link rel="self" href="https://example.com/entries/1.xml"/>
+          <link rel="alternate" href="https://example.com/v2"/>
+          <summary>Faster and smaller</summary>
+          <author><name>Team</name></author>
+          <updated>2026-03-01T10:00:00Z</updated>
+        </entry>
+      </feed>`);
+
+    expect(feed.title).toBe('Changelog');
+    expect(feed.items).toEqual([
+      {
+        guid: 'tag:example.com,2026:1',
+        title: 'v2 is out',
+        link: 'https://example.com/v2',
+        summary: 'Faster and smaller',
+        author: 'Team',
+        publishedAt: new Date('2026-03-01T10:00:00Z'),
+      },
+    ]);
+  });
+
+  it('rejects documents that are not feeds', () => {
+    expect(() => parseFeed('<html><body>Hi</body></html>')).toThrow();
+  });
+});
+
+describe('renderFeedTemplate', () => {
+  it('fills placeholders and drops the blank lines of empty ones', () => {
+    expect(
+      renderFeedTemplate('{{title}}\n\n{{summary}}\n\n{{link}}', {
+        title: 'Hello',
+        summary: null,
+        link: 'https://x.co',
+      }),
+    ).toBe('Hello\n\nhttps://x.co');
+  });
+});
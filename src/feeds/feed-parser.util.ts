@@ -0,0 +1,149 @@
+import * as cheerio from 'cheerio';
+import type { Cheerio } from 'cheerio';
+
+export type ParsedFeedItem = {
+  guid: string;
+  title: string | null;
+  link: string | null;
+  summary: string | null;
+  author: string | null;
+  publishedAt: Date | null;
+};
+
+export type ParsedFeed = {
+  title: string | null;
+  items: ParsedFeedItem[];
+};
+
+type Nodes = Cheerio<any>;
+
+const SUMMARY_MAX = 500;
+
+/**
+ * Reads RSS 2.0, RSS 1.0 (RDF) and Atom documents. Items come back newest
+ * first; ones without a GUID, link or title are dropped since they can't be
+ * de-duplicated.
+ */
+export function parseFeed(xml: string): ParsedFeed {
+  const $ = cheerio.load(xml, { xmlMode: true });
+
+  const atom = $('feed > entry');
+  const isAtom = atom.length > 0;
+  const nodes = isAtom ? atom : $('item');
+
+  if (!nodes.length && !$('rss, rdf\\:RDF, feed').length) {
+    throw new Error('Not an RSS or Atom feed');
+  }
+
+  const items: ParsedFeedItem[] = [];
+  nodes.each((_, el) => {
+    const item = isAtom ? readAtomEntry($(el)) : readRssItem($(el));
+    if (item) items.push(item);
+  });
+
+  // Stable sort: undated items sink to the end in feed order
+  items.sort(
+    (a, b) => (b.publishedAt?.getTime() ?? 0) - (a.publishedAt?.getTime() ?? 0),
+  );
+
+  const title = isAtom
+    ? text($('feed > title').first())
+    : text($('channel > title').first());
+
+  return { title, items };
+}
+
+/** Fills {{placeholders}}; unknown ones are removed. */
+export function renderFeedTemplate(
+  template: string,
+  vars: Record<string, string | null | undefined>,
+) {
+  return template
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => vars[key] ?? '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function readRssItem(el: Nodes): ParsedFeedItem | null {
+  const link = text(el.children('link').first()) ?? attr(el, 'rdf:about');
+  const title = text(el.children('title').first());
+  const description =
+    text(el.children('description').first()) ??
+    text(el.children('content\\:encoded').first());
+
+  const guid = text(el.children('guid').first()) ?? link ?? title;
+  if (!guid) return null;
+
+  return {
+    guid,
+    title: title ? stripHtml(title) : null,
+    link,
+    summary: summarize(description),
+    author:
+      text(el.children('dc\\:creator').first()) ??
+      text(el.children('author').first()),
+    publishedAt: toDate(
+      text(el.children('pubDate').first()) ??
+        text(el.children('dc\\:date').first()),
+    ),
+  };
+}
+
+function readAtomEntry(el: Nodes): ParsedFeedItem | null {
+  const links = el.children('link');
+  const alternate = links.filter(
+    (_, l) => !l.attribs?.rel || l.attribs.rel === 'alternate',
+  );
+  const link =
+    (alternate.first().attr('href') ?? links.first().attr('href'))?.trim() ||
+    null;
+  const title = text(el.children('title').first());
+
+  const guid = text(el.children('id').first()) ?? link ?? title;
+  if (!guid) return null;
+
+  return {
+    guid,
+    title: title ? stripHtml(title) : null,
+    link,
+    summary: summarize(
+      text(el.children('summary').first()) ??
+        text(el.children('content').first()),
+    ),
+    author: text(el.children('author').children('name').first()),
+    publishedAt: toDate(
+      text(el.children('published').first()) ??
+        text(el.children('updated').first()),
+    ),
+  };
+}
+
+function text(el: Nodes) {
+  const value = el.text().trim();
+  return value || null;
+}
+
+function attr(el: Nodes, name: string) {
+  return el.attr(name)?.trim() || null;
+}
+
+function toDate(value: string | null) {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function stripHtml(value: string) {
+  return cheerio.load(value).text().replace(/\s+/g, ' ').trim();
+}
+
+function summarize(html: string | null) {
+  if (!html) return null;
+  const plain = stripHtml(html);
+  if (!plain) return null;
+  if (plain.length <= SUMMARY_MAX) return plain;
+
+  const cut = plain.slice(0, SUMMARY_MAX);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${cut.slice(0, lastSpace > 0 ? lastSpace : SUMMARY_MAX)}…`;
+}
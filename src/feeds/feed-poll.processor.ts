@@ -0,0 +1,24 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { FeedPollerService } from './feed-poller.service';
+
+@Processor('feed-polling', { concurrency: 5 })
+export class FeedPollProcessor extends WorkerHost {
+  private readonly logger = new Logger(FeedPollProcessor.name);
+
+  constructor(private readonly poller: FeedPollerService) {
+    super();
+  }
+
+  async process(job: Job<{ feedId: string }>) {
+    const result = await this.poller.poll(job.data.feedId);
+
+    if (result.posted || result.failed) {
+      this.logger.log(
+        `Feed ${job.data.feedId}: ${result.posted} posted, ${result.skipped} skipped, ${result.failed} failed`,
+      );
+    }
+    return result;
+  }
+}
@@ -0,0 +1,209 @@
+import axios from 'axios';
+import { FeedPollerService } from './feed-poller.service';
+
+jest.mock('axios');
+
+const rss = (items: string) => `<?xml version="1.0"?>
+  <rss version="2.0"><channel><title>Blog</title>${items}</channel></rss>`;
+
+const item = (guid: string, day: number) => `
+  <item>
+    <guid>${guid}</guid>
+    <title>Post ${guid}</title>
+    <link>https://blog.example.com/${guid}</link>
+    <description>About ${guid}</description>
+    <pubDate>${new Date(Date.UTC(2026, 2, day)).toUTCString()}</pubDate>
+  </item>`;
+
+describe('FeedPollerService', () => {
+  const prisma = {
+    rssFeed: { findUnique: jest.fn(), update: jest.fn() },
+    rssFeedItem: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      createMany: jest.fn(),
+    },
+    socialProfile: { findMany: jest.fn() },
+  };
+  const postService = { createPost: jest.fn() };
+  const aiService = { repurposeContent: jest.fn() };
+
+  const service = new FeedPollerService(
+    prisma as any,
+    postService as any,
+    aiService as any,
+  );
+
+  const feed = {
+    id: 'feed1',
+    workspaceId: 'ws1',
+    createdById: 'u1',
+    url: 'https://blog.example.com/feed',
+    template: '{{title}}\n\n{{link}}',
+    useAi: false,
+    mode: 'QUEUE',
+    socialProfileIds: ['p_li', 'p_x'],
+    maxItemsPerPoll: 2,
+    isActive: true,
+    errorCount: 0,
+    etag: null,
+    lastModified: null,
+    workspace: { timezone: 'Africa/Lagos' },
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    prisma.rssFeed.findUnique.mockResolvedValue(feed);
+    prisma.socialProfile.findMany.mockResolvedValue([
+      { id: 'p_li', platform: 'LINKEDIN' },
+      { id: 'p_x', platform: 'TWITTER' },
+    ]);
+    prisma.rssFeedItem.findMany.mockResolvedValue([]);
+    let n = 0;
+    postService.createPost.mockImplementation(async () => ({
+      id: `post${++n}`,
+    }));
+  });
+
+  it('posts unseen items oldest first, up to the limit, and skips the rest', async () => {
+    (axios.get as jest.Mock).mockResolvedValue({
+      status: 200,
+      headers: { etag: '"v2"' },
+      data: rss(item('d', 4) + item('c', 3) + item('b', 2) + item('a', 1)),
+    });
+    prisma.rssFeedItem.findMany.mockResolvedValue([
+      { guid: 'd', status: 'POSTED' },
+    ]);
+
+    const result = await service.poll('feed1');
+
+    expect(result).toEqual({ posted: 2, skipped: 1, failed: 0 });
+    expect(
+      postService.createPost.mock.calls.map(([, , dto]) => dto.content),
+    ).toEqual([
+      'Post b\n\nhttps://blog.example.com/b',
+      'Post c\n\nhttps://blog.example.com/c',
+    ]);
+    expect(postService.createPost.mock.calls[0]).toEqual([
+      { userId: 'u1' },
+      'ws1',
+      expect.objectContaining({
+        socialProfileIds: ['p_li', 'p_x'],
+        timezone: 'Africa/Lagos',
+        isAutoSchedule: true,
+      }),
+    ]);
+    expect(prisma.rssFeedItem.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ guid: 'a', status: 'SKIPPED' })],
+      skipDuplicates: true,
+    });
+    expect(prisma.rssFeed.update).toHaveBeenCalledWith({
+      where: { id: 'feed1' },
+      data: expect.objectContaining({ etag: '"v2"', errorCount: 0 }),
+    });
+  });
+
+  it('uses an AI caption per platform and falls back to the summary when it fails', async () => {
+    prisma.rssFeed.findUnique.mockResolvedValue({
+      ...feed,
+      useAi: true,
+      template: '{{caption}}\n\n{{link}}',
+    });
+    (axios.get as jest.Mock).mockResolvedValue({
+      status: 200,
+      headers: {},
+      data: rss(item('a', 1)),
+    });
+    aiService.repurposeContent.mockImplementation(async (_ws, dto) => {
+      if (dto.targetPlatform === 'TWITTER') throw new Error('Quota exceeded');
+      return { text: 'AI caption for LinkedIn' };
+    });
+
+    await service.poll('feed1');
+
+    const dto = postService.createPost.mock.calls[0][2];
+    expect(aiService.repurposeContent).toHaveBeenCalledWith('ws1', {
+      sourceUrl: 'https://blog.example.com/a',
+      sourceText: undefined,
+      targetPlatform: 'LINKEDIN',
+    });
+    expect(dto.content).toBe('About a\n\nhttps://blog.example.com/a');
+    expect(dto.overrides).toEqual([
+      {
+        socialProfileId: 'p_li',
+        content: 'AI caption for LinkedIn\n\nhttps://blog.example.com/a',
+      },
+    ]);
+  });
+
+  it('never hands a private item link to the scraper', async () => {
+    prisma.rssFeed.findUnique.mockResolvedValue({
+      ...feed,
+      useAi: true,
+      maxItemsPerPoll: 1,
+      socialProfileIds: ['p_li'],
+    });
+    prisma.socialProfile.findMany.mockResolvedValue([
+      { id: 'p_li', platform: 'LINKEDIN' },
+    ]);
+    (axios.get as jest.Mock).mockResolvedValue({
+      status: 200,
+      headers: {},
+      data: rss(
+        item('a', 1).replace(
+          'https://blog.example.com/a',
+          'http://169.254.169.254/latest/meta-data/',
+        ),
+      ),
+    });
+    aiService.repurposeContent.mockResolvedValue({ text: 'Caption' });
+
+    await service.poll('feed1');
+
+    expect(aiService.repurposeContent).toHaveBeenCalledWith('ws1', {
+      sourceUrl: undefined,
+      sourceText: 'Post a\n\nAbout a',
+      targetPlatform: 'LINKEDIN',
+    });
+    expect(axios.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('marks a failed item for retry and switches the feed off after repeated fetch errors', async () => {
+    (axios.get as jest.Mock).mockResolvedValue({
+      status: 200,
+      headers: {},
+      data: rss(item('a', 1)),
+    });
+    postService.createPost.mockRejectedValue(
+      new Error('No available queue slots.'),
+    );
+
+    expect(await service.poll('feed1')).toEqual({
+      posted: 0,
+      skipped: 0,
+      failed: 1,
+    });
+    expect(prisma.rssFeedItem.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: {
+          status: 'FAILED',
+          error: 'No available queue slots.',
+        },
+      }),
+    );
+
+    prisma.rssFeed.findUnique.mockResolvedValue({ ...feed, errorCount: 9 });
+    (axios.get as jest.Mock).mockResolvedValue({ status: 404, headers: {} });
+
+    await service.poll('feed1');
+
+    expect(prisma.rssFeed.update).toHaveBeenLastCalledWith({
+      where: { id: 'feed1' },
+      data: expect.objectContaining({
+        errorCount: 10,
+        isActive: false,
+        lastError: 'The feed returned HTTP 404',
+      }),
+    });
+  });
+});
@@ -0,0 +1,369 @@
+import { PrismaService } from '@/prisma/prisma.service';
+import { PostService } from '@/post/services/post.service';
+import { AiService } from '@/ai/service/ai.service';
+import { FeedItemStatus, Platform } from '@generated/enums';
+import { Prisma } from '@generated/client';
+import { Injectable, Logger } from '@nestjs/common';
+import axios from 'axios';
+import {
+  ParsedFeed,
+  ParsedFeedItem,
+  parseFeed,
+  renderFeedTemplate,
+} from './feed-parser.util';
+import {
+  assertPublicUrl,
+  publicHttpAgent,
+  publicHttpsAgent,
+} from '@/common/utility/public-url.util';
+
+export const DEFAULT_FEED_TEMPLATE = '{{title}}\n\n{{link}}';
+export const DEFAULT_AI_FEED_TEMPLATE = '{{caption}}\n\n{{link}}';
+
+type FetchResult = {
+  notModified: boolean;
+  feed: ParsedFeed | null; // null when notModified
+  etag: string | null;
+  lastModified: string | null;
+};
+
+type PollableFeed = Prisma.RssFeedGetPayload<{
+  include: { workspace: { select: { timezone: true } } };
+}>;
+
+type TargetProfile = { id: string; platform: Platform };
+
+/**
+ * Fetches a feed and turns items it hasn't seen before into posts. Items
+ * are keyed by GUID per feed, so re-ordered or re-published entries are
+ * never posted twice.
+ */
+@Injectable()
+export class FeedPollerService {
+  private readonly logger = new Logger(FeedPollerService.name);
+
+  // A feed that fails this many polls in a row is switched off
+  private readonly MAX_CONSECUTIVE_ERRORS = 10;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly postService: PostService,
+    private readonly aiService: AiService,
+  ) {}
+
+  /**
+   * Conditional GET with the ETag / Last-Modified from the previous poll.
+   * Throws with a readable message when the URL isn't a usable feed, or
+   * when it (or a redirect) leads to a private address.
+   */
+  async fetchFeed(
+    url: string,
+    cache: { etag?: string | null; lastModified?: string | null } = {},
+  ): Promise<FetchResult> {
+    assertPublicUrl(url);
+
+    const res = await axios.get<string>(url, {
+      headers: {
+        'User-Agent': 'RooliBot/1.0 (+https://rooli.app)',
+        Accept:
+          'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8',
+        ...(cache.etag && { 'If-None-Match': cache.etag }),
+        ...(cache.lastModified && { 'If-Modified-Since': cache.lastModified }),
+      },
+      responseType: 'text',
+      timeout: 10000,
+      maxRedirects: 5,
+      // Every hop is re-checked, and the agents refuse hostnames that
+      // resolve to private addresses
+      beforeRedirect: (options) => {
+        assertPublicUrl(options.href);
+      },
+      httpAgent: publicHttpAgent,
+      httpsAgent: publicHttpsAgent,
+      proxy: false,
+      maxContentLength: 5_000_000,
+      validateStatus: () => true,
+    });
+
+    if (res.status === 304) {
+      return {
+        notModified: true,
+        feed: null,
+        etag: cache.etag ?? null,
+        lastModified: cache.lastModified ?? null,
+      };
+    }
+    if (res.status >= 400) {
+      throw new Error(`The feed returned HTTP ${res.status}`);
+    }
+
+    let feed: ParsedFeed;
+    try {
+      feed = parseFeed(String(res.data ?? ''));
+    } catch {
+      throw new Error('The URL did not return an RSS or Atom feed');
+    }
+
+    return {
+      notModified: false,
+      feed,
+      etag: (res.headers['etag'] as string) ?? null,
+      lastModified: (res.headers['last-modified'] as string) ?? null,
+    };
+  }
+
+  /** One poll of one feed; safe to run repeatedly. */
+  async poll(feedId: string) {
+    const feed = await this.prisma.rssFeed.findUnique({
+      where: { id: feedId },
+      include: { workspace: { select: { timezone: true } } },
+    });
+    if (!feed || !feed.isActive) return { posted: 0, skipped: 0, failed: 0 };
+
+    let result: FetchResult;
+    try {
+      result = await this.fetchFeed(feed.url, feed);
+    } catch (err: any) {
+      await this.recordError(feed, err?.message ?? 'Could not fetch the feed');
+      return { posted: 0, skipped: 0, failed: 0 };
+    }
+
+    if (result.notModified || !result.feed) {
+      await this.markPolled(feed.id);
+      return { posted: 0, skipped: 0, failed: 0 };
+    }
+
+    const profiles = await this.prisma.socialProfile.findMany({
+      where: {
+        id: { in: feed.socialProfileIds },
+        workspaceId: feed.workspaceId,
+        isActive: true,
+        status: 'CONNECTED',
+      },
+      select: { id: true, platform: true },
+    });
+    if (!profiles.length) {
+      // Leave the items unseen so they're posted once a profile is reconnected
+      await this.recordError(feed, 'None of the target profiles is connected');
+      return { posted: 0, skipped: 0, failed: 0 };
+    }
+
+    const seen = await this.prisma.rssFeedItem.findMany({
+      where: {
+        feedId: feed.id,
+        guid: { in: result.feed.items.map((i) => i.guid) },
+      },
+      select: { guid: true, status: true },
+    });
+    const seenStatus = new Map(seen.map((i) => [i.guid, i.status]));
+
+    const pending = result.feed.items.filter((item) => {
+      const status = seenStatus.get(item.guid);
+      return !status || status === FeedItemStatus.FAILED;
+    });
+    const toPost = pending.slice(0, feed.maxItemsPerPoll);
+    const toSkip = pending
+      .slice(feed.maxItemsPerPoll)
+      .filter((item) => !seenStatus.has(item.guid));
+
+    let posted = 0;
+    let failed = 0;
+
+    // Oldest first, so queued posts go out in the order they were published
+    for (const item of [...toPost].reverse()) {
+      try {
+        const post = await this.createPost(feed, item, profiles);
+        await this.saveItem(feed.id, item, {
+          status: FeedItemStatus.POSTED,
+          postId: post.id,
+          error: null,
+        });
+        posted++;
+      } catch (err: any) {
+        this.logger.warn(
+          `Feed ${feed.id}: item ${item.guid} failed: ${err?.message}`,
+        );
+        await this.saveItem(feed.id, item, {
+          status: FeedItemStatus.FAILED,
+          error: err?.message ?? 'Could not create the post',
+        });
+        failed++;
+      }
+    }
+
+    if (toSkip.length) {
+      await this.recordSkipped(feed.id, toSkip);
+    }
+
+    await this.prisma.rssFeed.update({
+      where: { id: feed.id },
+      data: {
+        lastPolledAt: new Date(),
+        lastError: null,
+        errorCount: 0,
+        etag: result.etag,
+        lastModified: result.lastModified,
+      },
+    });
+
+    return { posted, skipped: toSkip.length, failed };
+  }
+
+  /** Marks items as already handled without posting them. */
+  async recordSkipped(feedId: string, items: ParsedFeedItem[]) {
+    if (!items.length) return;
+    await this.prisma.rssFeedItem.createMany({
+      data: items.map((item) => ({
+        feedId,
+        guid: item.guid,
+        title: item.title,
+        link: item.link,
+        publishedAt: item.publishedAt,
+        status: FeedItemStatus.SKIPPED,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  // =========================================================
+  // Internal
+  // =========================================================
+
+  private async createPost(
+    feed: PollableFeed,
+    item: ParsedFeedItem,
+    profiles: TargetProfile[],
+  ) {
+    const vars = {
+      title: item.title,
+      link: item.link,
+      summary: item.summary,
+      author: item.author,
+      caption: item.summary ?? item.title,
+    };
+
+    const captions = feed.useAi
+      ? await this.generateCaptions(feed.workspaceId, item, profiles)
+      : new Map<Platform, string>();
+
+    const overrides = profiles
+      .filter((p) => captions.has(p.platform))
+      .map((p) => ({
+        socialProfileId: p.id,
+        content: renderFeedTemplate(feed.template, {
+          ...vars,
+          caption: captions.get(p.platform),
+        }),
+      }));
+
+    const content = renderFeedTemplate(feed.template, vars);
+    if (!content) throw new Error('The template rendered an empty post');
+
+    // Feed posts are authored by whoever subscribed to the feed
+    return this.postService.createPost(
+      { userId: feed.createdById ?? undefined },
+      feed.workspaceId,
+      {
+        content,
+        socialProfileIds: profiles.map((p) => p.id),
+        overrides: overrides.length ? overrides : undefined,
+        timezone: feed.workspace.timezone ?? 'UTC',
+        isAutoSchedule: feed.mode === 'QUEUE',
+      },
+    );
+  }
+
+  /**
+   * One AI caption per target platform. Failures (plan, quota, provider)
+   * fall back to the summary rather than failing the item.
+   */
+  private async generateCaptions(
+    workspaceId: string,
+    item: ParsedFeedItem,
+    profiles: TargetProfile[],
+  ) {
+    const captions = new Map<Platform, string>();
+    if (!item.link && !item.summary) return captions;
+
+    // Item links are whatever the feed owner wrote: only hand public ones
+    // to the scraper, otherwise caption from the summary
+    const sourceUrl =
+      item.link && this.isPublicLink(item.link) ? item.link : undefined;
+
+    for (const platform of new Set(profiles.map((p) => p.platform))) {
+      try {
+        const result = await this.aiService.repurposeContent(workspaceId, {
+          sourceUrl,
+          sourceText: sourceUrl
+            ? undefined
+            : [item.title, item.summary].filter(Boolean).join('\n\n'),
+          targetPlatform: platform,
+        });
+        const text = result.text?.trim();
+        if (text) captions.set(platform, text);
+      } catch (err: any) {
+        this.logger.warn(
+          `AI caption for ${platform} failed, using the summary: ${err?.message}`,
+        );
+      }
+    }
+
+    return captions;
+  }
+
+  private isPublicLink(link: string) {
+    try {
+      assertPublicUrl(link);
+      return true;
+    } catch (err: any) {
+      this.logger.warn(`Not scraping feed item link ${link}: ${err?.message}`);
+      return false;
+    }
+  }
+
+  private async saveItem(
+    feedId: string,
+    item: ParsedFeedItem,
+    data: { status: FeedItemStatus; postId?: string; error: string | null },
+  ) {
+    await this.prisma.rssFeedItem.upsert({
+      where: { feedId_guid: { feedId, guid: item.guid } },
+      create: {
+        feedId,
+        guid: item.guid,
+        title: item.title,
+        link: item.link,
+        publishedAt: item.publishedAt,
+        ...data,
+      },
+      update: data,
+    });
+  }
+
+  private async markPolled(feedId: string) {
+    await this.prisma.rssFeed.update({
+      where: { id: feedId },
+      data: { lastPolledAt: new Date(), lastError: null, errorCount: 0 },
+    });
+  }
+
+  private async recordError(
+    feed: { id: string; errorCount: number },
+    message: string,
+  ) {
+    const errorCount = feed.errorCount + 1;
+    const disable = errorCount >= this.MAX_CONSECUTIVE_ERRORS;
+
+    this.logger.warn(`Feed ${feed.id} poll failed (${errorCount}): ${message}`);
+
+    await this.prisma.rssFeed.update({
+      where: { id: feed.id },
+      data: {
+        lastPolledAt: new Date(),
+        lastError: message,
+        errorCount,
+        ...(disable && { isActive: false }),
+      },
+    });
+  }
+}
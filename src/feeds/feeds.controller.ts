@@ -0,0 +1,118 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ContextGuard } from '@/common/guards/context.guard';
+import { PermissionsGuard } from '@/common/guards/permission.guard';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+import { PermissionAction, PermissionResource } from '@generated/enums';
+import { FeedsService } from './feeds.service';
+import { CreateFeedDto, GetFeedItemsDto, UpdateFeedDto } from './dto/feed.dto';
+
+@ApiTags('RSS Feeds')
+@ApiBearerAuth()
+@UseGuards(ContextGuard, PermissionsGuard)
+@Controller('workspaces/:workspaceId/feeds')
+export class FeedsController {
+  constructor(private readonly feedsService: FeedsService) {}
+
+  @Get()
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.READ)
+  @ApiOperation({ summary: 'RSS / Atom feeds the workspace follows' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  list(@Param('workspaceId') workspaceId: string) {
+    return this.feedsService.list(workspaceId);
+  }
+
+  @Post()
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.CREATE)
+  @ApiOperation({
+    summary: 'Follow a feed',
+    description:
+      'New items become drafts or queued posts for the target profiles. The feed is fetched once to check the URL.',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  create(
+    @CurrentUser('userId') userId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Body() dto: CreateFeedDto,
+  ) {
+    return this.feedsService.create(userId, workspaceId, dto);
+  }
+
+  @Get(':feedId')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.READ)
+  @ApiOperation({ summary: 'Get a feed' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'feedId', example: 'feed_123' })
+  get(
+    @Param('workspaceId') workspaceId: string,
+    @Param('feedId') feedId: string,
+  ) {
+    return this.feedsService.get(workspaceId, feedId);
+  }
+
+  @Patch(':feedId')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Change a feed, or pause / resume it' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'feedId', example: 'feed_123' })
+  update(
+    @Param('workspaceId') workspaceId: string,
+    @Param('feedId') feedId: string,
+    @Body() dto: UpdateFeedDto,
+  ) {
+    return this.feedsService.update(workspaceId, feedId, dto);
+  }
+
+  @Delete(':feedId')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.DELETE)
+  @ApiOperation({ summary: 'Stop following a feed' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'feedId', example: 'feed_123' })
+  remove(
+    @Param('workspaceId') workspaceId: string,
+    @Param('feedId') feedId: string,
+  ) {
+    return this.feedsService.remove(workspaceId, feedId);
+  }
+
+  @Get(':feedId/items')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.READ)
+  @ApiOperation({ summary: 'Items seen in the feed and what became of them' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'feedId', example: 'feed_123' })
+  items(
+    @Param('workspaceId') workspaceId: string,
+    @Param('feedId') feedId: string,
+    @Query() query: GetFeedItemsDto,
+  ) {
+    return this.feedsService.listItems(workspaceId, feedId, query);
+  }
+
+  @Post(':feedId/poll')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.CREATE)
+  @ApiOperation({ summary: 'Check the feed for new items now' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'feedId', example: 'feed_123' })
+  poll(
+    @Param('workspaceId') workspaceId: string,
+    @Param('feedId') feedId: string,
+  ) {
+    return this.feedsService.pollNow(workspaceId, feedId);
+  }
+}
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bullmq';
+import { PostModule } from '@/post/post.module';
+import { AiModule } from '@/ai/ai.module';
+import { FeedsController } from './feeds.controller';
+import { FeedsService } from './feeds.service';
+import { FeedPollerService } from './feed-poller.service';
+import { FeedPollProcessor } from './feed-poll.processor';
+import { FeedsScheduler } from './schedulers/feeds.scheduler';
+
+@Module({
+  imports: [
+    BullModule.registerQueue({
+      name: 'feed-polling',
+    }),
+    PostModule,
+    AiModule,
+  ],
+  controllers: [FeedsController],
+  providers: [
+    FeedsService,
+    FeedPollerService,
+    FeedPollProcessor,
+    FeedsScheduler,
+  ],
+})
+export class FeedsModule {}
@@ -0,0 +1,218 @@
+import { PrismaService } from '@/prisma/prisma.service';
+import { Prisma } from '@generated/client';
+import { FeedPostMode } from '@generated/enums';
+import { InjectQueue } from '@nestjs/bullmq';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Queue } from 'bullmq';
+import { CreateFeedDto, GetFeedItemsDto, UpdateFeedDto } from './dto/feed.dto';
+import {
+  DEFAULT_AI_FEED_TEMPLATE,
+  DEFAULT_FEED_TEMPLATE,
+  FeedPollerService,
+} from './feed-poller.service';
+
+const FEED_SELECT = {
+  id: true,
+  url: true,
+  title: true,
+  template: true,
+  useAi: true,
+  mode: true,
+  socialProfileIds: true,
+  maxItemsPerPoll: true,
+  isActive: true,
+  lastPolledAt: true,
+  lastError: true,
+  errorCount: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: { select: { items: { where: { status: 'POSTED' } } } },
+} as const satisfies Prisma.RssFeedSelect;
+
+@Injectable()
+export class FeedsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly poller: FeedPollerService,
+    @InjectQueue('feed-polling') private readonly feedQueue: Queue,
+  ) {}
+
+  async list(workspaceId: string) {
+    return this.prisma.rssFeed.findMany({
+      where: { workspaceId },
+      orderBy: { createdAt: 'asc' },
+      select: FEED_SELECT,
+    });
+  }
+
+  async get(workspaceId: string, feedId: string) {
+    const feed = await this.prisma.rssFeed.findFirst({
+      where: { id: feedId, workspaceId },
+      select: FEED_SELECT,
+    });
+    if (!feed) throw new NotFoundException('Feed not found');
+    return feed;
+  }
+
+  /**
+   * Fetches the feed once up front, so a bad URL is rejected here rather
+   * than failing silently in the worker. Unless `includeExisting` is set,
+   * the items already in the feed are recorded as skipped.
+   */
+  async create(userId: string, workspaceId: string, dto: CreateFeedDto) {
+    await this.assertProfiles(workspaceId, dto.socialProfileIds);
+
+    const url = dto.url.trim();
+    const existing = await this.prisma.rssFeed.findUnique({
+      where: { workspaceId_url: { workspaceId, url } },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new ConflictException('This workspace already follows that feed.');
+    }
+
+    const fetched = await this.poller.fetchFeed(url).catch((err) => {
+      throw new BadRequestException(err?.message ?? 'Could not read the feed');
+    });
+
+    const feed = await this.prisma.rssFeed.create({
+      data: {
+        workspaceId,
+        createdById: userId,
+        url,
+        title: dto.title?.trim() || fetched.feed?.title || null,
+        template:
+          dto.template?.trim() ||
+          (dto.useAi ? DEFAULT_AI_FEED_TEMPLATE : DEFAULT_FEED_TEMPLATE),
+        useAi: dto.useAi ?? false,
+        mode: dto.mode ?? FeedPostMode.DRAFT,
+        socialProfileIds: [...new Set(dto.socialProfileIds)],
+        maxItemsPerPoll: dto.maxItemsPerPoll ?? 3,
+      },
+      select: { id: true },
+    });
+
+    if (dto.includeExisting) {
+      await this.enqueuePoll(feed.id);
+    } else {
+      await this.poller.recordSkipped(feed.id, fetched.feed?.items ?? []);
+      await this.prisma.rssFeed.update({
+        where: { id: feed.id },
+        data: {
+          lastPolledAt: new Date(),
+          etag: fetched.etag,
+          lastModified: fetched.lastModified,
+        },
+      });
+    }
+
+    return this.get(workspaceId, feed.id);
+  }
+
+  async update(workspaceId: string, feedId: string, dto: UpdateFeedDto) {
+    const feed = await this.get(workspaceId, feedId);
+
+    if (dto.socialProfileIds) {
+      await this.assertProfiles(workspaceId, dto.socialProfileIds);
+    }
+
+    await this.prisma.rssFeed.update({
+      where: { id: feed.id },
+      data: {
+        title: dto.title?.trim(),
+        template: dto.template?.trim() || undefined,
+        useAi: dto.useAi,
+        mode: dto.mode,
+        socialProfileIds: dto.socialProfileIds
+          ? [...new Set(dto.socialProfileIds)]
+          : undefined,
+        maxItemsPerPoll: dto.maxItemsPerPoll,
+        isActive: dto.isActive,
+        // Turning a feed back on gives it a clean slate
+        ...(dto.isActive && { errorCount: 0, lastError: null }),
+      },
+    });
+
+    return this.get(workspaceId, feed.id);
+  }
+
+  /** Posts already created from the feed are kept. */
+  async remove(workspaceId: string, feedId: string) {
+    const feed = await this.get(workspaceId, feedId);
+    await this.prisma.rssFeed.delete({ where: { id: feed.id } });
+    return { ok: true };
+  }
+
+  async listItems(workspaceId: string, feedId: string, dto: GetFeedItemsDto) {
+    const feed = await this.get(workspaceId, feedId);
+    const { page, limit, status } = dto;
+
+    const where: Prisma.RssFeedItemWhereInput = {
+      feedId: feed.id,
+      ...(status && { status }),
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.rssFeedItem.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: {
+          post: { select: { id: true, status: true, scheduledAt: true } },
+        },
+      }),
+      this.prisma.rssFeedItem.count({ where }),
+    ]);
+
+    return {
+      data,
+      meta: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
+  async pollNow(workspaceId: string, feedId: string) {
+    const feed = await this.get(workspaceId, feedId);
+    if (!feed.isActive) {
+      throw new BadRequestException('Turn the feed back on before polling it.');
+    }
+    await this.enqueuePoll(feed.id);
+    return { queued: true };
+  }
+
+  /** Same jobId while one is waiting, so a feed is never polled twice at once. */
+  async enqueuePoll(feedId: string, delay = 0) {
+    await this.feedQueue.add(
+      'poll-feed',
+      { feedId },
+      {
+        jobId: `feed-poll-${feedId}`,
+        delay,
+        removeOnComplete: true,
+        removeOnFail: true,
+        attempts: 1,
+      },
+    );
+  }
+
+  // =========================================================
+  // Internal
+  // =========================================================
+
+  private async assertProfiles(workspaceId: string, profileIds: string[]) {
+    const ids = [...new Set(profileIds)];
+    const count = await this.prisma.socialProfile.count({
+      where: { id: { in: ids }, workspaceId },
+    });
+    if (count !== ids.length) {
+      throw new BadRequestException(
+        'Every target profile must belong to this workspace.',
+      );
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { PrismaService } from '@/prisma/prisma.service';
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { subMinutes } from 'date-fns';
+import { FeedsService } from '../feeds.service';
+
+@Injectable()
+export class FeedsScheduler {
+  private readonly logger = new Logger(FeedsScheduler.name);
+  private readonly BATCH_SIZE = 100;
+  private readonly POLL_INTERVAL_MINUTES = 30;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly feeds: FeedsService,
+  ) {}
+
+  /**
+   * Runs every 10 minutes and queues a poll for each active feed that
+   * hasn't been checked in the last 30, spread over a few minutes so
+   * feeds on the same host aren't hit all at once.
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async scheduleFeedPolls() {
+    const dueBefore = subMinutes(new Date(), this.POLL_INTERVAL_MINUTES);
+    let cursor: string | undefined;
+    let queued = 0;
+
+    try {
+      while (true) {
+        const feeds = await this.prisma.rssFeed.findMany({
+          take: this.BATCH_SIZE,
+          skip: cursor ? 1 : 0,
+          cursor: cursor ? { id: cursor } : undefined,
+          orderBy: { id: 'asc' },
+          where: {
+            isActive: true,
+            OR: [{ lastPolledAt: null }, { lastPolledAt: { lt: dueBefore } }],
+            workspace: { organization: { isActive: true } },
+          },
+          select: { id: true },
+        });
+        if (!feeds.length) break;
+
+        for (const feed of feeds) {
+          await this.feeds.enqueuePoll(
+            feed.id,
+            Math.floor(Math.random() * 300_000),
+          );
+          queued++;
+        }
+
+        cursor = feeds[feeds.length - 1].id;
+        if (feeds.length < this.BATCH_SIZE) break;
+      }
+    } catch (error: any) {
+      this.logger.error(
+        `Feed scheduling failed: ${error.message}`,
+        error.stack,
+      );
+    }
+
+    if (queued) this.logger.log(`Queued ${queued} feed polls`);
+  }
+}
@@ -0,0 +1,15 @@
+import { PaginationDto } from '@/common/dtos/pagination.dto';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString } from 'class-validator';
+
+export class GetLinksDto extends PaginationDto {
+  @ApiPropertyOptional({ example: 'post_123' })
+  @IsOptional()
+  @IsString()
+  postId?: string;
+
+  @ApiPropertyOptional({ example: 'cmp_123' })
+  @IsOptional()
+  @IsString()
+  campaignId?: string;
+}
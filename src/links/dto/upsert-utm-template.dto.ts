@@ -0,0 +1,60 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsObject, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class UpsertUtmTemplateDto {
+  @ApiPropertyOptional({
+    description:
+      'Campaign the template belongs to. Omit to set the workspace default.',
+    example: 'cmp_123',
+  })
+  @IsOptional()
+  @IsString()
+  campaignId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'utm_source. Placeholders: {platform}, {profile}, {campaign}, {post}',
+    default: '{platform}',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  utmSource?: string;
+
+  @ApiPropertyOptional({ description: 'utm_medium', default: 'social' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  utmMedium?: string;
+
+  @ApiPropertyOptional({
+    description: 'utm_campaign',
+    default: '{campaign}',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  utmCampaign?: string | null;
+
+  @ApiPropertyOptional({ description: 'utm_term', nullable: true })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  utmTerm?: string | null;
+
+  @ApiPropertyOptional({ description: 'utm_content', nullable: true })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  utmContent?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Values that replace the ones above on a given platform',
+    example: { LINKEDIN: { utmMedium: 'organic-social' } },
+    nullable: true,
+  })
+  @IsOptional()
+  @IsObject()
+  platformOverrides?: Record<string, Record<string, string>> | null;
+}
@@ -0,0 +1,34 @@
+import { Controller, Get, Headers, Ip, Param, Res } from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger';
+import { Response } from 'express';
+import { Public } from '@/common/decorators/public.decorator';
+import { LinksService } from './links.service';
+
+/**
+ * Where short links in published posts point. Public: whoever clicks is
+ * never logged in.
+ */
+@ApiTags('Links')
+@Public()
+@Controller('l')
+export class LinkRedirectController {
+  constructor(private readonly service: LinksService) {}
+
+  @Get(':code')
+  @ApiOperation({ summary: 'Record a click and redirect to the tagged URL' })
+  @ApiParam({ name: 'code', example: 'aB3xK9p' })
+  async redirect(
+    @Param('code') code: string,
+    @Ip() ip: string,
+    @Headers('referer') referrer: string | undefined,
+    @Headers('user-agent') userAgent: string | undefined,
+    @Res() res: Response,
+  ) {
+    const target = await this.service.resolve(code, {
+      ip,
+      referrer,
+      userAgent,
+    });
+    return res.redirect(302, target);
+  }
+}
@@ -0,0 +1,96 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ContextGuard } from '@/common/guards/context.guard';
+import { PermissionsGuard } from '@/common/guards/permission.guard';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { PermissionAction, PermissionResource } from '@generated/enums';
+import { LinksService } from './links.service';
+import { GetLinksDto } from './dto/get-links.dto';
+import { UpsertUtmTemplateDto } from './dto/upsert-utm-template.dto';
+
+@ApiTags('Links')
+@ApiBearerAuth()
+@UseGuards(ContextGuard, PermissionsGuard)
+@Controller('workspaces/:workspaceId/links')
+export class LinksController {
+  constructor(private readonly service: LinksService) {}
+
+  @Get('utm-template')
+  @RequirePermission(PermissionResource.SETTINGS, PermissionAction.READ)
+  @ApiOperation({
+    summary: 'Get the UTM template for the workspace or a campaign',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiQuery({ name: 'campaignId', required: false })
+  getTemplate(
+    @Param('workspaceId') workspaceId: string,
+    @Query('campaignId') campaignId?: string,
+  ) {
+    return this.service.getTemplate(workspaceId, campaignId);
+  }
+
+  @Put('utm-template')
+  @RequirePermission(PermissionResource.SETTINGS, PermissionAction.UPDATE)
+  @ApiOperation({
+    summary:
+      'Create or update the UTM template for the workspace or a campaign',
+    description:
+      'Applied when a new post’s links are shortened (workspace setting `shortenLinks`). A campaign template replaces the workspace one for that campaign’s posts.',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  upsertTemplate(
+    @Param('workspaceId') workspaceId: string,
+    @Body() dto: UpsertUtmTemplateDto,
+  ) {
+    return this.service.upsertTemplate(workspaceId, dto);
+  }
+
+  @Delete('utm-template')
+  @RequirePermission(PermissionResource.SETTINGS, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Delete a UTM template' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiQuery({ name: 'campaignId', required: false })
+  deleteTemplate(
+    @Param('workspaceId') workspaceId: string,
+    @Query('campaignId') campaignId?: string,
+  ) {
+    return this.service.deleteTemplate(workspaceId, campaignId);
+  }
+
+  @Get()
+  @RequirePermission(PermissionResource.ANALYTICS, PermissionAction.READ)
+  @ApiOperation({ summary: 'List short links with their click counts' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  list(@Param('workspaceId') workspaceId: string, @Query() dto: GetLinksDto) {
+    return this.service.list(workspaceId, dto);
+  }
+
+  @Get(':linkId/clicks')
+  @RequirePermission(PermissionResource.ANALYTICS, PermissionAction.READ)
+  @ApiOperation({
+    summary: 'Clicks for one link by platform, country, referrer and day',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'linkId', example: 'link_123' })
+  clicks(
+    @Param('workspaceId') workspaceId: string,
+    @Param('linkId') linkId: string,
+  ) {
+    return this.service.getLinkClicks(workspaceId, linkId);
+  }
+}
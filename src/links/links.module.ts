@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { LinksService } from './links.service';
+import { LinksController } from './links.controller';
+import { LinkRedirectController } from './link-redirect.controller';
+
+@Module({
+  controllers: [LinksController, LinkRedirectController],
+  providers: [LinksService],
+  exports: [LinksService],
+})
+export class LinksModule {}
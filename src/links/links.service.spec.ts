@@ -0,0 +1,114 @@
+import { ConfigService } from '@nestjs/config';
+import { LinksService } from './links.service';
+
+describe('LinksService', () => {
+  const prisma = {
+    shortLink: { findUnique: jest.fn(), update: jest.fn() },
+    linkClick: { create: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  const config = { get: () => 'https://api.rooli.co' } as any as ConfigService;
+  const service = new LinksService(prisma as any, config);
+
+  const makeTx = (post: any, template: any) => {
+    let n = 0;
+    return {
+      post: { findUnique: jest.fn().mockResolvedValue(post) },
+      utmTemplate: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findFirst: jest.fn().mockResolvedValue(template),
+      },
+      shortLink: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        create: jest.fn(({ data }) => ({ ...data, code: `c${++n}` })),
+      },
+      postDestination: { update: jest.fn() },
+    };
+  };
+
+  const template = {
+    utmSource: '{platform}',
+    utmMedium: 'social',
+    utmCampaign: '{campaign}',
+    utmTerm: null,
+    utmContent: '{profile}',
+    platformOverrides: { LINKEDIN: { utmMedium: 'organic' } },
+  };
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('tags and shortens links per destination', async () => {
+    const tx = makeTx(
+      {
+        id: 'post1',
+        workspaceId: 'ws1',
+        campaignId: null,
+        campaign: { name: 'Spring Sale' },
+        workspace: { shortenLinks: true },
+        destinations: [
+          {
+            id: 'd1',
+            contentOverride:
+              'Read https://acme.com/blog?ref=x. And https://acme.com/shop?utm_source=mail',
+            firstComment: null,
+            metadata: null,
+            profile: { platform: 'LINKEDIN', username: '@Acme', name: 'Acme' },
+          },
+        ],
+      },
+      template,
+    );
+
+    const count = await service.shortenPostLinks(tx as any, 'post1');
+
+    expect(count).toBe(2);
+    const [first, second] = tx.shortLink.create.mock.calls.map(
+      ([arg]) => arg.data,
+    );
+    expect(first).toMatchObject({
+      postDestinationId: 'd1',
+      platform: 'LINKEDIN',
+      originalUrl: 'https://acme.com/blog?ref=x',
+      targetUrl:
+        'https://acme.com/blog?ref=x&utm_source=linkedin&utm_medium=organic&utm_campaign=spring-sale&utm_content=acme',
+    });
+    // Hand-written UTM values win
+    expect(new URL(second.targetUrl).searchParams.get('utm_source')).toBe(
+      'mail',
+    );
+    expect(tx.postDestination.update).toHaveBeenCalledWith({
+      where: { id: 'd1' },
+      data: {
+        contentOverride:
+          'Read https://api.rooli.co/api/v1/l/c1. And https://api.rooli.co/api/v1/l/c2',
+        firstComment: null,
+      },
+    });
+  });
+
+  it('does nothing when the workspace has shortening off', async () => {
+    const tx = makeTx(
+      { workspace: { shortenLinks: false }, destinations: [] },
+      template,
+    );
+
+    expect(await service.shortenPostLinks(tx as any, 'post1')).toBe(0);
+    expect(tx.shortLink.create).not.toHaveBeenCalled();
+  });
+
+  it('redirects crawlers without counting a click', async () => {
+    prisma.shortLink.findUnique.mockResolvedValue({
+      id: 'l1',
+      targetUrl: 'https://acme.com/?utm_source=x',
+    });
+
+    await expect(
+      service.resolve('c1', { userAgent: 'LinkedInBot/1.0' }),
+    ).resolves.toBe('https://acme.com/?utm_source=x');
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+
+    prisma.$transaction.mockResolvedValue([]);
+    await service.resolve('c1', { userAgent: 'Mozilla/5.0', ip: '8.8.8.8' });
+    expect(prisma.$transaction).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,556 @@
+import { PrismaService } from '@/prisma/prisma.service';
+import { Prisma } from '@generated/client';
+import { Platform } from '@generated/enums';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import * as geoip from 'geoip-lite';
+import { GetLinksDto } from './dto/get-links.dto';
+import { UpsertUtmTemplateDto } from './dto/upsert-utm-template.dto';
+
+const URL_PATTERN = /https?:\/\/[^\s<>"'`]+/gi;
+const TRAILING_PUNCTUATION = /[.,!?;:)\]}'"]+$/;
+
+// Link previews fetched by the networks themselves aren't people clicking
+const CRAWLER_PATTERN =
+  /facebookexternalhit|facebot|twitterbot|linkedinbot|slackbot|discordbot|whatsapp|telegrambot|skypeuripreview|embedly|bot\b|crawler|spider/i;
+
+const CODE_ALPHABET =
+  'abcdefghijkmnopqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 7;
+
+const UTM_PARAMS = {
+  utmSource: 'utm_source',
+  utmMedium: 'utm_medium',
+  utmCampaign: 'utm_campaign',
+  utmTerm: 'utm_term',
+  utmContent: 'utm_content',
+} as const;
+
+type UtmField = keyof typeof UTM_PARAMS;
+type UtmValues = Partial<Record<UtmField, string | null>>;
+
+type TemplateContext = {
+  platform: Platform;
+  profile: string;
+  campaign: string;
+  post: string;
+};
+
+@Injectable()
+export class LinksService {
+  private readonly logger = new Logger(LinksService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly config: ConfigService,
+  ) {}
+
+  // =========================================================
+  // 1) UTM templates
+  // =========================================================
+
+  async getTemplate(workspaceId: string, campaignId?: string) {
+    if (campaignId) await this.assertCampaign(workspaceId, campaignId);
+
+    const template = await this.prisma.utmTemplate.findFirst({
+      where: { workspaceId, campaignId: campaignId ?? null },
+    });
+    if (!template) throw new NotFoundException('UTM template not found');
+    return template;
+  }
+
+  async upsertTemplate(workspaceId: string, dto: UpsertUtmTemplateDto) {
+    if (dto.campaignId) await this.assertCampaign(workspaceId, dto.campaignId);
+    this.assertPlatformOverrides(dto.platformOverrides);
+
+    const data = {
+      utmSource: dto.utmSource,
+      utmMedium: dto.utmMedium,
+      utmCampaign: dto.utmCampaign,
+      utmTerm: dto.utmTerm,
+      utmContent: dto.utmContent,
+      platformOverrides:
+        dto.platformOverrides === null
+          ? Prisma.JsonNull
+          : (dto.platformOverrides as Prisma.InputJsonValue | undefined),
+    };
+
+    const existing = await this.prisma.utmTemplate.findFirst({
+      where: { workspaceId, campaignId: dto.campaignId ?? null },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return this.prisma.utmTemplate.update({
+        where: { id: existing.id },
+        data,
+      });
+    }
+
+    return this.prisma.utmTemplate.create({
+      data: { ...data, workspaceId, campaignId: dto.campaignId ?? null },
+    });
+  }
+
+  async deleteTemplate(workspaceId: string, campaignId?: string) {
+    const template = await this.getTemplate(workspaceId, campaignId);
+    await this.prisma.utmTemplate.delete({ where: { id: template.id } });
+    return { ok: true };
+  }
+
+  // =========================================================
+  // 2) Shortening (called inside the post create transaction)
+  // =========================================================
+
+  /**
+   * Replaces every URL in each destination's text, first comment and thread
+   * with a short link carrying that destination's UTM values. No-op unless
+   * the workspace has link shortening on. Returns the number of links made.
+   */
+  async shortenPostLinks(tx: Prisma.TransactionClient, postId: string) {
+    const post = await tx.post.findUnique({
+      where: { id: postId },
+      select: {
+        id: true,
+        workspaceId: true,
+        campaignId: true,
+        campaign: { select: { name: true } },
+        workspace: { select: { shortenLinks: true } },
+        destinations: {
+          select: {
+            id: true,
+            contentOverride: true,
+            firstComment: true,
+            metadata: true,
+            profile: {
+              select: { platform: true, username: true, name: true },
+            },
+          },
+        },
+      },
+    });
+    if (!post?.workspace.shortenLinks) return 0;
+
+    const template =
+      (post.campaignId &&
+        (await tx.utmTemplate.findUnique({
+          where: { campaignId: post.campaignId },
+        }))) ||
+      (await tx.utmTemplate.findFirst({
+        where: { workspaceId: post.workspaceId, campaignId: null },
+      }));
+
+    let created = 0;
+
+    for (const dest of post.destinations) {
+      const thread = Array.isArray((dest.metadata as any)?.thread)
+        ? ((dest.metadata as any).thread as Array<{ content?: string }>)
+        : [];
+
+      const texts = [
+        dest.contentOverride,
+        dest.firstComment,
+        ...thread.map((t) => t.content),
+      ];
+      const urls = [
+        ...new Set(texts.flatMap((t) => this.findUrls(t ?? ''))),
+      ].filter((url) => !url.startsWith(this.shortBaseUrl()));
+      if (!urls.length) continue;
+
+      const context: TemplateContext = {
+        platform: dest.profile.platform,
+        profile: dest.profile.username ?? dest.profile.name ?? '',
+        campaign: post.campaign?.name ?? '',
+        post: post.id,
+      };
+      const utm = this.resolveUtm(template, context);
+
+      const shortByUrl = new Map<string, string>();
+      for (const originalUrl of urls) {
+        const link = await this.createShortLink(tx, {
+          workspaceId: post.workspaceId,
+          postId: post.id,
+          postDestinationId: dest.id,
+          campaignId: post.campaignId,
+          platform: dest.profile.platform,
+          originalUrl,
+          targetUrl: this.applyUtm(originalUrl, utm),
+        });
+        shortByUrl.set(originalUrl, this.shortUrl(link.code));
+        created++;
+      }
+
+      const rewrite = (text: string | null) =>
+        text == null ? text : this.replaceUrls(text, shortByUrl);
+
+      await tx.postDestination.update({
+        where: { id: dest.id },
+        data: {
+          contentOverride: rewrite(dest.contentOverride),
+          firstComment: rewrite(dest.firstComment),
+          ...(thread.length && {
+            metadata: {
+              ...(dest.metadata as object),
+              thread: thread.map((t) => ({
+                ...t,
+                content: rewrite(t.content ?? null),
+              })),
+            } as Prisma.InputJsonValue,
+          }),
+        },
+      });
+    }
+
+    return created;
+  }
+
+  /**
+   * Returns a function that swaps these posts' short links back to the URLs
+   * they replaced. Used when post text is copied somewhere else, so the copy
+   * doesn't count clicks against the original.
+   */
+  async expandPostLinks(postIds: string[]) {
+    const links = postIds.length
+      ? await this.prisma.shortLink.findMany({
+          where: { postId: { in: postIds } },
+          select: { code: true, originalUrl: true },
+        })
+      : [];
+    const originalByShort = new Map(
+      links.map((l) => [this.shortUrl(l.code), l.originalUrl]),
+    );
+
+    return (text: string | null) =>
+      text == null || !originalByShort.size
+        ? text
+        : this.replaceUrls(text, originalByShort);
+  }
+
+  // =========================================================
+  // 3) Redirect
+  // =========================================================
+
+  /**
+   * Looks up the target and records the click. Recording never blocks or
+   * breaks the redirect.
+   */
+  async resolve(
+    code: string,
+    meta: { ip?: string; referrer?: string; userAgent?: string },
+  ) {
+    const link = await this.prisma.shortLink.findUnique({
+      where: { code },
+      select: {
+        id: true,
+        targetUrl: true,
+        postDestinationId: true,
+        campaignId: true,
+        platform: true,
+      },
+    });
+    if (!link) throw new NotFoundException('Link not found');
+
+    if (!CRAWLER_PATTERN.test(meta.userAgent ?? '')) {
+      this.recordClick(link, meta).catch((err) =>
+        this.logger.warn(`Click not recorded for ${code}: ${err.message}`),
+      );
+    }
+
+    return link.targetUrl;
+  }
+
+  // =========================================================
+  // 4) Reporting
+  // =========================================================
+
+  async list(workspaceId: string, dto: GetLinksDto) {
+    const { page = 1, limit = 20 } = dto;
+    const where: Prisma.ShortLinkWhereInput = {
+      workspaceId,
+      ...(dto.postId && { postId: dto.postId }),
+      ...(dto.campaignId && { campaignId: dto.campaignId }),
+    };
+
+    const [links, total] = await Promise.all([
+      this.prisma.shortLink.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: {
+          destination: {
+            select: {
+              id: true,
+              profile: { select: { name: true, platform: true } },
+            },
+          },
+        },
+      }),
+      this.prisma.shortLink.count({ where }),
+    ]);
+
+    return {
+      data: links.map((l) => ({ ...l, shortUrl: this.shortUrl(l.code) })),
+      meta: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
+  async getLinkClicks(workspaceId: string, linkId: string) {
+    const link = await this.prisma.shortLink.findFirst({
+      where: { id: linkId, workspaceId },
+    });
+    if (!link) throw new NotFoundException('Link not found');
+
+    return {
+      ...link,
+      shortUrl: this.shortUrl(link.code),
+      ...(await this.summarize({ shortLinkId: link.id })),
+    };
+  }
+
+  /**
+   * Click totals for a campaign, split the ways clients ask about: which
+   * network, which country, which referrer, which day.
+   */
+  async getCampaignClicks(workspaceId: string, campaignId: string) {
+    return this.summarize({ campaignId, shortLink: { workspaceId } });
+  }
+
+  // =========================================================
+  // Internal
+  // =========================================================
+
+  private async summarize(where: Prisma.LinkClickWhereInput) {
+    const [total, byPlatform, byCountry, byReferrer, byDestination, clicks] =
+      await Promise.all([
+        this.prisma.linkClick.count({ where }),
+        this.prisma.linkClick.groupBy({
+          by: ['platform'],
+          where,
+          _count: { _all: true },
+        }),
+        this.prisma.linkClick.groupBy({
+          by: ['country'],
+          where,
+          _count: { _all: true },
+          orderBy: { _count: { country: 'desc' } },
+          take: 20,
+        }),
+        this.prisma.linkClick.groupBy({
+          by: ['referrer'],
+          where,
+          _count: { _all: true },
+          orderBy: { _count: { referrer: 'desc' } },
+          take: 20,
+        }),
+        this.prisma.linkClick.groupBy({
+          by: ['postDestinationId'],
+          where,
+          _count: { _all: true },
+        }),
+        this.prisma.linkClick.findMany({
+          where,
+          select: { clickedAt: true },
+          orderBy: { clickedAt: 'asc' },
+        }),
+      ]);
+
+    const daily = new Map<string, number>();
+    for (const c of clicks) {
+      const day = c.clickedAt.toISOString().slice(0, 10);
+      daily.set(day, (daily.get(day) ?? 0) + 1);
+    }
+
+    return {
+      totalClicks: total,
+      byPlatform: byPlatform.map((r) => ({
+        platform: r.platform,
+        clicks: r._count._all,
+      })),
+      byCountry: byCountry.map((r) => ({
+        country: r.country,
+        clicks: r._count._all,
+      })),
+      byReferrer: byReferrer.map((r) => ({
+        referrer: r.referrer,
+        clicks: r._count._all,
+      })),
+      byDestination: byDestination.map((r) => ({
+        postDestinationId: r.postDestinationId,
+        clicks: r._count._all,
+      })),
+      daily: [...daily].map(([day, count]) => ({ day, clicks: count })),
+    };
+  }
+
+  private async recordClick(
+    link: {
+      id: string;
+      postDestinationId: string | null;
+      campaignId: string | null;
+      platform: Platform | null;
+    },
+    meta: { ip?: string; referrer?: string; userAgent?: string },
+  ) {
+    const country = meta.ip ? (geoip.lookup(meta.ip)?.country ?? null) : null;
+    const now = new Date();
+
+    await this.prisma.$transaction([
+      this.prisma.linkClick.create({
+        data: {
+          shortLinkId: link.id,
+          postDestinationId: link.postDestinationId,
+          campaignId: link.campaignId,
+          platform: link.platform,
+          referrer: meta.referrer || null,
+          userAgent: meta.userAgent || null,
+          country,
+          clickedAt: now,
+        },
+      }),
+      this.prisma.shortLink.update({
+        where: { id: link.id },
+        data: { clickCount: { increment: 1 }, lastClickedAt: now },
+      }),
+    ]);
+  }
+
+  private async createShortLink(
+    tx: Prisma.TransactionClient,
+    data: Omit<Prisma.ShortLinkUncheckedCreateInput, 'code'>,
+  ) {
+    // 57^7 codes; a collision is rare enough that a few retries cover it
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const code = this.generateCode();
+      const taken = await tx.shortLink.findUnique({
+        where: { code },
+        select: { id: true },
+      });
+      if (!taken) return tx.shortLink.create({ data: { ...data, code } });
+    }
+    throw new Error('Could not generate a unique short link code');
+  }
+
+  private generateCode() {
+    const bytes = randomBytes(CODE_LENGTH);
+    let code = '';
+    for (const b of bytes) code += CODE_ALPHABET[b % CODE_ALPHABET.length];
+    return code;
+  }
+
+  private findUrls(text: string) {
+    return (text.match(URL_PATTERN) ?? []).map((m) =>
+      m.replace(TRAILING_PUNCTUATION, ''),
+    );
+  }
+
+  private replaceUrls(text: string, shortByUrl: Map<string, string>) {
+    return text.replace(URL_PATTERN, (match) => {
+      const url = match.replace(TRAILING_PUNCTUATION, '');
+      const short = shortByUrl.get(url);
+      return short ? short + match.slice(url.length) : match;
+    });
+  }
+
+  private resolveUtm(
+    template: {
+      utmSource: string;
+      utmMedium: string;
+      utmCampaign: string | null;
+      utmTerm: string | null;
+      utmContent: string | null;
+      platformOverrides: Prisma.JsonValue;
+    } | null,
+    context: TemplateContext,
+  ): UtmValues {
+    if (!template) return {};
+
+    const overrides =
+      ((template.platformOverrides as Record<string, UtmValues> | null) ?? {})[
+        context.platform
+      ] ?? {};
+
+    const values: UtmValues = {};
+    for (const field of Object.keys(UTM_PARAMS) as UtmField[]) {
+      const raw = field in overrides ? overrides[field] : template[field];
+      values[field] = raw ? this.renderPlaceholders(raw, context) : null;
+    }
+    return values;
+  }
+
+  private renderPlaceholders(value: string, context: TemplateContext) {
+    const slug = (s: string) =>
+      s
+        .toLowerCase()
+        .replace(/^@/, '')
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+
+    return value
+      .replace(/\{platform\}/g, slug(context.platform))
+      .replace(/\{profile\}/g, slug(context.profile))
+      .replace(/\{campaign\}/g, slug(context.campaign))
+      .replace(/\{post\}/g, context.post)
+      .trim();
+  }
+
+  /**
+   * Adds the UTM values the URL doesn't already carry; parameters the author
+   * wrote by hand are left alone.
+   */
+  private applyUtm(url: string, utm: UtmValues) {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return url;
+    }
+
+    for (const [field, param] of Object.entries(UTM_PARAMS)) {
+      const value = utm[field as UtmField];
+      if (value && !parsed.searchParams.has(param)) {
+        parsed.searchParams.set(param, value);
+      }
+    }
+    return parsed.toString();
+  }
+
+  private shortBaseUrl() {
+    return `${this.config.get('API_URL')}/api/v1/l/`;
+  }
+
+  private shortUrl(code: string) {
+    return `${this.shortBaseUrl()}${code}`;
+  }
+
+  private async assertCampaign(workspaceId: string, campaignId: string) {
+    const campaign = await this.prisma.campaign.findFirst({
+      where: { id: campaignId, workspaceId },
+      select: { id: true },
+    });
+    if (!campaign) throw new NotFoundException('Campaign not found');
+  }
+
+  private assertPlatformOverrides(overrides?: Record<string, any> | null) {
+    if (!overrides) return;
+
+    for (const [platform, values] of Object.entries(overrides)) {
+      if (!(platform in Platform)) {
+        throw new BadRequestException(`Unknown platform "${platform}"`);
+      }
+      for (const field of Object.keys(values ?? {})) {
+        if (!(field in UTM_PARAMS)) {
+          throw new BadRequestException(
+            `Unknown UTM field "${field}" for ${platform}`,
+          );
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { Injectable } from '@nestjs/common';
+import { SocialAdapter } from '../interfaces/social-adapter.interface';
+import {
+  NormalizedInboundMessage,
+  NormalizedPlatform,
+} from '../types/adapter.types';
+
+/**
+ * Normalizes events from the simulated SANDBOX network
+ * (see SandboxInboxProvider for the raw shapes).
+ */
+@Injectable()
+export class SandboxAdapter implements SocialAdapter {
+  readonly platform: NormalizedPlatform = 'SANDBOX';
+
+  normalizeDirectMessage(input: any): NormalizedInboundMessage | null {
+    if (
+      !input?.id ||
+      !input?.threadId ||
+      !input?.ownerId ||
+      !input?.sender?.id
+    ) {
+      return null;
+    }
+
+    const text: string = (input.text ?? '').toString();
+    const occurredAt = input.createdAt ? new Date(input.createdAt) : new Date();
+    const isFromUs = input.sender.id === input.ownerId;
+
+    return {
+      platform: this.platform,
+      type: 'DIRECT_MESSAGE',
+      conversationExternalId: input.threadId,
+      contact: {
+        platform: this.platform,
+        externalId: input.sender.id,
+        username: input.sender.name ?? 'Sandbox User',
+        avatarUrl: null,
+      },
+      message: {
+        externalId: input.id,
+        content: text,
+        direction: isFromUs ? 'OUTBOUND' : 'INBOUND',
+        senderName: input.sender.name ?? null,
+        providerTimestamp: occurredAt,
+        meta: {},
+      },
+      snippet: text.slice(0, 140),
+      occurredAt,
+      meta: {
+        ownerExternalId: input.ownerId,
+        rawEventType: 'sandbox.dm',
+      },
+      raw: undefined,
+    };
+  }
+
+  normalizeComment(input: any): NormalizedInboundMessage | null {
+    if (!input?.id || !input?.postId || !input?.ownerId || !input?.author?.id) {
+      return null;
+    }
+
+    const text: string = (input.text ?? '').toString();
+    const occurredAt = input.createdAt ? new Date(input.createdAt) : new Date();
+    const isFromUs = input.author.id === input.ownerId;
+
+    return {
+      platform: this.platform,
+      type: 'POST_COMMENT',
+      conversationExternalId: `sandbox:comment:${input.postId}`,
+      contact: {
+        platform: this.platform,
+        externalId: input.author.id,
+        username: input.author.name ?? 'Sandbox User',
+        avatarUrl: null,
+      },
+      message: {
+        externalId: input.id,
+        content: text,
+        direction: isFromUs ? 'OUTBOUND' : 'INBOUND',
+        senderName: input.author.name ?? null,
+        providerTimestamp: occurredAt,
+        meta: {
+          postId: input.postId,
+          parentId: input.parentId ?? null,
+        },
+      },
+      snippet: text.slice(0, 140),
+      occurredAt,
+      meta: {
+        ownerExternalId: input.ownerId,
+        rawEventType: 'sandbox.comment',
+        postId: input.postId,
+      },
+      raw: undefined,
+    };
+  }
+}
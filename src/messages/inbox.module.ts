@@ -12,11 +12,13 @@ import { InboxCommentsService } from './services/inbox-comments.service';
 import { InboxCommentsController } from './controller/inbox-comments.controller';
 import { EncryptionService } from '@/common/utility/encryption.service';
 import { LinkedInAdapter } from './adapters/linkedIn.adapter';
+import { SandboxAdapter } from './adapters/sandbox.adapter';
 import { CommentOutboundService } from './outbound-service/comments.service';
 import { MessagingOutboundService } from './outbound-service/messages.service';
+import { SocialModule } from '@/social/social.module';
 
 @Module({
-  imports: [EventsModule, forwardRef(() => WorkerModule)],
+  imports: [EventsModule, forwardRef(() => WorkerModule), SocialModule],
   controllers: [InboxController, InboxCommentsController],
   providers: [
     InboxService,
@@ -25,6 +27,7 @@ import { MessagingOutboundService } from './outbound-service/messages.service';
     MetaAdapter,
     TwitterAdapter,
     LinkedInAdapter,
+    SandboxAdapter,
     MetaClient,
     TwitterClient,
     EncryptionService,
@@ -36,6 +39,7 @@ import { MessagingOutboundService } from './outbound-service/messages.service';
     MetaAdapter,
     TwitterAdapter,
     LinkedInAdapter,
+    SandboxAdapter,
     MetaClient,
     TwitterClient,
    CommentOutboundService,
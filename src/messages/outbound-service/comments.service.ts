@@ -5,6 +5,7 @@ import { ConfigService } from "@nestjs/config";
 import { EventEmitter2 } from "@nestjs/event-emitter";
 import { MetaClient } from "../integrations/meta.client";
 import { TwitterClient } from "../integrations/twitter.client";
+import { SocialFactory } from "@/social/social.factory";
 
 @Injectable()
 export class CommentOutboundService {
@@ -16,6 +17,7 @@ export class CommentOutboundService {
     private readonly twitter: TwitterClient,
     private readonly events: EventEmitter2,
     private readonly config: ConfigService,
+    private readonly socialFactory: SocialFactory,
   ) {}
 
  async sendMetaComment(comment: any) {
@@ -33,6 +35,52 @@ export class CommentOutboundService {
     await this.markCommentSuccess(comment, metaResponse.id, comment.profile.platformId, comment.profile.name);
   }
 
+  // ==========================================
+  // FIRST COMMENT (on our own published post)
+  // ==========================================
+  async sendFirstComment(comment: any) {
+    const dest = comment.postDestination;
+    if (!dest) throw new Error('First comment is not linked to a destination');
+
+    const provider = this.socialFactory.getProvider(comment.platform);
+    if (!provider.comment) {
+      throw new Error(`First comments are not supported on ${comment.platform}`);
+    }
+
+    const credentials = await this.resolveCredentials(dest.profile);
+    const res = await provider.comment(credentials, comment.externalPostId, comment.content, {
+      pageId: dest.profile.platformId,
+    });
+
+    await this.markCommentSuccess(comment, res.platformCommentId, dest.profile.platformId, dest.profile.name);
+  }
+
+  // ==========================================
+  // SANDBOX COMMENT REPLY (simulated network)
+  // ==========================================
+  async sendSandboxComment(comment: any) {
+    const provider = this.socialFactory.getProvider('SANDBOX');
+    const credentials = await this.resolveCredentials(comment.profile);
+    const res = await provider.comment!(credentials, comment.externalPostId, comment.content);
+
+    await this.markCommentSuccess(comment, res.platformCommentId, comment.profile.platformId, comment.profile.name);
+  }
+
+  private async resolveCredentials(profile: any) {
+    const encryptedToken = profile.accessToken ?? profile.connection?.accessToken;
+    if (!encryptedToken) throw new Error(`Missing ${profile.platform} access token`);
+    const accessToken = await this.encryption.decrypt(encryptedToken);
+
+    // X publishes with OAuth1: the token secret lives in connection.refreshToken
+    if (profile.platform === 'TWITTER') {
+      const encryptedSecret = profile.connection?.refreshToken;
+      if (!encryptedSecret) throw new Error('Missing X OAuth1 user tokens');
+      return { accessToken, accessSecret: await this.encryption.decrypt(encryptedSecret) };
+    }
+
+    return { accessToken };
+  }
+
   // ==========================================
   // X / TWITTER COMMENT REPLY
   // ==========================================
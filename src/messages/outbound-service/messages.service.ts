@@ -1,6 +1,7 @@
 import { EncryptionService } from '@/common/utility/encryption.service';
 import { PrismaService } from '@/prisma/prisma.service';
 import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
 import { ConfigService } from '@nestjs/config';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { MetaSendMode } from '../types/meta.types';
@@ -95,6 +96,11 @@ export class MessagingOutboundService {
     }
   }
 
+  /** The simulated network accepts every DM; nothing leaves the server. */
+  async sendSandboxMessage(msg: any) {
+    await this.updateMessageSuccess(msg, `sbx_dm_${randomUUID()}`);
+  }
+
   private async updateMessageSuccess(
     msg: any,
     providerId: string | null,
@@ -7,7 +7,8 @@ export type NormalizedPlatform =
   | 'TWITTER'
   | 'LINKEDIN'
   | 'WHATSAPP'
-  | 'EMAIL';
+  | 'EMAIL'
+  | 'SANDBOX';
 
 export type NormalizedConversationType = 'DIRECT_MESSAGE' | 'POST_COMMENT' | 'MENTION';
 
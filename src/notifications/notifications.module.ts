@@ -8,5 +8,6 @@ import { NotificationsSubscriber } from './notifications.subscriber';
   imports: [EventsModule],
   controllers: [NotificationsController],
   providers: [NotificationsService, NotificationsSubscriber],
+  exports: [NotificationsService],
 })
 export class NotificationsModule {}
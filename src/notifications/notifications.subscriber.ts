@@ -285,23 +285,40 @@ export class NotificationsSubscriber {
     });
   }
 
-  // @OnEvent('publishing.post.declined')
-  // async onPostDeclined(evt: {
-  //   workspaceId: string;
-  //   postId: string;
-  //   platform?: string;
-  //   reason?: string;
-  //   actorMemberId?: string;
-  // }) {
-  //   await this.notifyPostEvent({
-  //     workspaceId: evt.workspaceId,
-  //     postId: evt.postId,
-  //     type: NotificationType.POST_DECLINED,
-  //     title: `Post declined`,
-  //     body: evt.reason?.slice(0, 240) ?? `The platform declined your post`,
-  //     dedupeKey: `post:declined:${evt.postId}`,
-  //   });
-  // }
+  @OnEvent('publishing.post.declined')
+  async onPostDeclined(evt: DomainEventPayloadMap['publishing.post.declined']) {
+    await this.notifyPostEvent({
+      workspaceId: evt.workspaceId,
+      postId: evt.postId,
+      type: NotificationType.POST_DECLINED,
+      title: `Post declined`,
+      body: evt.reason.slice(0, 240),
+      dedupeKey: `post:declined:${evt.approvalId ?? evt.postDestinationId ?? evt.postId}`,
+      meta: {
+        platform: evt.platform,
+        profileName: evt.profileName,
+        snippet: evt.snippet,
+        reason: evt.reason,
+      },
+    });
+  }
+
+  @OnEvent('publishing.post.removed')
+  async onPostRemoved(evt: DomainEventPayloadMap['publishing.post.removed']) {
+    await this.notifyPostEvent({
+      workspaceId: evt.workspaceId,
+      postId: evt.postId,
+      type: NotificationType.POST_REMOVED,
+      title: `Post removed from ${evt.profileName}`,
+      body: `Your ${evt.platform} post is no longer on the network. It was probably deleted outside Rooli.`,
+      dedupeKey: `post:removed:${evt.postDestinationId}`,
+      meta: {
+        platform: evt.platform,
+        profileName: evt.profileName,
+        snippet: evt.snippet,
+      },
+    });
+  }
 
   /**
    * Helper for publishing events.
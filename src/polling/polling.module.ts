@@ -4,6 +4,7 @@ import { PollingController } from './polling.controller';
 import { InstagramInboxProvider } from './providers/instagram-inbox.provider';
 import { MetaInboxProvider } from './providers/meta-inbox.provider';
 import { LinkedInInboxProvider } from './providers/linkedin-inbox.provider';
+import { SandboxInboxProvider } from './providers/sandbox-inbox.provider';
 import { HttpModule } from '@nestjs/axios';
 import { InboxSyncScheduler } from './schedulers/polling.scheduler';
 import { WorkerModule } from '@/worker/worker.module';
@@ -24,8 +25,14 @@ import { forwardRef } from '@nestjs/common';
     InstagramInboxProvider,
     MetaInboxProvider,
     LinkedInInboxProvider,
+    SandboxInboxProvider,
     InboxSyncScheduler,
   ],
-  exports: [InstagramInboxProvider, MetaInboxProvider, LinkedInInboxProvider],
+  exports: [
+    InstagramInboxProvider,
+    MetaInboxProvider,
+    LinkedInInboxProvider,
+    SandboxInboxProvider,
+  ],
 })
 export class PollingModule {}
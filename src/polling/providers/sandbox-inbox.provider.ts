@@ -0,0 +1,130 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '@/prisma/prisma.service';
+import {
+  SANDBOX_AUDIENCE,
+  sandboxInt,
+  sandboxPick,
+  sandboxPublishedAt,
+  sandboxRandom,
+} from '@/common/utility/sandbox.util';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const COMMENT_LINES = [
+  'Love this! 🔥',
+  'Great post, thanks for sharing.',
+  'Where can I find out more?',
+  'This is exactly what I needed today.',
+  'Do you ship internationally?',
+  'Tagging my team, we should try this.',
+  'What time does the event start?',
+  'Not sure I agree, but interesting take.',
+];
+
+const DM_LINES = [
+  'Hi! Is this still available?',
+  'Hello, what are your opening hours?',
+  'Can I get a quote for 20 units?',
+  'My order has not arrived yet, can you check?',
+  'Do you offer student discounts?',
+  'Hey, loved your last post. Are you open to a collaboration?',
+];
+
+/**
+ * The SANDBOX network's "API": recent comments and DMs for a profile,
+ * generated from post IDs and time windows instead of fetched. Event IDs are
+ * stable, so each sync only adds what has "arrived" since the last one.
+ */
+@Injectable()
+export class SandboxInboxProvider {
+  // Comments keep arriving for this long after a post is published
+  private readonly COMMENT_WINDOW_HOURS = 72;
+  // One possible DM per window, looking back this many windows
+  private readonly DM_WINDOW_HOURS = 6;
+  private readonly DM_LOOKBACK_WINDOWS = 8;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getRecentComments(
+    platformId: string,
+    now = new Date(),
+  ): Promise<any[]> {
+    const since = new Date(now.getTime() - this.COMMENT_WINDOW_HOURS * HOUR_MS);
+
+    const posts = await this.prisma.postDestination.findMany({
+      where: {
+        status: 'SUCCESS',
+        platformPostId: { startsWith: 'sbx_' },
+        publishedAt: { gte: since },
+        profile: { platform: 'SANDBOX', platformId },
+      },
+      select: { platformPostId: true },
+    });
+
+    const events: any[] = [];
+    for (const { platformPostId } of posts) {
+      const publishedAt = sandboxPublishedAt(platformPostId);
+      if (!publishedAt) continue;
+
+      const count = sandboxInt(0, 4, platformPostId, 'comments');
+      for (let i = 0; i < count; i++) {
+        const arrivesAt = new Date(
+          publishedAt.getTime() +
+            sandboxInt(5, this.COMMENT_WINDOW_HOURS * 60, platformPostId, i) *
+              60_000,
+        );
+        if (arrivesAt > now) continue;
+
+        const author = sandboxPick(
+          SANDBOX_AUDIENCE,
+          platformPostId,
+          i,
+          'author',
+        );
+        // Now and then a comment answers the one before it
+        const isReply =
+          i > 0 && sandboxRandom(platformPostId, i, 'reply') < 0.25;
+
+        events.push({
+          id: `sbx_cmt_${platformPostId}_${i}`,
+          ownerId: platformId,
+          postId: platformPostId,
+          parentId: isReply ? `sbx_cmt_${platformPostId}_${i - 1}` : null,
+          author,
+          text: sandboxPick(COMMENT_LINES, platformPostId, i, 'text'),
+          createdAt: arrivesAt.toISOString(),
+        });
+      }
+    }
+
+    // Parents first, so replies can be threaded on ingest
+    return events.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async getRecentDMs(platformId: string, now = new Date()): Promise<any[]> {
+    const windowMs = this.DM_WINDOW_HOURS * HOUR_MS;
+    const current = Math.floor(now.getTime() / windowMs);
+
+    const events: any[] = [];
+    for (let w = current - this.DM_LOOKBACK_WINDOWS + 1; w <= current; w++) {
+      if (sandboxRandom(platformId, w, 'dm') >= 0.5) continue;
+
+      const arrivesAt = new Date(
+        w * windowMs + sandboxInt(0, windowMs - 1, platformId, w, 'at'),
+      );
+      if (arrivesAt > now) continue;
+
+      const sender = sandboxPick(SANDBOX_AUDIENCE, platformId, w, 'sender');
+      events.push({
+        id: `sbx_dm_${platformId}_${w}`,
+        threadId: `sbx_thread_${platformId}_${sender.id}`,
+        ownerId: platformId,
+        sender,
+        text: sandboxPick(DM_LINES, platformId, w, 'text'),
+        createdAt: arrivesAt.toISOString(),
+      });
+    }
+
+    return events;
+  }
+}
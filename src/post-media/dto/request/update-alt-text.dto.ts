@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, MaxLength } from 'class-validator';
+
+export class UpdateAltTextDto {
+  @ApiProperty({
+    description:
+      'Describes the media for screen readers. Networks with a lower limit (X: 1000) receive a truncated copy.',
+    example:
+      'Team photo at the product launch, five people holding the new app on their phones',
+    maxLength: 1500,
+  })
+  @IsString()
+  @MaxLength(1500)
+  altText: string;
+}
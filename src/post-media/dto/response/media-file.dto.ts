@@ -43,6 +43,12 @@ export class MediaFileDto {
   @ApiPropertyOptional({ description: 'Duration in seconds (videos only)', example: 120 })
   duration?: number;
 
+  @ApiPropertyOptional({ description: 'Number of pages (PDFs only)', example: 12 })
+  pageCount?: number;
+
+  @ApiPropertyOptional({ description: 'Alt text describing the media for screen readers', example: 'Team photo at the product launch, five people holding the new app on their phones' })
+  altText?: string;
+
   @ApiProperty({ description: 'Whether this media was generated by AI', example: false })
   isAIGenerated: boolean;
 
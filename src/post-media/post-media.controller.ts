@@ -37,6 +37,7 @@ import { MediaFileDto } from './dto/response/media-file.dto';
 import { MediaFolderDto } from './dto/response/media-folder.dto';
 import { MediaLibraryResponseDto } from './dto/response/media-library.dto';
 import { CurrentUser } from '@/common/decorators/current-user.decorator';
+import { UpdateAltTextDto } from './dto/request/update-alt-text.dto';
 
 @ApiTags('Media Library')
 @Controller('workspaces/:workspaceId/media')
@@ -168,6 +169,23 @@ export class PostMediaController {
     };
   }
 
+  @Patch(':fileId/alt-text')
+  @ApiOperation({
+    summary: 'Set alt text on a media file',
+    description:
+      'Used whenever the file is posted, unless the post sets its own alt text. Send an empty string to clear it.',
+  })
+  @ApiParam({ name: 'workspaceId', description: 'Workspace ID' })
+  @ApiParam({ name: 'fileId', description: 'ID of the media file' })
+  @ApiStandardResponse(MediaFileDto)
+  async updateAltText(
+    @Param('workspaceId') wsId: string,
+    @Param('fileId') fileId: string,
+    @Body() dto: UpdateAltTextDto,
+  ) {
+    return this.mediaService.updateAltText(wsId, fileId, dto.altText);
+  }
+
   @Patch('avatar')
   @ApiOperation({ 
     summary: 'Update user avatar', 
@@ -4,6 +4,7 @@ import {
   Injectable,
   InternalServerErrorException,
   Logger,
+  NotFoundException,
 } from '@nestjs/common';
 import * as streamifier from 'streamifier';
 import {
@@ -60,6 +61,7 @@ export class PostMediaService {
           duration: uploadResult.duration
             ? Math.round(uploadResult.duration)
             : null, // Videos only
+          pageCount: this.getPageCount(uploadResult),
 
           isAiGenerated: false,
         },
@@ -151,6 +153,26 @@ export class PostMediaService {
     return;
   }
 
+  /**
+   * Library-level alt text, used wherever the file is posted unless a post
+   * overrides it. An empty string clears it.
+   */
+  async updateAltText(workspaceId: string, fileId: string, altText: string) {
+    const file = await this.prisma.mediaFile.findFirst({
+      where: { id: fileId, workspaceId },
+      select: { id: true },
+    });
+
+    if (!file) throw new NotFoundException('File not found');
+
+    const updated = await this.prisma.mediaFile.update({
+      where: { id: fileId },
+      data: { altText: altText.trim() || null },
+    });
+
+    return { ...updated, size: updated.size.toString() };
+  }
+
   async uploadAiGeneratedBuffer(
     userId: string,
     workspaceId: string,
@@ -199,6 +221,102 @@ export class PostMediaService {
     };
   }
 
+  /**
+   * Cloudinary fetches the remote file itself, so nothing is buffered here.
+   * Used by spreadsheet imports where rows reference media by URL.
+   */
+  async importFromUrl(userId: string, workspaceId: string, url: string) {
+    const uploadResult = await cloudinary.uploader.upload(url, {
+      folder: `rooli/${workspaceId}`,
+      resource_type: 'auto',
+    });
+
+    const filename =
+      decodeURIComponent(new URL(url).pathname.split('/').pop() || '') ||
+      `import-${Date.now()}`;
+
+    const mediaFile = await this.prisma.mediaFile.create({
+      data: {
+        workspaceId,
+        userId,
+        filename,
+        originalName: filename,
+        mimeType: this.getMimeType(uploadResult),
+        size: BigInt(uploadResult.bytes ?? 0),
+
+        url: uploadResult.secure_url,
+        publicId: uploadResult.public_id,
+        thumbnailUrl: this.getThumbnailUrl(uploadResult),
+
+        width: uploadResult.width,
+        height: uploadResult.height,
+        duration: uploadResult.duration
+          ? Math.round(uploadResult.duration)
+          : null,
+        pageCount: this.getPageCount(uploadResult),
+
+        isAiGenerated: false,
+      },
+    });
+
+    return {
+      ...mediaFile,
+      size: mediaFile.size.toString(),
+    };
+  }
+
+  /**
+   * Gives another workspace its own copy of a library file. The asset is
+   * re-uploaded rather than shared, so deleting it in one library can't break
+   * posts in the other.
+   */
+  async copyToWorkspace(
+    userId: string,
+    workspaceId: string,
+    source: {
+      url: string;
+      filename: string;
+      originalName: string;
+      mimeType: string;
+      isAiGenerated: boolean;
+      aiProvider: string | null;
+      aiPrompt: string | null;
+      altText: string | null;
+    },
+  ) {
+    const uploadResult = await cloudinary.uploader.upload(source.url, {
+      folder: `rooli/${workspaceId}`,
+      resource_type: 'auto',
+    });
+
+    return this.prisma.mediaFile.create({
+      data: {
+        workspaceId,
+        userId,
+        filename: source.filename,
+        originalName: source.originalName,
+        mimeType: source.mimeType,
+        size: BigInt(uploadResult.bytes ?? 0),
+
+        url: uploadResult.secure_url,
+        publicId: uploadResult.public_id,
+        thumbnailUrl: this.getThumbnailUrl(uploadResult),
+
+        width: uploadResult.width,
+        height: uploadResult.height,
+        duration: uploadResult.duration
+          ? Math.round(uploadResult.duration)
+          : null,
+        pageCount: this.getPageCount(uploadResult),
+
+        isAiGenerated: source.isAiGenerated,
+        aiProvider: source.aiProvider,
+        aiPrompt: source.aiPrompt,
+        altText: source.altText,
+      },
+    });
+  }
+
   async updateUserAvatar(
     userId: string,
     workspaceId: string,
@@ -263,10 +381,20 @@ export class PostMediaService {
   }
 
   private getThumbnailUrl(result: any): string | null {
-    if (result.resource_type === 'video') {
-      // Cloudinary auto-generates jpg thumbnails for videos
+    if (result.resource_type === 'video' || result.format === 'pdf') {
+      // Cloudinary auto-generates jpg thumbnails for videos (and page 1 of PDFs)
       return result.secure_url.replace(/\.[^/.]+$/, '.jpg');
     }
     return result.secure_url;
   }
+
+  // Cloudinary stores PDFs as "image" resources, which would read as image/pdf
+  private getMimeType(result: any): string {
+    if (result.format === 'pdf') return 'application/pdf';
+    return `${result.resource_type}/${result.format}`;
+  }
+
+  private getPageCount(result: any): number | null {
+    return result.format === 'pdf' ? (result.pages ?? null) : null;
+  }
 }
@@ -0,0 +1,86 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ContextGuard } from '@/common/guards/context.guard';
+import { PermissionsGuard } from '@/common/guards/permission.guard';
+import { FeatureGuard } from '@/common/guards/feature.guard';
+import { RequireFeature } from '@/common/decorators/require-feature.decorator';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+import { PaginationDto } from '@/common/dtos/pagination.dto';
+import { PermissionAction, PermissionResource } from '@generated/enums';
+import { ApprovalShareService } from '../services/approval-share.service';
+import { CreateApprovalShareLinkDto } from '../dto/request/approval-share.dto';
+
+@ApiTags('Approval Share Links')
+@ApiBearerAuth()
+@UseGuards(ContextGuard, PermissionsGuard, FeatureGuard)
+@RequireFeature('approvalWorkflow')
+@Controller('workspaces/:workspaceId/approval-links')
+export class ApprovalShareController {
+  constructor(private readonly service: ApprovalShareService) {}
+
+  @Post()
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.APPROVE)
+  @ApiOperation({
+    summary: 'Create a review link for a client',
+    description:
+      'Signed and expiring. Whoever has the link can preview the posts, approve or reject them, and comment without a Rooli account.',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  create(
+    @CurrentUser('userId') userId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Body() dto: CreateApprovalShareLinkDto,
+  ) {
+    return this.service.create(userId, workspaceId, dto);
+  }
+
+  @Get()
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.READ)
+  @ApiOperation({ summary: 'List review links' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  list(
+    @Param('workspaceId') workspaceId: string,
+    @Query() query: PaginationDto,
+  ) {
+    return this.service.list(workspaceId, query);
+  }
+
+  @Get(':linkId')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.READ)
+  @ApiOperation({ summary: 'Client decisions and comments on a review link' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'linkId', example: 'link_123' })
+  feedback(
+    @Param('workspaceId') workspaceId: string,
+    @Param('linkId') linkId: string,
+  ) {
+    return this.service.getFeedback(workspaceId, linkId);
+  }
+
+  @Delete(':linkId')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.APPROVE)
+  @ApiOperation({ summary: 'Revoke a review link' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'linkId', example: 'link_123' })
+  revoke(
+    @Param('workspaceId') workspaceId: string,
+    @Param('linkId') linkId: string,
+  ) {
+    return this.service.revoke(workspaceId, linkId);
+  }
+}
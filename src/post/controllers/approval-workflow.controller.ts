@@ -0,0 +1,68 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ContextGuard } from '@/common/guards/context.guard';
+import { PermissionsGuard } from '@/common/guards/permission.guard';
+import { FeatureGuard } from '@/common/guards/feature.guard';
+import { RequireFeature } from '@/common/decorators/require-feature.decorator';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { PermissionAction, PermissionResource } from '@generated/enums';
+import { ApprovalWorkflowService } from '../services/approval-workflow.service';
+import { UpsertApprovalWorkflowDto } from '../dto/request/approval-workflow.dto';
+
+@ApiTags('Approval Workflow')
+@ApiBearerAuth()
+@UseGuards(ContextGuard, PermissionsGuard, FeatureGuard)
+@RequireFeature('approvalWorkflow')
+@Controller('workspaces/:workspaceId/approval-workflow')
+export class ApprovalWorkflowController {
+  constructor(private readonly service: ApprovalWorkflowService) {}
+
+  @Get()
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.READ)
+  @ApiOperation({
+    summary:
+      'Get the approval workflow (null when posts need a single approval)',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  get(@Param('workspaceId') workspaceId: string) {
+    return this.service.get(workspaceId);
+  }
+
+  @Put()
+  @RequirePermission(PermissionResource.SETTINGS, PermissionAction.UPDATE)
+  @ApiOperation({
+    summary: 'Set the ordered approval steps',
+    description:
+      'Posts sent for approval go through each step in order and are scheduled only when the last one approves. A rejection at any step sends the post back to draft.',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  upsert(
+    @Param('workspaceId') workspaceId: string,
+    @Body() dto: UpsertApprovalWorkflowDto,
+  ) {
+    return this.service.upsert(workspaceId, dto);
+  }
+
+  @Delete()
+  @RequirePermission(PermissionResource.SETTINGS, PermissionAction.UPDATE)
+  @ApiOperation({
+    summary: 'Remove the workflow and go back to single approvals',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  remove(@Param('workspaceId') workspaceId: string) {
+    return this.service.remove(workspaceId);
+  }
+}
@@ -0,0 +1,54 @@
+import { Body, Controller, Param, Post, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ContextGuard } from '@/common/guards/context.guard';
+import { PermissionsGuard } from '@/common/guards/permission.guard';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+import { PermissionAction, PermissionResource } from '@generated/enums';
+import { MediaConformanceService } from '../services/media-conformance.service';
+import {
+  CreateMediaVariantDto,
+  MediaCheckDto,
+} from '../dto/request/media-conformance.dto';
+
+@ApiTags('Media Conformance')
+@ApiBearerAuth()
+@UseGuards(ContextGuard, PermissionsGuard)
+@Controller('workspaces/:workspaceId/media-conformance')
+export class MediaConformanceController {
+  constructor(private readonly service: MediaConformanceService) {}
+
+  @Post('check')
+  @ApiOperation({
+    summary: 'Check media against each destination’s platform rules',
+    description:
+      'Reports aspect ratio, duration, size and dimension violations per profile, with the variant that would fix each one. Creating a post runs the same checks and rejects blocking violations.',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  check(@Param('workspaceId') workspaceId: string, @Body() dto: MediaCheckDto) {
+    return this.service.checkPost(workspaceId, dto);
+  }
+
+  @Post(':mediaId/variants')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.CREATE)
+  @ApiOperation({
+    summary: 'Create a cropped, trimmed or transcoded copy of a media file',
+    description:
+      'The copy is added to the library right away and processed in the background; its dimensions and duration are filled in once ready.',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'mediaId', example: 'media_123' })
+  createVariant(
+    @Param('workspaceId') workspaceId: string,
+    @Param('mediaId') mediaId: string,
+    @Body() dto: CreateMediaVariantDto,
+    @CurrentUser('userId') userId: string,
+  ) {
+    return this.service.createVariant(workspaceId, userId, mediaId, dto);
+  }
+}
@@ -3,7 +3,7 @@ import { FeatureGuard } from "@/common/guards/feature.guard";
 import { Controller, UseGuards, Get, Param, Patch, Body, Delete, Req, Query } from "@nestjs/common";
 import { PostService } from "../services/post.service";
 import { ApiPaginatedResponse } from "@/common/decorators/api-paginated-response.decorator";
-import { PaginationDto } from "@/common/dtos/pagination.dto";
+import { GetApprovalsDto } from "../dto/request/get-approvals.dto";
 import { PostApprovalDto } from "../dto/response/post-approval.dto";
 import { ReviewApprovalDto } from "../dto/response/review-approval.dto";
 import { ApiStandardResponse } from "@/common/decorators/api-standard-response.decorator";
@@ -21,10 +21,15 @@ export class PostApprovalController {
 @ApiPaginatedResponse(PostApprovalDto)
 @Get()
 findAll(
+  @Req() req,
   @Param('workspaceId') wsId: string,
-  @Query() query: PaginationDto,
+  @Query() query: GetApprovalsDto,
 ) {
-  return this.postService.getPendingApprovals(wsId, query);
+  return this.postService.getPendingApprovals(
+    wsId,
+    query,
+    query.mine ? req.user.userId : undefined,
+  );
 }
 
 
@@ -54,7 +59,7 @@ findAll(
     @Param('approvalId') approvalId: string,
   ) {
     return this.postService.cancelApprovalRequest(
-      req.user,
+      req.user.userId,
       wsId,
       approvalId,
     );
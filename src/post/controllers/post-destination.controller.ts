@@ -0,0 +1,114 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ContextGuard } from '@/common/guards/context.guard';
+import { PermissionsGuard } from '@/common/guards/permission.guard';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { PermissionAction, PermissionResource } from '@generated/enums';
+import { PostDestinationService } from '../services/post-destination.service';
+import {
+  DeadLetterQueryDto,
+  RetryDeadLettersDto,
+} from '../dto/request/publish-retry.dto';
+
+@ApiTags('Publishing Retries')
+@ApiBearerAuth()
+@UseGuards(ContextGuard, PermissionsGuard)
+@Controller('workspaces/:workspaceId')
+export class PostDestinationController {
+  constructor(private readonly service: PostDestinationService) {}
+
+  @Post('posts/:postId/destinations/retry-failed')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.PUBLISH)
+  @ApiOperation({
+    summary: 'Retry every failed destination of a post',
+    description: 'Destinations that already published are not touched.',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'postId', example: 'post_123' })
+  retryFailed(
+    @Param('workspaceId') workspaceId: string,
+    @Param('postId') postId: string,
+  ) {
+    return this.service.retryFailed(workspaceId, postId);
+  }
+
+  @Post('posts/:postId/destinations/:destinationId/retry')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.PUBLISH)
+  @ApiOperation({
+    summary: 'Retry one destination',
+    description:
+      'For failed, dead-lettered or cancelled destinations, or to skip a pending automatic backoff.',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'postId', example: 'post_123' })
+  @ApiParam({ name: 'destinationId', example: 'dest_123' })
+  @ApiResponse({ status: 400, description: 'Profile is not connected' })
+  retry(
+    @Param('workspaceId') workspaceId: string,
+    @Param('postId') postId: string,
+    @Param('destinationId') destinationId: string,
+  ) {
+    return this.service.retry(workspaceId, postId, destinationId);
+  }
+
+  @Post('posts/:postId/destinations/:destinationId/cancel')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.PUBLISH)
+  @ApiOperation({
+    summary: 'Cancel one destination',
+    description:
+      'Stops a scheduled or failed destination from publishing or being retried.',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'postId', example: 'post_123' })
+  @ApiParam({ name: 'destinationId', example: 'dest_123' })
+  cancel(
+    @Param('workspaceId') workspaceId: string,
+    @Param('postId') postId: string,
+    @Param('destinationId') destinationId: string,
+  ) {
+    return this.service.cancel(workspaceId, postId, destinationId);
+  }
+
+  @Get('publishing/dead-letters')
+  @ApiOperation({
+    summary: 'List dead-lettered destinations',
+    description:
+      'Destinations that failed on auth or permission errors and wait for a manual retry.',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  listDeadLetters(
+    @Param('workspaceId') workspaceId: string,
+    @Query() query: DeadLetterQueryDto,
+  ) {
+    return this.service.listDeadLetters(workspaceId, query);
+  }
+
+  @Post('publishing/dead-letters/retry')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.PUBLISH)
+  @ApiOperation({
+    summary: 'Retry dead letters',
+    description:
+      'Typically called after reconnecting an account. Dead letters of profiles that are still disconnected are skipped.',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  retryDeadLetters(
+    @Param('workspaceId') workspaceId: string,
+    @Body() dto: RetryDeadLettersDto,
+  ) {
+    return this.service.retryDeadLetters(workspaceId, dto);
+  }
+}
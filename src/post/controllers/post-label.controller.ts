@@ -0,0 +1,99 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ContextGuard } from '@/common/guards/context.guard';
+import { PermissionsGuard } from '@/common/guards/permission.guard';
+import { FeatureGuard } from '@/common/guards/feature.guard';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { RequireFeature } from '@/common/decorators/require-feature.decorator';
+import { PermissionAction, PermissionResource } from '@generated/enums';
+import { PostLabelService } from '../services/post-label.service';
+import {
+  CreatePostLabelDto,
+  SetPostLabelsDto,
+  UpdatePostLabelDto,
+} from '../dto/request/post-label.dto';
+
+@ApiTags('Post Labels')
+@ApiBearerAuth()
+@UseGuards(ContextGuard, PermissionsGuard, FeatureGuard)
+@RequireFeature('hasLabels')
+@Controller('workspaces/:workspaceId')
+export class PostLabelController {
+  constructor(private readonly service: PostLabelService) {}
+
+  @Get('labels')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.READ)
+  @ApiOperation({ summary: 'List labels with how many posts use each' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  list(@Param('workspaceId') workspaceId: string) {
+    return this.service.list(workspaceId);
+  }
+
+  @Post('labels')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.MANAGE)
+  @ApiOperation({ summary: 'Create label' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  create(
+    @Param('workspaceId') workspaceId: string,
+    @Body() dto: CreatePostLabelDto,
+  ) {
+    return this.service.create(workspaceId, dto);
+  }
+
+  @Patch('labels/:labelId')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.MANAGE)
+  @ApiOperation({ summary: 'Rename or recolour label' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'labelId', example: 'lbl_123' })
+  update(
+    @Param('workspaceId') workspaceId: string,
+    @Param('labelId') labelId: string,
+    @Body() dto: UpdatePostLabelDto,
+  ) {
+    return this.service.update(workspaceId, labelId, dto);
+  }
+
+  @Delete('labels/:labelId')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.MANAGE)
+  @ApiOperation({ summary: 'Delete label (posts are kept, only untagged)' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'labelId', example: 'lbl_123' })
+  remove(
+    @Param('workspaceId') workspaceId: string,
+    @Param('labelId') labelId: string,
+  ) {
+    return this.service.delete(workspaceId, labelId);
+  }
+
+  @Put('posts/:postId/labels')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.UPDATE)
+  @ApiOperation({
+    summary: "Set a post's labels",
+    description:
+      'Works on published posts too, so past content can be tagged for reporting.',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'postId', example: 'post_123' })
+  setPostLabels(
+    @Param('workspaceId') workspaceId: string,
+    @Param('postId') postId: string,
+    @Body() dto: SetPostLabelsDto,
+  ) {
+    return this.service.setPostLabels(workspaceId, postId, dto.labelIds);
+  }
+}
@@ -0,0 +1,120 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ContextGuard } from '@/common/guards/context.guard';
+import { PermissionsGuard } from '@/common/guards/permission.guard';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+import { PermissionAction, PermissionResource } from '@generated/enums';
+import { PostNotesService } from '../services/post-notes.service';
+import {
+  CreatePostNoteDto,
+  GetPostNotesDto,
+  UpdatePostNoteDto,
+} from '../dto/request/post-note.dto';
+
+@ApiTags('Post Notes')
+@ApiBearerAuth()
+@UseGuards(ContextGuard, PermissionsGuard)
+@Controller('workspaces/:workspaceId')
+export class PostNotesController {
+  constructor(private readonly service: PostNotesService) {}
+
+  @Get('posts/:postId/notes')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.READ)
+  @ApiOperation({ summary: 'List internal discussion threads on a post' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'postId', example: 'post_123' })
+  list(
+    @Param('workspaceId') workspaceId: string,
+    @Param('postId') postId: string,
+    @Query() query: GetPostNotesDto,
+  ) {
+    return this.service.list(workspaceId, postId, query);
+  }
+
+  @Post('posts/:postId/notes')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.READ)
+  @ApiOperation({
+    summary: 'Start a thread or reply to one',
+    description:
+      'Mentioned members get a notification. Replying to a resolved thread reopens it.',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'postId', example: 'post_123' })
+  create(
+    @CurrentUser('userId') userId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Param('postId') postId: string,
+    @Body() dto: CreatePostNoteDto,
+  ) {
+    return this.service.create(userId, workspaceId, postId, dto);
+  }
+
+  @Patch('post-notes/:noteId')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.READ)
+  @ApiOperation({ summary: 'Edit your note' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'noteId', example: 'note_123' })
+  update(
+    @CurrentUser('userId') userId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Param('noteId') noteId: string,
+    @Body() dto: UpdatePostNoteDto,
+  ) {
+    return this.service.update(userId, workspaceId, noteId, dto);
+  }
+
+  @Delete('post-notes/:noteId')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.READ)
+  @ApiOperation({ summary: 'Delete your note (a thread takes its replies)' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'noteId', example: 'note_123' })
+  remove(
+    @CurrentUser('userId') userId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Param('noteId') noteId: string,
+  ) {
+    return this.service.remove(userId, workspaceId, noteId);
+  }
+
+  @Post('post-notes/:noteId/resolve')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.READ)
+  @ApiOperation({ summary: 'Resolve a thread' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'noteId', example: 'note_123' })
+  resolve(
+    @CurrentUser('userId') userId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Param('noteId') noteId: string,
+  ) {
+    return this.service.setResolved(userId, workspaceId, noteId, true);
+  }
+
+  @Delete('post-notes/:noteId/resolve')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.READ)
+  @ApiOperation({ summary: 'Reopen a resolved thread' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'noteId', example: 'note_123' })
+  unresolve(
+    @CurrentUser('userId') userId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Param('noteId') noteId: string,
+  ) {
+    return this.service.setResolved(userId, workspaceId, noteId, false);
+  }
+}
@@ -0,0 +1,119 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseEnumPipe,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ContextGuard } from '@/common/guards/context.guard';
+import { PermissionsGuard } from '@/common/guards/permission.guard';
+import { FeatureGuard } from '@/common/guards/feature.guard';
+import { RequireFeature } from '@/common/decorators/require-feature.decorator';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+import {
+  PermissionAction,
+  PermissionResource,
+  RecurrenceType,
+} from '@generated/enums';
+import { PostRecurrenceService } from '../services/post-recurrence.service';
+import { CreatePostRecurrenceDto } from '../dto/request/post-recurrence.dto';
+
+@ApiTags('Recurring Posts')
+@ApiBearerAuth()
+@UseGuards(ContextGuard, PermissionsGuard, FeatureGuard)
+@RequireFeature('queueScheduling')
+@Controller('workspaces/:workspaceId')
+export class PostRecurrenceController {
+  constructor(private readonly service: PostRecurrenceService) {}
+
+  @Get('recurrences')
+  @ApiOperation({ summary: 'List recurring and evergreen posts' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiQuery({ name: 'type', required: false, enum: RecurrenceType })
+  list(
+    @Param('workspaceId') workspaceId: string,
+    @Query('type', new ParseEnumPipe(RecurrenceType, { optional: true }))
+    type?: RecurrenceType,
+  ) {
+    return this.service.list(workspaceId, type);
+  }
+
+  @Put('posts/:postId/recurrence')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.UPDATE)
+  @ApiOperation({
+    summary: 'Make a post repeat (creates or replaces its recurrence)',
+    description:
+      'Each repeat is created as a new post with its own destinations, so analytics stay separate per run.',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'postId', example: 'post_123' })
+  @ApiResponse({ status: 200, description: 'Recurrence saved' })
+  @ApiResponse({ status: 400, description: 'Invalid recurrence settings' })
+  upsert(
+    @Param('workspaceId') workspaceId: string,
+    @Param('postId') postId: string,
+    @CurrentUser('userId') userId: string,
+    @Body() dto: CreatePostRecurrenceDto,
+  ) {
+    return this.service.upsert(workspaceId, postId, userId, dto);
+  }
+
+  @Get('posts/:postId/recurrence')
+  @ApiOperation({ summary: 'Get the recurrence of a post and its latest runs' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'postId', example: 'post_123' })
+  get(
+    @Param('workspaceId') workspaceId: string,
+    @Param('postId') postId: string,
+  ) {
+    return this.service.get(workspaceId, postId);
+  }
+
+  @Post('posts/:postId/recurrence/pause')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Pause a recurrence' })
+  pause(
+    @Param('workspaceId') workspaceId: string,
+    @Param('postId') postId: string,
+  ) {
+    return this.service.setActive(workspaceId, postId, false);
+  }
+
+  @Post('posts/:postId/recurrence/resume')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.UPDATE)
+  @ApiOperation({
+    summary: 'Resume a recurrence (runs missed while paused are skipped)',
+  })
+  resume(
+    @Param('workspaceId') workspaceId: string,
+    @Param('postId') postId: string,
+  ) {
+    return this.service.setActive(workspaceId, postId, true);
+  }
+
+  @Delete('posts/:postId/recurrence')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.UPDATE)
+  @ApiOperation({
+    summary: 'Stop repeating a post (existing runs are kept)',
+  })
+  remove(
+    @Param('workspaceId') workspaceId: string,
+    @Param('postId') postId: string,
+  ) {
+    return this.service.remove(workspaceId, postId);
+  }
+}
@@ -0,0 +1,85 @@
+import { Controller, Get, Param, Post, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ContextGuard } from '@/common/guards/context.guard';
+import { PermissionsGuard } from '@/common/guards/permission.guard';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+import { PaginationDto } from '@/common/dtos/pagination.dto';
+import { PermissionAction, PermissionResource } from '@generated/enums';
+import { PostRevisionService } from '../services/post-revision.service';
+import { RevisionDiffQueryDto } from '../dto/request/revision-diff.dto';
+
+@ApiTags('Post Revisions')
+@ApiBearerAuth()
+@UseGuards(ContextGuard, PermissionsGuard)
+@Controller('workspaces/:workspaceId/posts/:postId/revisions')
+export class PostRevisionController {
+  constructor(private readonly service: PostRevisionService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List revisions of a post (newest first)' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'postId', example: 'post_123' })
+  list(
+    @Param('workspaceId') workspaceId: string,
+    @Param('postId') postId: string,
+    @Query() query: PaginationDto,
+  ) {
+    return this.service.list(workspaceId, postId, query);
+  }
+
+  @Get('diff')
+  @ApiOperation({
+    summary: 'Diff two revisions',
+    description:
+      'Returns word-level changes for content, first comment and per-profile overrides, plus media and schedule changes. Omit `to` to compare against the latest revision.',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'postId', example: 'post_123' })
+  diff(
+    @Param('workspaceId') workspaceId: string,
+    @Param('postId') postId: string,
+    @Query() query: RevisionDiffQueryDto,
+  ) {
+    return this.service.diff(workspaceId, postId, query.from, query.to);
+  }
+
+  @Get(':revisionId')
+  @ApiOperation({ summary: 'Get one revision' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'postId', example: 'post_123' })
+  @ApiParam({ name: 'revisionId', example: 'rev_123' })
+  get(
+    @Param('workspaceId') workspaceId: string,
+    @Param('postId') postId: string,
+    @Param('revisionId') revisionId: string,
+  ) {
+    return this.service.get(workspaceId, postId, revisionId);
+  }
+
+  @Post(':revisionId/restore')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.UPDATE)
+  @ApiOperation({
+    summary: 'Restore a revision',
+    description:
+      'Copies the revision back onto the post and records the restore as a new revision. Past schedules are not restored.',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'postId', example: 'post_123' })
+  @ApiParam({ name: 'revisionId', example: 'rev_123' })
+  @ApiResponse({ status: 400, description: 'Post is already published' })
+  restore(
+    @Param('workspaceId') workspaceId: string,
+    @Param('postId') postId: string,
+    @Param('revisionId') revisionId: string,
+    @CurrentUser('userId') userId: string,
+  ) {
+    return this.service.restore(workspaceId, postId, revisionId, userId);
+  }
+}
@@ -9,7 +9,10 @@ import {
   Delete,
   Patch,
   Query,
+  UseInterceptors,
+  UploadedFile,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { PostService } from '../services/post.service';
 import { RequireFeature } from '@/common/decorators/require-feature.decorator';
 import { FeatureGuard } from '@/common/guards/feature.guard';
@@ -22,6 +25,7 @@ import {
   ApiBearerAuth,
   ApiResponse,
   ApiBody,
+  ApiConsumes,
 } from '@nestjs/swagger';
 import { BulkExecuteResponseDto } from '../dto/response/bulk-execute.response.dto';
 import { CurrentUser } from '@/common/decorators/current-user.decorator';
@@ -34,12 +38,42 @@ import { ContextGuard } from '@/common/guards/context.guard';
 import { PermissionsGuard } from '@/common/guards/permission.guard';
 import { RequirePermission } from '@/common/decorators/require-permission.decorator';
 import { PermissionResource, PermissionAction } from '@generated/enums';
+import { BulkImportService } from '../services/bulk-import.service';
+import { BulkImportOptionsDto } from '../dto/request/bulk-import.dto';
+import { PostTransferService } from '../services/post-transfer.service';
+import { TransferPostsDto } from '../dto/request/transfer-posts.dto';
+import { PostPreviewService } from '../services/post-preview.service';
+
+const BULK_IMPORT_UPLOAD = { limits: { fileSize: 5 * 1024 * 1024 } }; // 5MB
+
+const BULK_IMPORT_SCHEMA = {
+  type: 'object',
+  properties: {
+    file: { type: 'string', format: 'binary', description: '.csv or .xlsx' },
+    contentColumn: { type: 'string', example: 'Caption' },
+    profilesColumn: { type: 'string', example: 'Profiles' },
+    mediaColumn: { type: 'string', example: 'Media URLs' },
+    scheduledAtColumn: { type: 'string', example: 'Publish At' },
+    campaignColumn: { type: 'string', example: 'Campaign' },
+    firstCommentColumn: { type: 'string', example: 'First Comment' },
+    timezoneColumn: { type: 'string', example: 'Timezone' },
+    timezone: { type: 'string', example: 'Africa/Lagos' },
+    needsApproval: { type: 'boolean' },
+    skipInvalidRows: { type: 'boolean' },
+  },
+  required: ['file'],
+};
 
 @Controller('workspaces/:workspaceId/posts')
 @ApiBearerAuth()
 @UseGuards(ContextGuard, PermissionsGuard, FeatureGuard)
 export class PostController {
-  constructor(private readonly postService: PostService) {}
+  constructor(
+    private readonly postService: PostService,
+    private readonly bulkImportService: BulkImportService,
+    private readonly transferService: PostTransferService,
+    private readonly previewService: PostPreviewService,
+  ) {}
 
   @Post()
   @RequirePermission(PermissionResource.POSTS, PermissionAction.CREATE)
@@ -53,6 +87,21 @@ export class PostController {
     return this.postService.createPost(req.user, workspaceId, dto);
   }
 
+  @Post('preview')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.READ)
+  @ApiOperation({
+    summary: 'Preview what each destination will publish',
+    description:
+      'Runs a draft through the same platform rules as saving it: final text, X auto-threading, media order, "see more" cut-off, hashtag counts and warnings. Invalid destinations come back with their error; nothing is created.',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'cmjy3lnu50002m4iaj3fuj7so' })
+  async preview(
+    @Param('workspaceId') workspaceId: string,
+    @Body() dto: CreatePostDto,
+  ) {
+    return this.previewService.preview(workspaceId, dto);
+  }
+
   @Get()
   @ApiOperation({ summary: 'Get all posts in the workspace' })
   @ApiPaginatedResponse(PostDto)
@@ -98,8 +147,14 @@ export class PostController {
     @Param('workspaceId') workspaceId: string,
     @Param('postId') postId: string,
     @Body() dto: UpdatePostDto,
+    @CurrentUser('userId') userId: string,
   ) {
-    const post = await this.postService.updatePost(workspaceId, postId, dto);
+    const post = await this.postService.updatePost(
+      workspaceId,
+      postId,
+      dto,
+      userId,
+    );
     return { data: post };
   }
 
@@ -119,7 +174,7 @@ export class PostController {
   @Post('bulk/execute')
   @RequireFeature('bulkScheduling')
   @ApiOperation({
-    summary: 'Execute bulk schedule after CSV validation',
+    summary: 'Execute bulk schedule from JSON posts',
     description: 'Creates scheduled posts and destinations in the workspace.',
   })
   @ApiParam({ name: 'workspaceId', example: 'cmjy3lnu50002m4iaj3fuj7so' })
@@ -132,6 +187,77 @@ export class PostController {
     return this.postService.bulkSchedulePosts(user, workspaceId, body);
   }
 
+  @Post('bulk/import/validate')
+  @RequireFeature('bulkScheduling')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.CREATE)
+  @ApiOperation({
+    summary: 'Dry run a CSV/XLSX bulk schedule',
+    description:
+      'Maps spreadsheet columns to posts and validates every row against platform rules and plan limits. Returns a row-by-row report; nothing is created.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({ schema: BULK_IMPORT_SCHEMA })
+  @UseInterceptors(FileInterceptor('file', BULK_IMPORT_UPLOAD))
+  async validateBulkImport(
+    @Param('workspaceId') workspaceId: string,
+    @Body() options: BulkImportOptionsDto,
+    @UploadedFile() file: Express.Multer.File,
+  ) {
+    return this.bulkImportService.validate(workspaceId, file, options);
+  }
+
+  @Post('bulk/import')
+  @RequireFeature('bulkScheduling')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.CREATE)
+  @ApiOperation({
+    summary: 'Schedule posts from a CSV/XLSX file',
+    description:
+      'Upload the same file and options used for the dry run. Re-validates, imports media URLs and bulk schedules. Rejects the file with the report if any row fails, unless skipInvalidRows is set.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({ schema: BULK_IMPORT_SCHEMA })
+  @UseInterceptors(FileInterceptor('file', BULK_IMPORT_UPLOAD))
+  async executeBulkImport(
+    @Param('workspaceId') workspaceId: string,
+    @Body() options: BulkImportOptionsDto,
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentUser() user,
+  ) {
+    return this.bulkImportService.execute(user, workspaceId, file, options);
+  }
+
+  @Post('transfer/validate')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.READ)
+  @ApiOperation({
+    summary: 'Dry run copying or moving posts to another workspace',
+    description:
+      'Maps profiles, shifts times and checks every copy against the target workspace\'s platform rules and plan limits. Returns a per-post report; nothing is created.',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'cmjy3lnu50002m4iaj3fuj7so' })
+  async validateTransfer(
+    @Param('workspaceId') workspaceId: string,
+    @Body() dto: TransferPostsDto,
+    @CurrentUser() user,
+  ) {
+    return this.transferService.validate(user, workspaceId, dto);
+  }
+
+  @Post('transfer')
+  @RequirePermission(PermissionResource.POSTS, PermissionAction.READ)
+  @ApiOperation({
+    summary: 'Copy or move posts to another workspace',
+    description:
+      'Copies media into the target library and creates the posts (with thread replies) there. MOVE also deletes the source posts. Requires POSTS.CREATE in the target workspace.',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'cmjy3lnu50002m4iaj3fuj7so' })
+  async transfer(
+    @Param('workspaceId') workspaceId: string,
+    @Body() dto: TransferPostsDto,
+    @CurrentUser() user,
+  ) {
+    return this.transferService.execute(user, workspaceId, dto);
+  }
+
   @Patch(':id/edit')
   @ApiOperation({ 
     summary: 'Edit a published post content', 
@@ -151,8 +277,14 @@ export class PostController {
     @Param('id') postId: string,
     @Body('newContent') newContent: string,
      @CurrentUser('workspaceId') workspaceId: string, 
+    @CurrentUser('userId') userId: string,
   ) {
-    return this.postService.editPublishedPost(workspaceId, postId, newContent);
+    return this.postService.editPublishedPost(
+      workspaceId,
+      postId,
+      newContent,
+      userId,
+    );
   }
 
   @Delete(':id/remote')
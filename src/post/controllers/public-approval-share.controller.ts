@@ -0,0 +1,56 @@
+import { Body, Controller, Get, Param, Post, UseGuards } from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiTags } from '@nestjs/swagger';
+import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
+import { Public } from '@/common/decorators/public.decorator';
+import { RateLimit } from '@/common/decorators/rate-limit.decorator';
+import { ApprovalShareService } from '../services/approval-share.service';
+import {
+  ShareCommentDto,
+  ShareDecisionDto,
+} from '../dto/request/approval-share.dto';
+
+/**
+ * The client side of a review link. Public: the signed token is the only
+ * credential, so every route is rate limited per IP against guessing.
+ */
+@ApiTags('Approval Share Links')
+@Public()
+@RateLimit('approval-share')
+@UseGuards(ThrottlerGuard)
+@Throttle({ default: { limit: 30, ttl: 60_000 } })
+@Controller('share/approvals/:token')
+export class PublicApprovalShareController {
+  constructor(private readonly service: ApprovalShareService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Open a review link: previews and approval state' })
+  @ApiParam({ name: 'token' })
+  open(@Param('token') token: string) {
+    return this.service.open(token);
+  }
+
+  @Post('posts/:postId/decision')
+  @Throttle({ default: { limit: 10, ttl: 60_000 } })
+  @ApiOperation({ summary: 'Approve or reject a post' })
+  @ApiParam({ name: 'token' })
+  @ApiParam({ name: 'postId', example: 'post_123' })
+  decide(
+    @Param('token') token: string,
+    @Param('postId') postId: string,
+    @Body() dto: ShareDecisionDto,
+  ) {
+    return this.service.decide(token, postId, dto);
+  }
+
+  @Post('posts/:postId/comments')
+  @ApiOperation({ summary: 'Comment on a post' })
+  @ApiParam({ name: 'token' })
+  @ApiParam({ name: 'postId', example: 'post_123' })
+  comment(
+    @Param('token') token: string,
+    @Param('postId') postId: string,
+    @Body() dto: ShareCommentDto,
+  ) {
+    return this.service.comment(token, postId, dto);
+  }
+}
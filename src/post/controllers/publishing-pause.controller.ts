@@ -0,0 +1,79 @@
+import { Body, Controller, Get, Param, Post, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ContextGuard } from '@/common/guards/context.guard';
+import { PermissionsGuard } from '@/common/guards/permission.guard';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+import { PermissionAction, PermissionResource } from '@generated/enums';
+import { PublishingPauseService } from '../services/publishing-pause.service';
+import {
+  PausePublishingDto,
+  ResumePublishingDto,
+} from '../dto/request/publishing-pause.dto';
+
+@ApiTags('Publishing Pause')
+@ApiBearerAuth()
+@UseGuards(ContextGuard, PermissionsGuard)
+@Controller('workspaces/:workspaceId/publishing-pause')
+export class PublishingPauseController {
+  constructor(private readonly service: PublishingPauseService) {}
+
+  @Get()
+  @RequirePermission(PermissionResource.SCHEDULING, PermissionAction.READ)
+  @ApiOperation({ summary: 'Whether publishing is paused, and for what' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  status(@Param('workspaceId') workspaceId: string) {
+    return this.service.getStatus(workspaceId);
+  }
+
+  @Post()
+  @RequirePermission(PermissionResource.SCHEDULING, PermissionAction.MANAGE)
+  @ApiOperation({
+    summary: 'Pause publishing (crisis mode)',
+    description:
+      'Stops every due post in the workspace, or for one profile, from going out. Scheduled jobs are held, not deleted.',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  pause(
+    @CurrentUser('userId') userId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Body() dto: PausePublishingDto,
+  ) {
+    return this.service.pause(userId, workspaceId, dto);
+  }
+
+  @Get(':pauseId/backlog')
+  @RequirePermission(PermissionResource.SCHEDULING, PermissionAction.READ)
+  @ApiOperation({ summary: 'Posts that came due during the pause' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'pauseId', example: 'pause_123' })
+  backlog(
+    @Param('workspaceId') workspaceId: string,
+    @Param('pauseId') pauseId: string,
+  ) {
+    return this.service.getBacklog(workspaceId, pauseId);
+  }
+
+  @Post(':pauseId/resume')
+  @RequirePermission(PermissionResource.SCHEDULING, PermissionAction.MANAGE)
+  @ApiOperation({
+    summary: 'Lift the pause and decide what happens to the backlog',
+    description:
+      'PUBLISH sends the held posts now, RESCHEDULE moves them into the next free queue slots, DROP cancels them.',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiParam({ name: 'pauseId', example: 'pause_123' })
+  resume(
+    @CurrentUser('userId') userId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Param('pauseId') pauseId: string,
+    @Body() dto: ResumePublishingDto,
+  ) {
+    return this.service.resume(userId, workspaceId, pauseId, dto);
+  }
+}
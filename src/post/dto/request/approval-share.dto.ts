@@ -0,0 +1,102 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+
+export class CreateApprovalShareLinkDto {
+  @ApiPropertyOptional({
+    description: 'Shown to the client at the top of the review page',
+    example: 'Acme – March content',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(120)
+  label?: string;
+
+  @ApiPropertyOptional({
+    description: 'Specific posts to share',
+    type: [String],
+    example: ['post_123'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(200)
+  @IsString({ each: true })
+  postIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Share every post in this campaign',
+    example: 'cmp_123',
+  })
+  @IsOptional()
+  @IsString()
+  campaignId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Share posts scheduled from this time (with or without a campaign)',
+    example: '2026-03-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Share posts scheduled until this time',
+    example: '2026-03-31T23:59:59Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({ minimum: 1, maximum: 30, default: 7 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(30)
+  expiresInDays?: number;
+}
+
+export class ShareDecisionDto {
+  @ApiProperty({ enum: ['APPROVED', 'REJECTED'] })
+  @IsIn(['APPROVED', 'REJECTED'])
+  status: 'APPROVED' | 'REJECTED';
+
+  @ApiProperty({ example: 'Jane from Acme' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(80)
+  reviewerName: string;
+
+  @ApiPropertyOptional({ example: 'Please use the new logo' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  notes?: string;
+}
+
+export class ShareCommentDto {
+  @ApiProperty({ example: 'Jane from Acme' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(80)
+  authorName: string;
+
+  @ApiProperty({ example: 'Can we post this a day earlier?' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(2000)
+  content: string;
+}
@@ -0,0 +1,76 @@
+import { ApprovalRule } from '@generated/enums';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+
+export class ApprovalStepDto {
+  @ApiProperty({ example: 'Client sign-off' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({
+    enum: ApprovalRule,
+    default: ApprovalRule.ANY,
+    description:
+      'ANY: one approval completes the step. ALL: every reviewer must approve.',
+  })
+  @IsOptional()
+  @IsEnum(ApprovalRule)
+  rule?: ApprovalRule;
+
+  @ApiPropertyOptional({
+    description: 'Workspace role whose members review this step',
+    example: 'role_123',
+  })
+  @IsOptional()
+  @IsString()
+  roleId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Users who review this step, in addition to the role',
+    type: [String],
+    example: ['user_123'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  userIds?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Lets clients settle this step through a share link. Share-link decisions are refused on other steps.',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  clientReview?: boolean;
+}
+
+export class UpsertApprovalWorkflowDto {
+  @ApiProperty({ example: 'QA then client' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    type: [ApprovalStepDto],
+    description: 'Steps in the order posts go through them',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => ApprovalStepDto)
+  steps: ApprovalStepDto[];
+}
@@ -0,0 +1,97 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsOptional, IsString } from 'class-validator';
+
+/**
+ * Multipart fields sent alongside the spreadsheet. Column options take the
+ * header text as it appears in the file; when omitted, common header names
+ * are detected (e.g. "Caption", "Profiles", "Media URLs", "Publish At").
+ */
+export class BulkImportOptionsDto {
+  @ApiPropertyOptional({
+    description: 'Header of the post text column',
+    example: 'Caption',
+  })
+  @IsOptional()
+  @IsString()
+  contentColumn?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Header of the profiles column. Cells list profile IDs, usernames or names separated by commas.',
+    example: 'Profiles',
+  })
+  @IsOptional()
+  @IsString()
+  profilesColumn?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Header of the media column. Cells list media library IDs or URLs; unknown URLs are imported on confirm.',
+    example: 'Media URLs',
+  })
+  @IsOptional()
+  @IsString()
+  mediaColumn?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Header of the publish time column (e.g. 2026-03-01 09:30). Use "auto" to take the next queue slot; leave empty for a draft.',
+    example: 'Publish At',
+  })
+  @IsOptional()
+  @IsString()
+  scheduledAtColumn?: string;
+
+  @ApiPropertyOptional({
+    description: 'Header of the campaign (ID or name) column',
+    example: 'Campaign',
+  })
+  @IsOptional()
+  @IsString()
+  campaignColumn?: string;
+
+  @ApiPropertyOptional({
+    description: 'Header of the first comment column',
+    example: 'First Comment',
+  })
+  @IsOptional()
+  @IsString()
+  firstCommentColumn?: string;
+
+  @ApiPropertyOptional({
+    description: 'Header of a per-row IANA timezone column',
+    example: 'Timezone',
+  })
+  @IsOptional()
+  @IsString()
+  timezoneColumn?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Timezone for rows without one. Defaults to the workspace timezone.',
+    example: 'Africa/Lagos',
+  })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    description: 'Send every imported post for approval',
+    default: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  needsApproval?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'On confirm, create the valid rows and skip the invalid ones instead of rejecting the file',
+    default: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  skipInvalidRows?: boolean;
+}
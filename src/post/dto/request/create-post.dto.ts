@@ -2,17 +2,23 @@ import {
   IsArray,
   IsBoolean,
   IsDateString,
+  IsDefined,
   IsEnum,
   IsNotEmpty,
   IsOptional,
   IsString,
+  MaxLength,
+  ValidateIf,
   ValidateNested,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { ContentType } from '@generated/enums';
-import { Type } from 'class-transformer';
+import { Transform, Type } from 'class-transformer';
 import { PostOverrideDto } from './post-override.dto';
 import { ThreadItemDto } from './thread-item.dto';
+import { MediaAltTextDto } from './media-alt-text.dto';
+import { PostPollDto } from './post-poll.dto';
+import { normalizeQueueCategory } from '@/queue/queue-category.util';
 
 export class CreatePostDto {
   @ApiProperty({
@@ -23,6 +29,15 @@ export class CreatePostDto {
   @IsString()
   content?: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Posted as the first comment once the post is live (e.g. hashtags or links). Use overrides[].firstComment per profile.',
+    example: '#launch #startup 👉 https://rooli.app',
+  })
+  @IsOptional()
+  @IsString()
+  firstComment?: string;
+
   @ApiPropertyOptional({
     description: 'Type of content being posted',
     enum: ContentType,
@@ -32,6 +47,27 @@ export class CreatePostDto {
   @IsEnum(ContentType)
   contentType?: ContentType = ContentType.POST;
 
+  @ApiPropertyOptional({
+    type: () => PostPollDto,
+    description:
+      'Required when contentType is POLL. Polls publish natively on X and LinkedIn only.',
+  })
+  @ValidateIf((o) => o.contentType === ContentType.POLL || o.poll !== undefined)
+  @IsDefined({ message: 'poll is required when contentType is POLL' })
+  @ValidateNested()
+  @Type(() => PostPollDto)
+  poll?: PostPollDto;
+
+  @ApiPropertyOptional({
+    description:
+      'Title shown on LinkedIn document (PDF) posts. Defaults to the file name.',
+    example: '2026 B2B Content Playbook',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  documentTitle?: string;
+
   @ApiProperty({
     description: 'List of SocialProfile IDs this post should be published to',
     example: ['cl9abc123facebook_page_id', 'cl9xyz456linkedin_profile_id'],
@@ -54,6 +90,23 @@ export class CreatePostDto {
   @IsOptional()
   mediaIds?: string[] = [];
 
+  @ApiPropertyOptional({
+    type: () => [MediaAltTextDto],
+    example: [
+      {
+        mediaId: 'media_1',
+        altText: 'Close-up of the new dashboard showing weekly engagement',
+      },
+    ],
+    description:
+      "Per-post alt text for some of mediaIds. Media without an entry use the library file's alt text.",
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => MediaAltTextDto)
+  @IsOptional()
+  mediaAltTexts?: MediaAltTextDto[];
+
   @ApiPropertyOptional({
     description:
       'ISO 8601 datetime string for when the post should be published',
@@ -89,6 +142,27 @@ export class CreatePostDto {
   @IsString()
   campaignId?: string;
 
+  @ApiPropertyOptional({
+    description: 'Label IDs (Rocket plan feature) for content pillar reporting',
+    example: ['lbl_product', 'lbl_culture'],
+    type: [String],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  labelIds?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Queue category. Auto-scheduling only puts the post in slots of this category (or uncategorised ones).',
+    example: 'tips',
+  })
+  @IsOptional()
+  @Transform(({ value }) => normalizeQueueCategory(value))
+  @IsString()
+  @MaxLength(40)
+  queueCategory?: string;
+
   @ApiPropertyOptional({
     description: 'Whether the post requires approval before publishing',
     example: false,
@@ -108,6 +182,10 @@ export class CreatePostDto {
         socialProfileId: 'profile_linkedin_456',
         content: 'LinkedIn version with a professional tone.',
       },
+      {
+        socialProfileId: 'profile_instagram_789',
+        firstComment: '#dev #nestjs #buildinpublic',
+      },
     ],
     description: 'Optional platform-specific content overrides',
   })
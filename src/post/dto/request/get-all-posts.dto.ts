@@ -1,7 +1,9 @@
 import { PaginationDto } from '@/common/dtos/pagination.dto';
 import { PostStatus, ContentType } from '@generated/enums';
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { toIdList } from '@/common/utility/query-list.util';
+import { Transform } from 'class-transformer';
+import { IsArray, IsEnum, IsOptional, IsString } from 'class-validator';
 
 export class GetWorkspacePostsDto extends PaginationDto {
   @ApiPropertyOptional({ enum: PostStatus, description: 'Filter by post status' })
@@ -18,4 +20,15 @@ export class GetWorkspacePostsDto extends PaginationDto {
   @IsOptional()
   @IsString()
   search?: string;
+
+  @ApiPropertyOptional({
+    description: 'Comma-separated label IDs; posts with any of them are returned',
+    example: 'lbl_product,lbl_culture',
+    type: String,
+  })
+  @IsOptional()
+  @Transform(({ value }) => toIdList(value))
+  @IsArray()
+  @IsString({ each: true })
+  labelIds?: string[];
 }
@@ -0,0 +1,15 @@
+import { PaginationDto } from '@/common/dtos/pagination.dto';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class GetApprovalsDto extends PaginationDto {
+  @ApiPropertyOptional({
+    description: 'Only approvals waiting on the current user',
+    default: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  mine?: boolean;
+}
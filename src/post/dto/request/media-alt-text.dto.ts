@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class MediaAltTextDto {
+  @ApiProperty({
+    example: 'media_1',
+    description: 'One of the post mediaIds',
+  })
+  @IsNotEmpty()
+  @IsString()
+  mediaId: string;
+
+  @ApiProperty({
+    example: 'Close-up of the new dashboard showing weekly engagement',
+    description:
+      "Alt text for this post only. Replaces the library file's alt text; an empty string sends none.",
+  })
+  @IsString()
+  @MaxLength(1500)
+  altText: string;
+}
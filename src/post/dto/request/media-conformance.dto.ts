@@ -0,0 +1,68 @@
+import { ContentType } from '@generated/enums';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class MediaCheckDto {
+  @ApiProperty({ type: [String], example: ['sp_ig_123', 'sp_x_456'] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  socialProfileIds: string[];
+
+  @ApiProperty({ type: [String], example: ['media_1'] })
+  @IsArray()
+  @IsString({ each: true })
+  mediaIds: string[];
+
+  @ApiPropertyOptional({ enum: ContentType, default: ContentType.POST })
+  @IsOptional()
+  @IsEnum(ContentType)
+  contentType?: ContentType;
+}
+
+export class CreateMediaVariantDto {
+  @ApiProperty({
+    enum: ['crop', 'trim', 'transcode'],
+    description:
+      'crop: fill to aspectRatio, keeping the most important area. trim: cut a video to maxDuration. transcode: re-encode (H.264 / compressed JPEG) and cap dimensions to reduce size.',
+  })
+  @IsIn(['crop', 'trim', 'transcode'])
+  type: 'crop' | 'trim' | 'transcode';
+
+  @ApiPropertyOptional({ example: '4:5', description: 'Required for crop' })
+  @IsOptional()
+  @Matches(/^\d+(\.\d+)?:\d+(\.\d+)?$/, {
+    message: 'aspectRatio must look like 4:5 or 1.91:1',
+  })
+  aspectRatio?: string;
+
+  @ApiPropertyOptional({
+    example: 90,
+    description: 'Seconds; required for trim',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxDuration?: number;
+
+  @ApiPropertyOptional({
+    example: 1920,
+    description: 'Longest side in px for transcode',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(320)
+  @Max(8192)
+  maxDimension?: number;
+}
@@ -0,0 +1,43 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsHexColor,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class CreatePostLabelDto {
+  @ApiProperty({
+    example: 'Product',
+    description: 'Content pillar name, unique per workspace',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(40)
+  name: string;
+
+  @ApiPropertyOptional({
+    example: '#10B981',
+    description: 'Hex color code for the calendar UI',
+  })
+  @IsOptional()
+  @IsHexColor()
+  color?: string;
+}
+
+export class UpdatePostLabelDto extends PartialType(CreatePostLabelDto) {}
+
+export class SetPostLabelsDto {
+  @ApiProperty({
+    example: ['lbl_product'],
+    description: 'Replaces the post labels. An empty list removes them all.',
+    type: [String],
+  })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  labelIds: string[];
+}
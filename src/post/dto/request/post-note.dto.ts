@@ -0,0 +1,69 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+
+export class CreatePostNoteDto {
+  @ApiProperty({ example: '@Ada can you check the CTA before Friday?' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(5000)
+  content: string;
+
+  @ApiPropertyOptional({
+    description: 'Reply to this thread (top-level note ID)',
+    example: 'note_123',
+  })
+  @IsOptional()
+  @IsString()
+  parentId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Workspace member IDs @mentioned in the note',
+    type: [String],
+    example: ['wsm_123'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  mentions?: string[];
+}
+
+export class UpdatePostNoteDto {
+  @ApiProperty({ example: '@Ada can you check the CTA before Thursday?' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(5000)
+  content: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Workspace member IDs @mentioned in the edited note. Only newly added members are notified.',
+    type: [String],
+    example: ['wsm_123'],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  mentions?: string[];
+}
+
+export class GetPostNotesDto {
+  @ApiPropertyOptional({
+    description: 'Include resolved threads',
+    default: true,
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  includeResolved?: boolean;
+}
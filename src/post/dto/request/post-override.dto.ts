@@ -1,5 +1,5 @@
-import { ApiProperty } from "@nestjs/swagger";
-import { IsNotEmpty, IsString } from "class-validator";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsNotEmpty, IsOptional, IsString } from "class-validator";
 
 export class PostOverrideDto {
   @ApiProperty({
@@ -10,11 +10,21 @@ export class PostOverrideDto {
   @IsString()
   socialProfileId: string;
 
-  @ApiProperty({
+  @ApiPropertyOptional({
     example: 'Launching today 🚀 #startup #buildinpublic',
     description: 'Customized content for the specific social profile',
   })
+  @IsOptional()
   @IsNotEmpty()
   @IsString()
-  content: string;
+  content?: string;
+
+  @ApiPropertyOptional({
+    example: '#startup #buildinpublic',
+    description:
+      'First comment for this profile. An empty string disables the first comment here.',
+  })
+  @IsOptional()
+  @IsString()
+  firstComment?: string;
 }
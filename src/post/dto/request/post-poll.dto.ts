@@ -0,0 +1,48 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+// LinkedIn only offers these; X takes anything up to 7 days
+export const POLL_DURATION_DAYS = [1, 3, 7, 14] as const;
+
+export class PostPollDto {
+  @ApiProperty({
+    example: 'Which feature should we ship next?',
+    description:
+      'The poll question. On X it is the tweet text when the post has no content.',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(140)
+  question: string;
+
+  @ApiProperty({
+    example: ['Dark mode', 'Calendar sync', 'Bulk edit'],
+    description:
+      '2 to 4 answers. Per-network length limits are checked per destination.',
+    type: [String],
+  })
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(4)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  options: string[];
+
+  @ApiProperty({
+    example: 3,
+    description: 'How long voting stays open, in days.',
+    enum: POLL_DURATION_DAYS,
+  })
+  @IsInt()
+  @IsIn([...POLL_DURATION_DAYS])
+  durationDays: number;
+}
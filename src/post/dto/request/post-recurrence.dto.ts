@@ -0,0 +1,107 @@
+import { RecurrenceType } from '@generated/enums';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class CreatePostRecurrenceDto {
+  @ApiProperty({
+    enum: RecurrenceType,
+    example: RecurrenceType.INTERVAL,
+    description:
+      'INTERVAL repeats every N days, WEEKDAYS on given days of the week, EVERGREEN puts the post in the pool used to refill the queue.',
+  })
+  @IsEnum(RecurrenceType)
+  type: RecurrenceType;
+
+  @ApiPropertyOptional({
+    description:
+      'INTERVAL: days between runs. EVERGREEN: minimum days before the post is reused.',
+    example: 14,
+    minimum: 1,
+    maximum: 365,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  intervalDays?: number;
+
+  @ApiPropertyOptional({
+    description: 'WEEKDAYS: days to post on, 1 (Monday) to 7 (Sunday).',
+    example: [1, 4],
+    type: [Number],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(7)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  @Max(7, { each: true })
+  weekdays?: number[];
+
+  @ApiPropertyOptional({
+    description:
+      'Time of day (HH:mm) for INTERVAL / WEEKDAYS runs. Defaults to the time of the original post.',
+    example: '09:30',
+  })
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):([0-5]\d)$/, {
+    message: 'time must be in HH:mm format',
+  })
+  time?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'IANA timezone for `time`. Defaults to the post timezone, then the workspace timezone.',
+    example: 'Africa/Lagos',
+  })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'EVERGREEN: refill the queue when fewer than this many posts are scheduled.',
+    example: 5,
+    minimum: 1,
+    maximum: 100,
+    default: 3,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  minQueued?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Stop after this many repeats (the original post not included).',
+    example: 10,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  maxRepeats?: number;
+
+  @ApiPropertyOptional({
+    description: 'No runs are created after this date.',
+    example: '2026-12-31T23:59:59Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
@@ -0,0 +1,27 @@
+import { PaginationDto } from '@/common/dtos/pagination.dto';
+import { Platform } from '@generated/enums';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+
+export class DeadLetterQueryDto extends PaginationDto {
+  @ApiPropertyOptional({ description: 'Only this profile', example: 'sp_123' })
+  @IsOptional()
+  @IsString()
+  socialProfileId?: string;
+
+  @ApiPropertyOptional({ enum: Platform })
+  @IsOptional()
+  @IsEnum(Platform)
+  platform?: Platform;
+}
+
+export class RetryDeadLettersDto {
+  @ApiPropertyOptional({
+    description:
+      'Only retry this profile (e.g. right after reconnecting it). Omit to retry every dead letter whose profile is connected.',
+    example: 'sp_123',
+  })
+  @IsOptional()
+  @IsString()
+  socialProfileId?: string;
+}
@@ -0,0 +1,33 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PauseResolution } from '@generated/enums';
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class PausePublishingDto {
+  @ApiPropertyOptional({
+    description: 'Pause only this profile. Omit to pause the whole workspace.',
+    example: 'profile_123',
+  })
+  @IsOptional()
+  @IsString()
+  socialProfileId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Shown to the team while the pause is on',
+    example: 'Holding all posts during the product recall',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class ResumePublishingDto {
+  @ApiProperty({
+    enum: PauseResolution,
+    description:
+      'PUBLISH sends the held posts now, RESCHEDULE puts them in the next free queue slots, DROP cancels them.',
+    example: PauseResolution.RESCHEDULE,
+  })
+  @IsEnum(PauseResolution)
+  action: PauseResolution;
+}
@@ -0,0 +1,20 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class RevisionDiffQueryDto {
+  @ApiProperty({
+    description: 'Older revision ID',
+    example: 'rev_123',
+  })
+  @IsNotEmpty()
+  @IsString()
+  from: string;
+
+  @ApiPropertyOptional({
+    description: 'Newer revision ID (defaults to the latest revision)',
+    example: 'rev_456',
+  })
+  @IsOptional()
+  @IsString()
+  to?: string;
+}
@@ -0,0 +1,134 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+
+export class ProfileMappingDto {
+  @ApiProperty({ example: 'profile_src_linkedin' })
+  @IsString()
+  sourceProfileId: string;
+
+  @ApiProperty({ example: 'profile_target_linkedin' })
+  @IsString()
+  targetProfileId: string;
+}
+
+/**
+ * Select posts with `postIds`, or with a campaign and/or date range. Source
+ * destinations whose profile isn't mapped are left out of the copy.
+ */
+export class TransferPostsDto {
+  @ApiProperty({ example: 'ws_target' })
+  @IsString()
+  targetWorkspaceId: string;
+
+  @ApiPropertyOptional({
+    enum: ['COPY', 'MOVE'],
+    default: 'COPY',
+    description:
+      'MOVE deletes the source posts once the copies exist. Published posts can only be copied.',
+  })
+  @IsOptional()
+  @IsIn(['COPY', 'MOVE'])
+  mode?: 'COPY' | 'MOVE';
+
+  @ApiPropertyOptional({ type: [String], example: ['post_123'] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(200)
+  @IsString({ each: true })
+  postIds?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Every post in this source campaign',
+    example: 'cmp_123',
+  })
+  @IsOptional()
+  @IsString()
+  campaignId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Posts scheduled from this time',
+    example: '2026-03-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Posts scheduled until this time',
+    example: '2026-03-31T23:59:59Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiProperty({ type: () => [ProfileMappingDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ProfileMappingDto)
+  profileMap: ProfileMappingDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Move every scheduled time by this many minutes (negative moves earlier)',
+    example: 10080,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  shiftMinutes?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Alternative to shiftMinutes: the earliest scheduled post lands at this time and the rest keep their spacing',
+    example: '2026-04-01T09:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  startAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'Campaign in the target workspace for the copies',
+    example: 'cmp_target',
+  })
+  @IsOptional()
+  @IsString()
+  targetCampaignId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Create the copies as unscheduled drafts',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  asDraft?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Send the copies for approval in the target workspace',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  needsApproval?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Create the valid posts and skip the invalid ones instead of rejecting the whole transfer',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  skipInvalid?: boolean;
+}
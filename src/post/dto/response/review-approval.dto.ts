@@ -1,11 +1,15 @@
 import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsIn, IsOptional, IsString } from "class-validator";
 
 export class ReviewApprovalDto {
   @ApiProperty({ enum: ['APPROVED', 'REJECTED'] })
+  @IsIn(['APPROVED', 'REJECTED'])
   status: 'APPROVED' | 'REJECTED';
 
   @ApiPropertyOptional(
     { example: 'Please fix the caption grammar' }
   )
+  @IsOptional()
+  @IsString()
   notes?: string;
 }
@@ -32,6 +32,7 @@ export interface MediaItem {
   height?: number;
   size?: number;
   duration?: number;
+  pageCount?: number; // PDFs only
 }
 
 
@@ -9,14 +9,78 @@ import { QueueModule } from '@/queue/queue.module';
 import { WorkerModule } from '@/worker/worker.module';
 import { SocialModule } from '@/social/social.module';
 import { EncryptionService } from '@/common/utility/encryption.service';
+import { PostRecurrenceController } from './controllers/post-recurrence.controller';
+import { PostRecurrenceService } from './services/post-recurrence.service';
+import { RecurrenceScheduler } from './schedulers/recurrence.scheduler';
+import { PostRevisionController } from './controllers/post-revision.controller';
+import { PostRevisionService } from './services/post-revision.service';
+import { BulkImportService } from './services/bulk-import.service';
+import { PostDestinationController } from './controllers/post-destination.controller';
+import { PostDestinationService } from './services/post-destination.service';
+import { MediaConformanceController } from './controllers/media-conformance.controller';
+import { MediaConformanceService } from './services/media-conformance.service';
+import { PostMediaModule } from '@/post-media/post-media.module';
+import { LinksModule } from '@/links/links.module';
+import { EventsModule } from '@/events/events.module';
+import { ApprovalWorkflowController } from './controllers/approval-workflow.controller';
+import { ApprovalWorkflowService } from './services/approval-workflow.service';
+import { ApprovalShareController } from './controllers/approval-share.controller';
+import { PublicApprovalShareController } from './controllers/public-approval-share.controller';
+import { ApprovalShareService } from './services/approval-share.service';
+import { NotificationsModule } from '@/notifications/notifications.module';
+import { PostNotesController } from './controllers/post-notes.controller';
+import { PostNotesService } from './services/post-notes.service';
+import { PostTransferService } from './services/post-transfer.service';
+import { PublishingPauseController } from './controllers/publishing-pause.controller';
+import { PublishingPauseService } from './services/publishing-pause.service';
+import { PostPreviewService } from './services/post-preview.service';
+import { PostLabelController } from './controllers/post-label.controller';
+import { PostLabelService } from './services/post-label.service';
 
 @Module({
   imports: [
    WorkerModule,
     QueueModule,
-    SocialModule
+    SocialModule,
+    PostMediaModule,
+    LinksModule,
+    EventsModule,
+    NotificationsModule,
   ],
-  controllers: [PostController, PostApprovalController],
-  providers: [PostService, PostFactory, DestinationBuilder, PlatformRulesService,EncryptionService],
+  controllers: [
+    PostController,
+    PostApprovalController,
+    PostRecurrenceController,
+    PostRevisionController,
+    PostDestinationController,
+    MediaConformanceController,
+    ApprovalWorkflowController,
+    ApprovalShareController,
+    PublicApprovalShareController,
+    PostNotesController,
+    PublishingPauseController,
+    PostLabelController,
+  ],
+  providers: [
+    PostService,
+    PostFactory,
+    DestinationBuilder,
+    PlatformRulesService,
+    EncryptionService,
+    PostRecurrenceService,
+    RecurrenceScheduler,
+    PostRevisionService,
+    BulkImportService,
+    PostDestinationService,
+    MediaConformanceService,
+    ApprovalWorkflowService,
+    ApprovalShareService,
+    PostNotesService,
+    PostTransferService,
+    PublishingPauseService,
+    PostPreviewService,
+    PostLabelService,
+  ],
+  exports: [PostService],
 })
 export class PostModule {}
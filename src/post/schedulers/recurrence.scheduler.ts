@@ -0,0 +1,34 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PostRecurrenceService } from '../services/post-recurrence.service';
+
+@Injectable()
+export class RecurrenceScheduler {
+  private readonly logger = new Logger(RecurrenceScheduler.name);
+
+  constructor(private readonly recurrences: PostRecurrenceService) {}
+
+  /**
+   * Runs every hour: creates upcoming runs of recurring posts, then tops up
+   * queues that have fallen below their evergreen threshold.
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async scheduleRecurringPosts() {
+    this.logger.log('⏰ Starting recurring posts scheduling...');
+
+    try {
+      await this.recurrences.processDueRecurrences();
+    } catch (error: any) {
+      this.logger.error(`Recurring runs failed: ${error.message}`, error.stack);
+    }
+
+    try {
+      await this.recurrences.refillEvergreenPools();
+    } catch (error: any) {
+      this.logger.error(
+        `Evergreen refill failed: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { createHmac } from 'crypto';
+import { ApprovalShareService } from './approval-share.service';
+
+describe('ApprovalShareService', () => {
+  const prisma = {
+    post: { count: jest.fn(), findFirst: jest.fn() },
+    campaign: { findFirst: jest.fn() },
+    approvalShareLink: { create: jest.fn(), findUnique: jest.fn() },
+    postApproval: { findFirst: jest.fn() },
+  };
+  const config = {
+    get: (key: string) =>
+      key === 'FRONTEND_URL' ? 'https://app.rooli.co' : 'secret',
+  };
+  const postService = { reviewApprovalExternally: jest.fn() };
+  const service = new ApprovalShareService(
+    prisma as any,
+    config as any,
+    postService as any,
+  );
+
+  const link = {
+    id: 'link1',
+    workspaceId: 'ws1',
+    postIds: ['post1'],
+    campaignId: null,
+    rangeStart: null,
+    rangeEnd: null,
+    revokedAt: null,
+    expiresAt: new Date(Date.now() + 86_400_000),
+  };
+
+  const createLink = async () => {
+    prisma.post.count.mockResolvedValue(1);
+    prisma.approvalShareLink.create.mockResolvedValue(link);
+    return service.create('u1', 'ws1', { postIds: ['post1'] });
+  };
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('returns a signed client URL', async () => {
+    const created = await createLink();
+
+    expect(created.token).toMatch(/^link1\.[\w-]+$/);
+    expect(created.url).toBe(`https://app.rooli.co/review/${created.token}`);
+  });
+
+  it('signs links with a key of their own, not the auth-token secret', async () => {
+    const derived = new ApprovalShareService(
+      prisma as any,
+      {
+        get: (key: string) => (key === 'JWT_SECRET' ? 'jwt-secret' : undefined),
+      } as any,
+      postService as any,
+    );
+    prisma.post.count.mockResolvedValue(1);
+    prisma.approvalShareLink.create.mockResolvedValue(link);
+
+    const { token } = await derived.create('u1', 'ws1', { postIds: ['post1'] });
+    const withJwtSecret = createHmac('sha256', 'jwt-secret')
+      .update(`${link.id}.${link.expiresAt.getTime()}`)
+      .digest('base64url');
+
+    expect(token.split('.')[1]).not.toBe(withJwtSecret);
+  });
+
+  it('rejects tampered and expired tokens', async () => {
+    const { token } = await createLink();
+
+    prisma.approvalShareLink.findUnique.mockResolvedValue(link);
+    await expect(
+      service.comment(`${token}x`, 'post1', {
+        authorName: 'Jane',
+        content: 'Hi',
+      }),
+    ).rejects.toBeInstanceOf(NotFoundException);
+
+    prisma.approvalShareLink.findUnique.mockResolvedValue({
+      ...link,
+      revokedAt: new Date(),
+    });
+    await expect(
+      service.decide(token, 'post1', {
+        status: 'APPROVED',
+        reviewerName: 'Jane',
+      }),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('records client decisions on the pending approval', async () => {
+    const { token } = await createLink();
+    prisma.approvalShareLink.findUnique.mockResolvedValue(link);
+    prisma.post.findFirst.mockResolvedValue({ id: 'post1' });
+    prisma.postApproval.findFirst.mockResolvedValue({ id: 'appr1' });
+    postService.reviewApprovalExternally.mockResolvedValue({
+      id: 'post1',
+      status: 'DRAFT',
+    });
+
+    const result = await service.decide(token, 'post1', {
+      status: 'REJECTED',
+      reviewerName: ' Jane ',
+      notes: 'Wrong logo',
+    });
+
+    expect(postService.reviewApprovalExternally).toHaveBeenCalledWith(
+      'ws1',
+      'appr1',
+      { shareLinkId: 'link1', name: 'Jane' },
+      'REJECTED',
+      'Wrong logo',
+    );
+    expect(result).toEqual({ postId: 'post1', status: 'DRAFT' });
+  });
+});
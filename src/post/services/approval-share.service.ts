@@ -0,0 +1,422 @@
+import { PrismaService } from '@/prisma/prisma.service';
+import { PaginationDto } from '@/common/dtos/pagination.dto';
+import { Prisma } from '@generated/client';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, hkdfSync, timingSafeEqual } from 'crypto';
+import { addDays } from 'date-fns';
+import {
+  CreateApprovalShareLinkDto,
+  ShareCommentDto,
+  ShareDecisionDto,
+} from '../dto/request/approval-share.dto';
+import { PostService } from './post.service';
+
+type ShareLink = Prisma.ApprovalShareLinkGetPayload<object>;
+
+const DEFAULT_EXPIRY_DAYS = 7;
+
+const PREVIEW_SELECT = {
+  id: true,
+  content: true,
+  status: true,
+  scheduledAt: true,
+  timezone: true,
+  contentType: true,
+  campaign: { select: { id: true, name: true, color: true } },
+  media: {
+    orderBy: { order: 'asc' },
+    select: {
+      mediaFile: {
+        select: { url: true, mimeType: true, width: true, height: true },
+      },
+    },
+  },
+  destinations: {
+    select: {
+      id: true,
+      contentOverride: true,
+      firstComment: true,
+      metadata: true,
+      profile: {
+        select: { platform: true, name: true, username: true, picture: true },
+      },
+    },
+  },
+  approvals: {
+    orderBy: { requestedAt: 'desc' },
+    take: 1,
+    select: {
+      id: true,
+      status: true,
+      stepName: true,
+      stepOrder: true,
+      totalSteps: true,
+      clientReview: true,
+      notes: true,
+      externalReviewer: true,
+      reviewedAt: true,
+    },
+  },
+} as const satisfies Prisma.PostSelect;
+
+const COMMENT_SELECT = {
+  id: true,
+  authorName: true,
+  content: true,
+  createdAt: true,
+} as const satisfies Prisma.ApprovalShareCommentSelect;
+
+type PreviewPost = Prisma.PostGetPayload<{
+  select: typeof PREVIEW_SELECT & {
+    clientComments: { select: typeof COMMENT_SELECT };
+  };
+}>;
+
+@Injectable()
+export class ApprovalShareService {
+  private linkKey?: string | Buffer;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly config: ConfigService,
+    private readonly postService: PostService,
+  ) {}
+
+  // =========================================================
+  // 1) Members: create / list / revoke
+  // =========================================================
+
+  async create(
+    userId: string,
+    workspaceId: string,
+    dto: CreateApprovalShareLinkDto,
+  ) {
+    const postIds = [...new Set(dto.postIds ?? [])];
+    if (!postIds.length && !dto.campaignId && !dto.from && !dto.to) {
+      throw new BadRequestException(
+        'Choose posts, a campaign or a date range to share.',
+      );
+    }
+    if (postIds.length && (dto.campaignId || dto.from || dto.to)) {
+      throw new BadRequestException(
+        'Share either specific posts or a campaign/date range, not both.',
+      );
+    }
+
+    const rangeStart = dto.from ? new Date(dto.from) : null;
+    const rangeEnd = dto.to ? new Date(dto.to) : null;
+    if (rangeStart && rangeEnd && rangeEnd < rangeStart) {
+      throw new BadRequestException('End date cannot be before start date');
+    }
+
+    if (postIds.length) {
+      const found = await this.prisma.post.count({
+        where: { id: { in: postIds }, workspaceId, parentPostId: null },
+      });
+      if (found !== postIds.length) {
+        throw new BadRequestException(
+          'One or more posts do not belong to this workspace.',
+        );
+      }
+    }
+
+    if (dto.campaignId) {
+      const campaign = await this.prisma.campaign.findFirst({
+        where: { id: dto.campaignId, workspaceId },
+        select: { id: true },
+      });
+      if (!campaign) throw new NotFoundException('Campaign not found');
+    }
+
+    const link = await this.prisma.approvalShareLink.create({
+      data: {
+        workspaceId,
+        createdById: userId,
+        label: dto.label?.trim() || null,
+        postIds,
+        campaignId: dto.campaignId ?? null,
+        rangeStart,
+        rangeEnd,
+        expiresAt: addDays(
+          new Date(),
+          dto.expiresInDays ?? DEFAULT_EXPIRY_DAYS,
+        ),
+      },
+    });
+
+    return this.withUrl(link);
+  }
+
+  async list(workspaceId: string, query: PaginationDto) {
+    const { page = 1, limit = 20 } = query;
+    const where = { workspaceId };
+
+    const [links, total] = await Promise.all([
+      this.prisma.approvalShareLink.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: {
+          createdBy: { select: { id: true, firstName: true, lastName: true } },
+          campaign: { select: { id: true, name: true } },
+          _count: { select: { decisions: true, comments: true } },
+        },
+      }),
+      this.prisma.approvalShareLink.count({ where }),
+    ]);
+
+    return {
+      data: links.map((l) => this.withUrl(l)),
+      meta: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
+  /** What the client did through the link: decisions and comments. */
+  async getFeedback(workspaceId: string, linkId: string) {
+    const link = await this.prisma.approvalShareLink.findFirst({
+      where: { id: linkId, workspaceId },
+      include: {
+        decisions: {
+          orderBy: { createdAt: 'desc' },
+          select: {
+            status: true,
+            notes: true,
+            externalReviewer: true,
+            createdAt: true,
+            approval: { select: { postId: true, stepName: true } },
+          },
+        },
+        comments: { orderBy: { createdAt: 'desc' } },
+      },
+    });
+    if (!link) throw new NotFoundException('Share link not found');
+    return this.withUrl(link);
+  }
+
+  async revoke(workspaceId: string, linkId: string) {
+    const link = await this.prisma.approvalShareLink.findFirst({
+      where: { id: linkId, workspaceId },
+      select: { id: true },
+    });
+    if (!link) throw new NotFoundException('Share link not found');
+
+    return this.prisma.approvalShareLink.update({
+      where: { id: link.id },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  // =========================================================
+  // 2) Clients (no login; the token is the credential)
+  // =========================================================
+
+  async open(token: string) {
+    const link = await this.resolveToken(token);
+
+    const [workspace, posts] = await Promise.all([
+      this.prisma.workspace.findUnique({
+        where: { id: link.workspaceId },
+        select: { name: true, agencyClientName: true },
+      }),
+      this.prisma.post.findMany({
+        where: this.scopeWhere(link),
+        orderBy: [{ scheduledAt: 'asc' }, { createdAt: 'asc' }],
+        select: {
+          ...PREVIEW_SELECT,
+          clientComments: {
+            where: { shareLinkId: link.id },
+            orderBy: { createdAt: 'asc' },
+            select: COMMENT_SELECT,
+          },
+        },
+      }),
+    ]);
+
+    await this.prisma.approvalShareLink.update({
+      where: { id: link.id },
+      data: { lastViewAt: new Date() },
+    });
+
+    return {
+      label: link.label,
+      workspace: workspace?.agencyClientName ?? workspace?.name ?? null,
+      expiresAt: link.expiresAt,
+      posts: posts.map((post) => this.toPreview(post)),
+    };
+  }
+
+  async decide(token: string, postId: string, dto: ShareDecisionDto) {
+    const link = await this.resolveToken(token);
+    await this.assertInScope(link, postId);
+
+    const approval = await this.prisma.postApproval.findFirst({
+      where: { postId, status: 'PENDING' },
+      orderBy: { requestedAt: 'desc' },
+      select: { id: true },
+    });
+    if (!approval) {
+      throw new BadRequestException('This post is not waiting for approval.');
+    }
+
+    const post = await this.postService.reviewApprovalExternally(
+      link.workspaceId,
+      approval.id,
+      { shareLinkId: link.id, name: dto.reviewerName.trim() },
+      dto.status,
+      dto.notes,
+    );
+
+    return { postId: post.id, status: post.status };
+  }
+
+  async comment(token: string, postId: string, dto: ShareCommentDto) {
+    const link = await this.resolveToken(token);
+    await this.assertInScope(link, postId);
+
+    return this.prisma.approvalShareComment.create({
+      data: {
+        shareLinkId: link.id,
+        postId,
+        authorName: dto.authorName.trim(),
+        content: dto.content.trim(),
+      },
+      select: COMMENT_SELECT,
+    });
+  }
+
+  // =========================================================
+  // Internal
+  // =========================================================
+
+  private scopeWhere(link: ShareLink): Prisma.PostWhereInput {
+    if (link.postIds.length) {
+      return {
+        workspaceId: link.workspaceId,
+        id: { in: link.postIds },
+      };
+    }
+
+    return {
+      workspaceId: link.workspaceId,
+      parentPostId: null,
+      ...(link.campaignId && { campaignId: link.campaignId }),
+      ...((link.rangeStart || link.rangeEnd) && {
+        scheduledAt: {
+          ...(link.rangeStart && { gte: link.rangeStart }),
+          ...(link.rangeEnd && { lte: link.rangeEnd }),
+        },
+      }),
+    };
+  }
+
+  private async assertInScope(link: ShareLink, postId: string) {
+    const post = await this.prisma.post.findFirst({
+      where: { AND: [this.scopeWhere(link), { id: postId }] },
+      select: { id: true },
+    });
+    if (!post) throw new NotFoundException('Post not found');
+  }
+
+  private toPreview(post: PreviewPost) {
+    const approval = post.approvals[0] ?? null;
+
+    return {
+      id: post.id,
+      status: post.status,
+      scheduledAt: post.scheduledAt,
+      timezone: post.timezone,
+      contentType: post.contentType,
+      campaign: post.campaign,
+      media: post.media.map((m) => m.mediaFile),
+      destinations: post.destinations.map((d) => ({
+        id: d.id,
+        profile: d.profile,
+        content: d.contentOverride ?? post.content,
+        firstComment: d.firstComment,
+        thread: ((d.metadata as any)?.thread ?? []).map(
+          (t: { content: string }) => t.content,
+        ),
+      })),
+      approval,
+      canDecide:
+        post.status === 'PENDING_APPROVAL' &&
+        approval?.status === 'PENDING' &&
+        (approval.stepOrder == null || approval.clientReview),
+      comments: post.clientComments,
+    };
+  }
+
+  /**
+   * Token = "<linkId>.<hmac(linkId.expiry)>". The signature stops anyone
+   * guessing link IDs; the row makes links revocable.
+   */
+  private sign(link: { id: string; expiresAt: Date }) {
+    const signature = createHmac('sha256', this.secret())
+      .update(`${link.id}.${link.expiresAt.getTime()}`)
+      .digest('base64url');
+    return `${link.id}.${signature}`;
+  }
+
+  private async resolveToken(token: string) {
+    const [id] = token.split('.');
+    const link = id
+      ? await this.prisma.approvalShareLink.findUnique({ where: { id } })
+      : null;
+
+    const expected = link ? Buffer.from(this.sign(link)) : null;
+    const given = Buffer.from(token);
+    if (
+      !link ||
+      !expected ||
+      expected.length !== given.length ||
+      !timingSafeEqual(expected, given)
+    ) {
+      throw new NotFoundException('Review link not found');
+    }
+
+    if (link.revokedAt) {
+      throw new ForbiddenException('This review link has been revoked.');
+    }
+    if (link.expiresAt < new Date()) {
+      throw new ForbiddenException('This review link has expired.');
+    }
+
+    return link;
+  }
+
+  private withUrl<T extends { id: string; expiresAt: Date }>(link: T) {
+    const token = this.sign(link);
+    return {
+      ...link,
+      token,
+      url: `${this.config.get<string>('FRONTEND_URL')}/review/${token}`,
+    };
+  }
+
+  /**
+   * APPROVAL_LINK_SECRET when set. Otherwise a key derived from JWT_SECRET
+   * for this purpose only, so a link signature is never a valid auth-token
+   * signature.
+   */
+  private secret() {
+    this.linkKey ??=
+      this.config.get<string>('APPROVAL_LINK_SECRET') ||
+      Buffer.from(
+        hkdfSync(
+          'sha256',
+          this.config.get<string>('JWT_SECRET')!,
+          '',
+          'rooli:approval-share-link',
+          32,
+        ),
+      );
+    return this.linkKey;
+  }
+}
@@ -0,0 +1,166 @@
+import { ForbiddenException } from '@nestjs/common';
+import { ApprovalWorkflowService } from './approval-workflow.service';
+
+describe('ApprovalWorkflowService', () => {
+  const service = new ApprovalWorkflowService({} as any, {} as any);
+
+  const makeTx = () => ({
+    postApprovalDecision: {
+      findUnique: jest.fn().mockResolvedValue(null),
+      create: jest.fn(),
+      findMany: jest.fn().mockResolvedValue([]),
+    },
+    postApproval: { update: jest.fn(), create: jest.fn() },
+    approvalStep: { findFirst: jest.fn(), count: jest.fn() },
+    workspaceMember: { findMany: jest.fn().mockResolvedValue([]) },
+  });
+
+  const approval = {
+    id: 'a1',
+    postId: 'post1',
+    requesterId: 'author',
+    stepOrder: 1,
+    stepName: 'Internal QA',
+    rule: 'ANY' as const,
+    eligibleUserIds: ['qa1', 'qa2'],
+    clientReview: false,
+  };
+
+  it('rejects reviewers outside the step', async () => {
+    await expect(
+      service.decide(makeTx() as any, 'ws1', approval, 'client1', 'APPROVED'),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('waits for every reviewer on an "all" step', async () => {
+    const tx = makeTx();
+    tx.postApprovalDecision.findMany.mockResolvedValue([{ userId: 'qa1' }]);
+
+    const outcome = await service.decide(
+      tx as any,
+      'ws1',
+      { ...approval, rule: 'ALL' },
+      'qa1',
+      'APPROVED',
+    );
+
+    expect(outcome).toBe('WAITING');
+    expect(tx.postApproval.update).not.toHaveBeenCalled();
+  });
+
+  it('opens the next step with its reviewers', async () => {
+    const tx = makeTx();
+    tx.approvalStep.findFirst.mockResolvedValue({
+      id: 'step2',
+      workflowId: 'wf1',
+      order: 2,
+      name: 'Client sign-off',
+      rule: 'ANY',
+      roleId: 'role_client',
+      userIds: ['client1'],
+      clientReview: true,
+    });
+    tx.approvalStep.count.mockResolvedValue(2);
+    tx.workspaceMember.findMany.mockResolvedValue([
+      { member: { userId: 'client2' } },
+    ]);
+
+    const outcome = await service.decide(
+      tx as any,
+      'ws1',
+      approval,
+      'qa2',
+      'APPROVED',
+    );
+
+    expect(outcome).toBe('NEXT_STEP');
+    expect(tx.postApproval.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        postId: 'post1',
+        requesterId: 'author',
+        stepOrder: 2,
+        totalSteps: 2,
+        eligibleUserIds: ['client1', 'client2'],
+        clientReview: true,
+      }),
+    });
+  });
+
+  it('approves on the last step and rejects at any step', async () => {
+    const tx = makeTx();
+    tx.approvalStep.findFirst.mockResolvedValue(null);
+
+    await expect(
+      service.decide(tx as any, 'ws1', approval, 'qa1', 'APPROVED'),
+    ).resolves.toBe('APPROVED');
+
+    await expect(
+      service.decide(tx as any, 'ws1', approval, 'qa2', 'REJECTED', 'Typo'),
+    ).resolves.toBe('REJECTED');
+    expect(tx.postApproval.update).toHaveBeenLastCalledWith({
+      where: { id: 'a1' },
+      data: expect.objectContaining({ status: 'REJECTED', notes: 'Typo' }),
+    });
+  });
+
+  describe('share-link decisions', () => {
+    const reviewer = { shareLinkId: 'link1', name: 'Dana (client)' };
+
+    it('refuses a step the team has to sign off', async () => {
+      const tx = makeTx();
+
+      await expect(
+        service.decideExternal(
+          tx as any,
+          'ws1',
+          approval,
+          reviewer,
+          'APPROVED',
+        ),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      await expect(
+        service.decideExternal(
+          tx as any,
+          'ws1',
+          { ...approval, rule: 'ALL' },
+          reviewer,
+          'REJECTED',
+        ),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(tx.postApprovalDecision.create).not.toHaveBeenCalled();
+      expect(tx.postApproval.update).not.toHaveBeenCalled();
+    });
+
+    it('settles a client step, and a plain approval with no workflow', async () => {
+      const tx = makeTx();
+      tx.approvalStep.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.decideExternal(
+          tx as any,
+          'ws1',
+          { ...approval, stepOrder: 2, clientReview: true },
+          reviewer,
+          'APPROVED',
+        ),
+      ).resolves.toBe('APPROVED');
+      await expect(
+        service.decideExternal(
+          tx as any,
+          'ws1',
+          { ...approval, stepOrder: null, stepName: null },
+          reviewer,
+          'APPROVED',
+        ),
+      ).resolves.toBe('APPROVED');
+      expect(tx.postApproval.update).toHaveBeenLastCalledWith({
+        where: { id: 'a1' },
+        data: expect.objectContaining({
+          status: 'APPROVED',
+          shareLinkId: 'link1',
+          externalReviewer: 'Dana (client)',
+        }),
+      });
+    });
+  });
+});
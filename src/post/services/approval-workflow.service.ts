@@ -0,0 +1,413 @@
+import { PrismaService } from '@/prisma/prisma.service';
+import { Prisma } from '@generated/client';
+import { ApprovalRule } from '@generated/enums';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { DomainEventsService } from '@/events/domain-events.service';
+import { UpsertApprovalWorkflowDto } from '../dto/request/approval-workflow.dto';
+
+/**
+ * What a review did to the chain:
+ * - WAITING: an "ALL" step still needs other reviewers
+ * - NEXT_STEP: the step passed and the next one opened
+ * - APPROVED: the final step passed; the post can be scheduled
+ * - REJECTED: the post goes back to draft
+ */
+export type ApprovalOutcome = 'WAITING' | 'NEXT_STEP' | 'APPROVED' | 'REJECTED';
+
+type ReviewableApproval = {
+  id: string;
+  postId: string;
+  requesterId: string;
+  stepOrder: number | null;
+  stepName: string | null;
+  rule: ApprovalRule;
+  eligibleUserIds: string[];
+  clientReview: boolean;
+};
+
+const STEPS_INCLUDE = {
+  steps: {
+    orderBy: { order: 'asc' },
+    include: { role: { select: { id: true, name: true } } },
+  },
+} as const;
+
+@Injectable()
+export class ApprovalWorkflowService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly events: DomainEventsService,
+  ) {}
+
+  // =========================================================
+  // 1) Workflow configuration
+  // =========================================================
+
+  async get(workspaceId: string) {
+    return this.prisma.approvalWorkflow.findUnique({
+      where: { workspaceId },
+      include: STEPS_INCLUDE,
+    });
+  }
+
+  /**
+   * Replaces the workspace's workflow. Posts already in review finish the
+   * step they're on with the reviewers it had when it opened.
+   */
+  async upsert(workspaceId: string, dto: UpsertApprovalWorkflowDto) {
+    await this.assertReviewers(workspaceId, dto);
+
+    return this.prisma.$transaction(async (tx) => {
+      const workflow = await tx.approvalWorkflow.upsert({
+        where: { workspaceId },
+        create: { workspaceId, name: dto.name.trim() },
+        update: { name: dto.name.trim() },
+      });
+
+      await tx.approvalStep.deleteMany({ where: { workflowId: workflow.id } });
+      await tx.approvalStep.createMany({
+        data: dto.steps.map((step, i) => ({
+          workflowId: workflow.id,
+          order: i + 1,
+          name: step.name.trim(),
+          rule: step.rule ?? 'ANY',
+          roleId: step.roleId ?? null,
+          userIds: [...new Set(step.userIds ?? [])],
+          clientReview: step.clientReview ?? false,
+        })),
+      });
+
+      return tx.approvalWorkflow.findUniqueOrThrow({
+        where: { id: workflow.id },
+        include: STEPS_INCLUDE,
+      });
+    });
+  }
+
+  /**
+   * Back to a single approval by anyone permitted. Posts mid-chain complete
+   * on their current step.
+   */
+  async remove(workspaceId: string) {
+    await this.prisma.approvalWorkflow.deleteMany({ where: { workspaceId } });
+    return { ok: true };
+  }
+
+  // =========================================================
+  // 2) Running the chain (inside the caller's transaction)
+  // =========================================================
+
+  /**
+   * Opens the first step of the workspace's workflow for the post, or a
+   * plain approval when the workspace has none.
+   */
+  async start(
+    tx: Prisma.TransactionClient,
+    workspaceId: string,
+    postId: string,
+    requesterId: string,
+  ) {
+    const workflow = await tx.approvalWorkflow.findUnique({
+      where: { workspaceId },
+      include: { steps: { orderBy: { order: 'asc' } } },
+    });
+
+    if (!workflow?.steps.length) {
+      return tx.postApproval.create({
+        data: { postId, requesterId, status: 'PENDING' },
+      });
+    }
+
+    return this.openStep(
+      tx,
+      workspaceId,
+      postId,
+      requesterId,
+      workflow.steps[0],
+      workflow.steps.length,
+    );
+  }
+
+  /**
+   * Records the reviewer's decision and moves the chain along. The caller
+   * updates the post based on the outcome.
+   */
+  async decide(
+    tx: Prisma.TransactionClient,
+    workspaceId: string,
+    approval: ReviewableApproval,
+    userId: string,
+    status: 'APPROVED' | 'REJECTED',
+    notes?: string,
+  ): Promise<ApprovalOutcome> {
+    if (!this.canReview(approval, userId)) {
+      throw new ForbiddenException(
+        `You are not a reviewer for the "${approval.stepName}" step.`,
+      );
+    }
+
+    const already = await tx.postApprovalDecision.findUnique({
+      where: { approvalId_userId: { approvalId: approval.id, userId } },
+      select: { id: true },
+    });
+    if (already) {
+      throw new BadRequestException('You have already reviewed this step.');
+    }
+
+    await tx.postApprovalDecision.create({
+      data: { approvalId: approval.id, userId, status, notes },
+    });
+
+    if (status === 'APPROVED' && approval.rule === 'ALL') {
+      const approvals = await tx.postApprovalDecision.findMany({
+        where: { approvalId: approval.id, status: 'APPROVED' },
+        select: { userId: true },
+      });
+      const approvedBy = new Set(approvals.map((d) => d.userId));
+      if (approval.eligibleUserIds.some((id) => !approvedBy.has(id))) {
+        return 'WAITING';
+      }
+    }
+
+    return this.closeStep(tx, workspaceId, approval, status, notes, {
+      approverId: userId,
+    });
+  }
+
+  /**
+   * A client's decision through a share link. The member who sent the link
+   * vouched for the client, so it settles the open step on its own, even an
+   * "all" step. Only client steps (or a plain approval with no workflow)
+   * take it, so a link can't skip the team's own sign-off.
+   */
+  async decideExternal(
+    tx: Prisma.TransactionClient,
+    workspaceId: string,
+    approval: ReviewableApproval,
+    reviewer: { shareLinkId: string; name: string },
+    status: 'APPROVED' | 'REJECTED',
+    notes?: string,
+  ): Promise<ApprovalOutcome> {
+    if (approval.stepOrder != null && !approval.clientReview) {
+      throw new ForbiddenException(
+        `The "${approval.stepName}" step is reviewed by the team. Try again once it reaches client sign-off.`,
+      );
+    }
+
+    await tx.postApprovalDecision.create({
+      data: {
+        approvalId: approval.id,
+        shareLinkId: reviewer.shareLinkId,
+        externalReviewer: reviewer.name,
+        status,
+        notes,
+      },
+    });
+
+    return this.closeStep(tx, workspaceId, approval, status, notes, {
+      shareLinkId: reviewer.shareLinkId,
+      externalReviewer: reviewer.name,
+    });
+  }
+
+  /**
+   * Lets the post's author know it was sent back, whoever rejected it.
+   * Call after the transaction commits.
+   */
+  async emitDeclined(
+    workspaceId: string,
+    postId: string,
+    args: { approvalId: string; reason?: string | null },
+  ) {
+    const post = await this.prisma.post.findUnique({
+      where: { id: postId },
+      select: {
+        content: true,
+        destinations: {
+          select: { profile: { select: { platform: true, name: true } } },
+        },
+      },
+    });
+    if (!post) return;
+
+    const profiles = post.destinations.map((d) => d.profile);
+    this.events.emit('publishing.post.declined', {
+      workspaceId,
+      postId,
+      approvalId: args.approvalId,
+      platform: [...new Set(profiles.map((p) => p.platform))].join(', '),
+      profileName: profiles.map((p) => p.name).join(', '),
+      snippet: (post.content ?? '').slice(0, 100),
+      reason: args.reason || 'Rejected in review',
+    });
+  }
+
+  canReview(approval: { eligibleUserIds: string[] }, userId: string) {
+    return (
+      !approval.eligibleUserIds.length ||
+      approval.eligibleUserIds.includes(userId)
+    );
+  }
+
+  // =========================================================
+  // Internal
+  // =========================================================
+
+  /**
+   * Marks the open step approved or rejected and, on approval, opens the
+   * next workflow step if there is one.
+   */
+  private async closeStep(
+    tx: Prisma.TransactionClient,
+    workspaceId: string,
+    approval: ReviewableApproval,
+    status: 'APPROVED' | 'REJECTED',
+    notes: string | undefined,
+    closedBy: {
+      approverId?: string;
+      shareLinkId?: string;
+      externalReviewer?: string;
+    },
+  ): Promise<ApprovalOutcome> {
+    await tx.postApproval.update({
+      where: { id: approval.id },
+      data: { status, reviewedAt: new Date(), notes, ...closedBy },
+    });
+
+    if (status === 'REJECTED') return 'REJECTED';
+    if (approval.stepOrder == null) return 'APPROVED';
+
+    const next = await tx.approvalStep.findFirst({
+      where: {
+        workflow: { workspaceId },
+        order: { gt: approval.stepOrder },
+      },
+      orderBy: { order: 'asc' },
+    });
+    if (!next) return 'APPROVED';
+
+    const totalSteps = await tx.approvalStep.count({
+      where: { workflowId: next.workflowId },
+    });
+    await this.openStep(
+      tx,
+      workspaceId,
+      approval.postId,
+      approval.requesterId,
+      next,
+      totalSteps,
+    );
+    return 'NEXT_STEP';
+  }
+
+  private async openStep(
+    tx: Prisma.TransactionClient,
+    workspaceId: string,
+    postId: string,
+    requesterId: string,
+    step: {
+      id: string;
+      order: number;
+      name: string;
+      rule: ApprovalRule;
+      roleId: string | null;
+      userIds: string[];
+      clientReview: boolean;
+    },
+    totalSteps: number,
+  ) {
+    const roleMembers = step.roleId
+      ? await tx.workspaceMember.findMany({
+          where: { workspaceId, roleId: step.roleId },
+          select: { member: { select: { userId: true } } },
+        })
+      : [];
+
+    const eligibleUserIds = [
+      ...new Set([
+        ...step.userIds,
+        ...roleMembers.flatMap((m) => (m.member ? [m.member.userId] : [])),
+      ]),
+    ];
+    if (!eligibleUserIds.length) {
+      throw new BadRequestException(
+        `Approval step "${step.name}" has no reviewers. Update the approval workflow.`,
+      );
+    }
+
+    return tx.postApproval.create({
+      data: {
+        postId,
+        requesterId,
+        status: 'PENDING',
+        stepId: step.id,
+        stepOrder: step.order,
+        stepName: step.name,
+        totalSteps,
+        rule: step.rule,
+        eligibleUserIds,
+        clientReview: step.clientReview,
+      },
+    });
+  }
+
+  private async assertReviewers(
+    workspaceId: string,
+    dto: UpsertApprovalWorkflowDto,
+  ) {
+    const workspace = await this.prisma.workspace.findUniqueOrThrow({
+      where: { id: workspaceId },
+      select: { organizationId: true },
+    });
+
+    const roleIds = [
+      ...new Set(dto.steps.flatMap((s) => (s.roleId ? [s.roleId] : []))),
+    ];
+    const userIds = [...new Set(dto.steps.flatMap((s) => s.userIds ?? []))];
+
+    const [roles, members] = await Promise.all([
+      this.prisma.role.findMany({
+        where: {
+          id: { in: roleIds },
+          scope: 'WORKSPACE',
+          OR: [
+            { organizationId: null },
+            { organizationId: workspace.organizationId },
+          ],
+        },
+        select: { id: true },
+      }),
+      this.prisma.workspaceMember.findMany({
+        where: { workspaceId, member: { userId: { in: userIds } } },
+        select: { member: { select: { userId: true } } },
+      }),
+    ]);
+
+    const unknownRole = roleIds.find((id) => !roles.some((r) => r.id === id));
+    if (unknownRole) {
+      throw new BadRequestException(
+        `Role ${unknownRole} is not a workspace role in this organization.`,
+      );
+    }
+
+    const memberIds = new Set(members.map((m) => m.member?.userId));
+    const unknownUser = userIds.find((id) => !memberIds.has(id));
+    if (unknownUser) {
+      throw new BadRequestException(
+        `User ${unknownUser} is not a member of this workspace.`,
+      );
+    }
+
+    dto.steps.forEach((step, i) => {
+      if (!step.roleId && !step.userIds?.length) {
+        throw new BadRequestException(
+          `Step ${i + 1} ("${step.name}") needs a role or at least one user.`,
+        );
+      }
+    });
+  }
+}
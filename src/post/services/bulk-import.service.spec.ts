@@ -0,0 +1,202 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import * as ExcelJS from 'exceljs';
+import { PrismaService } from '@/prisma/prisma.service';
+import { QueueSlotService } from '@/queue/queue.service';
+import { PostMediaService } from '@/post-media/post-media.service';
+import { BulkImportService } from './bulk-import.service';
+import { DestinationBuilder } from './destination-builder.service';
+import { PostService } from './post.service';
+
+describe('BulkImportService', () => {
+  let service: BulkImportService;
+
+  const prisma = {
+    workspace: { findUnique: jest.fn() },
+    post: { count: jest.fn() },
+    socialProfile: { findMany: jest.fn() },
+    campaign: { findMany: jest.fn() },
+    mediaFile: { findMany: jest.fn() },
+  };
+  const destinationBuilder = { preparePayloads: jest.fn() };
+  const queueService = {
+    getPlanLimits: jest.fn(),
+    getNextAvailableSlots: jest.fn(),
+  };
+  const postService = { bulkSchedulePosts: jest.fn() };
+
+  const csvFile = (text: string) =>
+    ({
+      originalname: 'plan.csv',
+      mimetype: 'text/csv',
+      buffer: Buffer.from(text),
+    }) as Express.Multer.File;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.workspace.findUnique.mockResolvedValue({ timezone: 'UTC' });
+    prisma.post.count.mockResolvedValue(0);
+    prisma.socialProfile.findMany.mockResolvedValue([
+      { id: 'p1', name: 'Acme', username: '@acme', platform: 'LINKEDIN' },
+      { id: 'p2', name: 'Acme X', username: 'acmex', platform: 'TWITTER' },
+    ]);
+    prisma.campaign.findMany.mockResolvedValue([{ id: 'c1', name: 'Spring' }]);
+    prisma.mediaFile.findMany.mockResolvedValue([
+      { id: 'm1', url: 'https://cdn.example.com/a.jpg' },
+    ]);
+    queueService.getPlanLimits.mockResolvedValue({
+      tier: 'BUSINESS',
+      maxBulkPostsPerRequest: 100,
+      maxPostsInQueue: 100,
+    });
+    queueService.getNextAvailableSlots.mockResolvedValue([new Date()]);
+    destinationBuilder.preparePayloads.mockResolvedValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BulkImportService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: DestinationBuilder, useValue: destinationBuilder },
+        { provide: QueueSlotService, useValue: queueService },
+        { provide: PostService, useValue: postService },
+        { provide: PostMediaService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(BulkImportService);
+  });
+
+  it('maps detected columns and reports each row', async () => {
+    const report = await service.validate(
+      'ws1',
+      csvFile(
+        [
+          'Caption,Profiles,Media URLs,Publish At,Campaign',
+          'Hello,"@acme, acmex",https://cdn.example.com/a.jpg,2099-01-05 09:30,Spring',
+          'Queued,Acme,,auto,',
+        ].join('\n'),
+      ),
+      { timezone: 'Africa/Lagos' },
+    );
+
+    expect(report.columns).toMatchObject({
+      content: 'Caption',
+      profiles: 'Profiles',
+      media: 'Media URLs',
+      scheduledAt: 'Publish At',
+      campaign: 'Campaign',
+    });
+    expect(report.summary).toMatchObject({ totalRows: 2, validRows: 2 });
+
+    const [first, second] = report.rows;
+    expect(first.row).toBe(2);
+    expect(first.post).toMatchObject({
+      socialProfileIds: ['p1', 'p2'],
+      mediaIds: ['m1'],
+      campaignId: 'c1',
+      // 09:30 in Lagos (UTC+1)
+      scheduledAt: '2099-01-05T08:30:00.000Z',
+    });
+    expect(second.post.isAutoSchedule).toBe(true);
+    expect(destinationBuilder.preparePayloads).toHaveBeenCalledTimes(2);
+  });
+
+  it('collects row errors without calling platform validation', async () => {
+    const report = await service.validate(
+      'ws1',
+      csvFile(
+        [
+          'Content,Profiles,Scheduled At,Campaign',
+          'Hi,nobody,2099-01-05 09:30,',
+          'Hi,acme,2001-01-01 09:00,',
+          'Hi,acme,next tuesday,Unknown',
+        ].join('\n'),
+      ),
+      {},
+    );
+
+    expect(report.summary.invalidRows).toBe(3);
+    expect(report.rows[0].errors[0]).toMatch(/not connected/);
+    expect(report.rows[1].errors).toContain('Scheduled time is in the past.');
+    expect(report.rows[2].errors).toEqual(
+      expect.arrayContaining([
+        expect.stringMatching(/Can't read scheduled time/),
+        'Campaign "Unknown" not found.',
+      ]),
+    );
+    expect(destinationBuilder.preparePayloads).not.toHaveBeenCalled();
+  });
+
+  it('splits platform rule failures into row errors', async () => {
+    destinationBuilder.preparePayloads.mockRejectedValue(
+      new BadRequestException(
+        'Validation Failed:\n[Acme]: Text exceeds LinkedIn limit (3100/3000).',
+      ),
+    );
+
+    const report = await service.validate(
+      'ws1',
+      csvFile('Content,Profiles\nToo long,acme'),
+      {},
+    );
+
+    expect(report.rows[0].errors).toEqual([
+      '[Acme]: Text exceeds LinkedIn limit (3100/3000).',
+    ]);
+  });
+
+  it('flags plan limits at file level and refuses to execute', async () => {
+    queueService.getPlanLimits.mockResolvedValue({
+      tier: 'CREATOR',
+      maxBulkPostsPerRequest: 1,
+      maxPostsInQueue: 10,
+    });
+
+    const file = csvFile(
+      'Content,Profiles,Publish At\nA,acme,2099-01-05 09:30\nB,acme,2099-01-06 09:30',
+    );
+
+    const report = await service.validate('ws1', file, {});
+    expect(report.errors[0]).toMatch(/1 posts per bulk upload/);
+
+    await expect(
+      service.execute({ userId: 'u1' }, 'ws1', file, {}),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(postService.bulkSchedulePosts).not.toHaveBeenCalled();
+  });
+
+  it('reads XLSX date cells as wall time in the row timezone', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Plan');
+    sheet.addRow(['Post', 'Accounts', 'Date', 'Timezone']);
+    sheet.addRow([
+      'Hello',
+      'acme',
+      new Date(Date.UTC(2099, 0, 5, 9, 30)),
+      'America/New_York',
+    ]);
+    const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+
+    const report = await service.validate(
+      'ws1',
+      {
+        originalname: 'plan.xlsx',
+        mimetype: 'application/octet-stream',
+        buffer,
+      } as Express.Multer.File,
+      {},
+    );
+
+    expect(report.rows[0].valid).toBe(true);
+    expect(report.rows[0].post).toMatchObject({
+      timezone: 'America/New_York',
+      scheduledAt: '2099-01-05T14:30:00.000Z',
+    });
+  });
+
+  it('requires a profiles column', async () => {
+    await expect(
+      service.validate('ws1', csvFile('Content\nHello'), {}),
+    ).rejects.toThrow(/No profiles column/);
+  });
+});
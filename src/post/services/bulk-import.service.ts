@@ -0,0 +1,714 @@
+import { PrismaService } from '@/prisma/prisma.service';
+import { PostMediaService } from '@/post-media/post-media.service';
+import { QueueSlotService } from '@/queue/queue.service';
+import { ContentType } from '@generated/enums';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import * as csv from 'csv-parser';
+import * as ExcelJS from 'exceljs';
+import { DateTime, IANAZone } from 'luxon';
+import { Readable } from 'stream';
+import { BulkImportOptionsDto } from '../dto/request/bulk-import.dto';
+import { CreatePostDto } from '../dto/request/create-post.dto';
+import { DestinationBuilder } from './destination-builder.service';
+import { PostService } from './post.service';
+
+type ImportField =
+  | 'content'
+  | 'profiles'
+  | 'media'
+  | 'scheduledAt'
+  | 'campaign'
+  | 'firstComment'
+  | 'timezone';
+
+type SheetRecord = { row: number; values: Record<string, unknown> };
+
+type MediaRef = { id?: string; url?: string };
+
+type PreparedRow = {
+  row: number;
+  errors: string[];
+  warnings: string[];
+  dto: CreatePostDto;
+  mediaRefs: MediaRef[];
+};
+
+export type BulkImportReport = {
+  summary: {
+    totalRows: number;
+    validRows: number;
+    invalidRows: number;
+    rowsWithWarnings: number;
+  };
+  columns: Partial<Record<ImportField, string>>;
+  limits: {
+    tier: string;
+    maxBulkPostsPerRequest: number;
+    maxPostsInQueue: number;
+    currentlyQueued: number;
+  };
+  errors: string[];
+  rows: Array<{
+    row: number;
+    valid: boolean;
+    errors: string[];
+    warnings: string[];
+    post: {
+      content?: string;
+      socialProfileIds: string[];
+      mediaIds: string[];
+      mediaUrlsToImport: string[];
+      scheduledAt?: string;
+      isAutoSchedule: boolean;
+      timezone: string;
+      campaignId?: string;
+      firstComment?: string;
+    };
+  }>;
+};
+
+export const MAX_IMPORT_ROWS = 2000;
+
+const XLSX_MIME =
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/**
+ * Header names we recognise when the client doesn't map a column explicitly.
+ * Compared after lower-casing and stripping everything but letters/digits.
+ */
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  content: ['content', 'text', 'caption', 'message', 'post', 'copy'],
+  profiles: [
+    'profiles',
+    'profile',
+    'accounts',
+    'account',
+    'channels',
+    'channel',
+    'socialprofileids',
+  ],
+  media: ['media', 'mediaurls', 'mediaurl', 'mediaids', 'images', 'image'],
+  scheduledAt: [
+    'scheduledat',
+    'scheduledtime',
+    'schedule',
+    'publishat',
+    'publishdate',
+    'datetime',
+    'date',
+  ],
+  campaign: ['campaign', 'campaignid', 'campaignname'],
+  firstComment: ['firstcomment', 'comment'],
+  timezone: ['timezone', 'tz'],
+};
+
+const DATE_FORMATS = [
+  'yyyy-MM-dd HH:mm',
+  'yyyy-MM-dd HH:mm:ss',
+  'yyyy/MM/dd HH:mm',
+  'yyyy/MM/dd HH:mm:ss',
+];
+
+@Injectable()
+export class BulkImportService {
+  private readonly logger = new Logger(BulkImportService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly destinationBuilder: DestinationBuilder,
+    private readonly queueService: QueueSlotService,
+    private readonly postService: PostService,
+    private readonly postMedia: PostMediaService,
+  ) {}
+
+  /**
+   * Dry run: parses the sheet and validates every row exactly as bulk
+   * scheduling would, without creating anything.
+   */
+  async validate(
+    workspaceId: string,
+    file: Express.Multer.File,
+    options: BulkImportOptionsDto,
+  ): Promise<BulkImportReport> {
+    const { report } = await this.buildReport(workspaceId, file, options);
+    return report;
+  }
+
+  /**
+   * Re-validates the same file, imports media referenced by URL and hands the
+   * rows to bulkSchedulePosts. Any error rejects the whole file unless
+   * `skipInvalidRows` is set, in which case only valid rows are created.
+   */
+  async execute(
+    user: any,
+    workspaceId: string,
+    file: Express.Multer.File,
+    options: BulkImportOptionsDto,
+  ) {
+    const { report, prepared } = await this.buildReport(
+      workspaceId,
+      file,
+      options,
+    );
+
+    const validRows = prepared.filter((p) => p.errors.length === 0);
+    const blocked =
+      report.errors.length > 0 ||
+      validRows.length === 0 ||
+      (!options.skipInvalidRows && report.summary.invalidRows > 0);
+
+    if (blocked) {
+      throw new BadRequestException({
+        message: 'The file has errors. Nothing was scheduled.',
+        report,
+      });
+    }
+
+    // Media referenced by URL is only imported once the file is accepted
+    const imported = new Map<string, string>();
+    for (const item of validRows) {
+      for (const ref of item.mediaRefs) {
+        if (ref.id || !ref.url || imported.has(ref.url)) continue;
+        try {
+          const media = await this.postMedia.importFromUrl(
+            user.userId,
+            workspaceId,
+            ref.url,
+          );
+          imported.set(ref.url, media.id);
+        } catch (err: any) {
+          this.logger.warn(
+            `Media import failed for ${ref.url}: ${err?.message}`,
+          );
+          throw new BadRequestException(
+            `Row ${item.row}: could not import media from ${ref.url}.`,
+          );
+        }
+      }
+    }
+
+    const posts = validRows.map((item) => ({
+      ...item.dto,
+      mediaIds: item.mediaRefs.map((ref) => ref.id ?? imported.get(ref.url!)!),
+    })) as CreatePostDto[];
+
+    const created = await this.postService.bulkSchedulePosts(
+      user,
+      workspaceId,
+      { posts },
+    );
+
+    return {
+      data: created,
+      count: created.length,
+      importedMedia: imported.size,
+      skippedRows: prepared
+        .filter((p) => p.errors.length > 0)
+        .map((p) => p.row),
+    };
+  }
+
+  // =========================================================
+  // Report
+  // =========================================================
+
+  private async buildReport(
+    workspaceId: string,
+    file: Express.Multer.File,
+    options: BulkImportOptionsDto,
+  ) {
+    const { headers, records } = await this.parseFile(file);
+
+    if (!records.length) {
+      throw new BadRequestException('The file has no data rows.');
+    }
+    if (records.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(
+        `The file has ${records.length} rows; the maximum per upload is ${MAX_IMPORT_ROWS}.`,
+      );
+    }
+
+    const columns = this.resolveColumns(headers, options);
+
+    const [workspace, limits, currentlyQueued] = await Promise.all([
+      this.prisma.workspace.findUnique({
+        where: { id: workspaceId },
+        select: { timezone: true },
+      }),
+      this.queueService.getPlanLimits(workspaceId),
+      this.prisma.post.count({ where: { workspaceId, status: 'SCHEDULED' } }),
+    ]);
+
+    const defaultZone = options.timezone || workspace?.timezone || 'UTC';
+    if (!IANAZone.isValidZone(defaultZone)) {
+      throw new BadRequestException(`Unknown timezone "${defaultZone}".`);
+    }
+
+    const lookups = await this.loadLookups(workspaceId, records, columns);
+
+    const prepared: PreparedRow[] = [];
+    for (const record of records) {
+      const item = this.mapRow(record, columns, lookups, defaultZone, options);
+
+      if (!item.errors.length) {
+        const problems = await this.validateRow(workspaceId, item.dto);
+
+        // Media that isn't imported yet can't be checked, so "needs media"
+        // style failures are only warnings until confirm re-validates
+        const pendingMedia = item.mediaRefs.some((m) => !m.id);
+        for (const problem of problems) {
+          if (pendingMedia && /media|image|video/i.test(problem)) {
+            item.warnings.push(problem);
+          } else {
+            item.errors.push(problem);
+          }
+        }
+      }
+
+      prepared.push(item);
+    }
+
+    // File-level checks against the plan
+    const errors: string[] = [];
+    const valid = prepared.filter((p) => p.errors.length === 0);
+
+    if (records.length > limits.maxBulkPostsPerRequest) {
+      errors.push(
+        `Your plan allows ${limits.maxBulkPostsPerRequest} posts per bulk upload; the file has ${records.length}.`,
+      );
+    }
+
+    const willQueue = valid.filter(
+      (p) =>
+        !p.dto.needsApproval && (p.dto.scheduledAt || p.dto.isAutoSchedule),
+    ).length;
+    if (currentlyQueued + willQueue > limits.maxPostsInQueue) {
+      errors.push(
+        `Queue limit reached. Your plan allows ${limits.maxPostsInQueue} queued posts. You currently have ${currentlyQueued} and this file adds ${willQueue}.`,
+      );
+    }
+
+    const autoCount = valid.filter((p) => p.dto.isAutoSchedule).length;
+    if (autoCount > 0) {
+      const slots = await this.queueService.getNextAvailableSlots(
+        workspaceId,
+        autoCount,
+        undefined,
+        { category: null },
+      );
+      if (slots.length < autoCount) {
+        errors.push(
+          `${autoCount} rows use "auto" but only ${slots.length} queue slots are free.`,
+        );
+      }
+    }
+
+    const report: BulkImportReport = {
+      summary: {
+        totalRows: prepared.length,
+        validRows: valid.length,
+        invalidRows: prepared.length - valid.length,
+        rowsWithWarnings: prepared.filter((p) => p.warnings.length > 0).length,
+      },
+      columns,
+      limits: {
+        tier: limits.tier,
+        maxBulkPostsPerRequest: limits.maxBulkPostsPerRequest,
+        maxPostsInQueue: limits.maxPostsInQueue,
+        currentlyQueued,
+      },
+      errors,
+      rows: prepared.map((p) => ({
+        row: p.row,
+        valid: p.errors.length === 0,
+        errors: p.errors,
+        warnings: p.warnings,
+        post: {
+          content: p.dto.content,
+          socialProfileIds: p.dto.socialProfileIds,
+          mediaIds: p.mediaRefs.filter((m) => m.id).map((m) => m.id!),
+          mediaUrlsToImport: p.mediaRefs
+            .filter((m) => !m.id)
+            .map((m) => m.url!),
+          scheduledAt: p.dto.scheduledAt,
+          isAutoSchedule: !!p.dto.isAutoSchedule,
+          timezone: p.dto.timezone,
+          campaignId: p.dto.campaignId,
+          firstComment: p.dto.firstComment,
+        },
+      })),
+    };
+
+    return { report, prepared };
+  }
+
+  /**
+   * Same checks a JSON bulk request goes through: DTO validation, then
+   * DestinationBuilder (platform rules per profile, first comment rules).
+   */
+  private async validateRow(workspaceId: string, dto: CreatePostDto) {
+    const dtoErrors = await validate(plainToInstance(CreatePostDto, dto));
+    if (dtoErrors.length) {
+      return dtoErrors.flatMap((e) => Object.values(e.constraints ?? {}));
+    }
+
+    try {
+      await this.destinationBuilder.preparePayloads(workspaceId, dto);
+      return [];
+    } catch (err: any) {
+      return String(err?.message ?? 'Validation failed.')
+        .replace(/^Validation Failed:\n/, '')
+        .split('\n')
+        .filter(Boolean);
+    }
+  }
+
+  private mapRow(
+    record: SheetRecord,
+    columns: Partial<Record<ImportField, string>>,
+    lookups: Awaited<ReturnType<BulkImportService['loadLookups']>>,
+    defaultZone: string,
+    options: BulkImportOptionsDto,
+  ): PreparedRow {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const cell = (field: ImportField) =>
+      columns[field] ? record.values[columns[field]] : undefined;
+    const text = (field: ImportField) => {
+      const value = cell(field);
+      return value === undefined || value === null ? '' : String(value).trim();
+    };
+
+    // Profiles
+    const socialProfileIds: string[] = [];
+    for (const token of this.splitList(text('profiles'))) {
+      const needle = token.replace(/^@/, '').toLowerCase();
+      const matches = lookups.profiles.filter(
+        (p) =>
+          p.id === token ||
+          p.username?.replace(/^@/, '').toLowerCase() === needle ||
+          p.name.toLowerCase() === needle,
+      );
+
+      if (matches.length === 0) {
+        errors.push(`Profile "${token}" is not connected to this workspace.`);
+      } else if (matches.length > 1) {
+        errors.push(`Profile "${token}" matches several profiles; use its ID.`);
+      } else if (!socialProfileIds.includes(matches[0].id)) {
+        socialProfileIds.push(matches[0].id);
+      }
+    }
+    if (!socialProfileIds.length && !errors.length) {
+      errors.push('No profiles given.');
+    }
+
+    // Media
+    const mediaRefs: MediaRef[] = [];
+    for (const token of this.splitList(text('media'), /[\s,;|]+/)) {
+      const known = lookups.media.get(token);
+      if (known) {
+        mediaRefs.push({ id: known });
+      } else if (/^https?:\/\//i.test(token)) {
+        mediaRefs.push({ url: token });
+      } else {
+        errors.push(`Media "${token}" is not in the media library.`);
+      }
+    }
+    if (mediaRefs.some((m) => !m.id)) {
+      warnings.push(
+        'Media URLs not in the library will be imported on confirm; their size and format are checked then.',
+      );
+    }
+
+    // Timezone
+    const zone = text('timezone') || defaultZone;
+    if (!IANAZone.isValidZone(zone)) {
+      errors.push(`Unknown timezone "${zone}".`);
+    }
+
+    // Schedule
+    let scheduledAt: string | undefined;
+    let isAutoSchedule = false;
+    const when = cell('scheduledAt');
+    const whenText = text('scheduledAt');
+
+    if (/^(auto|queue|next)$/i.test(whenText)) {
+      isAutoSchedule = true;
+    } else if (whenText && IANAZone.isValidZone(zone)) {
+      const parsed = this.parseDateTime(when, zone);
+      if (!parsed) {
+        errors.push(
+          `Can't read scheduled time "${whenText}". Use YYYY-MM-DD HH:mm or "auto".`,
+        );
+      } else if (parsed < DateTime.now().minus({ minutes: 5 })) {
+        errors.push('Scheduled time is in the past.');
+      } else {
+        scheduledAt = parsed.toUTC().toISO()!;
+      }
+    } else if (!whenText) {
+      warnings.push('No scheduled time; the post will be saved as a draft.');
+    }
+
+    // Campaign
+    let campaignId: string | undefined;
+    const campaignText = text('campaign');
+    if (campaignText) {
+      const campaign = lookups.campaigns.find(
+        (c) =>
+          c.id === campaignText ||
+          c.name.toLowerCase() === campaignText.toLowerCase(),
+      );
+      if (campaign) campaignId = campaign.id;
+      else errors.push(`Campaign "${campaignText}" not found.`);
+    }
+
+    const content = text('content');
+    const firstComment = text('firstComment');
+    if (!content && !mediaRefs.length) {
+      errors.push('Row has no content and no media.');
+    }
+
+    const dto: CreatePostDto = {
+      content: content || undefined,
+      firstComment: firstComment || undefined,
+      contentType: ContentType.POST,
+      socialProfileIds,
+      mediaIds: mediaRefs.filter((m) => m.id).map((m) => m.id!),
+      scheduledAt,
+      isAutoSchedule,
+      timezone: zone,
+      campaignId,
+      needsApproval: options.needsApproval ?? false,
+    };
+
+    return { row: record.row, errors, warnings, dto, mediaRefs };
+  }
+
+  /**
+   * Profiles, campaigns and library media for the whole file in three queries.
+   * Media is keyed by both ID and URL so either can be used in the sheet.
+   */
+  private async loadLookups(
+    workspaceId: string,
+    records: SheetRecord[],
+    columns: Partial<Record<ImportField, string>>,
+  ) {
+    const mediaTokens = new Set<string>();
+    if (columns.media) {
+      for (const r of records) {
+        const raw = r.values[columns.media];
+        this.splitList(raw ? String(raw) : '', /[\s,;|]+/).forEach((t) =>
+          mediaTokens.add(t),
+        );
+      }
+    }
+
+    const [profiles, campaigns, mediaFiles] = await Promise.all([
+      this.prisma.socialProfile.findMany({
+        where: { workspaceId, status: 'CONNECTED' },
+        select: { id: true, name: true, username: true, platform: true },
+      }),
+      columns.campaign
+        ? this.prisma.campaign.findMany({
+            where: { workspaceId },
+            select: { id: true, name: true },
+          })
+        : Promise.resolve([]),
+      mediaTokens.size
+        ? this.prisma.mediaFile.findMany({
+            where: {
+              workspaceId,
+              OR: [
+                { id: { in: [...mediaTokens] } },
+                { url: { in: [...mediaTokens] } },
+              ],
+            },
+            select: { id: true, url: true },
+          })
+        : Promise.resolve([]),
+    ]);
+
+    const media = new Map<string, string>();
+    for (const m of mediaFiles) {
+      media.set(m.id, m.id);
+      media.set(m.url, m.id);
+    }
+
+    return { profiles, campaigns, media };
+  }
+
+  // =========================================================
+  // Parsing
+  // =========================================================
+
+  private async parseFile(
+    file: Express.Multer.File,
+  ): Promise<{ headers: string[]; records: SheetRecord[] }> {
+    if (!file?.buffer?.length) {
+      throw new BadRequestException('File is required');
+    }
+
+    const name = (file.originalname ?? '').toLowerCase();
+    let parsed: { headers: string[]; records: SheetRecord[] };
+
+    try {
+      if (name.endsWith('.xlsx') || file.mimetype === XLSX_MIME) {
+        parsed = await this.parseXlsx(file.buffer);
+      } else if (
+        name.endsWith('.csv') ||
+        /csv|text\/plain/.test(file.mimetype ?? '')
+      ) {
+        parsed = await this.parseCsv(file.buffer);
+      } else {
+        throw new BadRequestException('Upload a .csv or .xlsx file.');
+      }
+    } catch (err: any) {
+      if (err instanceof BadRequestException) throw err;
+      throw new BadRequestException(
+        `Could not read the file: ${err?.message ?? 'invalid format'}`,
+      );
+    }
+
+    // Spreadsheets often carry trailing blank rows
+    parsed.records = parsed.records.filter((r) =>
+      Object.values(r.values).some(
+        (v) => v !== null && v !== undefined && String(v).trim() !== '',
+      ),
+    );
+
+    return parsed;
+  }
+
+  private parseCsv(
+    buffer: Buffer,
+  ): Promise<{ headers: string[]; records: SheetRecord[] }> {
+    return new Promise((resolve, reject) => {
+      let headers: string[] = [];
+      const records: SheetRecord[] = [];
+      let row = 1;
+
+      Readable.from(buffer)
+        .pipe(
+          csv({
+            mapHeaders: ({ header }) => header.replace(/^\uFEFF/, '').trim(),
+          }),
+        )
+        .on('headers', (h: string[]) => (headers = h))
+        .on('data', (values: Record<string, string>) =>
+          records.push({ row: ++row, values }),
+        )
+        .on('end', () => resolve({ headers, records }))
+        .on('error', reject);
+    });
+  }
+
+  private async parseXlsx(
+    buffer: Buffer,
+  ): Promise<{ headers: string[]; records: SheetRecord[] }> {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer as any);
+
+    const sheet = workbook.worksheets[0];
+    if (!sheet) throw new BadRequestException('The workbook has no sheets.');
+
+    const headers: string[] = [];
+    sheet.getRow(1).eachCell({ includeEmpty: true }, (c, col) => {
+      headers[col - 1] = c.text.trim();
+    });
+
+    const records: SheetRecord[] = [];
+    sheet.eachRow((r, rowNumber) => {
+      if (rowNumber === 1) return;
+
+      const values: Record<string, unknown> = {};
+      headers.forEach((header, i) => {
+        if (!header) return;
+        const c = r.getCell(i + 1);
+        // Keep real dates as Date so they aren't re-parsed from display text
+        values[header] = c.value instanceof Date ? c.value : c.text;
+      });
+      records.push({ row: rowNumber, values });
+    });
+
+    return { headers: headers.filter(Boolean), records };
+  }
+
+  private resolveColumns(headers: string[], options: BulkImportOptionsDto) {
+    const normalize = (h: string) => h.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const explicit: Record<ImportField, string | undefined> = {
+      content: options.contentColumn,
+      profiles: options.profilesColumn,
+      media: options.mediaColumn,
+      scheduledAt: options.scheduledAtColumn,
+      campaign: options.campaignColumn,
+      firstComment: options.firstCommentColumn,
+      timezone: options.timezoneColumn,
+    };
+
+    const columns: Partial<Record<ImportField, string>> = {};
+
+    for (const field of Object.keys(COLUMN_ALIASES) as ImportField[]) {
+      const wanted = explicit[field];
+
+      if (wanted) {
+        const header = headers.find(
+          (h) => h.toLowerCase() === wanted.trim().toLowerCase(),
+        );
+        if (!header) {
+          throw new BadRequestException(
+            `Column "${wanted}" not found. Columns in file: ${headers.join(', ')}`,
+          );
+        }
+        columns[field] = header;
+        continue;
+      }
+
+      const header = headers.find((h) =>
+        COLUMN_ALIASES[field].includes(normalize(h)),
+      );
+      if (header) columns[field] = header;
+    }
+
+    if (!columns.profiles) {
+      throw new BadRequestException(
+        'No profiles column found. Name it "Profiles" or set profilesColumn.',
+      );
+    }
+
+    return columns;
+  }
+
+  /**
+   * Excel dates carry no zone (ExcelJS reads them as UTC wall time), so the
+   * clock time is re-anchored in the row's timezone. Strings without an
+   * offset are read in that timezone too.
+   */
+  private parseDateTime(value: unknown, zone: string): DateTime | null {
+    if (value instanceof Date) {
+      const dt = DateTime.fromJSDate(value, { zone: 'utc' }).setZone(zone, {
+        keepLocalTime: true,
+      });
+      return dt.isValid ? dt : null;
+    }
+
+    const raw = String(value ?? '').trim();
+    const iso = DateTime.fromISO(raw, { zone, setZone: true });
+    if (iso.isValid) return iso;
+
+    for (const format of DATE_FORMATS) {
+      const dt = DateTime.fromFormat(raw, format, { zone });
+      if (dt.isValid) return dt;
+    }
+
+    return null;
+  }
+
+  private splitList(value: string, separator = /[,;|\n]+/) {
+    return value
+      .split(separator)
+      .map((t) => t.trim())
+      .filter(Boolean);
+  }
+}
@@ -3,22 +3,52 @@ import { ConnectionStatus, Platform, Prisma } from '@generated/client';
 import { Injectable, BadRequestException } from '@nestjs/common';
 import * as twitter from 'twitter-text';
 import { PlatformRulesService } from './platform-rules.service';
+import { ConformanceMedia, MediaConformanceService } from './media-conformance.service';
 import { CreatePostDto } from '../dto/request/create-post.dto';
 import { MediaItem, ThreadNode } from '../interfaces/post.interface';
 
+/**
+ * One destination as it would be saved, or the reason it can't be. `media`
+ * is the master media in publish order.
+ */
+export type DestinationDraft = {
+  profile: { id: string; platform: Platform; name: string | null };
+  media: ConformanceMedia[];
+  payload?: any;
+  error?: string;
+};
+
 @Injectable()
 export class DestinationBuilder {
   constructor(
     private platformRules: PlatformRulesService,
     private prisma: PrismaService,
+    private mediaConformance: MediaConformanceService,
   ) {}
 
-  private buildOverrideMap(overrides?: { socialProfileId: string; content: string }[]) {
+  private buildOverrideMap(overrides?: { socialProfileId: string; content?: string }[]) {
     const map = new Map<string, string>();
-    overrides?.forEach((o) => map.set(o.socialProfileId, o.content));
+    overrides?.forEach((o) => {
+      if (o.content !== undefined) map.set(o.socialProfileId, o.content);
+    });
     return map;
   }
 
+  /**
+   * First comment for one destination: profile override wins over the master
+   * value (an empty override turns it off). Null when there is none.
+   */
+  resolveFirstComment(
+    dto: Pick<CreatePostDto, 'firstComment' | 'overrides' | 'contentType'>,
+    profile: { id: string; platform: Platform },
+  ): string | null {
+    const override = dto.overrides?.find((o) => o.socialProfileId === profile.id);
+    const raw = override?.firstComment !== undefined ? override.firstComment : dto.firstComment;
+
+    const text = this.platformRules.validateFirstComment(raw ?? '', profile.platform, dto.contentType);
+    return text || null;
+  }
+
   /**
    * PHASE 1: PREPARATION (outside transaction)
    *
@@ -30,6 +60,8 @@ export class DestinationBuilder {
    *    - If dto.threads exists => validate tweet1 + each reply; DO NOT autosplit
    *    - Else => autosplit tweet1 if needed, store replies in metadata
    * - For others: validate and transform with PlatformRulesService
+   * - POLL: poll checked per network; the text must fit one post (no autosplit)
+   * - Every destination: media conformance (ratio, duration, size) for its platform
    *
    * Output payload format:
    *   {
@@ -37,10 +69,29 @@ export class DestinationBuilder {
    *     platform,
    *     status,
    *     contentOverride,
+   *     firstComment,
    *     metadata?: { thread?: ThreadNode[] }
    *   }
    */
   async preparePayloads(workspaceId: string, dto: CreatePostDto): Promise<any[]> {
+    const { drafts } = await this.buildDrafts(workspaceId, dto);
+
+    const errors = drafts
+      .filter((d) => d.error)
+      .map((d) => `[${d.profile.name}]: ${d.error}`);
+    if (errors.length) {
+      throw new BadRequestException(`Validation Failed:\n${errors.join('\n')}`);
+    }
+
+    return drafts.map((d) => d.payload);
+  }
+
+  /**
+   * Same rules as preparePayloads, but a destination that fails validation
+   * is returned with its error instead of failing the whole post. Used by
+   * the composer preview. `mediaMap` covers master and thread media.
+   */
+  async buildDrafts(workspaceId: string, dto: CreatePostDto) {
     // 1) Fetch profiles
     const profiles = await this.prisma.socialProfile.findMany({
       where: { id: { in: dto.socialProfileIds, }, workspaceId, status: ConnectionStatus.CONNECTED },
@@ -62,7 +113,7 @@ export class DestinationBuilder {
     const dbMedia = allMediaIds.size
       ? await this.prisma.mediaFile.findMany({
           where: { id: { in: Array.from(allMediaIds) } },
-          select: { id: true, url: true, width: true, height: true, mimeType: true, size: true, duration: true },
+          select: { id: true, filename: true, url: true, width: true, height: true, mimeType: true, size: true, duration: true, pageCount: true, altText: true },
         })
       : [];
 
@@ -70,7 +121,7 @@ export class DestinationBuilder {
 
     // Helpers
     const resolveMedia = (ids?: string[]) =>
-      (ids ?? []).map((id) => mediaMap.get(id)).filter(Boolean) as MediaItem[];
+      (ids ?? []).map((id) => mediaMap.get(id)).filter(Boolean) as ConformanceMedia[];
 
     const hasExplicitThreads = Array.isArray(dto.threads) && dto.threads.length > 0;
 
@@ -91,25 +142,38 @@ export class DestinationBuilder {
       : [];
 
     // 5) Build payload per profile
-    const payloads: any[] = [];
-    const errors: string[] = [];
+    const drafts: DestinationDraft[] = [];
 
     for (const profile of profiles) {
       const contentBase = (dto.content ?? '').trim();
       const override = overrideMap.get(profile.id);
       const tweet1Content = (override ?? contentBase).trim();
+      const media = resolveMedia(dto.mediaIds);
 
       try {
+        // -------------------------
+        // POLL (X / LinkedIn)
+        // -------------------------
+        if (dto.contentType === 'POLL') {
+          drafts.push({
+            profile,
+            media,
+            payload: this.buildPollPayload(dto, profile, override ?? contentBase, media, hasExplicitThreads),
+          });
+          continue;
+        }
+
         // -------------------------
         // TWITTER (special handling)
         // -------------------------
         if (profile.platform === 'TWITTER') {
           // Tweet 1 uses master media
-          const tweet1Media = resolveMedia(dto.mediaIds);
+          const tweet1Media = media;
 
           if (hasExplicitThreads) {
             // Validate tweet 1
             this.validateSingleTweetOrThrow(tweet1Content, tweet1Media);
+            this.mediaConformance.assertConforms(tweet1Media, profile.platform, dto.contentType);
 
             // Validate each reply WITH its own media
             for (let i = 0; i < explicitThread.length; i++) {
@@ -118,17 +182,23 @@ export class DestinationBuilder {
 
               try {
                 this.validateSingleTweetOrThrow(node.content, replyMedia);
+                this.mediaConformance.assertConforms(replyMedia, profile.platform, 'THREAD');
               } catch (e: any) {
                 throw new BadRequestException(`Thread item #${i + 1}: ${e?.message ?? 'Invalid tweet.'}`);
               }
             }
 
-            payloads.push({
-              socialProfileId: profile.id,
-              platform: profile.platform,
-              status: 'SCHEDULED',
-              contentOverride: tweet1Content,
-              metadata: explicitThread.length ? { thread: explicitThread } : undefined,
+            drafts.push({
+              profile,
+              media,
+              payload: {
+                socialProfileId: profile.id,
+                platform: profile.platform,
+                status: 'SCHEDULED',
+                contentOverride: tweet1Content,
+                firstComment: this.resolveFirstComment(dto, profile),
+                metadata: explicitThread.length ? { thread: explicitThread } : undefined,
+              },
             });
             continue;
           }
@@ -139,6 +209,7 @@ export class DestinationBuilder {
             Platform.TWITTER,
             tweet1Media,
           );
+          this.mediaConformance.assertConforms(tweet1Media, profile.platform, dto.contentType);
 
           const autoThread: ThreadNode[] = (result.threadChain ?? []).map((c) => ({
             content: c,
@@ -146,12 +217,17 @@ export class DestinationBuilder {
             targetProfileIds: [], // applies to all selected twitter profiles
           }));
 
-          payloads.push({
-            socialProfileId: profile.id,
-            platform: profile.platform,
-            status: 'SCHEDULED',
-            contentOverride: result.finalContent,
-            metadata: autoThread.length ? { thread: autoThread } : undefined,
+          drafts.push({
+            profile,
+            media,
+            payload: {
+              socialProfileId: profile.id,
+              platform: profile.platform,
+              status: 'SCHEDULED',
+              contentOverride: result.finalContent,
+              firstComment: this.resolveFirstComment(dto, profile),
+              metadata: autoThread.length ? { thread: autoThread } : undefined,
+            },
           });
 
           continue;
@@ -163,7 +239,7 @@ export class DestinationBuilder {
         const contentToValidate = (override ?? contentBase).trim();
 
         // Default platforms only use master mediaIds
-        const mediaForPlatform = resolveMedia(dto.mediaIds);
+        const mediaForPlatform = media;
 
         const result = this.platformRules.validateAndTransform(
           contentToValidate,
@@ -171,30 +247,74 @@ export class DestinationBuilder {
           mediaForPlatform,
           { igKind: dto.contentType as any, FbKind: dto.contentType as any }
         );
+        this.mediaConformance.assertConforms(mediaForPlatform, profile.platform, dto.contentType);
 
-        payloads.push({
-          socialProfileId: profile.id,
-          platform: profile.platform,
-          status: 'SCHEDULED',
-          contentOverride: result.finalContent,
-          metadata: result.threadChain?.length ? { thread: (result.threadChain ?? []).map((c) => ({ content: c })) } : undefined,
+        drafts.push({
+          profile,
+          media,
+          payload: {
+            socialProfileId: profile.id,
+            platform: profile.platform,
+            status: 'SCHEDULED',
+            contentOverride: result.finalContent,
+            firstComment: this.resolveFirstComment(dto, profile),
+            metadata: result.threadChain?.length ? { thread: (result.threadChain ?? []).map((c) => ({ content: c })) } : undefined,
+          },
         });
       } catch (err: any) {
-        errors.push(`[${profile.name}]: ${err?.message ?? 'Validation failed.'}`);
+        drafts.push({ profile, media, error: err?.message ?? 'Validation failed.' });
       }
     }
 
-    if (errors.length) {
-      throw new BadRequestException(`Validation Failed:\n${errors.join('\n')}`);
+    return { drafts, mediaMap };
+  }
+
+  /**
+   * Poll edits on an existing post: it must still fit every destination.
+   */
+  validatePollFor(poll: CreatePostDto['poll'], platforms: Platform[]) {
+    for (const platform of new Set(platforms)) {
+      this.platformRules.validatePoll(poll!, platform);
     }
+  }
+
+  /**
+   * The poll itself lives on the post; the destination only carries the
+   * text. On X a poll with no text uses its question as the tweet.
+   */
+  private buildPollPayload(
+    dto: CreatePostDto,
+    profile: { id: string; platform: Platform },
+    content: string,
+    media: ConformanceMedia[],
+    hasThreads: boolean,
+  ) {
+    if (!dto.poll) throw new BadRequestException('poll is required when contentType is POLL.');
+    if (hasThreads) throw new BadRequestException('Polls cannot be posted as a thread.');
 
-    return payloads;
+    const poll = this.platformRules.validatePoll(dto.poll, profile.platform, media);
+
+    let text = content.trim();
+    if (profile.platform === 'TWITTER') {
+      text = text || poll.question;
+      this.validateSingleTweetOrThrow(text, media);
+    } else {
+      text = this.platformRules.validateAndTransform(text, profile.platform, media).finalContent;
+    }
+
+    return {
+      socialProfileId: profile.id,
+      platform: profile.platform,
+      status: 'SCHEDULED',
+      contentOverride: text,
+      firstComment: this.resolveFirstComment(dto, profile),
+    };
   }
 
   /**
    * Validate a single X tweet (NO autosplitting).
    * - twitter-text accounts for weighted length
-   * - enforce max 4 media items
+   * - enforce max 4 media items, no PDFs
    */
   private validateSingleTweetOrThrow(content: string, media: MediaItem[]) {
     const text = (content ?? '').trim();
@@ -206,6 +326,10 @@ export class DestinationBuilder {
     if ((media?.length ?? 0) > 4) {
       throw new BadRequestException('X allows max 4 media items per tweet.');
     }
+
+    if (media?.some((m) => m.mimeType === 'application/pdf')) {
+      throw new BadRequestException('X does not support PDF documents.');
+    }
   }
 
   /**
@@ -225,6 +349,7 @@ export class DestinationBuilder {
         socialProfileId: p.socialProfileId,
         status: p.status,
         contentOverride: p.contentOverride,
+        firstComment: p.firstComment ?? null,
         metadata: p.metadata ?? Prisma.JsonNull,
       })),
     });
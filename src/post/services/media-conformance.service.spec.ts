@@ -0,0 +1,76 @@
+import { BadRequestException } from '@nestjs/common';
+import { MediaConformanceService } from './media-conformance.service';
+
+describe('MediaConformanceService', () => {
+  const service = new MediaConformanceService({} as any, {} as any);
+
+  const video = (overrides: Record<string, any> = {}) => ({
+    id: 'm1',
+    mimeType: 'video/mp4',
+    width: 1080,
+    height: 1920,
+    size: 10 * 1024 * 1024,
+    duration: 30,
+    ...overrides,
+  });
+
+  it('flags reels over 90s with a trim fix', () => {
+    const [violation] = service.check(
+      [video({ duration: 92 })],
+      'INSTAGRAM',
+      'REEL',
+    );
+
+    expect(violation).toMatchObject({
+      code: 'DURATION',
+      severity: 'error',
+      fix: { type: 'trim', maxDuration: 90 },
+    });
+  });
+
+  it('suggests a 4:5 crop for tall feed images', () => {
+    const violations = service.check(
+      [
+        {
+          id: 'm1',
+          mimeType: 'image/jpeg',
+          width: 1080,
+          height: 1920,
+          size: 1024,
+        },
+      ],
+      'INSTAGRAM',
+      'POST',
+    );
+
+    expect(violations).toEqual([
+      expect.objectContaining({
+        code: 'ASPECT_RATIO',
+        fix: { type: 'crop', aspectRatio: '4:5' },
+      }),
+    ]);
+  });
+
+  it('caps X video at 512MB', () => {
+    const violations = service.check(
+      [video({ size: 600 * 1024 * 1024, width: 1920, height: 1080 })],
+      'TWITTER',
+    );
+
+    expect(violations.map((v) => v.code)).toEqual(['FILE_SIZE']);
+  });
+
+  it('only warns when metadata is missing', () => {
+    const media = [video({ width: undefined, height: undefined })];
+
+    expect(service.check(media, 'INSTAGRAM', 'REEL')[0].severity).toBe(
+      'warning',
+    );
+    expect(() =>
+      service.assertConforms(media, 'INSTAGRAM', 'REEL'),
+    ).not.toThrow();
+    expect(() =>
+      service.assertConforms([video({ duration: 2 })], 'INSTAGRAM', 'REEL'),
+    ).toThrow(BadRequestException);
+  });
+});
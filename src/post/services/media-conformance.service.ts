@@ -0,0 +1,499 @@
+import { PrismaService } from '@/prisma/prisma.service';
+import { ContentType, Platform } from '@generated/enums';
+import { InjectQueue } from '@nestjs/bullmq';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Queue } from 'bullmq';
+import { v2 as cloudinary } from 'cloudinary';
+import { CreateMediaVariantDto } from '../dto/request/media-conformance.dto';
+import { MediaItem } from '../interfaces/post.interface';
+
+export type ConformanceMedia = MediaItem & {
+  id: string;
+  filename?: string;
+  altText?: string | null;
+};
+
+export type MediaFix =
+  | { type: 'crop'; aspectRatio: string }
+  | { type: 'trim'; maxDuration: number }
+  | { type: 'transcode'; maxDimension?: number };
+
+export type MediaViolation = {
+  mediaId: string;
+  code: 'ASPECT_RATIO' | 'DURATION' | 'FILE_SIZE' | 'DIMENSIONS' | 'METADATA';
+  severity: 'error' | 'warning';
+  message: string;
+  fix?: MediaFix;
+};
+
+type RatioRule = {
+  min: number;
+  max: number;
+  // Crop targets for "too tall" / "too wide"
+  minLabel: string;
+  maxLabel: string;
+};
+
+type MediaRule = {
+  label: string;
+  ratio?: RatioRule;
+  video?: { minDuration?: number; maxDuration?: number; maxBytes?: number };
+  image?: { maxBytes?: number; maxDimension?: number };
+};
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+const NINE_SIXTEEN: RatioRule = {
+  min: 9 / 16,
+  max: 9 / 16,
+  minLabel: '9:16',
+  maxLabel: '9:16',
+};
+
+/**
+ * Per platform + content type. Anything not listed here is left to
+ * PlatformRulesService (counts, mime types) or to the network itself.
+ */
+const MEDIA_RULES: Partial<
+  Record<Platform, Partial<Record<ContentType, MediaRule>>>
+> = {
+  INSTAGRAM: {
+    POST: {
+      label: 'Instagram feed',
+      ratio: { min: 4 / 5, max: 1.91, minLabel: '4:5', maxLabel: '1.91:1' },
+      image: { maxBytes: 8 * MB },
+      video: { minDuration: 3, maxDuration: 60, maxBytes: 100 * MB },
+    },
+    REEL: {
+      label: 'Instagram Reels',
+      ratio: NINE_SIXTEEN,
+      video: { minDuration: 3, maxDuration: 90, maxBytes: 300 * MB },
+    },
+    STORY: {
+      label: 'Instagram Stories',
+      image: { maxBytes: 8 * MB },
+      video: { minDuration: 3, maxDuration: 60, maxBytes: 100 * MB },
+    },
+  },
+  FACEBOOK: {
+    REEL: {
+      label: 'Facebook Reels',
+      ratio: NINE_SIXTEEN,
+      video: { minDuration: 3, maxDuration: 90 },
+    },
+    STORY: {
+      label: 'Facebook Stories',
+      image: { maxBytes: 10 * MB },
+      video: { minDuration: 3, maxDuration: 90 },
+    },
+  },
+  TWITTER: {
+    POST: {
+      label: 'X',
+      image: { maxBytes: 5 * MB },
+      video: { maxDuration: 140, maxBytes: 512 * MB },
+    },
+    THREAD: {
+      label: 'X',
+      image: { maxBytes: 5 * MB },
+      video: { maxDuration: 140, maxBytes: 512 * MB },
+    },
+  },
+  LINKEDIN: {
+    POST: {
+      label: 'LinkedIn',
+      ratio: { min: 1 / 2.4, max: 2.4, minLabel: '1:2.4', maxLabel: '2.4:1' },
+      image: { maxDimension: 6012 },
+      video: { minDuration: 3, maxDuration: 30 * 60, maxBytes: 5 * GB },
+    },
+  },
+};
+
+// Encoders round dimensions, so an exact 9:16 is rarely exactly 0.5625
+const RATIO_TOLERANCE = 0.01;
+
+@Injectable()
+export class MediaConformanceService {
+  constructor(
+    private readonly prisma: PrismaService,
+    @InjectQueue('media-ingest') private readonly mediaIngestQueue: Queue,
+  ) {}
+
+  // =========================================================
+  // 1) Checks
+  // =========================================================
+
+  /**
+   * Violations for a set of media on one destination. Pure: no DB access,
+   * so DestinationBuilder can call it for every profile it prepares.
+   */
+  check(
+    media: ConformanceMedia[],
+    platform: Platform,
+    contentType: ContentType = ContentType.POST,
+  ): MediaViolation[] {
+    const rule =
+      MEDIA_RULES[platform]?.[contentType] ?? MEDIA_RULES[platform]?.POST;
+    if (!rule) return [];
+
+    const violations: MediaViolation[] = [];
+    for (const m of media) {
+      const isVideo = m.mimeType?.startsWith('video/');
+      const isImage = m.mimeType?.startsWith('image/');
+      if (!isVideo && !isImage) continue;
+
+      const name = m.filename ? `"${m.filename}"` : 'Media';
+      const push = (v: Omit<MediaViolation, 'mediaId'>) =>
+        violations.push({ mediaId: m.id, ...v });
+
+      // Aspect ratio
+      if (rule.ratio) {
+        if (!m.width || !m.height) {
+          push({
+            code: 'METADATA',
+            severity: 'warning',
+            message: `${name} has no dimensions yet; aspect ratio for ${rule.label} can't be checked.`,
+          });
+        } else {
+          const ratio = m.width / m.height;
+          const { min, max } = rule.ratio;
+          if (ratio < min * (1 - RATIO_TOLERANCE)) {
+            push({
+              code: 'ASPECT_RATIO',
+              severity: 'error',
+              message: `${name} is ${m.width}x${m.height} (${ratio.toFixed(2)}:1); ${rule.label} needs ${this.ratioRange(rule.ratio)}.`,
+              fix: { type: 'crop', aspectRatio: rule.ratio.minLabel },
+            });
+          } else if (ratio > max * (1 + RATIO_TOLERANCE)) {
+            push({
+              code: 'ASPECT_RATIO',
+              severity: 'error',
+              message: `${name} is ${m.width}x${m.height} (${ratio.toFixed(2)}:1); ${rule.label} needs ${this.ratioRange(rule.ratio)}.`,
+              fix: { type: 'crop', aspectRatio: rule.ratio.maxLabel },
+            });
+          }
+        }
+      }
+
+      // Video duration / size
+      if (isVideo && rule.video) {
+        const { minDuration, maxDuration, maxBytes } = rule.video;
+
+        if (m.duration == null) {
+          if (minDuration || maxDuration) {
+            push({
+              code: 'METADATA',
+              severity: 'warning',
+              message: `${name} has no duration yet; length limits for ${rule.label} can't be checked.`,
+            });
+          }
+        } else if (maxDuration && m.duration > maxDuration) {
+          push({
+            code: 'DURATION',
+            severity: 'error',
+            message: `${name} is ${m.duration}s; ${rule.label} allows at most ${maxDuration}s.`,
+            fix: { type: 'trim', maxDuration },
+          });
+        } else if (minDuration && m.duration < minDuration) {
+          push({
+            code: 'DURATION',
+            severity: 'error',
+            message: `${name} is ${m.duration}s; ${rule.label} needs at least ${minDuration}s.`,
+          });
+        }
+
+        if (maxBytes && m.size && m.size > maxBytes) {
+          push({
+            code: 'FILE_SIZE',
+            severity: 'error',
+            message: `${name} is ${this.formatBytes(m.size)}; ${rule.label} video limit is ${this.formatBytes(maxBytes)}.`,
+            fix: { type: 'transcode' },
+          });
+        }
+      }
+
+      // Image size / dimensions
+      if (isImage && rule.image) {
+        const { maxBytes, maxDimension } = rule.image;
+
+        if (maxBytes && m.size && m.size > maxBytes) {
+          push({
+            code: 'FILE_SIZE',
+            severity: 'error',
+            message: `${name} is ${this.formatBytes(m.size)}; ${rule.label} image limit is ${this.formatBytes(maxBytes)}.`,
+            fix: { type: 'transcode' },
+          });
+        }
+
+        if (
+          maxDimension &&
+          ((m.width ?? 0) > maxDimension || (m.height ?? 0) > maxDimension)
+        ) {
+          push({
+            code: 'DIMENSIONS',
+            severity: 'error',
+            message: `${name} is ${m.width}x${m.height}; ${rule.label} allows at most ${maxDimension}px per side.`,
+            fix: { type: 'transcode', maxDimension },
+          });
+        }
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Throws with every blocking violation, so a post that would fail at
+   * publish time is rejected when it's created instead.
+   */
+  assertConforms(
+    media: ConformanceMedia[],
+    platform: Platform,
+    contentType?: ContentType,
+  ) {
+    const errors = this.check(media, platform, contentType).filter(
+      (v) => v.severity === 'error',
+    );
+    if (!errors.length) return;
+
+    throw new BadRequestException(
+      errors
+        .map(
+          (v) =>
+            v.message + (v.fix ? ` (fix: ${this.describeFix(v.fix)})` : ''),
+        )
+        .join(' '),
+    );
+  }
+
+  /**
+   * Composer preview: the same checks per selected profile, including
+   * warnings and the variant that would fix each violation.
+   */
+  async checkPost(
+    workspaceId: string,
+    dto: {
+      socialProfileIds: string[];
+      mediaIds: string[];
+      contentType?: ContentType;
+    },
+  ) {
+    const [profiles, files] = await Promise.all([
+      this.prisma.socialProfile.findMany({
+        where: { id: { in: dto.socialProfileIds }, workspaceId },
+        select: { id: true, name: true, platform: true },
+      }),
+      this.prisma.mediaFile.findMany({
+        where: { id: { in: dto.mediaIds }, workspaceId },
+      }),
+    ]);
+
+    if (profiles.length !== dto.socialProfileIds.length) {
+      throw new BadRequestException(
+        'One or more profiles do not belong to this workspace.',
+      );
+    }
+    if (files.length !== new Set(dto.mediaIds).size) {
+      throw new BadRequestException(
+        'One or more media files do not belong to this workspace.',
+      );
+    }
+
+    const byId = new Map(files.map((f) => [f.id, this.toMedia(f)]));
+    const media = dto.mediaIds.map((id) => byId.get(id)!);
+
+    const destinations = profiles.map((profile) => {
+      const violations = this.check(media, profile.platform, dto.contentType);
+      return {
+        socialProfileId: profile.id,
+        profileName: profile.name,
+        platform: profile.platform,
+        ok: !violations.some((v) => v.severity === 'error'),
+        violations,
+      };
+    });
+
+    return {
+      ok: destinations.every((d) => d.ok),
+      destinations,
+    };
+  }
+
+  // =========================================================
+  // 2) Variants
+  // =========================================================
+
+  /**
+   * Queues a cropped / trimmed / transcoded copy of a library file. The copy
+   * is a new MediaFile pointing at a Cloudinary derived URL; the media-ingest
+   * worker uploads it as its own asset and fills in the real metadata.
+   * Asking for the same variant twice returns the existing one.
+   */
+  async createVariant(
+    workspaceId: string,
+    userId: string,
+    mediaId: string,
+    dto: CreateMediaVariantDto,
+  ) {
+    const source = await this.prisma.mediaFile.findFirst({
+      where: { id: mediaId, workspaceId },
+    });
+    if (!source) throw new NotFoundException('Media not found');
+    if (source.publicId.startsWith('external_')) {
+      throw new BadRequestException(
+        'This file is still being processed. Try again in a moment.',
+      );
+    }
+
+    const isVideo = source.mimeType.startsWith('video/');
+    const fix = this.toFix(dto, isVideo);
+    const transformation = this.describeFix(fix);
+
+    const existing = await this.prisma.mediaFile.findFirst({
+      where: { variantOfId: source.id, transformation },
+    });
+    if (existing) return { ...existing, size: existing.size.toString() };
+
+    const url = cloudinary.url(source.publicId, {
+      resource_type: isVideo ? 'video' : 'image',
+      secure: true,
+      ...(isVideo && { format: 'mp4' }),
+      transformation: [this.toCloudinaryTransformation(fix, isVideo)],
+    });
+
+    const base = source.filename.replace(/\.[^/.]+$/, '');
+    const suffix = transformation.replace(/[^a-z0-9]+/gi, '-');
+    const variant = await this.prisma.mediaFile.create({
+      data: {
+        workspaceId,
+        userId,
+        folderId: source.folderId,
+        filename: `${base}-${suffix}${isVideo ? '.mp4' : '.jpg'}`,
+        originalName: source.originalName,
+        mimeType: isVideo ? 'video/mp4' : 'image/jpeg',
+        size: BigInt(0),
+        url,
+        // Marks it pending for the media-ingest worker
+        publicId: `external_${source.id}_${Date.now()}`,
+        thumbnailUrl: source.thumbnailUrl,
+        variantOfId: source.id,
+        transformation,
+      },
+    });
+
+    await this.mediaIngestQueue.add(
+      'ingest-media',
+      { mediaId: variant.id, workspaceId },
+      {
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 10_000 },
+        removeOnComplete: true,
+      },
+    );
+
+    return { ...variant, size: variant.size.toString() };
+  }
+
+  // =========================================================
+  // Helpers
+  // =========================================================
+
+  private toFix(dto: CreateMediaVariantDto, isVideo: boolean): MediaFix {
+    switch (dto.type) {
+      case 'crop':
+        if (!dto.aspectRatio) {
+          throw new BadRequestException('aspectRatio is required to crop.');
+        }
+        return { type: 'crop', aspectRatio: dto.aspectRatio };
+
+      case 'trim':
+        if (!isVideo)
+          throw new BadRequestException('Only videos can be trimmed.');
+        if (!dto.maxDuration) {
+          throw new BadRequestException('maxDuration is required to trim.');
+        }
+        return { type: 'trim', maxDuration: dto.maxDuration };
+
+      default:
+        return { type: 'transcode', maxDimension: dto.maxDimension };
+    }
+  }
+
+  private toCloudinaryTransformation(fix: MediaFix, isVideo: boolean) {
+    switch (fix.type) {
+      case 'crop': {
+        const [w, h] = fix.aspectRatio.split(':').map(Number);
+        return {
+          aspect_ratio: Number((w / h).toFixed(4)),
+          crop: 'fill',
+          gravity: 'auto',
+        };
+      }
+      case 'trim':
+        return { end_offset: fix.maxDuration };
+      case 'transcode':
+        return isVideo
+          ? {
+              video_codec: 'h264',
+              quality: 'auto:good',
+              width: fix.maxDimension ?? 1920,
+              crop: 'limit',
+            }
+          : {
+              quality: 'auto:good',
+              fetch_format: 'jpg',
+              width: fix.maxDimension ?? 4096,
+              height: fix.maxDimension ?? 4096,
+              crop: 'limit',
+            };
+    }
+  }
+
+  private describeFix(fix: MediaFix) {
+    switch (fix.type) {
+      case 'crop':
+        return `crop:${fix.aspectRatio}`;
+      case 'trim':
+        return `trim:${fix.maxDuration}`;
+      case 'transcode':
+        return fix.maxDimension ? `transcode:${fix.maxDimension}` : 'transcode';
+    }
+  }
+
+  private toMedia(file: {
+    id: string;
+    filename: string;
+    mimeType: string;
+    size: bigint;
+    width: number | null;
+    height: number | null;
+    duration: number | null;
+  }): ConformanceMedia {
+    return {
+      id: file.id,
+      filename: file.filename,
+      mimeType: file.mimeType,
+      size: Number(file.size),
+      width: file.width ?? undefined,
+      height: file.height ?? undefined,
+      duration: file.duration ?? undefined,
+    };
+  }
+
+  private ratioRange(rule: RatioRule) {
+    return rule.minLabel === rule.maxLabel
+      ? rule.minLabel
+      : `${rule.minLabel} to ${rule.maxLabel}`;
+  }
+
+  private formatBytes(bytes: number) {
+    return bytes >= GB
+      ? `${(bytes / GB).toFixed(1)}GB`
+      : `${Math.round(bytes / MB)}MB`;
+  }
+}
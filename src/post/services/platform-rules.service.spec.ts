@@ -0,0 +1,96 @@
+import { BadRequestException } from '@nestjs/common';
+import { PlatformRulesService } from './platform-rules.service';
+
+describe('PlatformRulesService', () => {
+  const service = new PlatformRulesService();
+
+  describe('LinkedIn documents', () => {
+    const pdf = (overrides: Record<string, number> = {}) => ({
+      mimeType: 'application/pdf',
+      size: 4 * 1024 * 1024,
+      pageCount: 12,
+      ...overrides,
+    });
+
+    it('accepts a PDF within the page and size limits', () => {
+      expect(
+        service.validateAndTransform('Our 2026 playbook', 'LINKEDIN', [pdf()])
+          .isValid,
+      ).toBe(true);
+    });
+
+    it('rejects PDFs over 300 pages or 100MB', () => {
+      expect(() =>
+        service.validateAndTransform('', 'LINKEDIN', [pdf({ pageCount: 301 })]),
+      ).toThrow(
+        'LinkedIn documents can have at most 300 pages (this one has 301).',
+      );
+      expect(() =>
+        service.validateAndTransform('', 'LINKEDIN', [
+          pdf({ size: 101 * 1024 * 1024 }),
+        ]),
+      ).toThrow('LinkedIn documents must be 100MB or smaller.');
+    });
+
+    it('rejects PDFs on X', () => {
+      expect(() =>
+        service.validateAndTransform('Playbook', 'TWITTER', [pdf()]),
+      ).toThrow('X does not support PDF documents.');
+    });
+  });
+
+  describe('validatePoll', () => {
+    const poll = {
+      question: ' Which feature next? ',
+      options: ['Dark mode ', 'Calendar sync'],
+      durationDays: 3,
+    };
+
+    it('returns the trimmed poll for X and LinkedIn', () => {
+      expect(service.validatePoll(poll, 'TWITTER')).toEqual({
+        question: 'Which feature next?',
+        options: ['Dark mode', 'Calendar sync'],
+        durationDays: 3,
+      });
+      expect(service.validatePoll(poll, 'LINKEDIN').options).toHaveLength(2);
+    });
+
+    it('rejects networks without native polls and polls with media', () => {
+      expect(() => service.validatePoll(poll, 'FACEBOOK')).toThrow(
+        'Polls are only supported on X and LinkedIn.',
+      );
+      expect(() =>
+        service.validatePoll(poll, 'TWITTER', [
+          { url: 'https://x/img.png', mimeType: 'image/png' } as any,
+        ]),
+      ).toThrow('Polls cannot include media.');
+    });
+
+    it('applies per-network option length and duration limits', () => {
+      const longOption = { ...poll, options: ['A'.repeat(28), 'B'] };
+
+      expect(() => service.validatePoll(longOption, 'TWITTER')).toThrow(
+        'Poll option #1 exceeds TWITTER limit (28/25).',
+      );
+      expect(() => service.validatePoll(longOption, 'LINKEDIN')).not.toThrow();
+
+      const twoWeeks = { ...poll, durationDays: 14 };
+      expect(() => service.validatePoll(twoWeeks, 'TWITTER')).toThrow(
+        'TWITTER polls can run for at most 7 days.',
+      );
+      expect(() => service.validatePoll(twoWeeks, 'LINKEDIN')).not.toThrow();
+    });
+
+    it('needs 2 to 4 distinct options', () => {
+      const check = (options: string[]) => () =>
+        service.validatePoll({ ...poll, options }, 'LINKEDIN');
+
+      expect(check(['Only one'])).toThrow(BadRequestException);
+      expect(check(['a', 'b', 'c', 'd', 'e'])).toThrow(
+        'Polls need 2 to 4 options.',
+      );
+      expect(check(['Yes', ' yes'])).toThrow('Poll options must be different.');
+      expect(check(['Yes', '  '])).toThrow('Poll option #2 is empty.');
+    });
+  });
+});
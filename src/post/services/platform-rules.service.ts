@@ -23,6 +23,8 @@ export class PlatformRulesService {
   private readonly LINKEDIN_CHAR_LIMIT = 3000;
   private readonly LINKEDIN_MAX_IMAGES = 9;
   private readonly LINKEDIN_MAX_IMAGE_DIMENSION = 6012;
+  private readonly LINKEDIN_MAX_DOCUMENT_PAGES = 300;
+  private readonly LINKEDIN_MAX_DOCUMENT_BYTES = 100 * 1024 * 1024; // 100MB
 
   // -----------------------
   // Instagram
@@ -31,6 +33,34 @@ export class PlatformRulesService {
   private readonly IG_HASHTAG_LIMIT = 30;
   private readonly IG_CAROUSEL_MAX = 10;
 
+  // -----------------------
+  // Sandbox
+  // -----------------------
+  private readonly SANDBOX_CHAR_LIMIT = 5000;
+  private readonly SANDBOX_MAX_MEDIA = 10;
+
+  // -----------------------
+  // Polls
+  // -----------------------
+  private readonly POLL_MIN_OPTIONS = 2;
+  private readonly POLL_MAX_OPTIONS = 4;
+  private readonly POLL_LIMITS: Partial<
+    Record<Platform, { question: number; option: number; maxDays: number }>
+  > = {
+    TWITTER: { question: 280, option: 25, maxDays: 7 },
+    LINKEDIN: { question: 140, option: 30, maxDays: 14 },
+    SANDBOX: { question: 280, option: 30, maxDays: 14 },
+  };
+
+  // -----------------------
+  // First comments
+  // -----------------------
+  private readonly COMMENT_LIMITS: Partial<Record<Platform, number>> = {
+    LINKEDIN: 1250,
+    INSTAGRAM: 2200,
+    FACEBOOK: 8000,
+  };
+
   /**
    * ✅ 2) Strict platform handling: no silent defaults
    * ✅ 3) Keep media typed and optional
@@ -64,6 +94,9 @@ export class PlatformRulesService {
           options?.igKind ?? 'FEED',
         );
 
+      case Platform.SANDBOX:
+        return this.processSandbox(safeContent, media);
+
       default:
         // (Enum makes this unreachable, but keeps runtime safe)
         throw new BadRequestException(`Unsupported platform: ${platform}`);
@@ -93,6 +126,10 @@ export class PlatformRulesService {
       );
     }
 
+    if (media.some((m) => m.mimeType === 'application/pdf')) {
+      throw new BadRequestException('X does not support PDF documents.');
+    }
+
     if (twitter.parseTweet(content).valid) {
       return { isValid: true, finalContent: content };
     }
@@ -445,6 +482,7 @@ private processFacebook(
    * ✅ Consistent exceptions
    * ✅ Validates mixing rules
    * ✅ Enforces 1 PDF OR 1 video OR up to 9 images
+   * ✅ PDFs: page count and file size within LinkedIn's document limits
    */
   private processLinkedIn(
     content: string,
@@ -483,6 +521,20 @@ private processFacebook(
       throw new BadRequestException('LinkedIn allows only 1 PDF per post.');
     }
 
+    for (const doc of media.filter((f) => f.mimeType === 'application/pdf')) {
+      // Page count is only known once the upload has been processed
+      if (doc.pageCount && doc.pageCount > this.LINKEDIN_MAX_DOCUMENT_PAGES) {
+        throw new BadRequestException(
+          `LinkedIn documents can have at most ${this.LINKEDIN_MAX_DOCUMENT_PAGES} pages (this one has ${doc.pageCount}).`,
+        );
+      }
+      if (doc.size && doc.size > this.LINKEDIN_MAX_DOCUMENT_BYTES) {
+        throw new BadRequestException(
+          `LinkedIn documents must be ${this.LINKEDIN_MAX_DOCUMENT_BYTES / 1024 / 1024}MB or smaller.`,
+        );
+      }
+    }
+
     if (videoCount > 1) {
       throw new BadRequestException('LinkedIn allows only 1 video per post.');
     }
@@ -511,4 +563,148 @@ private processFacebook(
 
     return { isValid: true, finalContent: content };
   }
+
+  // ===========================================================================
+  // Sandbox
+  // ===========================================================================
+  /**
+   * ✅ Loose on purpose: just enough to exercise the error path in demos
+   */
+  private processSandbox(
+    content: string,
+    media: MediaItem[],
+  ): ValidationResult {
+    if (content.length > this.SANDBOX_CHAR_LIMIT) {
+      throw new BadRequestException(
+        `Text exceeds Sandbox limit (${content.length}/${this.SANDBOX_CHAR_LIMIT}).`,
+      );
+    }
+
+    if (media.length > this.SANDBOX_MAX_MEDIA) {
+      throw new BadRequestException(
+        `Sandbox allows max ${this.SANDBOX_MAX_MEDIA} media items.`,
+      );
+    }
+
+    return { isValid: true, finalContent: content };
+  }
+
+  // ===========================================================================
+  // Polls
+  // ===========================================================================
+  /**
+   * ✅ Only networks with native polls (X, LinkedIn; Sandbox for QA)
+   * ✅ 2–4 distinct, non-empty options within the network's length limit
+   * ✅ Duration the network accepts
+   * ✅ No media: neither network lets a poll carry attachments
+   */
+  public validatePoll(
+    poll: { question: string; options: string[]; durationDays: number },
+    platform: Platform,
+    media: MediaItem[] = [],
+  ) {
+    const limits = this.POLL_LIMITS[platform];
+    if (!limits) {
+      throw new BadRequestException(
+        'Polls are only supported on X and LinkedIn.',
+      );
+    }
+
+    if (media.length > 0) {
+      throw new BadRequestException('Polls cannot include media.');
+    }
+
+    const question = (poll?.question ?? '').trim();
+    if (!question) {
+      throw new BadRequestException('Poll question cannot be empty.');
+    }
+    if (question.length > limits.question) {
+      throw new BadRequestException(
+        `Poll question exceeds ${platform} limit (${question.length}/${limits.question}).`,
+      );
+    }
+
+    const options = (poll.options ?? []).map((o) => (o ?? '').trim());
+    if (
+      options.length < this.POLL_MIN_OPTIONS ||
+      options.length > this.POLL_MAX_OPTIONS
+    ) {
+      throw new BadRequestException(
+        `Polls need ${this.POLL_MIN_OPTIONS} to ${this.POLL_MAX_OPTIONS} options.`,
+      );
+    }
+
+    options.forEach((option, i) => {
+      if (!option) {
+        throw new BadRequestException(`Poll option #${i + 1} is empty.`);
+      }
+      if (option.length > limits.option) {
+        throw new BadRequestException(
+          `Poll option #${i + 1} exceeds ${platform} limit (${option.length}/${limits.option}).`,
+        );
+      }
+    });
+
+    if (new Set(options.map((o) => o.toLowerCase())).size !== options.length) {
+      throw new BadRequestException('Poll options must be different.');
+    }
+
+    if (poll.durationDays > limits.maxDays) {
+      throw new BadRequestException(
+        `${platform} polls can run for at most ${limits.maxDays} days.`,
+      );
+    }
+
+    return { question, options, durationDays: poll.durationDays };
+  }
+
+  // ===========================================================================
+  // First comment
+  // ===========================================================================
+  /**
+   * ✅ Stories can't be commented on by the author
+   * ✅ X: the comment is a reply tweet, so it must fit one tweet
+   * ✅ IG: same hashtag cap as captions
+   */
+  public validateFirstComment(
+    content: string,
+    platform: Platform,
+    contentType?: string,
+  ): string {
+    const text = (content ?? '').trim();
+    if (!text) return text;
+
+    if (contentType === 'STORY') {
+      throw new BadRequestException(
+        'First comments are not supported on stories.',
+      );
+    }
+
+    if (platform === Platform.TWITTER) {
+      if (!twitter.parseTweet(text).valid) {
+        throw new BadRequestException(
+          'First comment exceeds X limits (280 weighted chars).',
+        );
+      }
+      return text;
+    }
+
+    const limit = this.COMMENT_LIMITS[platform];
+    if (limit && text.length > limit) {
+      throw new BadRequestException(
+        `First comment exceeds ${platform} limit (${text.length}/${limit}).`,
+      );
+    }
+
+    if (platform === Platform.INSTAGRAM) {
+      const hashtagCount = (text.match(/#[a-z0-9_]+/gi) || []).length;
+      if (hashtagCount > this.IG_HASHTAG_LIMIT) {
+        throw new BadRequestException(
+          `Max ${this.IG_HASHTAG_LIMIT} hashtags allowed in the first comment.`,
+        );
+      }
+    }
+
+    return text;
+  }
 }
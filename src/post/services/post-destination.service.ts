@@ -0,0 +1,372 @@
+import { settledPostStatus } from '@/common/utility/post-status.util';
+import { PrismaService } from '@/prisma/prisma.service';
+import { Prisma } from '@generated/client';
+import { InjectQueue } from '@nestjs/bullmq';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Queue } from 'bullmq';
+import {
+  DeadLetterQueryDto,
+  RetryDeadLettersDto,
+} from '../dto/request/publish-retry.dto';
+
+type RetryTarget = {
+  id: string;
+  postId: string;
+  socialProfileId: string;
+  attempts: number;
+  profile: { name: string; status: string };
+};
+
+const RETRY_TARGET_SELECT = {
+  id: true,
+  postId: true,
+  socialProfileId: true,
+  status: true,
+  attempts: true,
+  nextRetryAt: true,
+  profile: { select: { name: true, status: true } },
+} as const;
+
+// Posts in these states haven't run yet; the main publish job still covers them
+const NOT_STARTED = ['DRAFT', 'PENDING_APPROVAL', 'SCHEDULED'];
+
+@Injectable()
+export class PostDestinationService {
+  constructor(
+    private readonly prisma: PrismaService,
+    @InjectQueue('publishing-queue') private readonly publishingQueue: Queue,
+  ) {}
+
+  // =========================================================
+  // 1) Retry / cancel on one post
+  // =========================================================
+
+  /**
+   * Re-sends one destination. Works for FAILED (including dead letters),
+   * CANCELLED, and destinations waiting on an automatic backoff (retry now).
+   */
+  async retry(workspaceId: string, postId: string, destinationId: string) {
+    const post = await this.findPost(workspaceId, postId);
+    const dest = await this.prisma.postDestination.findFirst({
+      where: { id: destinationId, postId },
+      select: RETRY_TARGET_SELECT,
+    });
+    if (!dest) throw new NotFoundException('Destination not found');
+
+    const waitingOnBackoff = dest.status === 'SCHEDULED' && !!dest.nextRetryAt;
+    if (!['FAILED', 'CANCELLED'].includes(dest.status) && !waitingOnBackoff) {
+      throw new BadRequestException(
+        `Only failed or cancelled destinations can be retried (this one is ${dest.status}).`,
+      );
+    }
+
+    await this.requeue(post, [dest]);
+    return this.getDestinations(postId);
+  }
+
+  /**
+   * Re-sends every FAILED destination of the post. Successful ones are left
+   * alone, so one broken account never republishes to the others.
+   */
+  async retryFailed(workspaceId: string, postId: string) {
+    const post = await this.findPost(workspaceId, postId);
+    const failed = await this.prisma.postDestination.findMany({
+      where: { postId, status: 'FAILED' },
+      select: RETRY_TARGET_SELECT,
+    });
+    if (!failed.length) {
+      throw new BadRequestException('This post has no failed destinations.');
+    }
+
+    await this.requeue(post, failed);
+    return this.getDestinations(postId);
+  }
+
+  /**
+   * Stops a destination from publishing (or from being retried). The rest of
+   * the post is untouched; if nothing is left to publish the post settles.
+   */
+  async cancel(workspaceId: string, postId: string, destinationId: string) {
+    const post = await this.findPost(workspaceId, postId);
+
+    const result = await this.prisma.postDestination.updateMany({
+      where: {
+        id: destinationId,
+        postId,
+        status: { in: ['SCHEDULED', 'FAILED'] },
+      },
+      data: { status: 'CANCELLED', nextRetryAt: null, deadLetteredAt: null },
+    });
+
+    if (result.count === 0) {
+      const exists = await this.prisma.postDestination.findFirst({
+        where: { id: destinationId, postId },
+        select: { status: true },
+      });
+      if (!exists) throw new NotFoundException('Destination not found');
+      throw new BadRequestException(
+        `Destination is ${exists.status} and can no longer be cancelled.`,
+      );
+    }
+
+    await this.syncThreadChildren(postId, [destinationId], 'CANCELLED');
+    await this.settlePost(post);
+
+    return this.getDestinations(postId);
+  }
+
+  // =========================================================
+  // 2) Dead letters (auth / permission failures)
+  // =========================================================
+
+  async listDeadLetters(workspaceId: string, query: DeadLetterQueryDto) {
+    const { page = 1, limit = 20 } = query;
+
+    const where: Prisma.PostDestinationWhereInput = {
+      status: 'FAILED',
+      deadLetteredAt: { not: null },
+      post: { workspaceId },
+      ...(query.socialProfileId && { socialProfileId: query.socialProfileId }),
+      ...(query.platform && { profile: { platform: query.platform } }),
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.postDestination.findMany({
+        where,
+        orderBy: { deadLetteredAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        select: {
+          id: true,
+          postId: true,
+          errorClass: true,
+          errorMessage: true,
+          attempts: true,
+          deadLetteredAt: true,
+          post: {
+            select: {
+              id: true,
+              content: true,
+              scheduledAt: true,
+              status: true,
+            },
+          },
+          profile: {
+            select: {
+              id: true,
+              name: true,
+              username: true,
+              picture: true,
+              platform: true,
+              status: true,
+            },
+          },
+        },
+      }),
+      this.prisma.postDestination.count({ where }),
+    ]);
+
+    return {
+      data,
+      meta: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
+  /**
+   * Retries dead letters in bulk, usually after reconnecting an account.
+   * Profiles that are still disconnected are skipped and reported.
+   */
+  async retryDeadLetters(workspaceId: string, dto: RetryDeadLettersDto) {
+    const deadLetters = await this.prisma.postDestination.findMany({
+      where: {
+        status: 'FAILED',
+        deadLetteredAt: { not: null },
+        post: { workspaceId },
+        ...(dto.socialProfileId && { socialProfileId: dto.socialProfileId }),
+      },
+      select: {
+        ...RETRY_TARGET_SELECT,
+        post: { select: { id: true, status: true, parentPostId: true } },
+      },
+    });
+
+    const ready = deadLetters.filter((d) => d.profile.status === 'CONNECTED');
+    const skipped = deadLetters.filter((d) => d.profile.status !== 'CONNECTED');
+
+    const byPost = new Map<string, typeof ready>();
+    for (const d of ready) {
+      byPost.set(d.postId, [...(byPost.get(d.postId) ?? []), d]);
+    }
+
+    for (const dests of byPost.values()) {
+      await this.requeue(dests[0].post, dests);
+    }
+
+    return {
+      retried: ready.length,
+      skipped: skipped.map((d) => ({
+        destinationId: d.id,
+        postId: d.postId,
+        profileName: d.profile.name,
+        reason: 'Profile is not connected. Reconnect it first.',
+      })),
+    };
+  }
+
+  // =========================================================
+  // Internal
+  // =========================================================
+
+  private async findPost(workspaceId: string, postId: string) {
+    const post = await this.prisma.post.findFirst({
+      where: { id: postId, workspaceId },
+      select: { id: true, status: true, parentPostId: true },
+    });
+    if (!post) throw new NotFoundException('Post not found');
+    if (post.parentPostId) {
+      throw new BadRequestException(
+        'Thread replies are published with their first post. Retry or cancel the first post instead.',
+      );
+    }
+    return post;
+  }
+
+  /**
+   * Resets the destinations and, if the post already ran, queues a
+   * destination-only publish job for each. Before the post runs, resetting is
+   * enough: the main publish job will include them.
+   */
+  private async requeue(
+    post: { id: string; status: string },
+    dests: RetryTarget[],
+  ) {
+    const disconnected = dests.find((d) => d.profile.status !== 'CONNECTED');
+    if (disconnected) {
+      throw new BadRequestException(
+        `${disconnected.profile.name} is not connected. Reconnect it before retrying.`,
+      );
+    }
+
+    const ids = dests.map((d) => d.id);
+    const started = !NOT_STARTED.includes(post.status);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.postDestination.updateMany({
+        where: { id: { in: ids } },
+        data: {
+          status: 'SCHEDULED',
+          errorMessage: null,
+          errorClass: null,
+          nextRetryAt: null,
+          deadLetteredAt: null,
+          attempts: 0,
+        },
+      });
+
+      if (started) {
+        await tx.post.update({
+          where: { id: post.id },
+          data: { status: 'PUBLISHING' },
+        });
+      }
+    });
+
+    await this.syncThreadChildren(post.id, ids, 'SCHEDULED');
+
+    if (!started) return;
+
+    for (const dest of dests) {
+      // Drop a pending automatic retry so it can't run a second time
+      const pending = await this.publishingQueue.getJob(
+        `retry-${dest.id}-${dest.attempts}`,
+      );
+      if (pending) await pending.remove();
+
+      await this.publishingQueue.add(
+        'retry-destination',
+        { postId: post.id, destinationId: dest.id },
+        {
+          jobId: `retry-${dest.id}-manual-${Date.now()}`,
+          removeOnComplete: true,
+        },
+      );
+    }
+  }
+
+  /**
+   * X thread replies keep their own destination rows; keep their status in
+   * line with the first post for the same profile.
+   */
+  private async syncThreadChildren(
+    postId: string,
+    destinationIds: string[],
+    status: 'SCHEDULED' | 'CANCELLED',
+  ) {
+    const dests = await this.prisma.postDestination.findMany({
+      where: { id: { in: destinationIds } },
+      select: { socialProfileId: true },
+    });
+
+    await this.prisma.postDestination.updateMany({
+      where: {
+        post: { parentPostId: postId },
+        socialProfileId: { in: dests.map((d) => d.socialProfileId) },
+        status: { not: 'SUCCESS' },
+      },
+      data: { status },
+    });
+  }
+
+  private async settlePost(post: { id: string; status: string }) {
+    const counts = await this.prisma.postDestination.groupBy({
+      by: ['status'],
+      where: { postId: post.id },
+      _count: { status: true },
+    });
+
+    const settled = settledPostStatus(
+      Object.fromEntries(counts.map((c) => [c.status, c._count.status])),
+    );
+    if (!settled || settled === post.status) return;
+
+    // Every destination cancelled before it ran: nothing left to publish
+    if (settled === 'DRAFT') {
+      if (!NOT_STARTED.includes(post.status)) return;
+      const job = await this.publishingQueue.getJob(post.id);
+      if (job) await job.remove();
+    }
+
+    await this.prisma.post.update({
+      where: { id: post.id },
+      data: { status: settled },
+    });
+    await this.prisma.post.updateMany({
+      where: { parentPostId: post.id },
+      data: { status: settled },
+    });
+  }
+
+  private getDestinations(postId: string) {
+    return this.prisma.postDestination.findMany({
+      where: { postId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        socialProfileId: true,
+        status: true,
+        errorClass: true,
+        errorMessage: true,
+        attempts: true,
+        nextRetryAt: true,
+        deadLetteredAt: true,
+        platformPostId: true,
+        publishedAt: true,
+        profile: { select: { name: true, platform: true } },
+      },
+    });
+  }
+}
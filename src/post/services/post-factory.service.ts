@@ -18,17 +18,25 @@ export class PostFactory {
         workspaceId,
         authorId: userId,
         content: dto.content,
+        firstComment: dto.firstComment,
         contentType: dto.contentType,
         status,
         scheduledAt: dto.scheduledAt ? new Date(dto.scheduledAt) : null,
         isAutoSchedule: dto.isAutoSchedule ?? false,
+        queueCategory: dto.queueCategory,
+        ...(dto.contentType === 'POLL' &&
+          dto.poll && { poll: toPollJson(dto.poll) }),
+        documentTitle: dto.documentTitle?.trim() || null,
         timezone: dto.timezone,
         campaignId: dto.campaignId,
+        ...(dto.labelIds?.length && {
+          labels: { connect: dto.labelIds.map((id) => ({ id })) },
+        }),
       },
     });
 
     if (dto.mediaIds?.length) {
-      await this.createPostMedia(tx, post.id, dto.mediaIds);
+      await this.createPostMedia(tx, post.id, dto.mediaIds, dto.mediaAltTexts);
     }
 
     return post;
@@ -70,14 +78,47 @@ export class PostFactory {
     tx: Prisma.TransactionClient,
     postId: string,
     mediaIds: string[],
+    altTexts?: { mediaId: string; altText: string }[],
   ) {
-    // Prepare data for createMany
-    const data = mediaIds.map((mediaFileId, index) => ({
-      postId,
-      mediaFileId,
-      order: index,
-    }));
-
-    await tx.postMedia.createMany({ data });
+    await tx.postMedia.createMany({
+      data: buildPostMediaRows(postId, mediaIds, altTexts),
+    });
   }
-}
\ No newline at end of file
+}
+
+/**
+ * PostMedia rows in mediaIds order. altText is only set where the post
+ * overrides the library file's; an empty override is kept as '' so the
+ * file's alt text isn't used either.
+ */
+export function buildPostMediaRows(
+  postId: string,
+  mediaIds: string[],
+  altTexts?: { mediaId: string; altText: string }[],
+) {
+  const overrides = new Map(
+    (altTexts ?? []).map((a) => [a.mediaId, a.altText.trim()]),
+  );
+
+  return mediaIds.map((mediaFileId, index) => ({
+    postId,
+    mediaFileId,
+    order: index,
+    altText: overrides.get(mediaFileId) ?? null,
+  }));
+}
+
+/**
+ * The poll as stored on the post (plain JSON, trimmed).
+ */
+export function toPollJson(poll: {
+  question: string;
+  options: string[];
+  durationDays: number;
+}) {
+  return {
+    question: poll.question.trim(),
+    options: poll.options.map((o) => o.trim()),
+    durationDays: poll.durationDays,
+  };
+}
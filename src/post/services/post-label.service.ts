@@ -0,0 +1,129 @@
+import { PrismaService } from '@/prisma/prisma.service';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  CreatePostLabelDto,
+  UpdatePostLabelDto,
+} from '../dto/request/post-label.dto';
+
+/**
+ * Workspace labels ("content pillars"). A post can carry several; filtering
+ * and per-label analytics live with posts, the calendar and analytics.
+ */
+@Injectable()
+export class PostLabelService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async list(workspaceId: string) {
+    return this.prisma.postLabel.findMany({
+      where: { workspaceId },
+      orderBy: { name: 'asc' },
+      include: { _count: { select: { posts: true } } },
+    });
+  }
+
+  async create(workspaceId: string, dto: CreatePostLabelDto) {
+    const name = dto.name.trim();
+    await this.assertNameFree(workspaceId, name);
+
+    return this.prisma.postLabel.create({
+      data: {
+        workspaceId,
+        name,
+        ...(dto.color && { color: dto.color }),
+      },
+    });
+  }
+
+  async update(workspaceId: string, labelId: string, dto: UpdatePostLabelDto) {
+    const label = await this.get(workspaceId, labelId);
+
+    const name = dto.name?.trim();
+    if (name && name !== label.name) {
+      await this.assertNameFree(workspaceId, name, labelId);
+    }
+
+    return this.prisma.postLabel.update({
+      where: { id: labelId },
+      data: { name, color: dto.color },
+    });
+  }
+
+  /** Posts keep existing; they just lose the label. */
+  async delete(workspaceId: string, labelId: string) {
+    const label = await this.prisma.postLabel.findFirst({
+      where: { id: labelId, workspaceId },
+      select: { id: true, _count: { select: { posts: true } } },
+    });
+    if (!label) throw new NotFoundException('Label not found');
+
+    await this.prisma.postLabel.delete({ where: { id: labelId } });
+    return { ok: true, detachedPosts: label._count.posts };
+  }
+
+  /**
+   * Replaces a post's labels. Works in any status, so published posts can
+   * be tagged after the fact for reporting.
+   */
+  async setPostLabels(workspaceId: string, postId: string, labelIds: string[]) {
+    const post = await this.prisma.post.findFirst({
+      where: { id: postId, workspaceId },
+      select: { id: true },
+    });
+    if (!post) throw new NotFoundException('Post not found');
+
+    await this.assertInWorkspace(workspaceId, labelIds);
+
+    const updated = await this.prisma.post.update({
+      where: { id: postId },
+      data: { labels: { set: labelIds.map((id) => ({ id })) } },
+      select: { labels: { select: { id: true, name: true, color: true } } },
+    });
+    return updated.labels;
+  }
+
+  /**
+   * Throws unless every ID is a label of this workspace. Called before a
+   * post is saved, since connecting by ID alone can't check the workspace.
+   */
+  async assertInWorkspace(workspaceId: string, labelIds?: string[]) {
+    const ids = [...new Set(labelIds ?? [])];
+    if (!ids.length) return;
+
+    const count = await this.prisma.postLabel.count({
+      where: { id: { in: ids }, workspaceId },
+    });
+    if (count !== ids.length) {
+      throw new BadRequestException(
+        'One or more labels do not belong to this workspace.',
+      );
+    }
+  }
+
+  private async get(workspaceId: string, labelId: string) {
+    const label = await this.prisma.postLabel.findFirst({
+      where: { id: labelId, workspaceId },
+    });
+    if (!label) throw new NotFoundException('Label not found');
+    return label;
+  }
+
+  private async assertNameFree(
+    workspaceId: string,
+    name: string,
+    exceptId?: string,
+  ) {
+    const existing = await this.prisma.postLabel.findFirst({
+      where: {
+        workspaceId,
+        name: { equals: name, mode: 'insensitive' },
+        ...(exceptId && { NOT: { id: exceptId } }),
+      },
+      select: { id: true },
+    });
+    if (existing) throw new BadRequestException('Label name already exists');
+  }
+}
@@ -0,0 +1,140 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { PostNotesService } from './post-notes.service';
+
+describe('PostNotesService', () => {
+  const prisma = {
+    post: { findFirst: jest.fn() },
+    workspaceMember: { findFirst: jest.fn(), findMany: jest.fn() },
+    postNote: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+  const emitter = { emitToWorkspace: jest.fn() };
+  const notifications = { createMany: jest.fn() };
+  const service = new PostNotesService(
+    prisma as any,
+    emitter as any,
+    notifications as any,
+  );
+
+  const author = {
+    id: 'wsm_author',
+    member: { user: { id: 'u1', firstName: 'Ada', lastName: 'Obi' } },
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    prisma.post.findFirst.mockResolvedValue({ id: 'post1', content: 'Hi' });
+    prisma.workspaceMember.findFirst.mockResolvedValue(author);
+  });
+
+  it('notifies mentioned members, not the author', async () => {
+    prisma.workspaceMember.findMany.mockResolvedValue([{ id: 'wsm_2' }]);
+    prisma.postNote.create.mockResolvedValue({
+      id: 'note1',
+      parentId: null,
+      content: 'Can you check this?',
+      author,
+    });
+
+    await service.create('u1', 'ws1', 'post1', {
+      content: ' Can you check this? ',
+      mentions: ['wsm_2', 'wsm_author', 'wsm_2'],
+    });
+
+    expect(prisma.postNote.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          content: 'Can you check this?',
+          mentionedMemberIds: ['wsm_2'],
+        }),
+      }),
+    );
+    expect(emitter.emitToWorkspace).toHaveBeenCalledWith(
+      'ws1',
+      'post.note.created',
+      expect.objectContaining({ id: 'note1' }),
+    );
+    expect(notifications.createMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        memberIds: ['wsm_2'],
+        type: 'POST_MENTION',
+        title: 'Ada Obi mentioned you on a post',
+      }),
+    );
+  });
+
+  it('rejects mentions of people outside the workspace', async () => {
+    prisma.workspaceMember.findMany.mockResolvedValue([]);
+
+    await expect(
+      service.create('u1', 'ws1', 'post1', {
+        content: 'Hi',
+        mentions: ['wsm_other'],
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.postNote.create).not.toHaveBeenCalled();
+  });
+
+  it('reopens a resolved thread when someone replies', async () => {
+    prisma.postNote.findFirst.mockResolvedValue({ parentId: null });
+    prisma.postNote.create.mockResolvedValue({
+      id: 'note2',
+      parentId: 'note1',
+      content: 'Done',
+      author,
+    });
+
+    await service.create('u1', 'ws1', 'post1', {
+      content: 'Done',
+      parentId: 'note1',
+    });
+
+    expect(prisma.postNote.updateMany).toHaveBeenCalledWith({
+      where: { id: 'note1', resolvedAt: { not: null } },
+      data: { resolvedAt: null, resolvedById: null },
+    });
+    expect(notifications.createMany).not.toHaveBeenCalled();
+  });
+
+  it('only lets authors edit their notes and notifies new mentions', async () => {
+    prisma.postNote.findFirst.mockResolvedValue({
+      id: 'note1',
+      authorId: 'wsm_someone',
+      mentionedMemberIds: [],
+      post: { id: 'post1', content: 'Hi' },
+    });
+    await expect(
+      service.update('u1', 'ws1', 'note1', { content: 'Edited' }),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+
+    prisma.postNote.findFirst.mockResolvedValue({
+      id: 'note1',
+      authorId: 'wsm_author',
+      mentionedMemberIds: ['wsm_2'],
+      post: { id: 'post1', content: 'Hi' },
+    });
+    prisma.workspaceMember.findMany.mockResolvedValue([
+      { id: 'wsm_2' },
+      { id: 'wsm_3' },
+    ]);
+    prisma.postNote.update.mockResolvedValue({
+      id: 'note1',
+      parentId: null,
+      content: 'Edited',
+      author,
+    });
+
+    await service.update('u1', 'ws1', 'note1', {
+      content: 'Edited',
+      mentions: ['wsm_2', 'wsm_3'],
+    });
+
+    expect(notifications.createMany).toHaveBeenCalledWith(
+      expect.objectContaining({ memberIds: ['wsm_3'] }),
+    );
+  });
+});
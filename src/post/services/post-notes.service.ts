@@ -0,0 +1,331 @@
+import { PrismaService } from '@/prisma/prisma.service';
+import { RealtimeEmitterService } from '@/events/realtime-emitter.service';
+import { NotificationsService } from '@/notifications/notifications.service';
+import { Prisma } from '@generated/client';
+import { NotificationType } from '@generated/enums';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  CreatePostNoteDto,
+  GetPostNotesDto,
+  UpdatePostNoteDto,
+} from '../dto/request/post-note.dto';
+
+const MEMBER_SELECT = {
+  id: true,
+  member: {
+    select: {
+      user: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          avatar: { select: { url: true } },
+        },
+      },
+    },
+  },
+} as const satisfies Prisma.WorkspaceMemberSelect;
+
+const NOTE_SELECT = {
+  id: true,
+  postId: true,
+  parentId: true,
+  content: true,
+  mentionedMemberIds: true,
+  resolvedAt: true,
+  editedAt: true,
+  createdAt: true,
+  author: { select: MEMBER_SELECT },
+  resolvedBy: { select: MEMBER_SELECT },
+} as const satisfies Prisma.PostNoteSelect;
+
+/**
+ * Internal team discussion on a post. Notes never leave Rooli; the `Comment`
+ * model is for comments on the published social post.
+ */
+@Injectable()
+export class PostNotesService {
+  private readonly logger = new Logger(PostNotesService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly emitter: RealtimeEmitterService,
+    private readonly notifications: NotificationsService,
+  ) {}
+
+  /** Threads oldest first, each with its replies. */
+  async list(workspaceId: string, postId: string, query: GetPostNotesDto) {
+    await this.assertPost(workspaceId, postId);
+
+    return this.prisma.postNote.findMany({
+      where: {
+        workspaceId,
+        postId,
+        parentId: null,
+        ...(query.includeResolved === false && { resolvedAt: null }),
+      },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        ...NOTE_SELECT,
+        replies: { orderBy: { createdAt: 'asc' }, select: NOTE_SELECT },
+      },
+    });
+  }
+
+  async create(
+    userId: string,
+    workspaceId: string,
+    postId: string,
+    dto: CreatePostNoteDto,
+  ) {
+    const post = await this.assertPost(workspaceId, postId);
+    const author = await this.getMember(userId, workspaceId);
+
+    if (dto.parentId) {
+      const parent = await this.prisma.postNote.findFirst({
+        where: { id: dto.parentId, postId, workspaceId },
+        select: { parentId: true },
+      });
+      if (!parent) throw new NotFoundException('Thread not found');
+      if (parent.parentId) {
+        throw new BadRequestException('Reply to the thread, not to a reply.');
+      }
+    }
+
+    const mentions = await this.resolveMentions(
+      workspaceId,
+      dto.mentions,
+      author.id,
+    );
+
+    const note = await this.prisma.postNote.create({
+      data: {
+        workspaceId,
+        postId,
+        parentId: dto.parentId ?? null,
+        authorId: author.id,
+        content: dto.content.trim(),
+        mentionedMemberIds: mentions,
+      },
+      select: NOTE_SELECT,
+    });
+
+    // A reply reopens a resolved thread so it isn't missed
+    if (dto.parentId) {
+      await this.prisma.postNote.updateMany({
+        where: { id: dto.parentId, resolvedAt: { not: null } },
+        data: { resolvedAt: null, resolvedById: null },
+      });
+    }
+
+    this.emitter.emitToWorkspace(workspaceId, 'post.note.created', note);
+    await this.notifyMentions(workspaceId, post, note, mentions);
+
+    return note;
+  }
+
+  async update(
+    userId: string,
+    workspaceId: string,
+    noteId: string,
+    dto: UpdatePostNoteDto,
+  ) {
+    const { note: existing, member } = await this.getOwnNote(
+      userId,
+      workspaceId,
+      noteId,
+    );
+
+    const mentions = await this.resolveMentions(
+      workspaceId,
+      dto.mentions,
+      member.id,
+    );
+
+    const note = await this.prisma.postNote.update({
+      where: { id: existing.id },
+      data: {
+        content: dto.content.trim(),
+        mentionedMemberIds: mentions,
+        editedAt: new Date(),
+      },
+      select: NOTE_SELECT,
+    });
+
+    this.emitter.emitToWorkspace(workspaceId, 'post.note.updated', note);
+
+    const added = mentions.filter(
+      (id) => !existing.mentionedMemberIds.includes(id),
+    );
+    await this.notifyMentions(workspaceId, existing.post, note, added);
+
+    return note;
+  }
+
+  /** Deleting a thread removes its replies. */
+  async remove(userId: string, workspaceId: string, noteId: string) {
+    const { note } = await this.getOwnNote(userId, workspaceId, noteId);
+
+    await this.prisma.postNote.delete({ where: { id: note.id } });
+
+    this.emitter.emitToWorkspace(workspaceId, 'post.note.deleted', {
+      id: note.id,
+      postId: note.postId,
+      parentId: note.parentId,
+    });
+
+    return { ok: true };
+  }
+
+  /** Anyone on the workspace can resolve or reopen a thread. */
+  async setResolved(
+    userId: string,
+    workspaceId: string,
+    noteId: string,
+    resolved: boolean,
+  ) {
+    const thread = await this.prisma.postNote.findFirst({
+      where: { id: noteId, workspaceId },
+      select: { id: true, parentId: true },
+    });
+    if (!thread) throw new NotFoundException('Note not found');
+    if (thread.parentId) {
+      throw new BadRequestException(
+        'Only threads can be resolved, not replies.',
+      );
+    }
+
+    const member = resolved ? await this.getMember(userId, workspaceId) : null;
+
+    const note = await this.prisma.postNote.update({
+      where: { id: thread.id },
+      data: {
+        resolvedAt: resolved ? new Date() : null,
+        resolvedById: member?.id ?? null,
+      },
+      select: NOTE_SELECT,
+    });
+
+    this.emitter.emitToWorkspace(
+      workspaceId,
+      resolved ? 'post.note.resolved' : 'post.note.reopened',
+      note,
+    );
+
+    return note;
+  }
+
+  // =========================================================
+  // Internal
+  // =========================================================
+
+  private async assertPost(workspaceId: string, postId: string) {
+    const post = await this.prisma.post.findFirst({
+      where: { id: postId, workspaceId },
+      select: { id: true, content: true },
+    });
+    if (!post) throw new NotFoundException('Post not found');
+    return post;
+  }
+
+  private async getMember(userId: string, workspaceId: string) {
+    const member = await this.prisma.workspaceMember.findFirst({
+      where: { workspaceId, member: { userId } },
+      select: MEMBER_SELECT,
+    });
+    if (!member) {
+      throw new ForbiddenException('You do not have access to this workspace');
+    }
+    return member;
+  }
+
+  private async getOwnNote(
+    userId: string,
+    workspaceId: string,
+    noteId: string,
+  ) {
+    const [note, member] = await Promise.all([
+      this.prisma.postNote.findFirst({
+        where: { id: noteId, workspaceId },
+        select: {
+          id: true,
+          postId: true,
+          parentId: true,
+          authorId: true,
+          mentionedMemberIds: true,
+          post: { select: { id: true, content: true } },
+        },
+      }),
+      this.getMember(userId, workspaceId),
+    ]);
+
+    if (!note) throw new NotFoundException('Note not found');
+    if (note.authorId !== member.id) {
+      throw new ForbiddenException('You can only change your own notes.');
+    }
+    return { note, member };
+  }
+
+  /** Keeps mentions of current workspace members, minus the author. */
+  private async resolveMentions(
+    workspaceId: string,
+    memberIds: string[] | undefined,
+    authorId: string,
+  ) {
+    const ids = [...new Set(memberIds ?? [])].filter((id) => id !== authorId);
+    if (!ids.length) return [];
+
+    const members = await this.prisma.workspaceMember.findMany({
+      where: { workspaceId, id: { in: ids } },
+      select: { id: true },
+    });
+    if (members.length !== ids.length) {
+      throw new BadRequestException(
+        'You can only mention members of this workspace.',
+      );
+    }
+    return ids;
+  }
+
+  private async notifyMentions(
+    workspaceId: string,
+    post: { id: string; content: string | null },
+    note: Prisma.PostNoteGetPayload<{ select: typeof NOTE_SELECT }>,
+    memberIds: string[],
+  ) {
+    if (!memberIds.length) return;
+
+    const user = note.author?.member?.user;
+    const name =
+      [user?.firstName, user?.lastName].filter(Boolean).join(' ') ||
+      'A teammate';
+    const snippet = (post.content ?? '').slice(0, 60);
+
+    try {
+      await this.notifications.createMany({
+        workspaceId,
+        memberIds,
+        type: NotificationType.POST_MENTION,
+        title: `${name} mentioned you on a post`,
+        body: note.content.slice(0, 200),
+        link: `/publishing/posts/${post.id}?note=${note.parentId ?? note.id}`,
+        data: {
+          postId: post.id,
+          noteId: note.id,
+          threadId: note.parentId ?? note.id,
+          snippet,
+        } as Prisma.InputJsonValue,
+        dedupeKey: `post:note:${note.id}:mention`,
+        skipDuplicates: true,
+      });
+    } catch (e: any) {
+      this.logger.warn(`Mention notifications failed: ${e?.message ?? e}`);
+    }
+  }
+}
@@ -0,0 +1,173 @@
+import { DestinationBuilder } from './destination-builder.service';
+import { MediaConformanceService } from './media-conformance.service';
+import { PlatformRulesService } from './platform-rules.service';
+import { PostPreviewService } from './post-preview.service';
+
+describe('PostPreviewService', () => {
+  const prisma = {
+    socialProfile: { findMany: jest.fn() },
+    mediaFile: { findMany: jest.fn() },
+    workspace: { findUnique: jest.fn() },
+  };
+  const conformance = new MediaConformanceService({} as any, {} as any);
+  const builder = new DestinationBuilder(
+    new PlatformRulesService(),
+    prisma as any,
+    conformance,
+  );
+  const service = new PostPreviewService(prisma as any, builder, conformance);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    prisma.workspace.findUnique.mockResolvedValue({ shortenLinks: false });
+    prisma.mediaFile.findMany.mockResolvedValue([
+      {
+        id: 'img2',
+        url: 'https://cdn/img2.jpg',
+        mimeType: 'image/jpeg',
+        width: 1080,
+        height: 1080,
+        size: 1000n,
+      },
+      {
+        id: 'img1',
+        url: 'https://cdn/img1.jpg',
+        mimeType: 'image/jpeg',
+        width: 1080,
+        height: 1080,
+        size: 1000n,
+      },
+    ]);
+  });
+
+  it('shows the X auto-thread and keeps the requested media order', async () => {
+    prisma.socialProfile.findMany.mockResolvedValue([
+      { id: 'p_x', platform: 'TWITTER', name: 'Rooli X' },
+    ]);
+    const long = Array.from({ length: 60 }, (_, i) => `word${i}`).join(' ');
+
+    const { valid, destinations } = await service.preview('ws1', {
+      content: `${long} #launch`,
+      socialProfileIds: ['p_x'],
+      mediaIds: ['img1', 'img2'],
+      timezone: 'UTC',
+    });
+
+    const [x] = destinations;
+    expect(valid).toBe(true);
+    expect(x.thread.length).toBe(2);
+    expect(x.thread[0].characters).toBeLessThanOrEqual(280);
+    expect(x.thread[1].media).toEqual([]);
+    expect(x.media.map((m) => [m.id, m.position])).toEqual([
+      ['img1', 1],
+      ['img2', 2],
+    ]);
+    expect(x.hashtags.count).toBe(1);
+    expect(x.seeMore.truncated).toBe(false);
+    expect(x.warnings).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining('thread of 2 posts'),
+        'Media is attached to the first post of the thread only.',
+      ]),
+    );
+  });
+
+  it('finds the LinkedIn "see more" cut-off and warns about hidden links', async () => {
+    prisma.socialProfile.findMany.mockResolvedValue([
+      { id: 'p_li', platform: 'LINKEDIN', name: 'Rooli LI' },
+    ]);
+
+    const { destinations } = await service.preview('ws1', {
+      content:
+        'Line one\nLine two\nLine three\nLine four https://rooli.app #a #b #c #d #e #f',
+      socialProfileIds: ['p_li'],
+      timezone: 'UTC',
+    });
+
+    const [li] = destinations;
+    expect(li.seeMore).toEqual({
+      cutoff: 28,
+      truncated: true,
+      visibleText: 'Line one\nLine two\nLine three',
+    });
+    expect(li.hashtags).toMatchObject({ count: 6, recommendedMax: 5 });
+    expect(li.warnings).toEqual(
+      expect.arrayContaining([
+        'A link falls after the "see more" cut-off.',
+        expect.stringContaining('6 hashtags'),
+      ]),
+    );
+  });
+
+  it('returns an invalid destination with its error instead of throwing', async () => {
+    prisma.socialProfile.findMany.mockResolvedValue([
+      { id: 'p_ig', platform: 'INSTAGRAM', name: 'Rooli IG' },
+      { id: 'p_li', platform: 'LINKEDIN', name: 'Rooli LI' },
+    ]);
+    prisma.mediaFile.findMany.mockResolvedValue([]);
+
+    const { valid, destinations } = await service.preview('ws1', {
+      content: 'Text only',
+      socialProfileIds: ['p_ig', 'p_li'],
+      timezone: 'UTC',
+    });
+
+    expect(valid).toBe(false);
+    expect(destinations[0]).toMatchObject({
+      platform: 'INSTAGRAM',
+      valid: false,
+      error: 'Instagram requires at least 1 image or video.',
+      text: 'Text only',
+    });
+    expect(destinations[1]).toMatchObject({
+      platform: 'LINKEDIN',
+      valid: true,
+    });
+  });
+
+  it('uses per-post alt text over the library and warns about images without any', async () => {
+    prisma.socialProfile.findMany.mockResolvedValue([
+      { id: 'p_li', platform: 'LINKEDIN', name: 'Rooli LI' },
+    ]);
+    prisma.mediaFile.findMany.mockResolvedValue([
+      {
+        id: 'img1',
+        url: 'u1',
+        mimeType: 'image/jpeg',
+        size: 1n,
+        altText: 'Library text',
+      },
+      {
+        id: 'img2',
+        url: 'u2',
+        mimeType: 'image/jpeg',
+        size: 1n,
+        altText: null,
+      },
+      {
+        id: 'img3',
+        url: 'u3',
+        mimeType: 'image/jpeg',
+        size: 1n,
+        altText: 'Library text',
+      },
+    ]);
+
+    const { destinations } = await service.preview('ws1', {
+      content: 'Launch day',
+      socialProfileIds: ['p_li'],
+      mediaIds: ['img1', 'img2', 'img3'],
+      mediaAltTexts: [
+        { mediaId: 'img1', altText: 'Post text' },
+        { mediaId: 'img3', altText: '' },
+      ],
+      timezone: 'UTC',
+    });
+
+    const [li] = destinations;
+    expect(li.media.map((m) => m.altText)).toEqual(['Post text', null, null]);
+    expect(li.warnings).toContain(
+      "2 images have no alt text, so screen readers can't describe them.",
+    );
+  });
+});
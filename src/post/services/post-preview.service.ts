@@ -0,0 +1,290 @@
+import { PrismaService } from '@/prisma/prisma.service';
+import { ContentType, Platform } from '@generated/enums';
+import { Injectable } from '@nestjs/common';
+import * as twitter from 'twitter-text';
+import { CreatePostDto } from '../dto/request/create-post.dto';
+import { ThreadNode } from '../interfaces/post.interface';
+import {
+  DestinationBuilder,
+  DestinationDraft,
+} from './destination-builder.service';
+import {
+  ConformanceMedia,
+  MediaConformanceService,
+} from './media-conformance.service';
+
+// Where the feed collapses a caption behind "see more" (first of the two
+// limits reached). X shows standard posts in full.
+const SEE_MORE: Partial<Record<Platform, { chars: number; lines: number }>> = {
+  LINKEDIN: { chars: 210, lines: 3 },
+  FACEBOOK: { chars: 480, lines: 5 },
+  INSTAGRAM: { chars: 125, lines: 2 },
+};
+
+const TEXT_LIMITS: Record<Platform, number> = {
+  TWITTER: 280, // weighted, per tweet
+  LINKEDIN: 3000,
+  FACEBOOK: 63206,
+  INSTAGRAM: 2200,
+  SANDBOX: 5000,
+};
+
+// Above these, reach tends to drop (Instagram's 30 is a hard limit)
+const HASHTAG_GUIDANCE: Record<Platform, number> = {
+  TWITTER: 2,
+  LINKEDIN: 5,
+  FACEBOOK: 3,
+  INSTAGRAM: 30,
+  SANDBOX: 10,
+};
+
+const HASHTAG_PATTERN = /#[\p{L}\p{N}_]+/gu;
+const URL_PATTERN = /https?:\/\/[^\s<>"'`]+/gi;
+
+type PreviewMedia = Pick<
+  ConformanceMedia,
+  'id' | 'mimeType' | 'width' | 'height' | 'duration'
+> & { url?: string | null; altText: string | null; position: number };
+
+/**
+ * What each destination will actually publish for a draft: the same
+ * DestinationBuilder / PlatformRulesService pass that runs on save, laid
+ * out for the composer so it doesn't have to re-implement the rules.
+ * Nothing is written.
+ */
+@Injectable()
+export class PostPreviewService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly destinationBuilder: DestinationBuilder,
+    private readonly mediaConformance: MediaConformanceService,
+  ) {}
+
+  async preview(workspaceId: string, dto: CreatePostDto) {
+    const [{ drafts, mediaMap }, workspace] = await Promise.all([
+      this.destinationBuilder.buildDrafts(workspaceId, dto),
+      this.prisma.workspace.findUnique({
+        where: { id: workspaceId },
+        select: { shortenLinks: true },
+      }),
+    ]);
+
+    const altTexts = new Map(
+      (dto.mediaAltTexts ?? []).map((a) => [a.mediaId, a.altText.trim()]),
+    );
+
+    const destinations = drafts.map((draft) =>
+      this.previewDestination(draft, dto, {
+        mediaMap,
+        altTexts,
+        shortenLinks: !!workspace?.shortenLinks,
+      }),
+    );
+
+    return {
+      valid: destinations.every((d) => d.valid),
+      destinations,
+    };
+  }
+
+  // =========================================================
+  // Internal
+  // =========================================================
+
+  private previewDestination(
+    draft: DestinationDraft,
+    dto: CreatePostDto,
+    ctx: {
+      mediaMap: Map<string, ConformanceMedia>;
+      altTexts: Map<string, string>;
+      shortenLinks: boolean;
+    },
+  ) {
+    const { profile, payload } = draft;
+    const platform = profile.platform;
+    const contentType = dto.contentType ?? ContentType.POST;
+    const warnings: string[] = [];
+
+    // Invalid destinations still show the text as written
+    const override = dto.overrides?.find(
+      (o) => o.socialProfileId === profile.id,
+    )?.content;
+    const text: string =
+      payload?.contentOverride ?? (override ?? dto.content ?? '').trim();
+
+    const replies = ((payload?.metadata?.thread ?? []) as ThreadNode[]).filter(
+      (node) =>
+        !node.targetProfileIds?.length ||
+        node.targetProfileIds.includes(profile.id),
+    );
+    const autoThreaded =
+      platform === Platform.TWITTER &&
+      !dto.threads?.length &&
+      replies.length > 0;
+
+    const thread = [
+      { content: text, media: draft.media },
+      ...replies.map((node) => ({
+        content: node.content,
+        media: (node.mediaIds ?? [])
+          .map((id) => ctx.mediaMap.get(id))
+          .filter(Boolean) as ConformanceMedia[],
+      })),
+    ].map((part, i) => ({
+      position: i + 1,
+      text: part.content,
+      characters: this.countCharacters(part.content, platform),
+      // Per-post alt text only applies to the post's own media
+      media: part.media.map((m, j) =>
+        this.toPreviewMedia(m, j, i === 0 ? ctx.altTexts : undefined),
+      ),
+    }));
+
+    const fullText = thread.map((t) => t.text).join('\n');
+    const hashtags = fullText.match(HASHTAG_PATTERN) ?? [];
+    const firstComment: string | null = payload?.firstComment ?? null;
+
+    // --- Warnings ---
+    if (autoThreaded) {
+      warnings.push(
+        `Too long for one post on X: it will be published as a thread of ${thread.length} posts.`,
+      );
+      if (draft.media.length) {
+        warnings.push(
+          'Media is attached to the first post of the thread only.',
+        );
+      }
+    }
+
+    if (hashtags.length > HASHTAG_GUIDANCE[platform]) {
+      warnings.push(
+        platform === Platform.INSTAGRAM
+          ? `Instagram allows at most ${HASHTAG_GUIDANCE[platform]} hashtags.`
+          : `${hashtags.length} hashtags; more than ${HASHTAG_GUIDANCE[platform]} tends to reduce reach on ${this.platformName(platform)}.`,
+      );
+    }
+
+    const seeMore = this.seeMore(text, platform);
+    if (seeMore.truncated) {
+      const hidden = text.slice(seeMore.cutoff!);
+      if (hidden.match(URL_PATTERN)) {
+        warnings.push('A link falls after the "see more" cut-off.');
+      }
+    }
+
+    if (platform === Platform.INSTAGRAM && text.match(URL_PATTERN)) {
+      warnings.push("Links in Instagram captions aren't clickable.");
+    }
+
+    if (
+      contentType === ContentType.STORY &&
+      (platform === Platform.INSTAGRAM || platform === Platform.FACEBOOK) &&
+      text
+    ) {
+      warnings.push('Stories are published without the caption.');
+    }
+
+    if (ctx.shortenLinks && fullText.match(URL_PATTERN)) {
+      warnings.push(
+        'Links will be replaced with tracked short links when the post is saved.',
+      );
+    }
+
+    // Stories can't carry alt text, so there's nothing to fix there
+    const missingAltText = thread
+      .flatMap((t) => t.media)
+      .filter((m) => m.mimeType?.startsWith('image/') && !m.altText).length;
+    if (missingAltText && contentType !== ContentType.STORY) {
+      warnings.push(
+        missingAltText === 1
+          ? "1 image has no alt text, so screen readers can't describe it."
+          : `${missingAltText} images have no alt text, so screen readers can't describe them.`,
+      );
+    }
+
+    for (const violation of this.mediaConformance.check(
+      draft.media,
+      platform,
+      contentType,
+    )) {
+      if (violation.severity === 'warning') warnings.push(violation.message);
+    }
+
+    return {
+      socialProfileId: profile.id,
+      profileName: profile.name,
+      platform,
+      valid: !draft.error,
+      error: draft.error ?? null,
+      text,
+      thread,
+      firstComment,
+      media: draft.media.map((m, i) => this.toPreviewMedia(m, i, ctx.altTexts)),
+      characters: {
+        count: this.countCharacters(text, platform),
+        limit: TEXT_LIMITS[platform],
+      },
+      seeMore,
+      hashtags: {
+        count: hashtags.length,
+        unique: new Set(hashtags.map((h) => h.toLowerCase())).size,
+        recommendedMax: HASHTAG_GUIDANCE[platform],
+      },
+      warnings,
+    };
+  }
+
+  /**
+   * Index where the caption is collapsed, whichever of the character or
+   * line limit comes first. Null when the whole text is shown.
+   */
+  private seeMore(text: string, platform: Platform) {
+    const rule = SEE_MORE[platform];
+    if (!rule) return { cutoff: null, truncated: false, visibleText: text };
+
+    let cutoff = Math.min(rule.chars, text.length);
+    let lines = 1;
+    for (let i = 0; i < cutoff; i++) {
+      if (text[i] === '\n' && ++lines > rule.lines) {
+        cutoff = i;
+        break;
+      }
+    }
+
+    const truncated = cutoff < text.length;
+    return {
+      cutoff: truncated ? cutoff : null,
+      truncated,
+      visibleText: truncated ? text.slice(0, cutoff).trimEnd() : text,
+    };
+  }
+
+  private countCharacters(text: string, platform: Platform) {
+    return platform === Platform.TWITTER
+      ? twitter.parseTweet(text).weightedLength
+      : [...text].length;
+  }
+
+  private toPreviewMedia(
+    m: ConformanceMedia & { url?: string | null },
+    index: number,
+    altTexts?: Map<string, string>,
+  ): PreviewMedia {
+    return {
+      id: m.id,
+      url: m.url,
+      mimeType: m.mimeType,
+      width: m.width,
+      height: m.height,
+      duration: m.duration,
+      altText: (altTexts?.get(m.id) ?? m.altText) || null,
+      position: index + 1,
+    };
+  }
+
+  private platformName(platform: Platform) {
+    return platform === Platform.TWITTER
+      ? 'X'
+      : platform.charAt(0) + platform.slice(1).toLowerCase();
+  }
+}
@@ -0,0 +1,167 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getQueueToken } from '@nestjs/bullmq';
+import { LinksService } from '@/links/links.service';
+import { PrismaService } from '@/prisma/prisma.service';
+import { QueueSlotService } from '@/queue/queue.service';
+import { PostRecurrenceService } from './post-recurrence.service';
+
+describe('PostRecurrenceService', () => {
+  let service: PostRecurrenceService;
+
+  const tx: any = {
+    postRecurrence: { updateMany: jest.fn() },
+    post: { findUnique: jest.fn(), create: jest.fn() },
+    postMedia: { createMany: jest.fn() },
+    postDestination: { createMany: jest.fn() },
+  };
+  const prisma: any = {
+    postRecurrence: { findMany: jest.fn() },
+    $transaction: jest.fn((fn: (t: any) => unknown) => fn(tx)),
+  };
+  const publishingQueue = { add: jest.fn() };
+  const links = { expandPostLinks: jest.fn(), shortenPostLinks: jest.fn() };
+
+  const base = {
+    intervalDays: null,
+    weekdays: [] as number[],
+    time: null,
+    timezone: 'UTC',
+    endDate: null,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PostRecurrenceService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: getQueueToken('publishing-queue'),
+          useValue: publishingQueue,
+        },
+        { provide: QueueSlotService, useValue: {} },
+        { provide: LinksService, useValue: links },
+      ],
+    }).compile();
+
+    service = module.get(PostRecurrenceService);
+  });
+
+  describe('nextOccurrence', () => {
+    it('steps INTERVAL runs from the previous run at its time of day', () => {
+      const next = service.nextOccurrence(
+        { ...base, type: 'INTERVAL', intervalDays: 7 },
+        new Date('2026-03-01T10:00:00Z'),
+        new Date('2026-03-01T09:15:00Z'),
+      );
+      expect(next?.toISOString()).toBe('2026-03-08T09:15:00.000Z');
+    });
+
+    it('catches INTERVAL runs up past a long gap', () => {
+      const next = service.nextOccurrence(
+        { ...base, type: 'INTERVAL', intervalDays: 3, time: '08:00' },
+        new Date('2026-03-20T12:00:00Z'),
+        new Date('2026-03-01T08:00:00Z'),
+      );
+      expect(next?.toISOString()).toBe('2026-03-22T08:00:00.000Z');
+    });
+
+    it('picks the next matching weekday in the rule timezone', () => {
+      // 2026-03-04 is a Wednesday
+      const next = service.nextOccurrence(
+        {
+          ...base,
+          type: 'WEEKDAYS',
+          weekdays: [1, 5],
+          time: '09:00',
+          timezone: 'Africa/Lagos',
+        },
+        new Date('2026-03-04T12:00:00Z'),
+        new Date('2026-03-04T12:00:00Z'),
+      );
+      expect(next?.toISOString()).toBe('2026-03-06T08:00:00.000Z');
+    });
+
+    it('returns null past the end date', () => {
+      const next = service.nextOccurrence(
+        {
+          ...base,
+          type: 'INTERVAL',
+          intervalDays: 7,
+          endDate: new Date('2026-03-05T00:00:00Z'),
+        },
+        new Date('2026-03-01T10:00:00Z'),
+        new Date('2026-03-01T09:00:00Z'),
+      );
+      expect(next).toBeNull();
+    });
+  });
+
+  describe('processDueRecurrences', () => {
+    const short = 'https://rooli.link/abc123';
+    const original = 'https://acme.com/launch';
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      prisma.postRecurrence.findMany.mockResolvedValue([
+        {
+          ...base,
+          id: 'rec_1',
+          postId: 'post_src',
+          type: 'INTERVAL',
+          intervalDays: 7,
+          isActive: true,
+          repeatCount: 0,
+          maxRepeats: null,
+          nextRunAt: new Date(Date.now() + 60_000),
+        },
+      ]);
+      tx.postRecurrence.updateMany.mockResolvedValue({ count: 1 });
+      tx.post.findUnique.mockResolvedValue({
+        id: 'post_src',
+        workspaceId: 'ws_1',
+        content: `Out now: ${short}`,
+        firstComment: null,
+        media: [],
+        labels: [],
+        childPosts: [],
+        destinations: [
+          {
+            socialProfileId: 'sp_1',
+            contentOverride: `Out now: ${short}`,
+            firstComment: `More at ${short}`,
+            metadata: { thread: [{ content: `Read ${short}` }] },
+          },
+        ],
+      });
+      tx.post.create.mockResolvedValue({ id: 'post_run' });
+      links.expandPostLinks.mockResolvedValue(
+        (text: string | null) => text?.replace(short, original) ?? null,
+      );
+    });
+
+    it('gives each run its own short links', async () => {
+      await service.processDueRecurrences();
+
+      expect(links.expandPostLinks).toHaveBeenCalledWith(['post_src']);
+      expect(tx.post.create.mock.calls[0][0].data.content).toBe(
+        `Out now: ${original}`,
+      );
+      expect(tx.postDestination.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            postId: 'post_run',
+            contentOverride: `Out now: ${original}`,
+            firstComment: `More at ${original}`,
+            metadata: { thread: [{ content: `Read ${original}` }] },
+          }),
+        ],
+      });
+      expect(links.shortenPostLinks).toHaveBeenCalledWith(tx, 'post_run');
+      expect(publishingQueue.add).toHaveBeenCalledWith(
+        'publish-post',
+        { postId: 'post_run' },
+        expect.objectContaining({ jobId: 'post_run' }),
+      );
+    });
+  });
+});
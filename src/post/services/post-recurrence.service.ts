@@ -0,0 +1,633 @@
+import { LinksService } from '@/links/links.service';
+import { PrismaService } from '@/prisma/prisma.service';
+import { QueueSlotService } from '@/queue/queue.service';
+import { Prisma, PostRecurrence } from '@generated/client';
+import { PostStatus, RecurrenceType } from '@generated/enums';
+import { InjectQueue } from '@nestjs/bullmq';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Queue } from 'bullmq';
+import { DateTime, IANAZone } from 'luxon';
+import { CreatePostRecurrenceDto } from '../dto/request/post-recurrence.dto';
+
+type RuleShape = Pick<
+  PostRecurrence,
+  'type' | 'intervalDays' | 'weekdays' | 'time' | 'timezone' | 'endDate'
+>;
+
+@Injectable()
+export class PostRecurrenceService {
+  private readonly logger = new Logger(PostRecurrenceService.name);
+  private readonly BATCH_SIZE = 100;
+
+  // Runs are created this far ahead so they show up on the calendar
+  private readonly LOOKAHEAD_HOURS = 24;
+  // A run this late (worker down, paused) is skipped rather than posted late
+  private readonly MISSED_GRACE_HOURS = 1;
+  private readonly DEFAULT_MIN_QUEUED = 3;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @InjectQueue('publishing-queue') private readonly publishingQueue: Queue,
+    private readonly queueService: QueueSlotService,
+    private readonly links: LinksService,
+  ) {}
+
+  // =========================================================
+  // 1) CRUD
+  // =========================================================
+
+  /**
+   * Creates or replaces the recurrence of a post. Repeat count is kept on replace.
+   */
+  async upsert(
+    workspaceId: string,
+    postId: string,
+    userId: string,
+    dto: CreatePostRecurrenceDto,
+  ) {
+    const post = await this.prisma.post.findFirst({
+      where: { id: postId, workspaceId },
+      select: {
+        id: true,
+        parentPostId: true,
+        recurrenceId: true,
+        scheduledAt: true,
+        publishedAt: true,
+        timezone: true,
+        workspace: { select: { timezone: true } },
+      },
+    });
+    if (!post) throw new NotFoundException('Post not found');
+    if (post.parentPostId) {
+      throw new BadRequestException(
+        'Thread replies repeat with their root post',
+      );
+    }
+    if (post.recurrenceId) {
+      throw new BadRequestException(
+        'This post is a repeat; set the recurrence on the original post',
+      );
+    }
+
+    this.assertConfig(dto);
+
+    const timezone = this.assertTimezone(
+      dto.timezone ?? post.timezone ?? post.workspace.timezone ?? 'UTC',
+    );
+    const endDate = dto.endDate ? new Date(dto.endDate) : null;
+    if (endDate && endDate <= new Date()) {
+      throw new BadRequestException('endDate must be in the future');
+    }
+
+    const existing = await this.prisma.postRecurrence.findUnique({
+      where: { postId },
+      select: { repeatCount: true, lastRunAt: true },
+    });
+
+    const rule: RuleShape = {
+      type: dto.type,
+      intervalDays: dto.intervalDays ?? null,
+      weekdays: dto.type === 'WEEKDAYS' ? [...new Set(dto.weekdays)] : [],
+      time: dto.time ?? null,
+      timezone,
+      endDate,
+    };
+
+    const now = new Date();
+    const reference =
+      existing?.lastRunAt ?? post.scheduledAt ?? post.publishedAt ?? now;
+    const after =
+      post.scheduledAt && post.scheduledAt > now ? post.scheduledAt : now;
+
+    const nextRunAt =
+      dto.type === 'EVERGREEN'
+        ? null
+        : this.nextOccurrence(rule, after, reference);
+
+    const data = {
+      ...rule,
+      minQueued: dto.type === 'EVERGREEN' ? (dto.minQueued ?? null) : null,
+      maxRepeats: dto.maxRepeats ?? null,
+      nextRunAt,
+      isActive: this.hasRunsLeft(
+        { maxRepeats: dto.maxRepeats ?? null },
+        existing?.repeatCount ?? 0,
+      ),
+    };
+
+    return this.prisma.postRecurrence.upsert({
+      where: { postId },
+      create: { ...data, workspaceId, postId, createdById: userId },
+      update: data,
+    });
+  }
+
+  async get(workspaceId: string, postId: string) {
+    const recurrence = await this.prisma.postRecurrence.findFirst({
+      where: { postId, workspaceId },
+      include: {
+        runs: {
+          orderBy: { scheduledAt: 'desc' },
+          take: 20,
+          select: {
+            id: true,
+            status: true,
+            scheduledAt: true,
+            publishedAt: true,
+          },
+        },
+      },
+    });
+    if (!recurrence) throw new NotFoundException('Recurrence not found');
+    return recurrence;
+  }
+
+  async list(workspaceId: string, type?: RecurrenceType) {
+    return this.prisma.postRecurrence.findMany({
+      where: { workspaceId, ...(type && { type }) },
+      orderBy: [{ isActive: 'desc' }, { nextRunAt: 'asc' }],
+      include: {
+        post: {
+          select: {
+            id: true,
+            content: true,
+            contentType: true,
+            status: true,
+            scheduledAt: true,
+          },
+        },
+        _count: { select: { runs: true } },
+      },
+    });
+  }
+
+  async setActive(workspaceId: string, postId: string, isActive: boolean) {
+    const recurrence = await this.prisma.postRecurrence.findFirst({
+      where: { postId, workspaceId },
+    });
+    if (!recurrence) throw new NotFoundException('Recurrence not found');
+
+    if (isActive && !this.hasRunsLeft(recurrence, recurrence.repeatCount)) {
+      throw new BadRequestException(
+        'Recurrence already reached its maximum number of repeats',
+      );
+    }
+
+    // Resuming skips whatever was missed while paused
+    const nextRunAt =
+      isActive && recurrence.type !== 'EVERGREEN'
+        ? this.nextOccurrence(
+            recurrence,
+            new Date(),
+            recurrence.lastRunAt ?? new Date(),
+          )
+        : recurrence.nextRunAt;
+
+    return this.prisma.postRecurrence.update({
+      where: { id: recurrence.id },
+      data: { isActive, nextRunAt },
+    });
+  }
+
+  /**
+   * Stops future runs. Runs already created stay as regular posts.
+   */
+  async remove(workspaceId: string, postId: string) {
+    const recurrence = await this.prisma.postRecurrence.findFirst({
+      where: { postId, workspaceId },
+      select: { id: true },
+    });
+    if (!recurrence) throw new NotFoundException('Recurrence not found');
+
+    await this.prisma.postRecurrence.delete({ where: { id: recurrence.id } });
+    return { success: true };
+  }
+
+  // =========================================================
+  // 2) Scheduler entry points
+  // =========================================================
+
+  /**
+   * Creates the next run of every INTERVAL / WEEKDAYS recurrence that is due
+   * within the lookahead window.
+   */
+  async processDueRecurrences() {
+    const now = new Date();
+    const horizon = DateTime.fromJSDate(now)
+      .plus({ hours: this.LOOKAHEAD_HOURS })
+      .toJSDate();
+
+    let cursor: string | undefined;
+    let created = 0;
+
+    while (true) {
+      const due = await this.prisma.postRecurrence.findMany({
+        take: this.BATCH_SIZE,
+        skip: cursor ? 1 : 0,
+        cursor: cursor ? { id: cursor } : undefined,
+        orderBy: { id: 'asc' },
+        where: {
+          isActive: true,
+          type: { in: ['INTERVAL', 'WEEKDAYS'] },
+          nextRunAt: { lte: horizon },
+        },
+      });
+      if (!due.length) break;
+
+      for (const recurrence of due) {
+        try {
+          if (await this.runFixedRecurrence(recurrence, now)) created++;
+        } catch (err: any) {
+          this.logger.error(
+            `Recurrence ${recurrence.id} failed: ${err?.message ?? err}`,
+            err?.stack,
+          );
+        }
+      }
+
+      cursor = due[due.length - 1].id;
+      if (due.length < this.BATCH_SIZE) break;
+    }
+
+    if (created) this.logger.log(`Created ${created} recurring post run(s)`);
+  }
+
+  /**
+   * Tops up every workspace whose queue is below its evergreen threshold,
+   * reusing the pool posts that ran longest ago first.
+   */
+  async refillEvergreenPools() {
+    const pools = await this.prisma.postRecurrence.groupBy({
+      by: ['workspaceId'],
+      where: { isActive: true, type: 'EVERGREEN' },
+      _max: { minQueued: true },
+    });
+
+    for (const pool of pools) {
+      try {
+        await this.refillWorkspace(
+          pool.workspaceId,
+          pool._max.minQueued ?? this.DEFAULT_MIN_QUEUED,
+        );
+      } catch (err: any) {
+        // Queue full / no slots is expected; try again next tick
+        this.logger.warn(
+          `Evergreen refill skipped for workspace ${pool.workspaceId}: ${err?.message ?? err}`,
+        );
+      }
+    }
+  }
+
+  // =========================================================
+  // Internal: runs
+  // =========================================================
+
+  private async runFixedRecurrence(recurrence: PostRecurrence, now: Date) {
+    const runAt = recurrence.nextRunAt!;
+    const missed = DateTime.fromJSDate(runAt).plus({
+      hours: this.MISSED_GRACE_HOURS,
+    });
+
+    const skip = missed.toJSDate() < now;
+    const followingRunAt = this.nextOccurrence(
+      recurrence,
+      skip ? now : runAt,
+      runAt,
+    );
+
+    if (skip) {
+      this.logger.warn(
+        `Recurrence ${recurrence.id} missed its run at ${runAt.toISOString()}, skipping`,
+      );
+      await this.prisma.postRecurrence.updateMany({
+        where: { id: recurrence.id, nextRunAt: runAt },
+        data: { nextRunAt: followingRunAt, isActive: !!followingRunAt },
+      });
+      return false;
+    }
+
+    const repeatCount = recurrence.repeatCount + 1;
+    const isActive =
+      !!followingRunAt && this.hasRunsLeft(recurrence, repeatCount);
+
+    const runId = await this.prisma.$transaction(async (tx) => {
+      // Claim the run so two scheduler ticks never create it twice
+      const claimed = await tx.postRecurrence.updateMany({
+        where: { id: recurrence.id, nextRunAt: runAt, isActive: true },
+        data: {
+          nextRunAt: isActive ? followingRunAt : null,
+          isActive,
+          repeatCount,
+          lastRunAt: runAt,
+        },
+      });
+      if (claimed.count === 0) return null;
+
+      const { rootId } = await this.copyPost(
+        tx,
+        recurrence.postId,
+        recurrence.id,
+        runAt,
+        'SCHEDULED',
+      );
+      return rootId;
+    });
+
+    if (!runId) return false;
+
+    await this.schedulePostJob(runId, runAt);
+    return true;
+  }
+
+  private async refillWorkspace(workspaceId: string, minQueued: number) {
+    const now = new Date();
+
+    const queued = await this.prisma.post.count({
+      where: {
+        workspaceId,
+        status: 'SCHEDULED',
+        parentPostId: null,
+        scheduledAt: { gte: now },
+      },
+    });
+    const needed = minQueued - queued;
+    if (needed <= 0) return;
+
+    const pool = await this.prisma.postRecurrence.findMany({
+      where: { workspaceId, isActive: true, type: 'EVERGREEN' },
+      orderBy: { lastRunAt: { sort: 'asc', nulls: 'first' } },
+    });
+
+    const eligible = pool
+      .filter((r) => this.hasRunsLeft(r, r.repeatCount))
+      .filter((r) => !r.endDate || r.endDate > now)
+      .filter(
+        (r) =>
+          !r.lastRunAt ||
+          !r.intervalDays ||
+          DateTime.fromJSDate(r.lastRunAt).plus({ days: r.intervalDays }) <=
+            DateTime.fromJSDate(now),
+      )
+      .slice(0, needed);
+    if (!eligible.length) return;
+
+    // Copies start as drafts; the queue engine picks their times
+    const copies: Array<{ recurrence: PostRecurrence; postIds: string[] }> = [];
+    for (const recurrence of eligible) {
+      const { rootId, postIds } = await this.prisma.$transaction((tx) =>
+        this.copyPost(tx, recurrence.postId, recurrence.id, null, 'DRAFT'),
+      );
+      copies.push({ recurrence, postIds: [rootId, ...postIds] });
+    }
+
+    let plan: Awaited<ReturnType<QueueSlotService['autoSchedule']>>;
+    try {
+      plan = await this.queueService.autoSchedule(workspaceId, {
+        postIds: copies.map((c) => c.postIds[0]),
+      });
+    } catch (err) {
+      await this.prisma.post.deleteMany({
+        where: { id: { in: copies.flatMap((c) => c.postIds) } },
+      });
+      throw err;
+    }
+
+    const scheduledAt = new Map(
+      plan.scheduled.map((s) => [s.postId, new Date(s.scheduledAt)]),
+    );
+
+    for (const { recurrence, postIds } of copies) {
+      const [rootId, ...replyIds] = postIds;
+      const at = scheduledAt.get(rootId);
+
+      if (!at) {
+        // No slot left for it: don't leave an orphan draft behind
+        await this.prisma.post.deleteMany({ where: { id: { in: postIds } } });
+        continue;
+      }
+
+      const repeatCount = recurrence.repeatCount + 1;
+      await this.prisma.$transaction([
+        this.prisma.post.updateMany({
+          where: { id: { in: replyIds } },
+          data: { scheduledAt: at, status: 'SCHEDULED' },
+        }),
+        this.prisma.postRecurrence.update({
+          where: { id: recurrence.id },
+          data: {
+            repeatCount,
+            lastRunAt: at,
+            isActive: this.hasRunsLeft(recurrence, repeatCount),
+          },
+        }),
+      ]);
+    }
+
+    this.logger.log(
+      `Refilled ${plan.scheduled.length} evergreen post(s) in workspace ${workspaceId}`,
+    );
+  }
+
+  /**
+   * Copies the source post (content, media order, thread replies) with a fresh
+   * destination set, so every run has its own platform IDs and analytics.
+   * Short links are swapped back to their URLs and made again for the copy,
+   * so clicks on a run aren't counted against the source post.
+   */
+  private async copyPost(
+    tx: Prisma.TransactionClient,
+    sourceId: string,
+    recurrenceId: string,
+    scheduledAt: Date | null,
+    status: PostStatus,
+  ) {
+    const created: string[] = [];
+
+    const copyOne = async (
+      id: string,
+      parentPostId: string | null,
+    ): Promise<string> => {
+      const source = await tx.post.findUnique({
+        where: { id },
+        include: {
+          media: { orderBy: { order: 'asc' } },
+          destinations: true,
+          childPosts: { select: { id: true } },
+          labels: { select: { id: true } },
+        },
+      });
+      if (!source) throw new NotFoundException('Source post not found');
+
+      const expand = await this.links.expandPostLinks([source.id]);
+
+      const copy = await tx.post.create({
+        data: {
+          workspaceId: source.workspaceId,
+          authorId: source.authorId,
+          content: expand(source.content),
+          firstComment: expand(source.firstComment),
+          contentType: source.contentType,
+          status,
+          scheduledAt,
+          timezone: source.timezone,
+          queueCategory: source.queueCategory,
+          poll: source.poll ?? undefined,
+          documentTitle: source.documentTitle,
+          campaignId: source.campaignId,
+          isAiGenerated: source.isAiGenerated,
+          labels: { connect: source.labels },
+          parentPostId,
+          // Only the root is a run of the recurrence
+          recurrenceId: parentPostId ? null : recurrenceId,
+        },
+      });
+
+      if (source.media.length) {
+        await tx.postMedia.createMany({
+          data: source.media.map((m) => ({
+            postId: copy.id,
+            mediaFileId: m.mediaFileId,
+            order: m.order,
+            altText: m.altText,
+          })),
+        });
+      }
+
+      if (source.destinations.length) {
+        await tx.postDestination.createMany({
+          data: source.destinations.map((d) => ({
+            postId: copy.id,
+            socialProfileId: d.socialProfileId,
+            contentOverride: expand(d.contentOverride),
+            firstComment: expand(d.firstComment),
+            status: 'SCHEDULED' as const,
+            metadata: this.expandThread(d.metadata, expand) ?? Prisma.JsonNull,
+          })),
+        });
+        await this.links.shortenPostLinks(tx, copy.id);
+      }
+
+      for (const child of source.childPosts) {
+        created.push(await copyOne(child.id, copy.id));
+      }
+
+      return copy.id;
+    };
+
+    const rootId = await copyOne(sourceId, null);
+    return { rootId, postIds: created };
+  }
+
+  private expandThread(
+    metadata: Prisma.JsonValue,
+    expand: (text: string | null) => string | null,
+  ) {
+    const thread = (metadata as any)?.thread;
+    if (!Array.isArray(thread)) return metadata ?? undefined;
+
+    return {
+      ...(metadata as object),
+      thread: thread.map((t: { content?: string }) => ({
+        ...t,
+        content: expand(t.content ?? null),
+      })),
+    } as Prisma.InputJsonValue;
+  }
+
+  private async schedulePostJob(postId: string, scheduledAt: Date) {
+    const delay = Math.max(0, scheduledAt.getTime() - Date.now());
+
+    await this.publishingQueue.add(
+      'publish-post',
+      { postId },
+      {
+        delay,
+        jobId: postId, // one job per post
+        removeOnComplete: true,
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 5000 },
+      },
+    );
+  }
+
+  // =========================================================
+  // Internal: rule math
+  // =========================================================
+
+  /**
+   * First occurrence strictly after `after`. INTERVAL steps from `reference`
+   * (the previous run); WEEKDAYS walks forward day by day.
+   * Returns null once the end date is passed.
+   */
+  nextOccurrence(rule: RuleShape, after: Date, reference: Date): Date | null {
+    const zone = rule.timezone || 'UTC';
+    const from = DateTime.fromJSDate(after, { zone });
+    const ref = DateTime.fromJSDate(reference, { zone });
+    const { hour, minute } = rule.time
+      ? this.parseTime(rule.time)
+      : { hour: ref.hour, minute: ref.minute };
+
+    let next: DateTime | null = null;
+
+    if (rule.type === 'INTERVAL') {
+      const step = Math.max(rule.intervalDays ?? 1, 1);
+      let candidate = ref
+        .plus({ days: step })
+        .set({ hour, minute, second: 0, millisecond: 0 });
+
+      if (candidate <= from) {
+        // Jump close to `after` instead of looping over a long gap
+        const behind = Math.floor(from.diff(candidate, 'days').days / step);
+        candidate = candidate.plus({ days: behind * step });
+        while (candidate <= from) candidate = candidate.plus({ days: step });
+      }
+      next = candidate;
+    } else if (rule.type === 'WEEKDAYS' && rule.weekdays.length) {
+      let day = from.startOf('day');
+      for (let i = 0; i <= 7 && !next; i++) {
+        const candidate = day.set({ hour, minute });
+        if (rule.weekdays.includes(candidate.weekday) && candidate > from) {
+          next = candidate;
+        }
+        day = day.plus({ days: 1 });
+      }
+    }
+
+    if (!next) return null;
+    if (rule.endDate && next.toJSDate() > rule.endDate) return null;
+    return next.toJSDate();
+  }
+
+  private hasRunsLeft(
+    rule: Pick<PostRecurrence, 'maxRepeats'>,
+    repeatCount: number,
+  ) {
+    return rule.maxRepeats == null || repeatCount < rule.maxRepeats;
+  }
+
+  private assertConfig(dto: CreatePostRecurrenceDto) {
+    if (dto.type === 'INTERVAL' && !dto.intervalDays) {
+      throw new BadRequestException('intervalDays is required for INTERVAL');
+    }
+    if (dto.type === 'WEEKDAYS' && !dto.weekdays?.length) {
+      throw new BadRequestException('weekdays is required for WEEKDAYS');
+    }
+  }
+
+  private assertTimezone(zone: string) {
+    if (!IANAZone.isValidZone(zone)) {
+      throw new BadRequestException(`Invalid timezone "${zone}"`);
+    }
+    return zone;
+  }
+
+  private parseTime(time: string) {
+    const [hour, minute] = time.split(':').map(Number);
+    return { hour, minute };
+  }
+}
@@ -0,0 +1,429 @@
+import { PrismaService } from '@/prisma/prisma.service';
+import { diffWords } from '@/common/utility/text-diff.util';
+import { Prisma } from '@generated/client';
+import { PostRevisionReason } from '@generated/enums';
+import { InjectQueue } from '@nestjs/bullmq';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Queue } from 'bullmq';
+import { PaginationDto } from '@/common/dtos/pagination.dto';
+
+type RevisionOverride = {
+  socialProfileId: string;
+  contentOverride: string | null;
+  firstComment: string | null;
+};
+
+type Snapshot = {
+  content: string | null;
+  firstComment: string | null;
+  overrides: RevisionOverride[];
+  mediaIds: string[];
+  scheduledAt: Date | null;
+};
+
+const AUTHOR_SELECT = {
+  select: { id: true, firstName: true, lastName: true, email: true },
+} as const;
+
+@Injectable()
+export class PostRevisionService {
+  constructor(
+    private readonly prisma: PrismaService,
+    @InjectQueue('publishing-queue') private readonly publishingQueue: Queue,
+  ) {}
+
+  // =========================================================
+  // 1) Recording (called inside the post write transaction)
+  // =========================================================
+
+  /**
+   * Posts created before revisions existed have no history. Snapshot their
+   * current state first so the next change has something to diff against.
+   */
+  async ensureBaseline(tx: Prisma.TransactionClient, postId: string) {
+    const count = await tx.postRevision.count({ where: { postId } });
+    if (count > 0) return;
+
+    const post = await tx.post.findUnique({
+      where: { id: postId },
+      select: { authorId: true },
+    });
+    if (!post) return;
+
+    await this.record(tx, postId, {
+      reason: 'CREATED',
+      authorId: post.authorId,
+    });
+  }
+
+  /**
+   * Saves the post's current state as the next version. Saves that changed
+   * nothing tracked (e.g. only status) don't create a revision.
+   */
+  async record(
+    tx: Prisma.TransactionClient,
+    postId: string,
+    args: {
+      reason: PostRevisionReason;
+      authorId?: string | null;
+      restoredFromId?: string;
+    },
+  ) {
+    const post = await tx.post.findUnique({
+      where: { id: postId },
+      select: {
+        content: true,
+        firstComment: true,
+        scheduledAt: true,
+        status: true,
+        media: { orderBy: { order: 'asc' }, select: { mediaFileId: true } },
+        destinations: {
+          orderBy: { createdAt: 'asc' },
+          select: {
+            socialProfileId: true,
+            contentOverride: true,
+            firstComment: true,
+          },
+        },
+      },
+    });
+    if (!post) return null;
+
+    const snapshot: Snapshot = {
+      content: post.content,
+      firstComment: post.firstComment,
+      scheduledAt: post.scheduledAt,
+      mediaIds: post.media.map((m) => m.mediaFileId),
+      overrides: post.destinations,
+    };
+
+    const last = await tx.postRevision.findFirst({
+      where: { postId },
+      orderBy: { version: 'desc' },
+    });
+
+    if (
+      last &&
+      args.reason !== 'RESTORED' &&
+      this.sameSnapshot(this.toSnapshot(last), snapshot)
+    ) {
+      return last;
+    }
+
+    return tx.postRevision.create({
+      data: {
+        postId,
+        version: (last?.version ?? 0) + 1,
+        reason: args.reason,
+        authorId: args.authorId ?? null,
+        restoredFromId: args.restoredFromId ?? null,
+        status: post.status,
+        content: snapshot.content,
+        firstComment: snapshot.firstComment,
+        scheduledAt: snapshot.scheduledAt,
+        mediaIds: snapshot.mediaIds,
+        overrides: snapshot.overrides as unknown as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  // =========================================================
+  // 2) Endpoints
+  // =========================================================
+
+  async list(workspaceId: string, postId: string, query: PaginationDto) {
+    await this.assertPost(workspaceId, postId);
+    const { page = 1, limit = 20 } = query;
+
+    const [data, total] = await Promise.all([
+      this.prisma.postRevision.findMany({
+        where: { postId },
+        orderBy: { version: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: { author: AUTHOR_SELECT },
+      }),
+      this.prisma.postRevision.count({ where: { postId } }),
+    ]);
+
+    return {
+      data,
+      meta: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
+  async get(workspaceId: string, postId: string, revisionId: string) {
+    await this.assertPost(workspaceId, postId);
+    return this.findRevision(postId, revisionId);
+  }
+
+  /**
+   * Field-by-field changes between two revisions. `toId` defaults to the
+   * latest revision, so `from` alone answers "what changed since then".
+   */
+  async diff(
+    workspaceId: string,
+    postId: string,
+    fromId: string,
+    toId?: string,
+  ) {
+    await this.assertPost(workspaceId, postId);
+
+    const from = await this.findRevision(postId, fromId);
+    const to = toId
+      ? await this.findRevision(postId, toId)
+      : await this.prisma.postRevision.findFirst({
+          where: { postId },
+          orderBy: { version: 'desc' },
+          include: { author: AUTHOR_SELECT },
+        });
+    if (!to) throw new NotFoundException('Revision not found');
+
+    const a = this.toSnapshot(from);
+    const b = this.toSnapshot(to);
+
+    return {
+      from: this.header(from),
+      to: this.header(to),
+      changes: {
+        content: this.textChange(a.content, b.content),
+        firstComment: this.textChange(a.firstComment, b.firstComment),
+        scheduledAt:
+          a.scheduledAt?.getTime() !== b.scheduledAt?.getTime()
+            ? { before: a.scheduledAt, after: b.scheduledAt }
+            : null,
+        media: this.mediaChange(a.mediaIds, b.mediaIds),
+        overrides: this.overrideChanges(a.overrides, b.overrides),
+      },
+    };
+  }
+
+  /**
+   * Puts a revision's content, first comment, overrides, media order and
+   * (future) schedule back on the post, and records that as a new revision.
+   */
+  async restore(
+    workspaceId: string,
+    postId: string,
+    revisionId: string,
+    userId: string,
+  ) {
+    const post = await this.prisma.post.findFirst({
+      where: { id: postId, workspaceId },
+      select: { id: true, status: true, parentPostId: true },
+    });
+    if (!post) throw new NotFoundException('Post not found');
+    if (['PUBLISHING', 'PUBLISHED'].includes(post.status)) {
+      throw new BadRequestException(
+        'Published posts cannot be restored. Edit the live post instead.',
+      );
+    }
+
+    const revision = await this.findRevision(postId, revisionId);
+    const snapshot = this.toSnapshot(revision);
+
+    // Media that has since been deleted from the library is dropped
+    const existingMedia = await this.prisma.mediaFile.findMany({
+      where: { id: { in: snapshot.mediaIds }, workspaceId },
+      select: { id: true },
+    });
+    const mediaIds = snapshot.mediaIds.filter((id) =>
+      existingMedia.some((m) => m.id === id),
+    );
+
+    // A schedule in the past can't be restored; keep the current one
+    const scheduledAt =
+      snapshot.scheduledAt && snapshot.scheduledAt > new Date()
+        ? snapshot.scheduledAt
+        : undefined;
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      await this.ensureBaseline(tx, postId);
+
+      const updated = await tx.post.update({
+        where: { id: postId },
+        data: {
+          content: snapshot.content,
+          firstComment: snapshot.firstComment,
+          ...(scheduledAt && { scheduledAt }),
+        },
+      });
+
+      await tx.postMedia.deleteMany({ where: { postId } });
+      if (mediaIds.length) {
+        await tx.postMedia.createMany({
+          data: mediaIds.map((mediaFileId, order) => ({
+            postId,
+            mediaFileId,
+            order,
+          })),
+        });
+      }
+
+      // Only destinations that still exist; profiles are not re-added
+      for (const o of snapshot.overrides) {
+        await tx.postDestination.updateMany({
+          where: { postId, socialProfileId: o.socialProfileId },
+          data: {
+            contentOverride: o.contentOverride,
+            firstComment: o.firstComment,
+          },
+        });
+      }
+
+      if (scheduledAt && post.parentPostId === null) {
+        await tx.post.updateMany({
+          where: { parentPostId: postId },
+          data: { scheduledAt },
+        });
+      }
+
+      await this.record(tx, postId, {
+        reason: 'RESTORED',
+        authorId: userId,
+        restoredFromId: revision.id,
+      });
+
+      return updated;
+    });
+
+    if (scheduledAt && updated.status === 'SCHEDULED') {
+      await this.refreshPostJob(postId, scheduledAt);
+    }
+
+    return updated;
+  }
+
+  // =========================================================
+  // Internal
+  // =========================================================
+
+  private async assertPost(workspaceId: string, postId: string) {
+    const post = await this.prisma.post.findFirst({
+      where: { id: postId, workspaceId },
+      select: { id: true },
+    });
+    if (!post) throw new NotFoundException('Post not found');
+  }
+
+  private async findRevision(postId: string, revisionId: string) {
+    const revision = await this.prisma.postRevision.findFirst({
+      where: { id: revisionId, postId },
+      include: { author: AUTHOR_SELECT },
+    });
+    if (!revision) throw new NotFoundException('Revision not found');
+    return revision;
+  }
+
+  private toSnapshot(revision: {
+    content: string | null;
+    firstComment: string | null;
+    overrides: Prisma.JsonValue;
+    mediaIds: string[];
+    scheduledAt: Date | null;
+  }): Snapshot {
+    return {
+      content: revision.content,
+      firstComment: revision.firstComment,
+      overrides: Array.isArray(revision.overrides)
+        ? (revision.overrides as unknown as RevisionOverride[])
+        : [],
+      mediaIds: revision.mediaIds,
+      scheduledAt: revision.scheduledAt,
+    };
+  }
+
+  private sameSnapshot(a: Snapshot, b: Snapshot) {
+    const overrides = (s: Snapshot) =>
+      JSON.stringify(
+        [...s.overrides]
+          .sort((x, y) => x.socialProfileId.localeCompare(y.socialProfileId))
+          .map((o) => [o.socialProfileId, o.contentOverride, o.firstComment]),
+      );
+
+    return (
+      a.content === b.content &&
+      a.firstComment === b.firstComment &&
+      a.scheduledAt?.getTime() === b.scheduledAt?.getTime() &&
+      a.mediaIds.join(',') === b.mediaIds.join(',') &&
+      overrides(a) === overrides(b)
+    );
+  }
+
+  private header(revision: any) {
+    return {
+      id: revision.id,
+      version: revision.version,
+      reason: revision.reason,
+      createdAt: revision.createdAt,
+      author: revision.author ?? null,
+    };
+  }
+
+  private textChange(before: string | null, after: string | null) {
+    if ((before ?? '') === (after ?? '')) return null;
+    return { before, after, segments: diffWords(before ?? '', after ?? '') };
+  }
+
+  private mediaChange(before: string[], after: string[]) {
+    if (before.join(',') === after.join(',')) return null;
+
+    const added = after.filter((id) => !before.includes(id));
+    const removed = before.filter((id) => !after.includes(id));
+    const kept = after.filter((id) => before.includes(id));
+    const reordered =
+      kept.join(',') !== before.filter((id) => after.includes(id)).join(',');
+
+    return { before, after, added, removed, reordered };
+  }
+
+  private overrideChanges(
+    before: RevisionOverride[],
+    after: RevisionOverride[],
+  ) {
+    const profileIds = [
+      ...new Set([...before, ...after].map((o) => o.socialProfileId)),
+    ];
+
+    const changes: Array<{
+      socialProfileId: string;
+      field: 'contentOverride' | 'firstComment';
+      before: string | null;
+      after: string | null;
+      segments: ReturnType<typeof diffWords>;
+    }> = [];
+
+    for (const socialProfileId of profileIds) {
+      const a = before.find((o) => o.socialProfileId === socialProfileId);
+      const b = after.find((o) => o.socialProfileId === socialProfileId);
+
+      for (const field of ['contentOverride', 'firstComment'] as const) {
+        const change = this.textChange(a?.[field] ?? null, b?.[field] ?? null);
+        if (change) changes.push({ socialProfileId, field, ...change });
+      }
+    }
+
+    return changes;
+  }
+
+  private async refreshPostJob(postId: string, runAt: Date) {
+    const job = await this.publishingQueue.getJob(postId);
+    if (job) await job.remove();
+
+    await this.publishingQueue.add(
+      'publish-post',
+      { postId },
+      {
+        delay: Math.max(0, runAt.getTime() - Date.now()),
+        jobId: postId, // one job per post
+        removeOnComplete: true,
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 5000 },
+      },
+    );
+  }
+}
@@ -0,0 +1,164 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { PostTransferService } from './post-transfer.service';
+
+describe('PostTransferService', () => {
+  const prisma = {
+    workspace: { findUnique: jest.fn() },
+    workspaceMember: { findFirst: jest.fn() },
+    socialProfile: { findMany: jest.fn() },
+    post: { findMany: jest.fn(), count: jest.fn() },
+    campaign: { findFirst: jest.fn() },
+    mediaFile: { findMany: jest.fn() },
+  };
+  const destinationBuilder = { preparePayloads: jest.fn() };
+  const queueService = { getPlanLimits: jest.fn() };
+  const postService = { bulkSchedulePosts: jest.fn(), deletePost: jest.fn() };
+  const postMedia = { copyToWorkspace: jest.fn() };
+  const links = { expandPostLinks: jest.fn() };
+
+  const service = new PostTransferService(
+    prisma as any,
+    destinationBuilder as any,
+    queueService as any,
+    postService as any,
+    postMedia as any,
+    links as any,
+  );
+
+  const user = { userId: 'u1', features: {} };
+  const scheduledAt = new Date('2099-03-02T09:00:00Z');
+
+  const source = {
+    id: 'post1',
+    content: 'Spring launch https://rooli.link/l/abc',
+    firstComment: null,
+    contentType: 'POST',
+    status: 'SCHEDULED',
+    scheduledAt,
+    timezone: 'Africa/Lagos',
+    media: [{ mediaFileId: 'm1' }],
+    destinations: [
+      {
+        socialProfileId: 'src_li',
+        contentOverride: 'LinkedIn version',
+        firstComment: null,
+        metadata: null,
+        profile: { name: 'Acme LI', platform: 'LINKEDIN' },
+      },
+      {
+        socialProfileId: 'src_fb',
+        contentOverride: 'Spring launch https://rooli.link/l/abc',
+        firstComment: null,
+        metadata: null,
+        profile: { name: 'Acme FB', platform: 'FACEBOOK' },
+      },
+    ],
+  };
+
+  const dto = {
+    targetWorkspaceId: 'ws2',
+    postIds: ['post1'],
+    profileMap: [{ sourceProfileId: 'src_li', targetProfileId: 'dst_li' }],
+    shiftMinutes: 60,
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    prisma.workspace.findUnique.mockResolvedValue({ organizationId: 'org1' });
+    prisma.workspaceMember.findFirst.mockResolvedValue({
+      workspace: { organizationId: 'org1' },
+      role: {
+        slug: 'editor',
+        permissions: [{ permission: { resource: 'POSTS', action: 'CREATE' } }],
+      },
+    });
+    prisma.socialProfile.findMany.mockResolvedValue([{ id: 'dst_li' }]);
+    prisma.post.findMany.mockResolvedValueOnce([source]).mockResolvedValue([]);
+    prisma.post.count.mockResolvedValue(0);
+    queueService.getPlanLimits.mockResolvedValue({
+      tier: 'BUSINESS',
+      maxBulkPostsPerRequest: 100,
+      maxPostsInQueue: 100,
+    });
+    links.expandPostLinks.mockResolvedValue((text: string | null) =>
+      text?.replace('https://rooli.link/l/abc', 'https://acme.com/spring'),
+    );
+    destinationBuilder.preparePayloads.mockResolvedValue([]);
+  });
+
+  it('maps profiles, keeps overrides and shifts times', async () => {
+    const report = await service.validate(user, 'ws1', dto);
+
+    expect(report.summary).toEqual({
+      totalPosts: 1,
+      validPosts: 1,
+      invalidPosts: 0,
+    });
+    expect(report.posts[0].warnings[0]).toMatch(/Acme FB .* isn't mapped/);
+    expect(destinationBuilder.preparePayloads).toHaveBeenCalledWith(
+      'ws2',
+      expect.objectContaining({
+        content: 'Spring launch https://acme.com/spring',
+        socialProfileIds: ['dst_li'],
+        overrides: [{ socialProfileId: 'dst_li', content: 'LinkedIn version' }],
+        scheduledAt: '2099-03-02T10:00:00.000Z',
+      }),
+    );
+  });
+
+  it('refuses to move published posts', async () => {
+    prisma.post.findMany
+      .mockReset()
+      .mockResolvedValueOnce([{ ...source, status: 'PUBLISHED' }])
+      .mockResolvedValue([]);
+
+    const report = await service.validate(user, 'ws1', {
+      ...dto,
+      mode: 'MOVE',
+    });
+
+    expect(report.posts[0].errors[0]).toMatch(/can only be copied/);
+    expect(destinationBuilder.preparePayloads).not.toHaveBeenCalled();
+  });
+
+  it('needs post creation rights in the target workspace', async () => {
+    prisma.workspaceMember.findFirst.mockResolvedValue({
+      workspace: { organizationId: 'org1' },
+      role: { slug: 'viewer', permissions: [] },
+    });
+
+    await expect(service.validate(user, 'ws1', dto)).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+  });
+
+  it('copies media into the target and deletes the source on move', async () => {
+    prisma.mediaFile.findMany.mockResolvedValue([
+      { id: 'm1', originalName: 'hero.jpg' },
+    ]);
+    postMedia.copyToWorkspace.mockResolvedValue({ id: 'm1_copy' });
+    postService.bulkSchedulePosts.mockResolvedValue([{ id: 'new1' }]);
+
+    const result = await service.execute(user, 'ws1', { ...dto, mode: 'MOVE' });
+
+    expect(postService.bulkSchedulePosts).toHaveBeenCalledWith(user, 'ws2', {
+      posts: [expect.objectContaining({ mediaIds: ['m1_copy'] })],
+    });
+    expect(postService.deletePost).toHaveBeenCalledWith('ws1', 'post1');
+    expect(result.posts).toEqual([{ sourcePostId: 'post1', postId: 'new1' }]);
+  });
+
+  it('rejects the transfer when the target queue would overflow', async () => {
+    queueService.getPlanLimits.mockResolvedValue({
+      tier: 'CREATOR',
+      maxBulkPostsPerRequest: 100,
+      maxPostsInQueue: 5,
+    });
+    prisma.post.count.mockResolvedValue(5);
+
+    await expect(service.execute(user, 'ws1', dto)).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    expect(postService.bulkSchedulePosts).not.toHaveBeenCalled();
+  });
+});
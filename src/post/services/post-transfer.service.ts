@@ -0,0 +1,735 @@
+import { PrismaService } from '@/prisma/prisma.service';
+import { QueueSlotService } from '@/queue/queue.service';
+import { PostMediaService } from '@/post-media/post-media.service';
+import { LinksService } from '@/links/links.service';
+import { Prisma } from '@generated/client';
+import { PostStatus } from '@generated/enums';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { isBefore, subMinutes } from 'date-fns';
+import { CreatePostDto } from '../dto/request/create-post.dto';
+import { PostOverrideDto } from '../dto/request/post-override.dto';
+import { PostPollDto } from '../dto/request/post-poll.dto';
+import { ThreadItemDto } from '../dto/request/thread-item.dto';
+import { TransferPostsDto } from '../dto/request/transfer-posts.dto';
+import { DestinationBuilder } from './destination-builder.service';
+import { PostService } from './post.service';
+
+/** Only unpublished posts can leave their workspace. */
+const MOVABLE_STATUSES: PostStatus[] = [
+  'DRAFT',
+  'SCHEDULED',
+  'PENDING_APPROVAL',
+  'FAILED',
+];
+
+const SOURCE_SELECT = {
+  id: true,
+  content: true,
+  firstComment: true,
+  contentType: true,
+  status: true,
+  scheduledAt: true,
+  timezone: true,
+  queueCategory: true,
+  poll: true,
+  documentTitle: true,
+  media: {
+    orderBy: { order: 'asc' },
+    select: { mediaFileId: true, altText: true },
+  },
+  destinations: {
+    select: {
+      socialProfileId: true,
+      contentOverride: true,
+      firstComment: true,
+      metadata: true,
+      profile: { select: { name: true, platform: true } },
+    },
+  },
+} as const satisfies Prisma.PostSelect;
+
+type SourcePost = Prisma.PostGetPayload<{ select: typeof SOURCE_SELECT }>;
+
+type ThreadChild = {
+  id: string;
+  content: string | null;
+  mediaIds: string[];
+};
+
+type PreparedTransfer = {
+  sourcePostId: string;
+  errors: string[];
+  warnings: string[];
+  /** Media IDs still point at the source library until the copy runs */
+  dto: CreatePostDto | null;
+};
+
+export interface TransferReport {
+  targetWorkspaceId: string;
+  mode: 'COPY' | 'MOVE';
+  summary: { totalPosts: number; validPosts: number; invalidPosts: number };
+  limits: {
+    tier: string;
+    maxBulkPostsPerRequest: number;
+    maxPostsInQueue: number;
+    currentlyQueued: number;
+  };
+  /** Transfer-level problems (access, plan limits); block everything */
+  errors: string[];
+  posts: Array<{
+    sourcePostId: string;
+    valid: boolean;
+    errors: string[];
+    warnings: string[];
+    post: {
+      socialProfileIds: string[];
+      scheduledAt: string | null;
+      threadCount: number;
+      mediaCount: number;
+    } | null;
+  }>;
+}
+
+/**
+ * Copies (or moves) posts into another workspace of the same organization.
+ * Copies go through the target's platform rules, plan limits and
+ * bulkSchedulePosts, exactly like posts created there.
+ */
+@Injectable()
+export class PostTransferService {
+  private readonly logger = new Logger(PostTransferService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly destinationBuilder: DestinationBuilder,
+    private readonly queueService: QueueSlotService,
+    private readonly postService: PostService,
+    private readonly postMedia: PostMediaService,
+    private readonly links: LinksService,
+  ) {}
+
+  async validate(
+    user: any,
+    workspaceId: string,
+    dto: TransferPostsDto,
+  ): Promise<TransferReport> {
+    const { report } = await this.buildReport(user, workspaceId, dto);
+    return report;
+  }
+
+  /**
+   * Re-runs the dry run, copies the media into the target library and bulk
+   * schedules the copies. With MOVE, the source posts are deleted after.
+   */
+  async execute(user: any, workspaceId: string, dto: TransferPostsDto) {
+    const { report, prepared } = await this.buildReport(user, workspaceId, dto);
+
+    const valid = prepared.filter((p) => !p.errors.length && p.dto);
+    const blocked =
+      report.errors.length > 0 ||
+      valid.length === 0 ||
+      (!dto.skipInvalid && report.summary.invalidPosts > 0);
+
+    if (blocked) {
+      throw new BadRequestException({
+        message: 'Some posts cannot be transferred. Nothing was created.',
+        report,
+      });
+    }
+
+    const mediaMap = await this.copyMedia(
+      user.userId,
+      workspaceId,
+      dto.targetWorkspaceId,
+      valid.map((p) => p.dto!),
+    );
+    const relink = (ids?: string[]) =>
+      (ids ?? []).map((id) => mediaMap.get(id)!);
+
+    const posts = valid.map((p) => ({
+      ...p.dto!,
+      mediaIds: relink(p.dto!.mediaIds),
+      mediaAltTexts: p.dto!.mediaAltTexts?.map((a) => ({
+        ...a,
+        mediaId: mediaMap.get(a.mediaId)!,
+      })),
+      threads: p.dto!.threads?.map((t) => ({
+        ...t,
+        mediaIds: relink(t.mediaIds),
+      })),
+    })) as CreatePostDto[];
+
+    const created = await this.postService.bulkSchedulePosts(
+      user,
+      dto.targetWorkspaceId,
+      { posts },
+    );
+
+    // bulkSchedulePosts returns the masters in the order they were given
+    const transferred = valid.map((p, i) => ({
+      sourcePostId: p.sourcePostId,
+      postId: created[i]?.id ?? null,
+    }));
+
+    let removedSourcePosts = 0;
+    if (dto.mode === 'MOVE') {
+      for (const { sourcePostId } of transferred) {
+        try {
+          await this.postService.deletePost(workspaceId, sourcePostId);
+          removedSourcePosts++;
+        } catch (err: any) {
+          this.logger.warn(
+            `Moved post ${sourcePostId} but could not delete the source: ${err?.message}`,
+          );
+        }
+      }
+    }
+
+    return {
+      data: created,
+      count: created.length,
+      posts: transferred,
+      copiedMedia: mediaMap.size,
+      removedSourcePosts,
+      skippedPosts: prepared
+        .filter((p) => p.errors.length > 0)
+        .map((p) => p.sourcePostId),
+    };
+  }
+
+  // =========================================================
+  // Report
+  // =========================================================
+
+  private async buildReport(
+    user: any,
+    workspaceId: string,
+    dto: TransferPostsDto,
+  ) {
+    const mode = dto.mode ?? 'COPY';
+    const targetWorkspaceId = dto.targetWorkspaceId;
+
+    await this.assertTargetAccess(user.userId, workspaceId, targetWorkspaceId);
+
+    const [sources, targetProfiles, limits, currentlyQueued] =
+      await Promise.all([
+        this.loadSources(workspaceId, dto),
+        this.prisma.socialProfile.findMany({
+          where: { workspaceId: targetWorkspaceId, status: 'CONNECTED' },
+          select: { id: true },
+        }),
+        this.queueService.getPlanLimits(targetWorkspaceId),
+        this.prisma.post.count({
+          where: { workspaceId: targetWorkspaceId, status: 'SCHEDULED' },
+        }),
+      ]);
+
+    const errors: string[] = [];
+    const features = user.features ?? {};
+
+    if (dto.needsApproval && !features.approvalWorkflow) {
+      errors.push('Upgrade to Business Plan to use Approval Workflows');
+    }
+    if (dto.targetCampaignId) {
+      if (!features.hasCampaigns) {
+        errors.push('Upgrade to Rocket Plan to use Campaigns');
+      }
+      const campaign = await this.prisma.campaign.findFirst({
+        where: { id: dto.targetCampaignId, workspaceId: targetWorkspaceId },
+        select: { id: true },
+      });
+      if (!campaign) errors.push('Target campaign not found.');
+    }
+
+    const targetIds = new Set(targetProfiles.map((p) => p.id));
+    const profileMap = new Map<string, string>();
+    for (const m of dto.profileMap) {
+      if (!targetIds.has(m.targetProfileId)) {
+        errors.push(
+          `Profile ${m.targetProfileId} is not connected in the target workspace.`,
+        );
+        continue;
+      }
+      profileMap.set(m.sourceProfileId, m.targetProfileId);
+    }
+
+    if (sources.length > limits.maxBulkPostsPerRequest) {
+      errors.push(
+        `Your plan allows ${limits.maxBulkPostsPerRequest} posts per bulk transfer; this selection has ${sources.length}.`,
+      );
+    }
+
+    const threads = await this.loadThreads(sources.map((s) => s.id));
+    const expand = await this.links.expandPostLinks([
+      ...sources.map((s) => s.id),
+      ...[...threads.values()].flat().map((c) => c.id),
+    ]);
+    const offset = this.resolveOffset(sources, dto);
+
+    const prepared: PreparedTransfer[] = [];
+    for (const source of sources) {
+      const item = this.mapPost(source, threads.get(source.id) ?? [], {
+        profileMap,
+        offset,
+        expand,
+        mode,
+        dto,
+      });
+
+      if (!item.errors.length && item.dto) {
+        item.errors.push(
+          ...(await this.checkPlatformRules(targetWorkspaceId, item.dto)),
+        );
+      }
+      prepared.push(item);
+    }
+
+    const valid = prepared.filter((p) => !p.errors.length && p.dto);
+    const willQueue = valid.filter(
+      (p) => !dto.needsApproval && p.dto!.scheduledAt,
+    ).length;
+    if (currentlyQueued + willQueue > limits.maxPostsInQueue) {
+      errors.push(
+        `Queue limit reached. Your plan allows ${limits.maxPostsInQueue} queued posts in the target workspace. It has ${currentlyQueued} and this transfer adds ${willQueue}.`,
+      );
+    }
+
+    const report: TransferReport = {
+      targetWorkspaceId,
+      mode,
+      summary: {
+        totalPosts: prepared.length,
+        validPosts: valid.length,
+        invalidPosts: prepared.length - valid.length,
+      },
+      limits: {
+        tier: limits.tier,
+        maxBulkPostsPerRequest: limits.maxBulkPostsPerRequest,
+        maxPostsInQueue: limits.maxPostsInQueue,
+        currentlyQueued,
+      },
+      errors,
+      posts: prepared.map((p) => ({
+        sourcePostId: p.sourcePostId,
+        valid: p.errors.length === 0,
+        errors: p.errors,
+        warnings: p.warnings,
+        post: p.dto
+          ? {
+              socialProfileIds: p.dto.socialProfileIds,
+              scheduledAt: p.dto.scheduledAt ?? null,
+              threadCount: p.dto.threads?.length ?? 0,
+              mediaCount: p.dto.mediaIds?.length ?? 0,
+            }
+          : null,
+      })),
+    };
+
+    return { report, prepared };
+  }
+
+  /**
+   * Builds the CreatePostDto for the target. Destination text that differs
+   * from the master (after expanding short links) becomes an override on the
+   * mapped profile.
+   */
+  private mapPost(
+    source: SourcePost,
+    children: ThreadChild[],
+    ctx: {
+      profileMap: Map<string, string>;
+      offset: number;
+      expand: (text: string | null) => string | null;
+      mode: 'COPY' | 'MOVE';
+      dto: TransferPostsDto;
+    },
+  ): PreparedTransfer {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const result = { sourcePostId: source.id, errors, warnings, dto: null };
+
+    if (ctx.mode === 'MOVE' && !MOVABLE_STATUSES.includes(source.status)) {
+      errors.push(
+        'Published posts can only be copied. Use COPY to reuse this one.',
+      );
+      return result;
+    }
+
+    const content = ctx.expand(source.content) ?? '';
+    const firstComment = ctx.expand(source.firstComment);
+
+    const socialProfileIds: string[] = [];
+    const overrides: PostOverrideDto[] = [];
+
+    for (const dest of source.destinations) {
+      const targetId = ctx.profileMap.get(dest.socialProfileId);
+      if (!targetId) {
+        warnings.push(
+          `${dest.profile.name} (${dest.profile.platform}) isn't mapped to a target profile; left out.`,
+        );
+        continue;
+      }
+      if (socialProfileIds.includes(targetId)) continue;
+      socialProfileIds.push(targetId);
+
+      const override: PostOverrideDto = { socialProfileId: targetId };
+
+      // Auto-split X text holds only the first tweet; the master is the full text
+      const autoSplit =
+        dest.profile.platform === 'TWITTER' &&
+        !children.length &&
+        Array.isArray((dest.metadata as any)?.thread) &&
+        (dest.metadata as any).thread.length > 0;
+
+      const destText = ctx.expand(dest.contentOverride);
+      if (
+        !autoSplit &&
+        destText != null &&
+        destText.trim() !== content.trim()
+      ) {
+        override.content = destText;
+      }
+
+      const destComment = ctx.expand(dest.firstComment);
+      if ((destComment ?? '') !== (firstComment ?? '')) {
+        override.firstComment = destComment ?? '';
+      }
+
+      if (
+        override.content !== undefined ||
+        override.firstComment !== undefined
+      ) {
+        overrides.push(override);
+      }
+    }
+
+    if (!socialProfileIds.length) {
+      errors.push("None of this post's profiles are mapped.");
+      return result;
+    }
+
+    const threads = this.mapThread(source, children, ctx, warnings);
+
+    let scheduledAt: string | undefined;
+    if (source.scheduledAt && !ctx.dto.asDraft) {
+      const shifted = new Date(source.scheduledAt.getTime() + ctx.offset);
+      if (isBefore(shifted, subMinutes(new Date(), 5))) {
+        errors.push(
+          `Scheduled time ${shifted.toISOString()} is in the past. Shift it later or copy as a draft.`,
+        );
+      }
+      scheduledAt = shifted.toISOString();
+    }
+
+    return {
+      ...result,
+      dto: {
+        content,
+        firstComment: firstComment ?? undefined,
+        contentType: source.contentType,
+        socialProfileIds,
+        mediaIds: source.media.map((m) => m.mediaFileId),
+        mediaAltTexts: source.media
+          .filter((m) => m.altText !== null)
+          .map((m) => ({ mediaId: m.mediaFileId, altText: m.altText! })),
+        scheduledAt,
+        timezone: source.timezone,
+        queueCategory: source.queueCategory ?? undefined,
+        poll: (source.poll as unknown as PostPollDto) ?? undefined,
+        documentTitle: source.documentTitle ?? undefined,
+        campaignId: ctx.dto.targetCampaignId,
+        needsApproval: ctx.dto.needsApproval,
+        ...(overrides.length && { overrides }),
+        ...(threads.length && { threads }),
+      },
+    };
+  }
+
+  /**
+   * Thread replies come from the child posts; per-profile targeting comes
+   * from the X destination's stored thread and is remapped to the target.
+   */
+  private mapThread(
+    source: SourcePost,
+    children: ThreadChild[],
+    ctx: {
+      profileMap: Map<string, string>;
+      expand: (text: string | null) => string | null;
+    },
+    warnings: string[],
+  ): ThreadItemDto[] {
+    if (!children.length) return [];
+
+    const stored: Array<{ targetProfileIds?: string[] }> =
+      (
+        source.destinations.find(
+          (d) =>
+            d.profile.platform === 'TWITTER' &&
+            Array.isArray((d.metadata as any)?.thread),
+        )?.metadata as any
+      )?.thread ?? [];
+
+    const items: ThreadItemDto[] = [];
+    children.forEach((child, i) => {
+      const targeted = stored[i]?.targetProfileIds ?? [];
+      const targetProfileIds = targeted
+        .map((id) => ctx.profileMap.get(id))
+        .filter((id): id is string => !!id);
+
+      if (targeted.length && !targetProfileIds.length) {
+        warnings.push(
+          `Thread reply #${i + 1} only targets unmapped profiles; left out.`,
+        );
+        return;
+      }
+
+      items.push({
+        content: ctx.expand(child.content) ?? '',
+        mediaIds: child.mediaIds,
+        targetProfileIds,
+      });
+    });
+
+    return items;
+  }
+
+  private async checkPlatformRules(workspaceId: string, dto: CreatePostDto) {
+    try {
+      await this.destinationBuilder.preparePayloads(workspaceId, dto);
+      return [];
+    } catch (err: any) {
+      return String(err?.message ?? 'Validation failed.')
+        .replace(/^Validation Failed:\n/, '')
+        .split('\n')
+        .filter(Boolean);
+    }
+  }
+
+  // =========================================================
+  // Loading
+  // =========================================================
+
+  private async assertTargetAccess(
+    userId: string,
+    workspaceId: string,
+    targetWorkspaceId: string,
+  ) {
+    if (targetWorkspaceId === workspaceId) {
+      throw new BadRequestException(
+        'Choose a different workspace to copy into.',
+      );
+    }
+
+    const [source, member] = await Promise.all([
+      this.prisma.workspace.findUnique({
+        where: { id: workspaceId },
+        select: { organizationId: true },
+      }),
+      this.prisma.workspaceMember.findFirst({
+        where: { workspaceId: targetWorkspaceId, member: { userId } },
+        select: {
+          workspace: { select: { organizationId: true } },
+          role: {
+            select: {
+              slug: true,
+              permissions: {
+                select: {
+                  permission: { select: { resource: true, action: true } },
+                },
+              },
+            },
+          },
+        },
+      }),
+    ]);
+
+    if (!member || member.workspace.organizationId !== source?.organizationId) {
+      throw new ForbiddenException(
+        'You do not have access to the target workspace',
+      );
+    }
+
+    // Same cascade as PermissionsGuard, for POSTS.CREATE
+    const granted = new Set(
+      (member.role?.permissions ?? []).map(
+        (p) => `${p.permission.resource}.${p.permission.action}`,
+      ),
+    );
+    const canCreate =
+      member.role?.slug === 'owner' ||
+      [
+        'ALL.MANAGE',
+        'ALL.CREATE',
+        'POSTS.ALL',
+        'POSTS.MANAGE',
+        'POSTS.CREATE',
+      ].some((p) => granted.has(p));
+    if (!canCreate) {
+      throw new ForbiddenException(
+        'Permission denied. Required: POSTS.CREATE in the target workspace',
+      );
+    }
+  }
+
+  private async loadSources(workspaceId: string, dto: TransferPostsDto) {
+    const postIds = [...new Set(dto.postIds ?? [])];
+    if (!postIds.length && !dto.campaignId && !dto.from && !dto.to) {
+      throw new BadRequestException(
+        'Choose posts, a campaign or a date range to transfer.',
+      );
+    }
+    if (postIds.length && (dto.campaignId || dto.from || dto.to)) {
+      throw new BadRequestException(
+        'Transfer either specific posts or a campaign/date range, not both.',
+      );
+    }
+    if (dto.shiftMinutes !== undefined && dto.startAt) {
+      throw new BadRequestException('Use either shiftMinutes or startAt.');
+    }
+
+    if (dto.campaignId) {
+      const campaign = await this.prisma.campaign.findFirst({
+        where: { id: dto.campaignId, workspaceId },
+        select: { id: true },
+      });
+      if (!campaign) throw new NotFoundException('Campaign not found');
+    }
+
+    const where: Prisma.PostWhereInput = postIds.length
+      ? { workspaceId, parentPostId: null, id: { in: postIds } }
+      : {
+          workspaceId,
+          parentPostId: null,
+          ...(dto.campaignId && { campaignId: dto.campaignId }),
+          ...((dto.from || dto.to) && {
+            scheduledAt: {
+              ...(dto.from && { gte: new Date(dto.from) }),
+              ...(dto.to && { lte: new Date(dto.to) }),
+            },
+          }),
+        };
+
+    const posts = await this.prisma.post.findMany({
+      where,
+      orderBy: [{ scheduledAt: 'asc' }, { createdAt: 'asc' }],
+      select: SOURCE_SELECT,
+    });
+
+    if (postIds.length && posts.length !== postIds.length) {
+      throw new BadRequestException(
+        'One or more posts are not top-level posts in this workspace.',
+      );
+    }
+    if (!posts.length) {
+      throw new BadRequestException('No posts match this selection.');
+    }
+
+    return posts;
+  }
+
+  /** Thread replies per root post, in reply order. */
+  private async loadThreads(rootIds: string[]) {
+    const threads = new Map<string, ThreadChild[]>();
+    const rootOf = new Map(rootIds.map((id) => [id, id]));
+    let frontier = rootIds;
+
+    while (frontier.length) {
+      const children = await this.prisma.post.findMany({
+        where: { parentPostId: { in: frontier } },
+        orderBy: { createdAt: 'asc' },
+        select: {
+          id: true,
+          parentPostId: true,
+          content: true,
+          media: { orderBy: { order: 'asc' }, select: { mediaFileId: true } },
+        },
+      });
+
+      for (const child of children) {
+        const root = rootOf.get(child.parentPostId!)!;
+        rootOf.set(child.id, root);
+        const list = threads.get(root) ?? [];
+        list.push({
+          id: child.id,
+          content: child.content,
+          mediaIds: child.media.map((m) => m.mediaFileId),
+        });
+        threads.set(root, list);
+      }
+      frontier = children.map((c) => c.id);
+    }
+
+    return threads;
+  }
+
+  /** Milliseconds to add to every scheduled time. */
+  private resolveOffset(sources: SourcePost[], dto: TransferPostsDto) {
+    if (dto.startAt) {
+      const earliest = sources
+        .map((s) => s.scheduledAt?.getTime())
+        .filter((t): t is number => t !== undefined)
+        .sort((a, b) => a - b)[0];
+      return earliest === undefined
+        ? 0
+        : new Date(dto.startAt).getTime() - earliest;
+    }
+    return (dto.shiftMinutes ?? 0) * 60_000;
+  }
+
+  /**
+   * Copies each source media file into the target library once, however
+   * many posts use it. Returns source ID -> target ID.
+   */
+  private async copyMedia(
+    userId: string,
+    workspaceId: string,
+    targetWorkspaceId: string,
+    dtos: CreatePostDto[],
+  ) {
+    const ids = [
+      ...new Set(
+        dtos.flatMap((d) => [
+          ...(d.mediaIds ?? []),
+          ...(d.threads ?? []).flatMap((t) => t.mediaIds ?? []),
+        ]),
+      ),
+    ];
+    const files = ids.length
+      ? await this.prisma.mediaFile.findMany({
+          where: { id: { in: ids }, workspaceId },
+        })
+      : [];
+
+    const mediaMap = new Map<string, string>();
+    for (const file of files) {
+      try {
+        const copy = await this.postMedia.copyToWorkspace(
+          userId,
+          targetWorkspaceId,
+          file,
+        );
+        mediaMap.set(file.id, copy.id);
+      } catch (err: any) {
+        this.logger.warn(`Media copy failed for ${file.id}: ${err?.message}`);
+        throw new BadRequestException(
+          `Could not copy "${file.originalName}" to the target workspace.`,
+        );
+      }
+    }
+
+    const missing = ids.find((id) => !mediaMap.has(id));
+    if (missing) {
+      throw new BadRequestException(
+        `Media ${missing} is not in this workspace's library.`,
+      );
+    }
+
+    return mediaMap;
+  }
+}
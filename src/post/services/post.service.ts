@@ -14,13 +14,24 @@ import { UpdatePostDto } from '../dto/request/update-post.dto';
 import { GetWorkspacePostsDto } from '../dto/request/get-all-posts.dto';
 import { QueryMode } from '@generated/internal/prismaNamespace';
 import { DestinationBuilder } from './destination-builder.service';
-import { PostFactory } from './post-factory.service';
+import {
+  buildPostMediaRows,
+  PostFactory,
+  toPollJson,
+} from './post-factory.service';
 import { isBefore, subMinutes } from 'date-fns';
 import { fromZonedTime } from 'date-fns-tz';
 import { BulkCreatePostDto } from '../dto/request/bulk-schedule.dto';
 import { QueueSlotService } from '@/queue/queue.service';
 import { SocialFactory } from '@/social/social.factory';
 import { EncryptionService } from '@/common/utility/encryption.service';
+import { PostRevisionService } from './post-revision.service';
+import { LinksService } from '@/links/links.service';
+import {
+  ApprovalOutcome,
+  ApprovalWorkflowService,
+} from './approval-workflow.service';
+import { PostLabelService } from './post-label.service';
 
 @Injectable()
 export class PostService {
@@ -33,10 +44,15 @@ export class PostService {
     private queueService: QueueSlotService,
     private socialFactory: SocialFactory,
     private encryptionService: EncryptionService,
+    private revisions: PostRevisionService,
+    private links: LinksService,
+    private approvalWorkflow: ApprovalWorkflowService,
+    private labels: PostLabelService,
   ) {}
 
   async createPost(user: any, workspaceId: string, dto: CreatePostDto) {
     this.validateFeatures(user, dto);
+    await this.labels.assertInWorkspace(workspaceId, dto.labelIds);
 
     const { finalScheduledAt, status } = await this.resolveScheduleAndStatus(
       workspaceId,
@@ -58,9 +74,14 @@ export class PostService {
       );
 
       await this.destinationBuilder.saveDestinations(tx, post.id, payloads);
+      await this.links.shortenPostLinks(tx, post.id);
+      await this.revisions.record(tx, post.id, {
+        reason: 'CREATED',
+        authorId: user.userId,
+      });
 
       if (dto.needsApproval) {
-        await this.createApproval(tx, post.id, user.id);
+        await this.createApproval(tx, workspaceId, post.id, user.userId);
       }
       if (dto.aiGenerationId) {
         await tx.aiGeneration.update({
@@ -113,10 +134,14 @@ export class PostService {
     if (dto.campaignId && !features.hasCampaigns) {
       throw new ForbiddenException('Upgrade to Rocket Plan to use Campaigns');
     }
+
+    if (dto.labelIds?.length && !features.hasLabels) {
+      throw new ForbiddenException('Upgrade to Rocket Plan to use Labels');
+    }
   }
 
   async getWorkspacePosts(workspaceId: string, dto: GetWorkspacePostsDto) {
-    const { page, limit, status, contentType, search } = dto;
+    const { page, limit, status, contentType, search, labelIds } = dto;
 
     const where = {
       workspaceId,
@@ -125,6 +150,7 @@ export class PostService {
       ...(search && {
         content: { contains: search, mode: QueryMode.insensitive },
       }),
+      ...(labelIds?.length && { labels: { some: { id: { in: labelIds } } } }),
     };
 
     const [items, total] = await this.prisma.$transaction([
@@ -180,6 +206,7 @@ export class PostService {
           },
 
           campaign: true,
+          labels: { select: { id: true, name: true, color: true } },
         },
         orderBy: { createdAt: 'desc' },
         skip: (page - 1) * limit,
@@ -226,31 +253,43 @@ export class PostService {
       finalScheduledAt: Date | null;
     }> = [];
 
-    // If using auto-schedule, fetch N slots at once
-    const autoScheduleCount = dto.posts.filter((p) => p.isAutoSchedule).length;
+    // If using auto-schedule, fetch slots once per queue category
+    const autoSlots = new Map<CreatePostDto, Date>();
+    const byCategory = new Map<string | null, CreatePostDto[]>();
+    for (const p of dto.posts.filter((p) => p.isAutoSchedule)) {
+      const key = p.queueCategory ?? null;
+      byCategory.set(key, [...(byCategory.get(key) ?? []), p]);
+    }
 
-    let availableSlots: Date[] = [];
-    if (autoScheduleCount > 0) {
-      availableSlots = await this.queueService.getNextAvailableSlots(
+    const reserved: Date[] = [];
+    for (const [category, group] of byCategory) {
+      const slots = await this.queueService.getNextAvailableSlots(
         workspaceId,
-        autoScheduleCount,
+        group.length,
+        undefined,
+        { category, reserved },
       );
 
       // If queue can't provide enough slots, fail (don’t silently schedule "now")
-      if (availableSlots.length < autoScheduleCount) {
+      if (slots.length < group.length) {
         throw new BadRequestException(
-          `Queue is full: requested ${autoScheduleCount} auto-slots but only got ${availableSlots.length}.`,
+          `Queue is full: requested ${group.length} auto-slots${category ? ` for "${category}"` : ''} but only got ${slots.length}.`,
         );
       }
+      group.forEach((p, i) => autoSlots.set(p, slots[i]));
+      reserved.push(...slots);
     }
 
-    let slotIndex = 0;
+    await this.labels.assertInWorkspace(
+      workspaceId,
+      dto.posts.flatMap((p) => p.labelIds ?? []),
+    );
 
     for (const postDto of dto.posts) {
      const { finalScheduledAt, status } = await this.resolvePostSchedule(
     workspaceId, 
     postDto, 
-    postDto.isAutoSchedule ? availableSlots[slotIndex++] : undefined
+    autoSlots.get(postDto)
   );
 
       const payloads = await this.destinationBuilder.preparePayloads(
@@ -288,12 +327,15 @@ export class PostService {
 
         // B) Save destinations for master
         await this.destinationBuilder.saveDestinations(tx, post.id, payloads);
+        await this.links.shortenPostLinks(tx, post.id);
+        await this.revisions.record(tx, post.id, {
+          reason: 'CREATED',
+          authorId: user.userId,
+        });
 
         // C) Create approval record if needed
         if (currentDto.needsApproval) {
-          await tx.postApproval.create({
-            data: { postId: post.id, requesterId: user.id, status: 'PENDING' },
-          });
+          await this.createApproval(tx, workspaceId, post.id, user.userId);
         }
 
         created.push(post);
@@ -363,10 +405,23 @@ export class PostService {
     return masterPosts;
   }
 
-  async updatePost(workspaceId: string, postId: string, dto: UpdatePostDto) {
+  async updatePost(
+    workspaceId: string,
+    postId: string,
+    dto: UpdatePostDto,
+    userId?: string,
+  ) {
     const existing = await this.prisma.post.findFirst({
       where: { id: postId, workspaceId },
-      select: { id: true, status: true, scheduledAt: true, parentPostId: true },
+      select: {
+        id: true,
+        status: true,
+        scheduledAt: true,
+        parentPostId: true,
+        queueCategory: true,
+        contentType: true,
+        destinations: { select: { profile: { select: { platform: true } } } },
+      },
     });
 
     if (!existing) throw new NotFoundException('Post not found');
@@ -374,32 +429,76 @@ export class PostService {
       throw new BadRequestException('Cannot edit a post in progress.');
     }
 
+    // A draft (e.g. one sent back by a reviewer) is resubmitted with needsApproval
+    const resubmit = existing.status === 'DRAFT' && dto.needsApproval === true;
+
 const { finalScheduledAt, status } = await this.resolvePostSchedule(workspaceId, {
     ...dto,
-    needsApproval: existing.status === 'PENDING_APPROVAL'
+    queueCategory:
+      dto.queueCategory === undefined ? existing.queueCategory : dto.queueCategory,
+    needsApproval: existing.status === 'PENDING_APPROVAL' || resubmit
   });
   
+    const firstComments = await this.resolveFirstCommentUpdate(postId, dto);
+    await this.labels.assertInWorkspace(workspaceId, dto.labelIds);
+
+    if (dto.poll) {
+      if (existing.contentType !== 'POLL') {
+        throw new BadRequestException('Only poll posts can have a poll.');
+      }
+      this.destinationBuilder.validatePollFor(
+        dto.poll,
+        existing.destinations.map((d) => d.profile.platform),
+      );
+    }
+
 
     const updated = await this.prisma.$transaction(async (tx) => {
+      await this.revisions.ensureBaseline(tx, postId);
+
       const post = await tx.post.update({
         where: { id: postId },
         data: {
           content: dto.content ?? undefined,
+          firstComment: dto.firstComment,
           scheduledAt: finalScheduledAt,
           status,
+          queueCategory: dto.queueCategory,
+          ...(dto.poll && { poll: toPollJson(dto.poll) }),
+          ...(dto.documentTitle !== undefined && {
+            documentTitle: dto.documentTitle.trim() || null,
+          }),
+          ...(dto.labelIds && {
+            labels: { set: dto.labelIds.map((id) => ({ id })) },
+          }),
         } as any,
       });
 
+      if (resubmit) {
+        await this.createApproval(tx, workspaceId, postId, userId!);
+      }
+
+      for (const dest of firstComments) {
+        await tx.postDestination.update({
+          where: { id: dest.id },
+          data: { firstComment: dest.firstComment },
+        });
+      }
+
       // Media updates...
       if (dto.mediaIds) {
         await tx.postMedia.deleteMany({ where: { postId } as any });
         await tx.postMedia.createMany({
-          data: dto.mediaIds.map((mid, idx) => ({
-            postId,
-            mediaFileId: mid,
-            order: idx,
-          })),
+          data: buildPostMediaRows(postId, dto.mediaIds, dto.mediaAltTexts),
         });
+      } else if (dto.mediaAltTexts) {
+        // Alt text only: the attached media stay as they are
+        for (const { mediaId, altText } of dto.mediaAltTexts) {
+          await tx.postMedia.updateMany({
+            where: { postId, mediaFileId: mediaId },
+            data: { altText: altText.trim() },
+          });
+        }
       }
 
       // Sync children schedule
@@ -410,6 +509,11 @@ const { finalScheduledAt, status } = await this.resolvePostSchedule(workspaceId,
         });
       }
 
+      await this.revisions.record(tx, postId, {
+        reason: 'UPDATED',
+        authorId: userId,
+      });
+
       return post;
     });
 
@@ -441,7 +545,12 @@ const { finalScheduledAt, status } = await this.resolvePostSchedule(workspaceId,
     });
   }
 
-  async editPublishedPost(workspaceId: string, postId: string, newContent: string) {
+  async editPublishedPost(
+    workspaceId: string,
+    postId: string,
+    newContent: string,
+    userId?: string,
+  ) {
     const post = await this.prisma.post.findFirst({
       where: { id: postId, workspaceId },
       include: {
@@ -456,6 +565,10 @@ const { finalScheduledAt, status } = await this.resolvePostSchedule(workspaceId,
       throw new BadRequestException('You can only edit posts that have already been published.');
     }
 
+    await this.prisma.$transaction((tx) =>
+      this.revisions.ensureBaseline(tx, postId),
+    );
+
     const results = { success: [] as string[], errors: [] as any[] };
     let dbUpdated = false;
 
@@ -492,9 +605,15 @@ const { finalScheduledAt, status } = await this.resolvePostSchedule(workspaceId,
 
     // Update the master post content if at least one edit succeeded
     if (dbUpdated) {
-      await this.prisma.post.update({
-        where: { id: postId },
-        data: { content: newContent },
+      await this.prisma.$transaction(async (tx) => {
+        await tx.post.update({
+          where: { id: postId },
+          data: { content: newContent },
+        });
+        await this.revisions.record(tx, postId, {
+          reason: 'PUBLISHED_EDIT',
+          authorId: userId,
+        });
       });
     }
 
@@ -602,6 +721,10 @@ const { finalScheduledAt, status } = await this.resolvePostSchedule(workspaceId,
           },
         },
         parentPost: true,
+        recurrenceId: true,
+        recurrenceRule: {
+          select: { id: true, type: true, isActive: true, nextRunAt: true },
+        },
       },
     });
 
@@ -629,12 +752,20 @@ const { finalScheduledAt, status } = await this.resolvePostSchedule(workspaceId,
   async getPendingApprovals(
     workspaceId: string,
     pagination: { page: number; limit: number },
+    reviewerId?: string,
   ) {
     const { page, limit } = pagination;
 
-    const where = {
+    const where: Prisma.PostApprovalWhereInput = {
       post: { workspaceId },
       status: 'PENDING' as const,
+      // Steps this user can review (open approvals have no reviewer list)
+      ...(reviewerId && {
+        OR: [
+          { eligibleUserIds: { has: reviewerId } },
+          { eligibleUserIds: { isEmpty: true } },
+        ],
+      }),
     };
 
     const [items, total] = await this.prisma.$transaction([
@@ -655,6 +786,14 @@ const { finalScheduledAt, status } = await this.resolvePostSchedule(workspaceId,
               email: true,
             },
           },
+          decisions: {
+            select: {
+              userId: true,
+              status: true,
+              notes: true,
+              createdAt: true,
+            },
+          },
         },
         orderBy: { requestedAt: 'asc' },
         skip: (page - 1) * limit,
@@ -677,12 +816,52 @@ const { finalScheduledAt, status } = await this.resolvePostSchedule(workspaceId,
 
   // Approve or Reject (The Decision)
   async reviewApproval(
-    approver: User,
+    userId: string,
+    workspaceId: string,
+    approvalId: string,
+    status: 'APPROVED' | 'REJECTED',
+    notes?: string,
+  ) {
+    const approval = await this.findPendingApproval(workspaceId, approvalId);
+
+    return this.settleApproval(workspaceId, approval, notes, (tx) =>
+      this.approvalWorkflow.decide(
+        tx,
+        workspaceId,
+        approval,
+        userId,
+        status,
+        notes,
+      ),
+    );
+  }
+
+  /**
+   * A client's decision from an approval share link. Same approval records
+   * and outcomes as a member's review.
+   */
+  async reviewApprovalExternally(
     workspaceId: string,
     approvalId: string,
+    reviewer: { shareLinkId: string; name: string },
     status: 'APPROVED' | 'REJECTED',
     notes?: string,
   ) {
+    const approval = await this.findPendingApproval(workspaceId, approvalId);
+
+    return this.settleApproval(workspaceId, approval, notes, (tx) =>
+      this.approvalWorkflow.decideExternal(
+        tx,
+        workspaceId,
+        approval,
+        reviewer,
+        status,
+        notes,
+      ),
+    );
+  }
+
+  private async findPendingApproval(workspaceId: string, approvalId: string) {
     // 1. Fetch & Validate
     const approval = await this.prisma.postApproval.findFirst({
       where: { id: approvalId, post: { workspaceId } },
@@ -693,69 +872,102 @@ const { finalScheduledAt, status } = await this.resolvePostSchedule(workspaceId,
     if (approval.status !== 'PENDING')
       throw new BadRequestException('Already reviewed');
 
-    const post = approval.post;
-    let finalScheduledAt = post.scheduledAt;
+    return approval;
+  }
 
-    // 2. Logic for Approval: Handle Stale Time
-    if (status === 'APPROVED') {
-      const isPast =
-        finalScheduledAt && finalScheduledAt.getTime() < Date.now();
-      const isMissing = !finalScheduledAt; // Case where post was created as auto-schedule but date wasn't set yet
+  private async settleApproval(
+    workspaceId: string,
+    approval: {
+      id: string;
+      post: {
+        id: string;
+        scheduledAt: Date | null;
+        queueCategory: string | null;
+      };
+    },
+    notes: string | undefined,
+    decide: (tx: Prisma.TransactionClient) => Promise<ApprovalOutcome>,
+  ) {
+    const post = approval.post;
 
-      if (isPast || isMissing) {
-        // Call the internal queue engine to find the next valid spot
-        const slots = await this.queueService.getNextAvailableSlots(
-          workspaceId,
-          1,
-        );
+    // 2. Database Transaction: record the decision and move the chain along
+    let outcome = 'WAITING' as ApprovalOutcome;
+    const result = await this.prisma.$transaction(async (tx) => {
+      outcome = await decide(tx);
 
-        if (slots.length > 0) {
-          finalScheduledAt = slots[0];
-        } else if (isMissing) {
-          // If it's missing a date and no slots exist, we have a problem
-          throw new BadRequestException(
-            'No available queue slots to schedule this post.',
-          );
-        } else {
-          // If it was just stale but no slots found, fallback to 'Now'
-          finalScheduledAt = new Date();
-        }
+      // Earlier steps (or other reviewers on an "all" step) leave the post in review
+      if (outcome === 'WAITING' || outcome === 'NEXT_STEP') {
+        return tx.post.findUniqueOrThrow({ where: { id: post.id } });
       }
-    }
-    // 3. Database Transaction
-    const result = await this.prisma.$transaction(async (tx) => {
-      // Update Approval Record
-      await tx.postApproval.update({
-        where: { id: approvalId },
-        data: {
-          status,
-          approverId: approver.id,
-          reviewedAt: new Date(),
-          notes,
-        },
-      });
 
       // Update Post
       return await tx.post.update({
         where: { id: post.id },
         data: {
-          status: status === 'APPROVED' ? 'SCHEDULED' : 'DRAFT',
+          status: outcome === 'APPROVED' ? 'SCHEDULED' : 'DRAFT',
           scheduledAt:
-            status === 'APPROVED' ? finalScheduledAt : post.scheduledAt,
+            outcome === 'APPROVED'
+              ? await this.resolveApprovedSchedule(
+                  workspaceId,
+                  post.scheduledAt,
+                  post.queueCategory,
+                )
+              : post.scheduledAt,
         },
       });
     });
 
-    // 4. Queue Sync (Outside Transaction)
+    // 3. Queue Sync (Outside Transaction)
     if (result.status === 'SCHEDULED' && result.scheduledAt) {
       await this.schedulePostJob(result.id, result.scheduledAt);
     } else {
       await this.removePostJob(result.id);
     }
 
+    if (outcome === 'REJECTED') {
+      await this.approvalWorkflow.emitDeclined(workspaceId, post.id, {
+        approvalId: approval.id,
+        reason: notes,
+      });
+    }
+
     return result;
   }
 
+  /**
+   * Handle Stale Time: a post approved after its slot passed (or created as
+   * auto-schedule without one) takes the next queue slot.
+   */
+  private async resolveApprovedSchedule(
+    workspaceId: string,
+    scheduledAt: Date | null,
+    queueCategory: string | null,
+  ) {
+    const isPast = scheduledAt && scheduledAt.getTime() < Date.now();
+    const isMissing = !scheduledAt;
+    if (!isPast && !isMissing) return scheduledAt;
+
+    // Call the internal queue engine to find the next valid spot
+    const slots = await this.queueService.getNextAvailableSlots(
+      workspaceId,
+      1,
+      undefined,
+      { category: queueCategory },
+    );
+
+    if (slots.length > 0) return slots[0];
+
+    if (isMissing) {
+      // If it's missing a date and no slots exist, we have a problem
+      throw new BadRequestException(
+        'No available queue slots to schedule this post.',
+      );
+    }
+
+    // If it was just stale but no slots found, fallback to 'Now'
+    return new Date();
+  }
+
   //  DELETE: Cancel a Request
   async cancelApprovalRequest(
     userId: string,
@@ -798,6 +1010,8 @@ const { finalScheduledAt, status } = await this.resolvePostSchedule(workspaceId,
       const slots = await this.queueService.getNextAvailableSlots(
         workspaceId,
         1,
+        undefined,
+        { category: dto.queueCategory ?? null },
       );
 
       if (!slots || slots.length === 0) {
@@ -825,14 +1039,60 @@ const { finalScheduledAt, status } = await this.resolvePostSchedule(workspaceId,
     return { finalScheduledAt, status };
   }
 
+  /**
+   * Re-resolves destination first comments when the master value or a
+   * profile override changes. Destinations without a new override get the
+   * new master value.
+   */
+  private async resolveFirstCommentUpdate(postId: string, dto: UpdatePostDto) {
+    const overrides = (dto.overrides ?? []).filter(
+      (o) => o.firstComment !== undefined,
+    );
+    if (dto.firstComment === undefined && !overrides.length) return [];
+
+    const post = await this.prisma.post.findUnique({
+      where: { id: postId },
+      select: {
+        firstComment: true,
+        contentType: true,
+        destinations: {
+          select: {
+            id: true,
+            profile: { select: { id: true, platform: true } },
+          },
+        },
+      },
+    });
+    if (!post) return [];
+
+    const input = {
+      firstComment: dto.firstComment ?? post.firstComment ?? undefined,
+      overrides,
+      contentType: dto.contentType ?? post.contentType,
+    };
+
+    return post.destinations
+      .filter(
+        (d) =>
+          dto.firstComment !== undefined ||
+          overrides.some((o) => o.socialProfileId === d.profile.id),
+      )
+      .map((d) => ({
+        id: d.id,
+        firstComment: this.destinationBuilder.resolveFirstComment(
+          input,
+          d.profile,
+        ),
+      }));
+  }
+
   private async createApproval(
     tx: Prisma.TransactionClient,
+    workspaceId: string,
     postId: string,
     userId: string,
   ) {
-    await tx.postApproval.create({
-      data: { postId, requesterId: userId, status: 'PENDING' },
-    });
+    await this.approvalWorkflow.start(tx, workspaceId, postId, userId);
   }
 
   private async schedulePostJob(postId: string, scheduledAt: Date) {
@@ -884,7 +1144,7 @@ const { finalScheduledAt, status } = await this.resolvePostSchedule(workspaceId,
 
   private async resolvePostSchedule(
   workspaceId: string,
-  dto: { isAutoSchedule?: boolean; scheduledAt?: string | Date | null; timezone?: string | null; needsApproval?: boolean },
+  dto: { isAutoSchedule?: boolean; scheduledAt?: string | Date | null; timezone?: string | null; needsApproval?: boolean; queueCategory?: string | null },
   providedAutoSlot?: Date // Used by bulk to pass in pre-fetched slots
 ) {
   let finalScheduledAt: Date | null = null;
@@ -894,7 +1154,9 @@ const { finalScheduledAt, status } = await this.resolvePostSchedule(workspaceId,
     if (providedAutoSlot) {
       finalScheduledAt = providedAutoSlot;
     } else {
-      const slots = await this.queueService.getNextAvailableSlots(workspaceId, 1);
+      const slots = await this.queueService.getNextAvailableSlots(workspaceId, 1, undefined, {
+        category: dto.queueCategory ?? null,
+      });
       if (!slots?.length) throw new BadRequestException('No available queue slots.');
       finalScheduledAt = slots[0];
     }
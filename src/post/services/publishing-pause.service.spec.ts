@@ -0,0 +1,122 @@
+import { BadRequestException } from '@nestjs/common';
+import { PublishingPauseService } from './publishing-pause.service';
+
+describe('PublishingPauseService', () => {
+  const prisma = {
+    socialProfile: { findFirst: jest.fn() },
+    publishingPause: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    postDestination: { findMany: jest.fn(), updateMany: jest.fn() },
+  };
+  const queueService = { rebuildQueue: jest.fn() };
+  const destinations = { cancel: jest.fn() };
+  const emitter = { emitToWorkspace: jest.fn() };
+  const publishingQueue = { getJob: jest.fn(), add: jest.fn() };
+
+  const service = new PublishingPauseService(
+    prisma as any,
+    queueService as any,
+    destinations as any,
+    emitter as any,
+    publishingQueue as any,
+  );
+
+  const pause = {
+    id: 'pause1',
+    workspaceId: 'ws1',
+    socialProfileId: null,
+    resumedAt: null,
+  };
+  const calls: string[] = [];
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    calls.length = 0;
+    prisma.publishingPause.findFirst.mockResolvedValue(pause);
+    prisma.publishingPause.update.mockImplementation(async () => {
+      calls.push('close');
+    });
+    prisma.postDestination.findMany.mockResolvedValue([
+      { id: 'd1', postId: 'post1' },
+      { id: 'd2', postId: 'post1' },
+      { id: 'd3', postId: 'post2' },
+    ]);
+  });
+
+  it('refuses a second pause while the workspace is paused', async () => {
+    prisma.publishingPause.findMany.mockResolvedValue([
+      { socialProfileId: null },
+    ]);
+
+    await expect(
+      service.pause('u1', 'ws1', { reason: 'Incident' }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.publishingPause.create).not.toHaveBeenCalled();
+  });
+
+  it('lifts the pause before publishing the backlog', async () => {
+    publishingQueue.add.mockImplementation(async () => {
+      calls.push('enqueue');
+    });
+
+    const result = await service.resume('u1', 'ws1', 'pause1', {
+      action: 'PUBLISH',
+    });
+
+    expect(calls).toEqual(['close', 'enqueue', 'enqueue']);
+    expect(publishingQueue.add).toHaveBeenCalledWith(
+      'publish-post',
+      { postId: 'post1' },
+      expect.objectContaining({ jobId: 'post1' }),
+    );
+    expect(prisma.postDestination.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['d1', 'd2', 'd3'] } },
+      data: { heldAt: null },
+    });
+    expect(result).toMatchObject({ action: 'PUBLISH', published: 2 });
+  });
+
+  it('reschedules the held posts through the queue before lifting', async () => {
+    queueService.rebuildQueue.mockImplementation(async () => {
+      calls.push('rebuild');
+      return { scheduled: [{ postId: 'post1' }], skipped: ['post2'] };
+    });
+
+    const result = await service.resume('u1', 'ws1', 'pause1', {
+      action: 'RESCHEDULE',
+    });
+
+    expect(queueService.rebuildQueue).toHaveBeenCalledWith(
+      'ws1',
+      {},
+      { postIds: ['post1', 'post2'] },
+    );
+    expect(calls).toEqual(['rebuild', 'close']);
+    expect(result).toMatchObject({ leftAsDraft: ['post2'] });
+  });
+
+  it('keeps the pause when the queue has no room', async () => {
+    queueService.rebuildQueue.mockRejectedValue(
+      new BadRequestException('Queue is full for the next 30 days'),
+    );
+
+    await expect(
+      service.resume('u1', 'ws1', 'pause1', { action: 'RESCHEDULE' }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.publishingPause.update).not.toHaveBeenCalled();
+  });
+
+  it('drops the backlog by cancelling each held destination', async () => {
+    const result = await service.resume('u1', 'ws1', 'pause1', {
+      action: 'DROP',
+    });
+
+    expect(destinations.cancel).toHaveBeenCalledTimes(3);
+    expect(destinations.cancel).toHaveBeenCalledWith('ws1', 'post2', 'd3');
+    expect(result).toMatchObject({ dropped: 3 });
+  });
+});
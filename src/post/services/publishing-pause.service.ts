@@ -0,0 +1,302 @@
+import { PrismaService } from '@/prisma/prisma.service';
+import { QueueSlotService } from '@/queue/queue.service';
+import { RealtimeEmitterService } from '@/events/realtime-emitter.service';
+import { Prisma } from '@generated/client';
+import { PauseResolution } from '@generated/enums';
+import { InjectQueue } from '@nestjs/bullmq';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Queue } from 'bullmq';
+import {
+  PausePublishingDto,
+  ResumePublishingDto,
+} from '../dto/request/publishing-pause.dto';
+import { PostDestinationService } from './post-destination.service';
+
+type ActivePause = {
+  id: string;
+  workspaceId: string;
+  socialProfileId: string | null;
+};
+
+const PAUSE_INCLUDE = {
+  socialProfile: { select: { id: true, name: true, platform: true } },
+  pausedBy: { select: { id: true, firstName: true, lastName: true } },
+} as const satisfies Prisma.PublishingPauseInclude;
+
+/**
+ * Crisis mode. Pausing is a single row the publish worker checks before each
+ * destination, so it takes effect on the next job without touching the queue.
+ * Jobs that come due while paused mark their destinations held; resuming
+ * decides what happens to them.
+ */
+@Injectable()
+export class PublishingPauseService {
+  private readonly logger = new Logger(PublishingPauseService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly queueService: QueueSlotService,
+    private readonly destinations: PostDestinationService,
+    private readonly emitter: RealtimeEmitterService,
+    @InjectQueue('publishing-queue') private readonly publishingQueue: Queue,
+  ) {}
+
+  /** Active pauses, each with the size of its backlog so far. */
+  async getStatus(workspaceId: string) {
+    const pauses = await this.prisma.publishingPause.findMany({
+      where: { workspaceId, resumedAt: null },
+      orderBy: { pausedAt: 'asc' },
+      include: PAUSE_INCLUDE,
+    });
+
+    const data = await Promise.all(
+      pauses.map(async (pause) => ({
+        ...pause,
+        heldPosts: await this.prisma.post.count({
+          where: {
+            destinations: { some: this.backlogWhere(pause, new Date()) },
+          },
+        }),
+      })),
+    );
+
+    return {
+      paused: pauses.length > 0,
+      workspacePaused: pauses.some((p) => !p.socialProfileId),
+      pauses: data,
+    };
+  }
+
+  async pause(userId: string, workspaceId: string, dto: PausePublishingDto) {
+    if (dto.socialProfileId) {
+      const profile = await this.prisma.socialProfile.findFirst({
+        where: { id: dto.socialProfileId, workspaceId },
+        select: { id: true },
+      });
+      if (!profile) throw new NotFoundException('Social profile not found');
+    }
+
+    const active = await this.prisma.publishingPause.findMany({
+      where: { workspaceId, resumedAt: null },
+      select: { socialProfileId: true },
+    });
+    if (active.some((p) => !p.socialProfileId)) {
+      throw new BadRequestException(
+        'Publishing is already paused for the whole workspace.',
+      );
+    }
+    if (
+      dto.socialProfileId &&
+      active.some((p) => p.socialProfileId === dto.socialProfileId)
+    ) {
+      throw new BadRequestException(
+        'Publishing is already paused for this profile.',
+      );
+    }
+
+    const pause = await this.prisma.publishingPause.create({
+      data: {
+        workspaceId,
+        socialProfileId: dto.socialProfileId ?? null,
+        reason: dto.reason?.trim() || null,
+        pausedById: userId,
+      },
+      include: PAUSE_INCLUDE,
+    });
+
+    this.emitter.emitToWorkspace(workspaceId, 'publishing.paused', pause);
+    return pause;
+  }
+
+  /** Posts held (or already due) under this pause, oldest first. */
+  async getBacklog(workspaceId: string, pauseId: string) {
+    const pause = await this.findActive(workspaceId, pauseId);
+    const where = this.backlogWhere(pause, new Date());
+
+    const posts = await this.prisma.post.findMany({
+      where: { destinations: { some: where } },
+      orderBy: { scheduledAt: 'asc' },
+      select: {
+        id: true,
+        content: true,
+        status: true,
+        scheduledAt: true,
+        timezone: true,
+        destinations: {
+          where,
+          select: {
+            id: true,
+            heldAt: true,
+            profile: { select: { id: true, name: true, platform: true } },
+          },
+        },
+      },
+    });
+
+    return {
+      pause,
+      count: posts.length,
+      posts: posts.map((p) => ({
+        ...p,
+        content: (p.content ?? '').slice(0, 140),
+      })),
+    };
+  }
+
+  /**
+   * Ends the pause and settles the backlog:
+   * - PUBLISH: a fresh publish job per post, running now
+   * - RESCHEDULE: QueueSlotService.rebuildQueue over exactly these posts
+   * - DROP: the held destinations are cancelled
+   */
+  async resume(
+    userId: string,
+    workspaceId: string,
+    pauseId: string,
+    dto: ResumePublishingDto,
+  ) {
+    const pause = await this.findActive(workspaceId, pauseId);
+
+    const backlog = await this.prisma.postDestination.findMany({
+      where: this.backlogWhere(pause, new Date()),
+      select: { id: true, postId: true },
+    });
+    const destinationIds = backlog.map((d) => d.id);
+    const postIds = [...new Set(backlog.map((d) => d.postId))];
+
+    let result: Record<string, unknown> = {};
+
+    switch (dto.action) {
+      case 'RESCHEDULE': {
+        // Replan before lifting the pause; if the queue is full the pause stays
+        if (postIds.length) {
+          const plan = await this.queueService.rebuildQueue(
+            workspaceId,
+            {},
+            { postIds },
+          );
+          result = { rescheduled: plan.scheduled, leftAsDraft: plan.skipped };
+        }
+        await this.clearHeld(destinationIds);
+        await this.close(pause, userId, dto.action);
+        break;
+      }
+
+      case 'PUBLISH': {
+        // Lift first, or the worker would hold them again
+        await this.close(pause, userId, dto.action);
+        await this.clearHeld(destinationIds);
+        for (const postId of postIds) await this.publishNow(postId);
+        result = { published: postIds.length };
+        break;
+      }
+
+      case 'DROP': {
+        await this.close(pause, userId, dto.action);
+        let dropped = 0;
+        for (const dest of backlog) {
+          try {
+            await this.destinations.cancel(workspaceId, dest.postId, dest.id);
+            dropped++;
+          } catch (err: any) {
+            this.logger.warn(
+              `Could not drop destination ${dest.id}: ${err?.message}`,
+            );
+          }
+        }
+        await this.clearHeld(destinationIds);
+        result = { dropped };
+        break;
+      }
+    }
+
+    this.emitter.emitToWorkspace(workspaceId, 'publishing.resumed', {
+      pauseId: pause.id,
+      socialProfileId: pause.socialProfileId,
+      action: dto.action,
+    });
+
+    return { action: dto.action, posts: postIds.length, ...result };
+  }
+
+  // =========================================================
+  // Internal
+  // =========================================================
+
+  private async findActive(workspaceId: string, pauseId: string) {
+    const pause = await this.prisma.publishingPause.findFirst({
+      where: { id: pauseId, workspaceId },
+      include: PAUSE_INCLUDE,
+    });
+    if (!pause) throw new NotFoundException('Pause not found');
+    if (pause.resumedAt) {
+      throw new BadRequestException('This pause has already been lifted.');
+    }
+    return pause;
+  }
+
+  /**
+   * Destinations in the pause's scope that were held by the worker, or are
+   * due and simply haven't been picked up yet. Future posts aren't backlog;
+   * their jobs run as normal once the pause is lifted.
+   */
+  private backlogWhere(
+    pause: ActivePause,
+    now: Date,
+  ): Prisma.PostDestinationWhereInput {
+    return {
+      status: 'SCHEDULED',
+      ...(pause.socialProfileId && { socialProfileId: pause.socialProfileId }),
+      post: {
+        workspaceId: pause.workspaceId,
+        parentPostId: null,
+        status: { in: ['SCHEDULED', 'PUBLISHING'] },
+      },
+      OR: [{ heldAt: { not: null } }, { post: { scheduledAt: { lte: now } } }],
+    };
+  }
+
+  private async close(
+    pause: ActivePause,
+    userId: string,
+    resolution: PauseResolution,
+  ) {
+    await this.prisma.publishingPause.update({
+      where: { id: pause.id },
+      data: { resumedAt: new Date(), resumedById: userId, resolution },
+    });
+  }
+
+  private async clearHeld(destinationIds: string[]) {
+    if (!destinationIds.length) return;
+    await this.prisma.postDestination.updateMany({
+      where: { id: { in: destinationIds } },
+      data: { heldAt: null },
+    });
+  }
+
+  private async publishNow(postId: string) {
+    const existing = await this.publishingQueue.getJob(postId);
+    if (existing) {
+      await existing
+        .remove()
+        .catch(() => this.logger.warn(`Job ${postId} is running; skipped`));
+    }
+
+    await this.publishingQueue.add(
+      'publish-post',
+      { postId },
+      {
+        jobId: postId,
+        removeOnComplete: true,
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 5000 },
+      },
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { Platform, ScheduleSource } from '@generated/enums';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class CreatePostingScheduleDto {
+  @ApiProperty({ enum: Platform, example: 'LINKEDIN' })
+  @IsEnum(Platform)
+  platform: Platform;
+
+  @ApiPropertyOptional({
+    description:
+      'IANA timezone the optimal times and excluded dates are expressed in.',
+    example: 'Africa/Lagos',
+    default: 'UTC',
+  })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
+  @ApiProperty({
+    description:
+      'Posting times per weekday. Values are hours (0-23) or "HH:mm" strings.',
+    example: { monday: [9, 14], tuesday: ['10:30'], friday: [16] },
+  })
+  @IsObject()
+  optimalTimes: Record<string, Array<number | string>>;
+
+  @ApiPropertyOptional({
+    description: 'Dates (YYYY-MM-DD) on which nothing is auto-scheduled.',
+    example: ['2026-12-25', '2027-01-01'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    each: true,
+    message: 'excludedDates must be YYYY-MM-DD',
+  })
+  excludedDates?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Maximum auto-scheduled posts per day for this platform.',
+    example: 3,
+    minimum: 1,
+    maximum: 50,
+    default: 5,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  maxPostsPerDay?: number;
+
+  @ApiPropertyOptional({ enum: ScheduleSource, default: ScheduleSource.MANUAL })
+  @IsOptional()
+  @IsEnum(ScheduleSource)
+  source?: ScheduleSource;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -1,6 +1,8 @@
 import { Platform } from "@generated/enums";
 import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
-import { IsInt, Min, Max, IsString, Matches, IsOptional, IsEnum, IsBoolean } from "class-validator";
+import { IsInt, Min, Max, IsString, Matches, IsOptional, IsEnum, IsBoolean, MaxLength } from "class-validator";
+import { Transform } from "class-transformer";
+import { normalizeQueueCategory } from "../queue-category.util";
 
 export class CreateQueueSlotDto {
   @ApiProperty({
@@ -32,4 +34,15 @@ export class CreateQueueSlotDto {
   @IsOptional()
   @IsEnum(Platform)
   platform?: Platform;
+
+  @ApiPropertyOptional({
+    description:
+      'Optional content category. If set, only posts with the same queueCategory fill this slot. If omitted, any post can.',
+    example: 'tips',
+  })
+  @IsOptional()
+  @Transform(({ value }) => normalizeQueueCategory(value))
+  @IsString()
+  @MaxLength(40)
+  category?: string;
 }
\ No newline at end of file
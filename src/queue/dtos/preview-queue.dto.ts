@@ -1,6 +1,8 @@
 import { Platform } from "@generated/enums";
 import { ApiPropertyOptional } from "@nestjs/swagger";
-import { IsOptional, IsEnum, IsISO8601, IsInt, Min, Max } from "class-validator";
+import { IsOptional, IsEnum, IsISO8601, IsInt, Min, Max, IsString, MaxLength } from "class-validator";
+import { Transform } from "class-transformer";
+import { normalizeQueueCategory } from "../queue-category.util";
 
 export class PreviewQueueDto {
   @ApiPropertyOptional({
@@ -12,6 +14,17 @@ export class PreviewQueueDto {
   @IsEnum(Platform)
   platform?: Platform;
 
+  @ApiPropertyOptional({
+    description:
+      'Only preview slots a post of this category could take (its own slots and uncategorised ones). If omitted, every slot is previewed.',
+    example: 'tips',
+  })
+  @IsOptional()
+  @Transform(({ value }) => normalizeQueueCategory(value))
+  @IsString()
+  @MaxLength(40)
+  category?: string;
+
   @ApiPropertyOptional({
     description:
       'Starting point for preview in ISO-8601. If omitted, uses current time. Optionally specify a "from" time to find the next slot after that time instead of now.',
@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreatePostingScheduleDto } from './create-posting-schedule.dto';
+
+export class UpdatePostingScheduleDto extends PartialType(
+  OmitType(CreatePostingScheduleDto, ['platform'] as const),
+) {}
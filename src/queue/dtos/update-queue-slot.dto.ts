@@ -1,6 +1,8 @@
 import { Platform } from "@generated/enums";
 import { ApiPropertyOptional } from "@nestjs/swagger";
-import { IsOptional, IsInt, Min, Max, IsString, Matches, IsEnum, IsBoolean } from "class-validator";
+import { IsOptional, IsInt, Min, Max, IsString, Matches, IsEnum, IsBoolean, MaxLength } from "class-validator";
+import { Transform } from "class-transformer";
+import { normalizeQueueCategory } from "../queue-category.util";
 
 export class UpdateQueueSlotDto {
   @ApiPropertyOptional({
@@ -35,6 +37,18 @@ export class UpdateQueueSlotDto {
   @IsEnum(Platform)
   platform?: Platform;
 
+  @ApiPropertyOptional({
+    description:
+      'Content category this slot is reserved for. Send null or an empty string to open it to any post.',
+    example: 'promo',
+    nullable: true,
+  })
+  @IsOptional()
+  @Transform(({ value }) => normalizeQueueCategory(value))
+  @IsString()
+  @MaxLength(40)
+  category?: string | null;
+
   @ApiPropertyOptional({
     description: 'How many posts can be scheduled at this exact slot time.',
     example: 2,
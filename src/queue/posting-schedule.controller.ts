@@ -0,0 +1,94 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ContextGuard } from '@/common/guards/context.guard';
+import { PermissionsGuard } from '@/common/guards/permission.guard';
+import { FeatureGuard } from '@/common/guards/feature.guard';
+import { RequireFeature } from '@/common/decorators/require-feature.decorator';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { PermissionAction, PermissionResource } from '@generated/enums';
+import { PostingScheduleService } from './posting-schedule.service';
+import { CreatePostingScheduleDto } from './dtos/create-posting-schedule.dto';
+import { UpdatePostingScheduleDto } from './dtos/update-posting-schedule.dto';
+
+@ApiTags('Posting Schedules')
+@ApiBearerAuth()
+@UseGuards(ContextGuard, PermissionsGuard, FeatureGuard)
+@RequireFeature('queueScheduling')
+@Controller('workspaces/:workspaceId/posting-schedules')
+export class PostingScheduleController {
+  constructor(private readonly service: PostingScheduleService) {}
+
+  @Post()
+  @RequirePermission(PermissionResource.SCHEDULING, PermissionAction.MANAGE)
+  @ApiOperation({
+    summary: 'Create the posting schedule for a platform',
+    description:
+      'Schedules are shared by every workspace in the organization. The queue uses them instead of queue slots for that platform.',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiResponse({ status: 201, description: 'Posting schedule created' })
+  @ApiResponse({
+    status: 400,
+    description: 'A schedule already exists for this platform',
+  })
+  create(
+    @Param('workspaceId') workspaceId: string,
+    @Body() dto: CreatePostingScheduleDto,
+  ) {
+    return this.service.create(workspaceId, dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List posting schedules' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  list(@Param('workspaceId') workspaceId: string) {
+    return this.service.list(workspaceId);
+  }
+
+  @Get(':scheduleId')
+  @ApiOperation({ summary: 'Get one posting schedule' })
+  get(
+    @Param('workspaceId') workspaceId: string,
+    @Param('scheduleId') scheduleId: string,
+  ) {
+    return this.service.get(workspaceId, scheduleId);
+  }
+
+  @Patch(':scheduleId')
+  @RequirePermission(PermissionResource.SCHEDULING, PermissionAction.MANAGE)
+  @ApiOperation({ summary: 'Update a posting schedule' })
+  update(
+    @Param('workspaceId') workspaceId: string,
+    @Param('scheduleId') scheduleId: string,
+    @Body() dto: UpdatePostingScheduleDto,
+  ) {
+    return this.service.update(workspaceId, scheduleId, dto);
+  }
+
+  @Delete(':scheduleId')
+  @RequirePermission(PermissionResource.SCHEDULING, PermissionAction.MANAGE)
+  @ApiOperation({
+    summary: 'Delete a posting schedule (queue falls back to queue slots)',
+  })
+  remove(
+    @Param('workspaceId') workspaceId: string,
+    @Param('scheduleId') scheduleId: string,
+  ) {
+    return this.service.delete(workspaceId, scheduleId);
+  }
+}
@@ -0,0 +1,72 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { PostingScheduleService } from './posting-schedule.service';
+import { PrismaService } from '@/prisma/prisma.service';
+
+describe('PostingScheduleService', () => {
+  let service: PostingScheduleService;
+  const prisma = {
+    workspace: {
+      findUnique: jest.fn().mockResolvedValue({ organizationId: 'org_1' }),
+    },
+    postingSchedule: {
+      findUnique: jest.fn().mockResolvedValue(null),
+      create: jest.fn(({ data }) => data),
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PostingScheduleService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<PostingScheduleService>(PostingScheduleService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('expands hour numbers and HH:mm strings into weekday slots', () => {
+    const slots = service.expandOptimalTimes({
+      optimalTimes: { monday: [9, '14:30'], sunday: ['8:05'], funday: [1] },
+    });
+
+    expect(slots).toEqual([
+      { dayOfWeek: 1, time: '09:00' },
+      { dayOfWeek: 1, time: '14:30' },
+      { dayOfWeek: 7, time: '08:05' },
+    ]);
+  });
+
+  it('normalizes optimal times on create', async () => {
+    const created = await service.create('ws_1', {
+      platform: 'LINKEDIN',
+      optimalTimes: { Monday: [14, '09:00', 9] },
+      excludedDates: ['2026-12-25', '2026-12-25'],
+    });
+
+    expect(created.optimalTimes).toEqual({ monday: ['09:00', '14:00'] });
+    expect(created.excludedDates).toEqual(['2026-12-25']);
+  });
+
+  it('rejects unknown days and bad timezones', async () => {
+    await expect(
+      service.create('ws_1', {
+        platform: 'LINKEDIN',
+        optimalTimes: { someday: [9] },
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+
+    await expect(
+      service.create('ws_1', {
+        platform: 'LINKEDIN',
+        timezone: 'Mars/Olympus',
+        optimalTimes: {},
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
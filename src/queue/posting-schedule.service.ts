@@ -0,0 +1,214 @@
+import { PrismaService } from '@/prisma/prisma.service';
+import { PostingSchedule, Prisma } from '@generated/client';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { IANAZone } from 'luxon';
+import { CreatePostingScheduleDto } from './dtos/create-posting-schedule.dto';
+import { UpdatePostingScheduleDto } from './dtos/update-posting-schedule.dto';
+
+const WEEKDAYS = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+] as const;
+
+@Injectable()
+export class PostingScheduleService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // =========================================================
+  // CRUD (schedules are per organization + platform)
+  // =========================================================
+  async create(workspaceId: string, dto: CreatePostingScheduleDto) {
+    const organizationId = await this.getOrganizationId(workspaceId);
+
+    const exists = await this.prisma.postingSchedule.findUnique({
+      where: {
+        organizationId_platform: { organizationId, platform: dto.platform },
+      },
+      select: { id: true },
+    });
+    if (exists) {
+      throw new BadRequestException(
+        'A posting schedule already exists for this platform',
+      );
+    }
+
+    return this.prisma.postingSchedule.create({
+      data: {
+        organizationId,
+        platform: dto.platform,
+        timezone: this.assertTimezone(dto.timezone ?? 'UTC'),
+        optimalTimes: this.normalizeOptimalTimes(dto.optimalTimes),
+        excludedDates: this.normalizeExcludedDates(dto.excludedDates),
+        maxPostsPerDay: dto.maxPostsPerDay ?? 5,
+        source: dto.source ?? 'MANUAL',
+        isActive: dto.isActive ?? true,
+      },
+    });
+  }
+
+  async list(workspaceId: string) {
+    const organizationId = await this.getOrganizationId(workspaceId);
+    return this.prisma.postingSchedule.findMany({
+      where: { organizationId },
+      orderBy: { platform: 'asc' },
+    });
+  }
+
+  async get(workspaceId: string, scheduleId: string) {
+    const organizationId = await this.getOrganizationId(workspaceId);
+    const schedule = await this.prisma.postingSchedule.findFirst({
+      where: { id: scheduleId, organizationId },
+    });
+    if (!schedule) throw new NotFoundException('Posting schedule not found');
+    return schedule;
+  }
+
+  async update(
+    workspaceId: string,
+    scheduleId: string,
+    dto: UpdatePostingScheduleDto,
+  ) {
+    await this.get(workspaceId, scheduleId);
+
+    return this.prisma.postingSchedule.update({
+      where: { id: scheduleId },
+      data: {
+        timezone:
+          dto.timezone === undefined
+            ? undefined
+            : this.assertTimezone(dto.timezone),
+        optimalTimes:
+          dto.optimalTimes === undefined
+            ? undefined
+            : this.normalizeOptimalTimes(dto.optimalTimes),
+        excludedDates:
+          dto.excludedDates === undefined
+            ? undefined
+            : this.normalizeExcludedDates(dto.excludedDates),
+        maxPostsPerDay: dto.maxPostsPerDay,
+        source: dto.source,
+        isActive: dto.isActive,
+        lastUpdated: new Date(),
+      },
+    });
+  }
+
+  async delete(workspaceId: string, scheduleId: string) {
+    await this.get(workspaceId, scheduleId);
+    await this.prisma.postingSchedule.delete({ where: { id: scheduleId } });
+    return { ok: true };
+  }
+
+  // =========================================================
+  // Used by the queue engine
+  // =========================================================
+
+  async findActiveForWorkspace(workspaceId: string) {
+    const ws = await this.prisma.workspace.findUnique({
+      where: { id: workspaceId },
+      select: {
+        organization: {
+          select: { PostingSchedule: { where: { isActive: true } } },
+        },
+      },
+    });
+    return ws?.organization?.PostingSchedule ?? [];
+  }
+
+  /**
+   * Flattens optimalTimes into (dayOfWeek 1..7, "HH:mm") pairs.
+   * Accepts legacy hour numbers ({ monday: [9, 14] }) as well as "HH:mm".
+   */
+  expandOptimalTimes(schedule: Pick<PostingSchedule, 'optimalTimes'>) {
+    const raw = (schedule.optimalTimes ?? {}) as Record<string, unknown>;
+    const result: Array<{ dayOfWeek: number; time: string }> = [];
+
+    WEEKDAYS.forEach((day, index) => {
+      const values = raw[day];
+      if (!Array.isArray(values)) return;
+      for (const value of values) {
+        const time = this.toHHmm(value);
+        if (time) result.push({ dayOfWeek: index + 1, time });
+      }
+    });
+
+    return result;
+  }
+
+  // =========================================================
+  // Helpers
+  // =========================================================
+  private normalizeOptimalTimes(
+    input: Record<string, Array<number | string>>,
+  ): Prisma.InputJsonObject {
+    const normalized: Record<string, string[]> = {};
+
+    for (const [key, values] of Object.entries(input ?? {})) {
+      const day = key.toLowerCase();
+      if (!(WEEKDAYS as readonly string[]).includes(day)) {
+        throw new BadRequestException(
+          `optimalTimes has an unknown day "${key}" (use monday..sunday)`,
+        );
+      }
+      if (!Array.isArray(values)) {
+        throw new BadRequestException(`optimalTimes.${key} must be an array`);
+      }
+
+      const times = values.map((v) => {
+        const time = this.toHHmm(v);
+        if (!time) {
+          throw new BadRequestException(
+            `optimalTimes.${key} contains an invalid time "${v}" (use 0-23 or HH:mm)`,
+          );
+        }
+        return time;
+      });
+
+      normalized[day] = [...new Set(times)].sort();
+    }
+
+    return normalized;
+  }
+
+  private normalizeExcludedDates(dates?: string[]) {
+    return [...new Set(dates ?? [])].sort();
+  }
+
+  private toHHmm(value: unknown): string | null {
+    if (typeof value === 'number') {
+      if (!Number.isInteger(value) || value < 0 || value > 23) return null;
+      return `${String(value).padStart(2, '0')}:00`;
+    }
+    if (typeof value === 'string') {
+      const m = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(value.trim());
+      if (!m) return null;
+      return `${m[1].padStart(2, '0')}:${m[2]}`;
+    }
+    return null;
+  }
+
+  private assertTimezone(zone: string) {
+    if (!IANAZone.isValidZone(zone)) {
+      throw new BadRequestException(`Invalid timezone "${zone}"`);
+    }
+    return zone;
+  }
+
+  private async getOrganizationId(workspaceId: string) {
+    const ws = await this.prisma.workspace.findUnique({
+      where: { id: workspaceId },
+      select: { organizationId: true },
+    });
+    if (!ws) throw new NotFoundException('Workspace not found');
+    return ws.organizationId;
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Queue categories are free-form ("tips", "Promo ") but compared exactly, so
+ * slots and posts store them trimmed and lower-cased. Blank means "none".
+ */
+export function normalizeQueueCategory(value: unknown) {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') return value === null ? null : value;
+
+  const category = value.trim().replace(/\s+/g, ' ').toLowerCase();
+  return category || null;
+}
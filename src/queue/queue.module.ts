@@ -2,14 +2,16 @@ import { Module } from '@nestjs/common';
 import { QueueSlotController } from './queue.controller';
 import { QueueSlotService } from './queue.service';
 import { WorkerModule } from '@/worker/worker.module';
+import { PostingScheduleController } from './posting-schedule.controller';
+import { PostingScheduleService } from './posting-schedule.service';
 
 
 @Module({
    imports: [
      WorkerModule,
     ],
-  controllers: [QueueSlotController],
-  providers: [QueueSlotService],
-  exports: [QueueSlotService],
+  controllers: [QueueSlotController, PostingScheduleController],
+  providers: [QueueSlotService, PostingScheduleService],
+  exports: [QueueSlotService, PostingScheduleService],
 })
 export class QueueModule {}
@@ -1,18 +1,167 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { QueueService } from './queue.service';
+import { getQueueToken } from '@nestjs/bullmq';
+import { QueueSlotService } from './queue.service';
+import { PrismaService } from '@/prisma/prisma.service';
+import { PostingScheduleService } from './posting-schedule.service';
 
-describe('QueueService', () => {
-  let service: QueueService;
+describe('QueueSlotService', () => {
+  let service: QueueSlotService;
+  const prisma = {
+    workspace: { findUnique: jest.fn() },
+    queueSlot: { findMany: jest.fn() },
+    post: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      count: jest.fn(),
+    },
+    postDestination: { findMany: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  const publishingQueue = { getJob: jest.fn(), add: jest.fn() };
+  const postingSchedules = { findActiveForWorkspace: jest.fn() };
 
   beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.workspace.findUnique.mockResolvedValue({
+      id: 'ws_1',
+      timezone: 'UTC',
+      organization: null,
+    });
+    prisma.postDestination.findMany.mockResolvedValue([]);
+    postingSchedules.findActiveForWorkspace.mockResolvedValue([]);
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [QueueService],
+      providers: [
+        QueueSlotService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: getQueueToken('publishing-queue'),
+          useValue: publishingQueue,
+        },
+        { provide: PostingScheduleService, useValue: postingSchedules },
+      ],
     }).compile();
 
-    service = module.get<QueueService>(QueueService);
+    service = module.get<QueueSlotService>(QueueSlotService);
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('queue categories', () => {
+    const slot = (
+      dayOfWeek: number,
+      time: string,
+      category: string | null,
+    ) => ({
+      id: `${dayOfWeek}_${time}`,
+      dayOfWeek,
+      time,
+      platform: null,
+      category,
+      isActive: true,
+    });
+
+    it('fills each slot only from its category, in order, and leaves open slots to anyone', async () => {
+      prisma.queueSlot.findMany.mockResolvedValue([
+        slot(1, '09:00', 'tips'),
+        slot(1, '12:00', 'promo'),
+        slot(2, '09:00', 'tips'),
+        slot(2, '15:00', null),
+      ]);
+      prisma.post.findMany
+        // posts to rebuild
+        .mockResolvedValueOnce(
+          ['p1', 'p2', 'p3', 'p4', 'p5'].map((id) => ({
+            id,
+            scheduledAt: null,
+          })),
+        )
+        // taken map
+        .mockResolvedValueOnce([])
+        // categories
+        .mockResolvedValueOnce([
+          { id: 'p1', queueCategory: 'tips' },
+          { id: 'p2', queueCategory: 'promo' },
+          { id: 'p3', queueCategory: 'tips' },
+          { id: 'p4', queueCategory: null },
+          { id: 'p5', queueCategory: 'promo' },
+        ]);
+
+      // 2026-03-02 is a Monday
+      const plan = await service.rebuildQueue('ws_1', {
+        from: '2026-03-02T00:00:00Z',
+        days: 2,
+      });
+
+      expect(plan.scheduled).toEqual([
+        { postId: 'p1', scheduledAt: '2026-03-02T09:00:00.000Z' },
+        { postId: 'p2', scheduledAt: '2026-03-02T12:00:00.000Z' },
+        { postId: 'p3', scheduledAt: '2026-03-03T09:00:00.000Z' },
+        { postId: 'p4', scheduledAt: '2026-03-03T15:00:00.000Z' },
+      ]);
+      // The only promo slot went to p2 and the open one to p4
+      expect(plan.skipped).toEqual(['p5']);
+    });
+
+    it('keeps the minimum spacing between posts of different categories', async () => {
+      prisma.queueSlot.findMany.mockResolvedValue([
+        slot(1, '09:00', 'tips'),
+        slot(1, '09:30', 'promo'),
+        slot(1, '12:00', 'promo'),
+      ]);
+      prisma.post.count.mockResolvedValue(0);
+      prisma.post.findMany
+        // posts to schedule
+        .mockResolvedValueOnce([
+          { id: 'p1', scheduledAt: null },
+          { id: 'p2', scheduledAt: null },
+        ])
+        // taken map
+        .mockResolvedValueOnce([])
+        // categories
+        .mockResolvedValueOnce([
+          { id: 'p1', queueCategory: 'tips' },
+          { id: 'p2', queueCategory: 'promo' },
+        ]);
+
+      const plan = await service.autoSchedule('ws_1', {
+        postIds: ['p1', 'p2'],
+        from: '2026-03-02T00:00:00Z',
+        days: 1,
+        minSpacingMinutes: 60,
+      });
+
+      // 09:30 is the next promo slot but only 30 minutes after p1
+      expect(plan.scheduled).toEqual([
+        { postId: 'p1', scheduledAt: '2026-03-02T09:00:00.000Z' },
+        { postId: 'p2', scheduledAt: '2026-03-02T12:00:00.000Z' },
+      ]);
+    });
+
+    it('previews every slot without a category and only reachable ones with it', async () => {
+      prisma.queueSlot.findMany.mockResolvedValue([
+        slot(1, '09:00', 'tips'),
+        slot(1, '12:00', 'promo'),
+        slot(1, '15:00', null),
+      ]);
+      prisma.post.findMany.mockResolvedValue([]);
+
+      const from = '2026-03-02T00:00:00Z';
+      const all = await service.previewNextSlots('ws_1', { from, days: 1 });
+      const tips = await service.previewNextSlots('ws_1', {
+        from,
+        days: 1,
+        category: 'tips',
+      });
+
+      expect(all.results).toHaveLength(3);
+      expect(tips.results).toEqual([
+        '2026-03-02T09:00:00.000Z',
+        '2026-03-02T15:00:00.000Z',
+      ]);
+    });
+  });
 });
@@ -17,22 +17,38 @@ import { Prisma } from '@generated/client';
 import { TIER_LIMITS } from './constants/tier-limits';
 import { InjectQueue } from '@nestjs/bullmq';
 import { Queue } from 'bullmq';
+import { PostingScheduleService } from './posting-schedule.service';
 
 type Slot = {
   id: string;
   dayOfWeek: number; // 1..7
   time: string; // "HH:mm"
   platform: string | null;
+  category: string | null;
   capacity: number;
   isActive: boolean;
 };
 
+type PlatformRule = {
+  zone: string;
+  excludedDates: Set<string>; // "YYYY-MM-DD" in `zone`
+  maxPostsPerDay: number;
+};
+
+type ScheduleContext = {
+  zone: string; // zone candidates are generated in
+  slotMap: Map<number, Slot[]>;
+  rules: Map<Platform, PlatformRule>;
+  usage: Map<string, number>; // "PLATFORM|YYYY-MM-DD" -> posts that day
+};
+
 @Injectable()
 export class QueueSlotService {
   private readonly logger = new Logger(QueueSlotService.name);
   constructor(
     private readonly prisma: PrismaService,
     @InjectQueue('publishing-queue') private publishingQueue: Queue,
+    private readonly postingSchedules: PostingScheduleService,
   ) {}
 
   // =========================================================
@@ -76,6 +92,7 @@ export class QueueSlotService {
         dayOfWeek: dto.dayOfWeek,
         time: dto.time,
         platform: dto.platform ?? null,
+        category: dto.category ?? null,
       },
     });
   }
@@ -115,6 +132,10 @@ export class QueueSlotService {
       dto.platform === undefined
         ? (existing as any).platform
         : (dto.platform ?? null);
+    const category =
+      dto.category === undefined
+        ? (existing as any).category
+        : (dto.category ?? null);
 
     this.normalizeDay(dayOfWeek);
     this.parseTimeHHmm(time);
@@ -141,6 +162,7 @@ export class QueueSlotService {
         dayOfWeek,
         time,
         platform,
+        category,
         capacity:
           dto.capacity === undefined
             ? (existing as any).capacity
@@ -187,22 +209,28 @@ export class QueueSlotService {
 
     const days = 30;
 
-    const slots = await this.getActiveSlots(workspaceId, platform);
-    if (!slots.length)
-      throw new BadRequestException('No active queue slots found');
-
-    const slotMap = this.groupSlotsByDay(slots);
-
     // Only load taken posts in the lookahead window
     const end = from.plus({ days });
+    const ctx = await this.loadScheduleContext(
+      workspaceId,
+      platform,
+      zone,
+      from,
+      end,
+    );
+    if (!ctx.slotMap.size)
+      throw new BadRequestException('No active queue slots found');
+
     const taken = await this.getTakenMap(workspaceId, from, end, platform);
+    const platforms = this.rulePlatforms(platform, ctx);
 
     const next = this.findNextFreeCandidate({
-      from,
-      end,
-      zone,
-      slotMap,
+      from: from.setZone(ctx.zone),
+      end: end.setZone(ctx.zone),
+      zone: ctx.zone,
+      slotMap: ctx.slotMap,
       taken,
+      accept: (c) => this.isAllowedByRules(c, platforms, ctx),
     });
     if (!next)
       throw new BadRequestException(`Queue is full for the next ${days} days`);
@@ -224,23 +252,30 @@ export class QueueSlotService {
     const days = Math.min(Math.max(dto.days ?? 30, 1), 90);
     const count = Math.min(Math.max(dto.count ?? 10, 1), 50);
     const platform = dto.platform ?? null;
+    const end = from.plus({ days });
 
-    const slots = await this.getActiveSlots(workspaceId, platform);
-    if (!slots.length)
+    const ctx = await this.loadScheduleContext(
+      workspaceId,
+      platform,
+      zone,
+      from,
+      end,
+    );
+    if (!ctx.slotMap.size)
       throw new BadRequestException('No active queue slots found');
 
-    const slotMap = this.groupSlotsByDay(slots);
-    const end = from.plus({ days });
-
     const taken = await this.getTakenMap(workspaceId, from, end, platform);
+    const platforms = this.rulePlatforms(platform, ctx);
 
     const results: string[] = [];
-    let cursor = from;
+    let cursor = from.setZone(ctx.zone);
 
     // Iterate day-by-day collecting candidates until we have `count`
     for (let i = 0; i <= days && results.length < count; i++) {
-      const daySlots = slotMap.get(cursor.weekday) ?? [];
+      const daySlots = ctx.slotMap.get(cursor.weekday) ?? [];
       for (const slot of daySlots) {
+        if (!this.slotTakes(slot, dto.category)) continue;
+
         const { hour, minute } = this.parseTimeHHmm(slot.time);
         const candidate = cursor.set({
           hour,
@@ -254,17 +289,21 @@ export class QueueSlotService {
         const key = candidate.toUTC().toMillis();
         const used = taken.get(key) ?? 0;
 
-        if (used < slot.capacity) {
+        if (
+          used < slot.capacity &&
+          this.isAllowedByRules(candidate, platforms, ctx)
+        ) {
           results.push(candidate.toUTC().toISO()!); // store as UTC ISO
           // “reserve” in-memory so preview doesn’t repeat the same time
           taken.set(key, used + 1);
+          this.reserveUsage(candidate, platforms, ctx);
           if (results.length >= count) break;
         }
       }
       cursor = cursor.plus({ days: 1 }).startOf('day');
     }
 
-    return { timezone: zone, from: from.toUTC().toISO(), results };
+    return { timezone: ctx.zone, from: from.toUTC().toISO(), results };
   }
 
   /**
@@ -323,9 +362,11 @@ export class QueueSlotService {
       select: { id: true, scheduledAt: true },
     });
 
-    const idsToSchedule = postsToCheck
-      .filter((p) => !p.scheduledAt)
-      .map((p) => p.id);
+    // Keep the caller's order: it decides which post of a category goes first
+    const unscheduled = new Set(
+      postsToCheck.filter((p) => !p.scheduledAt).map((p) => p.id),
+    );
+    const idsToSchedule = dto.postIds.filter((id) => unscheduled.has(id));
     if (!idsToSchedule.length) return { scheduled: [], skipped: dto.postIds };
 
     const plan = await this.planScheduleForPosts({
@@ -373,8 +414,15 @@ export class QueueSlotService {
   /**
    * POST rebuild: reschedule posts in a window (useful after slot edits)
    * Strong opinion: only rebuild drafts/queued, not already published.
+   *
+   * `postIds` replans exactly those posts from `from` (e.g. posts held while
+   * publishing was paused), whatever their current time or status.
    */
-  async rebuildQueue(workspaceId: string, dto: RebuildQueueDto) {
+  async rebuildQueue(
+    workspaceId: string,
+    dto: RebuildQueueDto,
+    options: { postIds?: string[] } = {},
+  ) {
     const { zone } = await this.getWorkspaceTierAndZone(workspaceId);
     const platform = dto.platform ?? null;
 
@@ -393,14 +441,16 @@ export class QueueSlotService {
 
     // 1) Read candidates OUTSIDE tx
     const posts = await this.prisma.post.findMany({
-      where: {
-        workspaceId,
-        status: { in: statuses as any },
-        OR: [
-          { scheduledAt: null },
-          { scheduledAt: { gte: from.toJSDate(), lt: end.toJSDate() } },
-        ],
-      } as any,
+      where: options.postIds
+        ? { workspaceId, id: { in: options.postIds } }
+        : ({
+            workspaceId,
+            status: { in: statuses as any },
+            OR: [
+              { scheduledAt: null },
+              { scheduledAt: { gte: from.toJSDate(), lt: end.toJSDate() } },
+            ],
+          } as any),
       select: { id: true, scheduledAt: true },
       orderBy: [{ scheduledAt: 'asc' }, { createdAt: 'asc' }],
     });
@@ -463,38 +513,75 @@ export class QueueSlotService {
     const { workspaceId, postIds, platform, from, end, days } = args;
     const minSpacing = Math.max(args.minSpacingMinutes ?? 0, 0);
 
-    // 1. Get Slots
-    const slots = await this.getActiveSlots(workspaceId, platform);
-    if (!slots.length)
+    // 1. Get Slots (PostingSchedule first, QueueSlots as fallback)
+    // Posts being (re)planned must not count against themselves.
+    const ctx = await this.loadScheduleContext(
+      workspaceId,
+      platform,
+      from.zoneName,
+      from,
+      end,
+      postIds,
+    );
+    if (!ctx.slotMap.size)
       throw new BadRequestException('No active queue slots found');
-    const slotMap = this.groupSlotsByDay(slots);
 
     // 2. Get Taken Map
-    const taken = await this.getTakenMap(workspaceId, from, end, platform);
+    const taken = await this.getTakenMap(
+      workspaceId,
+      from,
+      end,
+      platform,
+      postIds,
+    );
+
+    // 3. Which platforms' daily caps / excluded dates apply to each post
+    const postPlatforms = platform
+      ? new Map(postIds.map((id) => [id, [platform]]))
+      : await this.getPostPlatforms(postIds);
+    const postCategories = await this.getPostCategories(postIds);
 
     const scheduled: Array<{ postId: string; scheduledAt: string }> = [];
-    let cursor = from;
+
+    // One cursor per category: posts of a category take that category's
+    // slots in turn, without pushing other categories further out.
+    // Spacing still holds across categories, against every time placed here.
+    const cursors = new Map<string | null, DateTime>();
+    const placed: number[] = [];
+    const spacingMs = minSpacing * 60_000;
 
     for (const postId of postIds) {
+      const platforms = postPlatforms.get(postId) ?? [];
+      const category = postCategories.get(postId) ?? null;
       const candidate = this.findNextFreeCandidate({
-        from: cursor,
-        end,
-        zone: from.zoneName,
-        slotMap,
+        from: cursors.get(category) ?? from.setZone(ctx.zone),
+        end: end.setZone(ctx.zone),
+        zone: ctx.zone,
+        slotMap: ctx.slotMap,
         taken,
+        category,
+        accept: (c) =>
+          this.isAllowedByRules(c, platforms, ctx) &&
+          (!spacingMs ||
+            placed.every((t) => Math.abs(c.toMillis() - t) >= spacingMs)),
       });
 
-      if (!candidate) break;
+      // This post's platforms may be capped out while others still fit
+      if (!candidate) continue;
 
       const key = candidate.toUTC().toMillis();
 
       // We update our local 'taken' map so the next post in this loop doesn't steal this spot
       taken.set(key, (taken.get(key) ?? 0) + 1);
+      this.reserveUsage(candidate, platforms, ctx);
 
+      placed.push(key);
       scheduled.push({ postId, scheduledAt: candidate.toUTC().toISO()! });
 
-      cursor =
-        minSpacing > 0 ? candidate.plus({ minutes: minSpacing }) : candidate;
+      cursors.set(
+        category,
+        minSpacing > 0 ? candidate.plus({ minutes: minSpacing }) : candidate,
+      );
     }
 
     if (scheduled.length === 0) {
@@ -520,6 +607,7 @@ export class QueueSlotService {
     from: DateTime,
     end: DateTime,
     platform?: Platform | null,
+    ignorePostIds: string[] = [],
   ) {
     // If you have per-platform slots and posts store platform, filter here.
     // If not, ignore platform.
@@ -528,6 +616,7 @@ export class QueueSlotService {
         workspaceId,
         status: { in: [PostStatus.SCHEDULED] as any },
         scheduledAt: { gte: from.toJSDate(), lt: end.toJSDate() },
+        ...(ignorePostIds.length && { id: { notIn: ignorePostIds } }),
       } as any,
       select: { scheduledAt: true },
     });
@@ -547,8 +636,10 @@ export class QueueSlotService {
     zone: string;
     slotMap: Map<number, Slot[]>;
     taken: Map<number, number>;
+    category?: string | null;
+    accept?: (candidate: DateTime) => boolean;
   }) {
-    const { from, end, slotMap, taken } = args;
+    const { from, end, slotMap, taken, category, accept } = args;
     const now = from; // already in workspace zone
 
     let cursor = from;
@@ -557,6 +648,8 @@ export class QueueSlotService {
       const daySlots = slotMap.get(cursor.weekday) ?? [];
 
       for (const slot of daySlots) {
+        if (!this.slotTakes(slot, category)) continue;
+
         const { hour, minute } = this.parseTimeHHmm(slot.time);
         const candidate = cursor.set({
           hour,
@@ -570,7 +663,7 @@ export class QueueSlotService {
         const key = candidate.toUTC().toMillis();
         const used = taken.get(key) ?? 0;
 
-        if (used < slot.capacity) {
+        if (used < slot.capacity && (!accept || accept(candidate))) {
           return candidate;
         }
       }
@@ -581,33 +674,54 @@ export class QueueSlotService {
     return null;
   }
 
+  /**
+   * Plan limits for the workspace's subscription tier (defaults to CREATOR).
+   */
+  async getPlanLimits(workspaceId: string) {
+    const { tier } = await this.getWorkspaceTierAndZone(workspaceId);
+    return { tier, ...TIER_LIMITS[tier] };
+  }
+
   /**
    * Internal Helper: Get N Date objects for the PostService to use during bulk creation
+   * - category: the posts' queueCategory (null = uncategorised posts, undefined = any slot)
+   * - reserved: times already handed out by an earlier call in the same batch
    */
   async getNextAvailableSlots(
     workspaceId: string,
     count: number,
     platform?: Platform | null,
+    options: { category?: string | null; reserved?: Date[] } = {},
   ): Promise<Date[]> {
     const { zone } = await this.getWorkspaceTierAndZone(workspaceId);
     const now = DateTime.now().setZone(zone);
 
     // Reuse your preview logic but strip the UI formatting
-    const slots = await this.getActiveSlots(workspaceId, platform);
-    if (!slots.length) return []; // Return empty if no slots
-
-    const slotMap = this.groupSlotsByDay(slots);
     const end = now.plus({ days: 90 }); // Look ahead far enough
+    const ctx = await this.loadScheduleContext(
+      workspaceId,
+      platform,
+      zone,
+      now,
+      end,
+    );
+    if (!ctx.slotMap.size) return []; // Return empty if no slots
 
     const taken = await this.getTakenMap(workspaceId, now, end, platform);
+    for (const date of options.reserved ?? []) {
+      taken.set(date.getTime(), (taken.get(date.getTime()) ?? 0) + 1);
+    }
+    const platforms = this.rulePlatforms(platform, ctx);
 
     const results: Date[] = [];
-    let cursor = now;
+    let cursor = now.setZone(ctx.zone);
 
     while (cursor < end && results.length < count) {
-      const daySlots = slotMap.get(cursor.weekday) ?? [];
+      const daySlots = ctx.slotMap.get(cursor.weekday) ?? [];
 
       for (const slot of daySlots) {
+        if (!this.slotTakes(slot, options.category)) continue;
+
         const { hour, minute } = this.parseTimeHHmm(slot.time);
         const candidate = cursor.set({
           hour,
@@ -621,9 +735,13 @@ export class QueueSlotService {
         const key = candidate.toUTC().toMillis();
         const used = taken.get(key) ?? 0;
 
-        if (used < slot.capacity) {
+        if (
+          used < slot.capacity &&
+          this.isAllowedByRules(candidate, platforms, ctx)
+        ) {
           results.push(candidate.toJSDate());
           taken.set(key, used + 1);
+          this.reserveUsage(candidate, platforms, ctx);
           if (results.length >= count) break;
         }
       }
@@ -752,11 +870,204 @@ export class QueueSlotService {
     return { tier, zone };
   }
 
+  /**
+   * Where candidate times come from:
+   * - platform has an active PostingSchedule with optimalTimes -> those times, in the schedule's timezone
+   * - otherwise -> workspace QueueSlots, in the workspace timezone
+   * Excluded dates and daily caps of every active schedule are loaded as rules either way.
+   */
+  private async loadScheduleContext(
+    workspaceId: string,
+    platform: Platform | null | undefined,
+    workspaceZone: string,
+    from: DateTime,
+    end: DateTime,
+    ignorePostIds: string[] = [],
+  ): Promise<ScheduleContext> {
+    const schedules =
+      await this.postingSchedules.findActiveForWorkspace(workspaceId);
+
+    const rules = new Map<Platform, PlatformRule>(
+      schedules.map((s) => [
+        s.platform,
+        {
+          zone: s.timezone || workspaceZone,
+          excludedDates: new Set(s.excludedDates),
+          maxPostsPerDay: s.maxPostsPerDay,
+        },
+      ]),
+    );
+
+    const schedule = platform
+      ? schedules.find((s) => s.platform === platform)
+      : undefined;
+    const scheduleSlots: Slot[] = schedule
+      ? this.postingSchedules
+          .expandOptimalTimes(schedule)
+          .map(({ dayOfWeek, time }) => ({
+            id: `${schedule.id}:${dayOfWeek}:${time}`,
+            dayOfWeek,
+            time,
+            platform: schedule.platform,
+            category: null,
+            capacity: 1,
+            isActive: true,
+          }))
+      : [];
+
+    const useSchedule = scheduleSlots.length > 0;
+    const slots = useSchedule
+      ? scheduleSlots
+      : await this.getActiveSlots(workspaceId, platform);
+
+    const usage = rules.size
+      ? await this.getDailyUsage(workspaceId, from, end, rules, ignorePostIds)
+      : new Map<string, number>();
+
+    return {
+      zone: useSchedule ? rules.get(platform!)!.zone : workspaceZone,
+      slotMap: this.groupSlotsByDay(slots),
+      rules,
+      usage,
+    };
+  }
+
+  /**
+   * Platforms whose rules apply to a lookup with no concrete post.
+   * Without a platform we don't know where the post goes, so every schedule applies.
+   */
+  private rulePlatforms(
+    platform: Platform | null | undefined,
+    ctx: ScheduleContext,
+  ): Platform[] {
+    return platform ? [platform] : [...ctx.rules.keys()];
+  }
+
+  private isAllowedByRules(
+    candidate: DateTime,
+    platforms: Platform[],
+    ctx: ScheduleContext,
+  ) {
+    for (const p of platforms) {
+      const rule = ctx.rules.get(p);
+      if (!rule) continue;
+
+      const day = candidate.setZone(rule.zone).toISODate()!;
+      if (rule.excludedDates.has(day)) return false;
+      if ((ctx.usage.get(`${p}|${day}`) ?? 0) >= rule.maxPostsPerDay)
+        return false;
+    }
+    return true;
+  }
+
+  private reserveUsage(
+    candidate: DateTime,
+    platforms: Platform[],
+    ctx: ScheduleContext,
+  ) {
+    for (const p of platforms) {
+      const rule = ctx.rules.get(p);
+      if (!rule) continue;
+
+      const key = `${p}|${candidate.setZone(rule.zone).toISODate()}`;
+      ctx.usage.set(key, (ctx.usage.get(key) ?? 0) + 1);
+    }
+  }
+
+  /**
+   * usage: key="PLATFORM|YYYY-MM-DD" (day in the schedule's zone), value=posts going out that day
+   */
+  private async getDailyUsage(
+    workspaceId: string,
+    from: DateTime,
+    end: DateTime,
+    rules: Map<Platform, PlatformRule>,
+    ignorePostIds: string[] = [],
+  ) {
+    // Pad by a day so posts near midnight in another zone still count
+    const destinations = await this.prisma.postDestination.findMany({
+      where: {
+        profile: { platform: { in: [...rules.keys()] } },
+        post: {
+          workspaceId,
+          status: {
+            in: [
+              PostStatus.SCHEDULED,
+              PostStatus.PUBLISHING,
+              PostStatus.PUBLISHED,
+            ],
+          },
+          scheduledAt: {
+            gte: from.minus({ days: 1 }).toJSDate(),
+            lt: end.plus({ days: 1 }).toJSDate(),
+          },
+          ...(ignorePostIds.length && { id: { notIn: ignorePostIds } }),
+        },
+      },
+      select: {
+        postId: true,
+        post: { select: { scheduledAt: true } },
+        profile: { select: { platform: true } },
+      },
+    });
+
+    // A post going to two LinkedIn pages is still one LinkedIn post that day
+    const seen = new Set<string>();
+    const usage = new Map<string, number>();
+    for (const d of destinations) {
+      const platform = d.profile.platform;
+      const rule = rules.get(platform);
+      if (!rule || !d.post.scheduledAt) continue;
+
+      const day = DateTime.fromJSDate(d.post.scheduledAt)
+        .setZone(rule.zone)
+        .toISODate();
+      const key = `${platform}|${day}`;
+      if (seen.has(`${d.postId}|${key}`)) continue;
+      seen.add(`${d.postId}|${key}`);
+
+      usage.set(key, (usage.get(key) ?? 0) + 1);
+    }
+    return usage;
+  }
+
+  private async getPostPlatforms(postIds: string[]) {
+    const destinations = await this.prisma.postDestination.findMany({
+      where: { postId: { in: postIds } },
+      select: { postId: true, profile: { select: { platform: true } } },
+    });
+
+    const map = new Map<string, Platform[]>();
+    for (const d of destinations) {
+      const list = map.get(d.postId) ?? [];
+      if (!list.includes(d.profile.platform)) list.push(d.profile.platform);
+      map.set(d.postId, list);
+    }
+    return map;
+  }
+
+  private async getPostCategories(postIds: string[]) {
+    const posts = await this.prisma.post.findMany({
+      where: { id: { in: postIds } },
+      select: { id: true, queueCategory: true },
+    });
+    return new Map(posts.map((p) => [p.id, p.queueCategory]));
+  }
+
+  /**
+   * A categorised slot only takes posts of its category; an uncategorised
+   * slot takes anything. `undefined` means "no post in mind": every slot.
+   */
+  private slotTakes(slot: Slot, category: string | null | undefined) {
+    if (category === undefined || !slot.category) return true;
+    return slot.category === category;
+  }
+
   private async getActiveSlots(
     workspaceId: string,
     platform?: Platform | null,
   ): Promise<Slot[]> {
-    return (await this.prisma.queueSlot.findMany({
+    const slots = await this.prisma.queueSlot.findMany({
       where: {
         workspaceId,
         isActive: true,
@@ -775,9 +1086,13 @@ export class QueueSlotService {
         dayOfWeek: true,
         time: true,
         platform: true,
+        category: true,
         isActive: true,
       },
-    })) as any;
+    });
+
+    // QueueSlot has no capacity column: every slot holds one post
+    return slots.map((s) => ({ ...s, capacity: 1 }));
   }
 
   /**
@@ -0,0 +1,19 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class AddSandboxProfileDto {
+  @ApiPropertyOptional({
+    description: 'Display name of the simulated account',
+    example: 'Acme Demo Page',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ example: 'acme_demo' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  username?: string;
+}
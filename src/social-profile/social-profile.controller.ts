@@ -9,6 +9,7 @@ import {
 } from '@nestjs/swagger';
 import { SocialProfileService } from './social-profile.service';
 import { BulkAddProfilesDto } from './dto/request/bulk-add-profile.dto';
+import { AddSandboxProfileDto } from './dto/request/add-sandbox-profile.dto';
 import { ApiStandardResponse } from '@/common/decorators/api-standard-response.decorator';
 import { BulkAddProfilesResponseDto } from './dto/response/add-profile-response.dto';
 
@@ -37,6 +38,24 @@ export class SocialProfileController {
     return this.profileService.addProfilesToWorkspace(workspaceId, body);
   }
 
+  @Post('sandbox')
+  @ApiOperation({
+    summary: 'Add a simulated sandbox profile',
+    description:
+      'Creates a SANDBOX profile that fakes publishing, analytics and inbox traffic without calling any network. Meant for demos and QA.',
+  })
+  @ApiParam({
+    name: 'workspaceId',
+    example: 'ws_abc123',
+  })
+  @ApiStandardResponse(BulkAddProfilesResponseDto)
+  async addSandboxProfile(
+    @Param('workspaceId') workspaceId: string,
+    @Body() body: AddSandboxProfileDto,
+  ) {
+    return this.profileService.addSandboxProfile(workspaceId, body);
+  }
+
    @Get()
   @ApiOperation({
     summary: 'List workspace social profiles',
@@ -1,4 +1,5 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
 import { SocialProfileService } from './social-profile.service';
 
 describe('SocialProfileService', () => {
@@ -16,3 +17,59 @@ describe('SocialProfileService', () => {
     expect(service).toBeDefined();
   });
 });
+
+describe('SocialProfileService.addSandboxProfile', () => {
+  const prisma = {
+    workspace: { findUnique: jest.fn(), findUniqueOrThrow: jest.fn() },
+    socialConnection: { upsert: jest.fn() },
+    socialProfile: { create: jest.fn() },
+  };
+  const encryption = { encrypt: jest.fn() };
+  const domainEvents = { emit: jest.fn() };
+  const config = { get: jest.fn() };
+
+  const service = new SocialProfileService(
+    prisma as any,
+    {} as any,
+    encryption as any,
+    domainEvents as any,
+    config as any,
+  );
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    prisma.workspace.findUnique.mockResolvedValue({
+      organization: {
+        subscription: {
+          plan: {
+            maxSocialProfilesPerWorkspace: 5,
+            allowedPlatforms: ['FACEBOOK', 'LINKEDIN'],
+          },
+        },
+      },
+      _count: { socialProfiles: 0 },
+    });
+    prisma.workspace.findUniqueOrThrow.mockResolvedValue({
+      organizationId: 'org_1',
+    });
+    prisma.socialConnection.upsert.mockResolvedValue({ id: 'conn_1' });
+    prisma.socialProfile.create.mockResolvedValue({ id: 'sp_1' });
+    encryption.encrypt.mockResolvedValue('enc');
+  });
+
+  it('is refused on plans without SANDBOX', async () => {
+    await expect(
+      service.addSandboxProfile('ws_1', { name: 'Demo' }),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('is open to every plan when sandbox profiles are enabled', async () => {
+    config.get.mockImplementation((key: string) =>
+      key === 'SANDBOX_PROFILES_ENABLED' ? 'true' : undefined,
+    );
+
+    await service.addSandboxProfile('ws_1', { name: 'Demo' });
+
+    expect(prisma.socialProfile.create).toHaveBeenCalled();
+  });
+});
@@ -10,8 +10,11 @@ import {
   NotFoundException,
 } from '@nestjs/common';
 import { BulkAddProfilesDto } from './dto/request/bulk-add-profile.dto';
+import { AddSandboxProfileDto } from './dto/request/add-sandbox-profile.dto';
 import { ConnectionStatus, Platform } from '@generated/enums';
 import { DomainEventsService } from '@/events/domain-events.service';
+import { randomBytes } from 'crypto';
+import { ConfigService } from '@nestjs/config';
 
 @Injectable()
 export class SocialProfileService {
@@ -21,6 +24,7 @@ export class SocialProfileService {
     private readonly connectionService: SocialConnectionService,
     private readonly encryption: EncryptionService,
     private readonly domainEvents: DomainEventsService,
+    private readonly config: ConfigService,
   ) {}
 
 async addProfilesToWorkspace(
@@ -172,6 +176,80 @@ async addProfilesToWorkspace(
     added,
   };
 }
+  /**
+   * ADD SANDBOX PROFILE
+   * Creates a simulated account: no OAuth, publishes and analytics never
+   * leave the server. Open to plans that list SANDBOX, and to every plan
+   * when SANDBOX_PROFILES_ENABLED=true (QA and demo environments).
+   */
+  async addSandboxProfile(workspaceId: string, dto: AddSandboxProfileDto) {
+    const { remaining, allowedPlatforms } =
+      await this.getWorkspaceLimitInfo(workspaceId);
+
+    const sandboxEnabled =
+      this.config.get<string>('SANDBOX_PROFILES_ENABLED') === 'true';
+    if (!sandboxEnabled && !allowedPlatforms.includes(Platform.SANDBOX)) {
+      throw new ForbiddenException(
+        'The SANDBOX platform is not available on your current plan.',
+      );
+    }
+    if (remaining < 1) {
+      throw new ForbiddenException('No profile slots left in this workspace.');
+    }
+
+    const workspace = await this.prisma.workspace.findUniqueOrThrow({
+      where: { id: workspaceId },
+      select: { organizationId: true },
+    });
+
+    // Stand-in token so the usual decrypt-and-publish path works unchanged
+    const token = await this.encryption.encrypt(
+      `sbx_token_${randomBytes(16).toString('hex')}`,
+    );
+
+    // One sandbox "login" per organization, like a real OAuth connection
+    const connection = await this.prisma.socialConnection.upsert({
+      where: {
+        organizationId_platform_platformUserId: {
+          organizationId: workspace.organizationId,
+          platform: Platform.SANDBOX,
+          platformUserId: `sbx_org_${workspace.organizationId}`,
+        },
+      },
+      update: { status: ConnectionStatus.CONNECTED },
+      create: {
+        organizationId: workspace.organizationId,
+        platform: Platform.SANDBOX,
+        platformUserId: `sbx_org_${workspace.organizationId}`,
+        platformUsername: 'sandbox',
+        accessToken: token,
+      },
+    });
+
+    const platformId = `sbx_page_${randomBytes(6).toString('hex')}`;
+    const profile = await this.prisma.socialProfile.create({
+      data: {
+        workspaceId,
+        socialConnectionId: connection.id,
+        platform: Platform.SANDBOX,
+        platformId,
+        name: dto.name?.trim() || 'Sandbox Page',
+        username: dto.username?.trim() || platformId,
+        accessToken: token,
+        type: 'SANDBOX_PROFILE',
+        status: ConnectionStatus.CONNECTED,
+      },
+    });
+
+    this.domainEvents.emit('system.social_profile.connected', {
+      workspaceId,
+      profileId: profile.id,
+      platform: profile.platform,
+    });
+
+    return { message: 'Added 1 profile(s).', added: [profile] };
+  }
+
   /**
    * 2. LIST WORKSPACE PROFILES
    * Used for the Sidebar or "Accounts" page.
@@ -262,6 +340,7 @@ async addProfilesToWorkspace(
       return providerType === 'PAGE' ? 'LINKEDIN_PAGE' : 'LINKEDIN_PROFILE';
     }
     if (platform === 'TWITTER') return 'TWITTER_PROFILE';
+    if (platform === 'SANDBOX') return 'SANDBOX_PROFILE';
 
     return 'FACEBOOK_PAGE'; // Default safety
   }
@@ -3,19 +3,62 @@ export interface PostResult {
   url?: string;           // Direct link to the post
 }
 
+export interface CommentResult {
+  platformCommentId: string;
+}
+
+// What the network currently shows for a post we published
+export interface RemotePostState {
+  exists: boolean; // false only when the network says the post is gone
+  url?: string | null;
+  text?: string | null;
+}
+
 export interface SocialCredentials {
   accessToken: string;
   refreshToken?: string; // Required for Twitter OAuth 1.0a
   accessSecret?: string; // Required for Twitter OAuth 1.0a
 }
 
+// Media as handed to a provider. altText is the post's override if it has
+// one, else the library file's; providers drop it where the network can't.
+export interface PublishMedia {
+  url: string;
+  mimeType: string; // Need mimeType for video/images
+  altText?: string | null;
+  title?: string; // LinkedIn documents: shown on the viewer
+}
+
+// A native poll. The question is the post text on X, a separate field on LinkedIn.
+export interface PublishPoll {
+  question: string;
+  options: string[];
+  durationDays: number;
+}
+
 export interface ISocialProvider {
   publish(
     credentials: SocialCredentials, 
     content: string,
-    mediaFiles: { url: string; mimeType: string }[], // Need mimeType for video/images
+    mediaFiles: PublishMedia[],
     metadata?: any
   ): Promise<any>;
+
+  // Comment on a post we published (e.g. the automatic first comment)
+  comment?(
+    credentials: SocialCredentials,
+    platformPostId: string,
+    content: string,
+    metadata?: any
+  ): Promise<CommentResult>;
+
+  // Look up a published post for reconciliation. Auth and transient
+  // errors throw; only a definite "not found" returns exists: false.
+  fetchPost?(
+    credentials: SocialCredentials,
+    platformPostId: string,
+    metadata?: any
+  ): Promise<RemotePostState>;
 }
 
 type MediaFile = { 
@@ -7,8 +7,11 @@ import {
 import axios from 'axios';
 import {
   ISocialProvider,
+  PublishMedia,
+  RemotePostState,
   SocialCredentials,
 } from '../interfaces/social-provider.interface';
+import { isNotFoundError } from '@/common/utility/publish-error.util';
 import { InjectQueue } from '@nestjs/bullmq';
 import { Queue } from 'bullmq';
 
@@ -25,11 +28,9 @@ export class FacebookProvider implements ISocialProvider {
   async publish(
     credentials: SocialCredentials,
     content: string,
-    mediaFiles: {
-      url: string;
-      mimeType: string;
+    mediaFiles: (PublishMedia & {
       metadata?: { width?: number; height?: number; durationSeconds?: number };
-    }[],
+    })[],
     metadata?: { pageId: string; postType?: 'FEED' | 'REEL' | 'STORY' },
   ) {
     const pageId = metadata?.pageId;
@@ -125,7 +126,7 @@ export class FacebookProvider implements ISocialProvider {
         pageId,
         accessToken,
         content,
-        imageFiles[0].url,
+        imageFiles[0],
       );
     }
 
@@ -149,6 +150,49 @@ export class FacebookProvider implements ISocialProvider {
     }
   }
 
+  async comment(
+    credentials: SocialCredentials,
+    platformPostId: string,
+    content: string,
+  ) {
+    try {
+      this.logger.log(`Commenting on Facebook post ${platformPostId}...`);
+      const url = `${this.GRAPH_URL}/${platformPostId}/comments`;
+
+      const response = await axios.post(url, {
+        message: content,
+        access_token: credentials.accessToken,
+      });
+
+      return { platformCommentId: response.data.id };
+    } catch (error: any) {
+      this.handleError(error);
+    }
+  }
+
+  async fetchPost(
+    credentials: SocialCredentials,
+    platformPostId: string,
+  ): Promise<RemotePostState> {
+    try {
+      const response = await axios.get(`${this.GRAPH_URL}/${platformPostId}`, {
+        params: {
+          fields: 'message,permalink_url',
+          access_token: credentials.accessToken,
+        },
+      });
+
+      return {
+        exists: true,
+        url: response.data.permalink_url ?? null,
+        text: response.data.message ?? null,
+      };
+    } catch (error: any) {
+      if (isNotFoundError(error)) return { exists: false };
+      this.handleError(error);
+    }
+  }
+
   async deleteContent(accessToken: string, id: string) {
     try {
       this.logger.log(`Deleting Facebook content ${id}...`);
@@ -171,14 +215,14 @@ export class FacebookProvider implements ISocialProvider {
     pageId: string,
     token: string,
     caption: string,
-    files: { url: string }[],
+    files: PublishMedia[],
   ) {
     this.logger.log(`Uploading ${files.length} photos as unpublished...`);
 
     // Step 1: Upload all photos as "unpublished" to get IDs
     // We use Promise.all to do this in parallel for speed
     const mediaIds = await Promise.all(
-      files.map((file) => this.uploadUnpublishedPhoto(pageId, token, file.url)),
+      files.map((file) => this.uploadUnpublishedPhoto(pageId, token, file)),
     );
 
     // Step 2: Create a Feed Post attaching these IDs
@@ -201,12 +245,13 @@ export class FacebookProvider implements ISocialProvider {
     pageId: string,
     token: string,
     caption: string,
-    imageUrl: string,
+    image: PublishMedia,
   ) {
     const url = `${this.GRAPH_URL}/${pageId}/photos`;
     const response = await axios.post(url, {
-      url: imageUrl,
+      url: image.url,
       message: caption,
+      ...(image.altText && { alt_text_custom: image.altText }),
       access_token: token,
     });
 
@@ -375,11 +420,12 @@ export class FacebookProvider implements ISocialProvider {
   private async uploadUnpublishedPhoto(
     pageId: string,
     token: string,
-    imageUrl: string,
+    image: PublishMedia,
   ): Promise<string> {
     const url = `${this.GRAPH_URL}/${pageId}/photos`;
     const response = await axios.post(url, {
-      url: imageUrl,
+      url: image.url,
+      ...(image.altText && { alt_text_custom: image.altText }),
       published: false, // 👈 Critical for carousels
       access_token: token,
     });
@@ -7,8 +7,11 @@ import {
 import axios from 'axios';
 import {
   ISocialProvider,
+  PublishMedia,
+  RemotePostState,
   SocialCredentials,
 } from '../interfaces/social-provider.interface';
+import { isNotFoundError } from '@/common/utility/publish-error.util';
 
 @Injectable()
 export class InstagramProvider implements ISocialProvider {
@@ -17,7 +20,7 @@ export class InstagramProvider implements ISocialProvider {
   async publish(
     credentials: SocialCredentials,
     content: string,
-    mediaFiles: { url: string; mimeType: string; coverUrl?: string }[],
+    mediaFiles: (PublishMedia & { coverUrl?: string })[],
     metadata?: {
       pageId: string;
       postType?: 'FEED' | 'REEL' | 'STORY';
@@ -101,6 +104,8 @@ export class InstagramProvider implements ISocialProvider {
           mediaFiles[0].url,
           'IMAGE',
           false,
+          undefined,
+          mediaFiles[0].altText,
         );
       }
 
@@ -122,6 +127,55 @@ export class InstagramProvider implements ISocialProvider {
     }
   }
 
+  // ==================================================
+  // 💬 COMMENT ON A PUBLISHED MEDIA (first comment)
+  // ==================================================
+  async comment(
+    credentials: SocialCredentials,
+    platformPostId: string,
+    content: string,
+  ) {
+    try {
+      const host = this.resolveHost(credentials.accessToken);
+      const response = await axios.post(
+        `${host}/${platformPostId}/comments`,
+        { message: content },
+        { params: { access_token: credentials.accessToken } },
+      );
+
+      return { platformCommentId: response.data.id };
+    } catch (error: any) {
+      this.handleError(error);
+    }
+  }
+
+  // ==================================================
+  // 🔎 LOOK UP A PUBLISHED MEDIA (reconciliation)
+  // ==================================================
+  async fetchPost(
+    credentials: SocialCredentials,
+    platformPostId: string,
+  ): Promise<RemotePostState> {
+    try {
+      const host = this.resolveHost(credentials.accessToken);
+      const response = await axios.get(`${host}/${platformPostId}`, {
+        params: {
+          fields: 'caption,permalink',
+          access_token: credentials.accessToken,
+        },
+      });
+
+      return {
+        exists: true,
+        url: response.data.permalink ?? null,
+        text: response.data.caption ?? null,
+      };
+    } catch (error: any) {
+      if (isNotFoundError(error)) return { exists: false };
+      this.handleError(error);
+    }
+  }
+
   // ==================================================
   // SINGLE MEDIA (Image, Video, Reel, Story)
   // ==================================================
@@ -135,6 +189,7 @@ export class InstagramProvider implements ISocialProvider {
     // The actual file type (we infer this from the usage)
     isVideo: boolean,
     coverUrl?: string,
+    altText?: string | null,
   ) {
     // Step 1: Create Container
     const containerId = await this.createContainer(
@@ -146,6 +201,7 @@ export class InstagramProvider implements ISocialProvider {
       caption,
       false, // isCarouselItem
       coverUrl, // 👈 Pass it down
+      altText,
     );
 
     // Step 2: Publish Container
@@ -164,6 +220,7 @@ export class InstagramProvider implements ISocialProvider {
     caption: string,
     isCarouselItem = false,
     coverUrl?: string,
+    altText?: string | null,
   ): Promise<string> {
     try {
      const baseUrl = this.resolveHost(token);
@@ -185,6 +242,10 @@ export class InstagramProvider implements ISocialProvider {
         }
       } else {
         body.image_url = mediaUrl;
+        // Feed images only; stories reject it
+        if (altText && targetType !== 'STORIES') {
+          body.alt_text = altText;
+        }
       }
 
       // 2. Set the correct 'media_type' for the API
@@ -236,7 +297,7 @@ export class InstagramProvider implements ISocialProvider {
     igUserId: string,
     token: string,
     caption: string,
-    files: { url: string; mimeType: string; coverUrl?: string }[],
+    files: (PublishMedia & { coverUrl?: string })[],
   ) {
     // Step 1: Create a Container for EACH item (Children)
     // Note: Carousel children do NOT have captions. Only the parent does.
@@ -254,6 +315,7 @@ export class InstagramProvider implements ISocialProvider {
         '',
         true,
         file.coverUrl,
+        file.altText,
       ); // isCarouselItem=true
       childIds.push(childId);
     }
@@ -13,8 +13,12 @@ import { pipeline } from 'stream/promises';
 import { randomUUID } from 'crypto';
 import {
   ISocialProvider,
+  PublishMedia,
+  PublishPoll,
+  RemotePostState,
   SocialCredentials,
 } from '../interfaces/social-provider.interface';
+import { isNotFoundError } from '@/common/utility/publish-error.util';
 import * as https from 'https';
 
 @Injectable()
@@ -22,6 +26,12 @@ export class LinkedInProvider implements ISocialProvider {
   private readonly logger = new Logger(LinkedInProvider.name);
   private readonly API_BASE = 'https://api.linkedin.com';
   private readonly API_VERSION = '202601';
+  private readonly POLL_DURATIONS: Record<number, string> = {
+    1: 'ONE_DAY',
+    3: 'THREE_DAYS',
+    7: 'SEVEN_DAYS',
+    14: 'FOURTEEN_DAYS',
+  };
 
     private readonly httpsAgent = new https.Agent({
     family: 4, // FORCE IPv4
@@ -34,13 +44,14 @@ export class LinkedInProvider implements ISocialProvider {
   async publish(
     credentials: SocialCredentials,
     content: string,
-    mediaFiles: { url: string; mimeType: string; title?: string }[], // Added 'title' to type
-    metadata: { pageId: string },
+    mediaFiles: PublishMedia[],
+    metadata: { pageId: string; poll?: PublishPoll },
   ) {
     if (!metadata?.pageId) throw new BadRequestException('Page ID required');
     try {
       const authorUrn = this.formatAuthorUrn(metadata.pageId);
-      const mediaUrns: { id: string; title?: string }[] = [];
+      const mediaUrns: { id: string; title?: string; altText?: string }[] =
+        [];
 
       // --- A. VALIDATION: Check counts ---
       const videoCount = mediaFiles.filter((f) =>
@@ -78,7 +89,11 @@ export class LinkedInProvider implements ISocialProvider {
             authorUrn,
             file,
           );
-          mediaUrns.push({ id: result, title: file.title });
+          mediaUrns.push({
+            id: result,
+            title: file.title,
+            altText: file.altText ?? undefined,
+          });
         } else if (file.mimeType.startsWith('video/')) {
           result = await this.uploadVideo(
             credentials.accessToken,
@@ -112,7 +127,22 @@ export class LinkedInProvider implements ISocialProvider {
         isReshareDisabledByAuthor: false,
       };
 
-      if (mediaUrns.length > 0) {
+      if (metadata.poll) {
+        // 📊 Poll (no media allowed alongside it)
+        const duration = this.POLL_DURATIONS[metadata.poll.durationDays];
+        if (!duration) {
+          throw new BadRequestException(
+            'LinkedIn polls run for 1, 3, 7 or 14 days.',
+          );
+        }
+        postBody.content = {
+          poll: {
+            question: metadata.poll.question,
+            options: metadata.poll.options.map((text) => ({ text })),
+            settings: { duration },
+          },
+        };
+      } else if (mediaUrns.length > 0) {
         // CASE 1: Single Asset (Video OR Document OR Single Image)
         if (mediaUrns.length === 1 && docCount === 1) {
           // 📄 Document Payload
@@ -128,6 +158,10 @@ export class LinkedInProvider implements ISocialProvider {
             media: {
               id: mediaUrns[0].id,
               title: mediaUrns[0].title || 'Shared Media',
+              // Images only; LinkedIn caps alt text at 4086 characters
+              ...(mediaUrns[0].altText && {
+                altText: mediaUrns[0].altText.slice(0, 4086),
+              }),
             },
           };
         }
@@ -137,7 +171,7 @@ export class LinkedInProvider implements ISocialProvider {
             multiImage: {
               images: mediaUrns.map((m) => ({
                 id: m.id,
-                altText: m.title || 'Image',
+                altText: (m.altText || m.title || 'Image').slice(0, 4086),
               })),
             },
           };
@@ -169,6 +203,79 @@ export class LinkedInProvider implements ISocialProvider {
     }
   }
 
+  // ==================================================
+  // 💬 COMMENT ON A PUBLISHED POST (first comment)
+  // ==================================================
+  async comment(
+    credentials: SocialCredentials,
+    platformPostId: string,
+    content: string,
+    metadata: { pageId: string },
+  ) {
+    if (!metadata?.pageId) throw new BadRequestException('Page ID required');
+    try {
+      const actor = this.formatAuthorUrn(metadata.pageId);
+
+      const response = await axios.post(
+        `${this.API_BASE}/rest/socialActions/${encodeURIComponent(platformPostId)}/comments`,
+        {
+          actor,
+          object: platformPostId,
+          message: { text: content },
+        },
+        {
+          httpsAgent: this.httpsAgent,
+          headers: {
+            Authorization: `Bearer ${credentials.accessToken}`,
+            'X-Restli-Protocol-Version': '2.0.0',
+            'Linkedin-Version': this.API_VERSION,
+            'Content-Type': 'application/json',
+          },
+        },
+      );
+
+      // Comment URN comes back in the header; fall back to the body
+      const commentId =
+        response.headers['x-restli-id'] ||
+        response.data?.commentUrn ||
+        response.data?.id;
+      return { platformCommentId: commentId };
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  // ==================================================
+  // 🔎 LOOK UP A PUBLISHED POST (reconciliation)
+  // ==================================================
+  async fetchPost(
+    credentials: SocialCredentials,
+    platformPostId: string,
+  ): Promise<RemotePostState> {
+    try {
+      const response = await axios.get(
+        `${this.API_BASE}/rest/posts/${encodeURIComponent(platformPostId)}`,
+        {
+          httpsAgent: this.httpsAgent,
+          headers: {
+            Authorization: `Bearer ${credentials.accessToken}`,
+            'X-Restli-Protocol-Version': '2.0.0',
+            'Linkedin-Version': this.API_VERSION,
+          },
+        },
+      );
+
+      return {
+        exists: true,
+        url: `https://www.linkedin.com/feed/update/${platformPostId}`,
+        text: response.data?.commentary ?? null,
+      };
+    } catch (error: any) {
+      if (isNotFoundError(error)) return { exists: false };
+      this.handleError(error);
+    }
+  }
+
   // ==================================================
   // 📸 IMAGE UPLOAD (Simple Stream)
   // ==================================================
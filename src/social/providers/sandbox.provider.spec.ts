@@ -0,0 +1,45 @@
+import { classifyPublishError } from '@/common/utility/publish-error.util';
+import { sandboxPublishedAt } from '@/common/utility/sandbox.util';
+import { PublishErrorClass } from '@generated/enums';
+import { SandboxProvider } from './sandbox.provider';
+
+describe('SandboxProvider', () => {
+  const provider = new SandboxProvider();
+  const creds = { accessToken: 'sbx_token' };
+
+  it('returns a post ID that carries the publish time', async () => {
+    const before = Date.now();
+    const res = await provider.publish(creds, 'Hello sandbox', [], {
+      pageId: 'sbx_page_1',
+    });
+
+    expect(res.platformPostId).toMatch(/^sbx_/);
+    expect(res.url).toContain(res.platformPostId);
+    expect(
+      sandboxPublishedAt(res.platformPostId)!.getTime(),
+    ).toBeGreaterThanOrEqual(before);
+  });
+
+  it.each([
+    ['auth', PublishErrorClass.AUTH],
+    ['permission', PublishErrorClass.PERMISSION],
+    ['rate-limit', PublishErrorClass.RATE_LIMIT],
+    ['media', PublishErrorClass.MEDIA],
+    ['network', PublishErrorClass.NETWORK],
+    ['platform', PublishErrorClass.PLATFORM],
+  ])('fails like a real network on [sandbox:%s]', async (kind, expected) => {
+    const error = await provider
+      .publish(creds, `Launch day [sandbox:${kind}]`, [])
+      .catch((e) => e);
+
+    expect(classifyPublishError(error)).toBe(expected);
+  });
+
+  it('rejects a missing token as an auth error', async () => {
+    const error = await provider
+      .comment({ accessToken: '' }, 'sbx_1', 'hi')
+      .catch((e) => e);
+
+    expect(classifyPublishError(error)).toBe(PublishErrorClass.AUTH);
+  });
+});
@@ -0,0 +1,116 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import {
+  CommentResult,
+  ISocialProvider,
+  PostResult,
+  PublishMedia,
+  RemotePostState,
+  SocialCredentials,
+} from '../interfaces/social-provider.interface';
+import {
+  SANDBOX_POST_URL,
+  sandboxPostId,
+  sandboxPublishedAt,
+  sandboxRandom,
+} from '@/common/utility/sandbox.util';
+
+// `[sandbox:<kind>]` anywhere in the text makes the publish fail the way a
+// real network would, so QA can walk the retry / dead-letter paths.
+const FAILURE_DIRECTIVE =
+  /\[sandbox:(auth|permission|rate-limit|media|network|platform)\]/i;
+
+@Injectable()
+export class SandboxProvider implements ISocialProvider {
+  private readonly logger = new Logger(SandboxProvider.name);
+
+  async publish(
+    credentials: SocialCredentials,
+    content: string,
+    mediaFiles: PublishMedia[],
+    metadata?: { pageId?: string; replyToPostId?: string },
+  ): Promise<PostResult> {
+    if (!credentials?.accessToken) {
+      throw this.failure('auth');
+    }
+
+    const directive = content?.match(FAILURE_DIRECTIVE)?.[1];
+    if (directive) throw this.failure(directive.toLowerCase());
+
+    const platformPostId = sandboxPostId();
+    this.logger.debug(
+      `Sandbox publish for ${metadata?.pageId ?? 'unknown'}: ${platformPostId} (${mediaFiles?.length ?? 0} media)`,
+    );
+
+    return {
+      platformPostId,
+      url: `${SANDBOX_POST_URL}/${platformPostId}`,
+    };
+  }
+
+  async comment(
+    credentials: SocialCredentials,
+    platformPostId: string,
+    content: string,
+  ): Promise<CommentResult> {
+    if (!credentials?.accessToken) throw this.failure('auth');
+
+    const directive = content?.match(FAILURE_DIRECTIVE)?.[1];
+    if (directive) throw this.failure(directive.toLowerCase());
+
+    return {
+      platformCommentId: `sbx_cmt_${randomBytes(6).toString('hex')}`,
+    };
+  }
+
+  /**
+   * A few posts "get deleted" a day after publishing and a few more are
+   * edited after half a day, so reconciliation has something to find.
+   */
+  async fetchPost(
+    credentials: SocialCredentials,
+    platformPostId: string,
+  ): Promise<RemotePostState> {
+    if (!credentials?.accessToken) throw this.failure('auth');
+
+    const publishedAt = sandboxPublishedAt(platformPostId)?.getTime();
+    const ageHours = publishedAt ? (Date.now() - publishedAt) / 3_600_000 : 0;
+
+    if (ageHours > 24 && sandboxRandom(platformPostId, 'deleted') < 0.05) {
+      return { exists: false };
+    }
+
+    const edited =
+      ageHours > 12 && sandboxRandom(platformPostId, 'edited') < 0.1;
+    return {
+      exists: true,
+      url: `${SANDBOX_POST_URL}/${platformPostId}`,
+      text: edited ? `${platformPostId} (edited)` : platformPostId,
+    };
+  }
+
+  /**
+   * Errors shaped like the real providers' so classifyPublishError buckets
+   * them the same way.
+   */
+  private failure(kind: string) {
+    const [message, extra]: [string, Record<string, any>] = (() => {
+      switch (kind) {
+        case 'auth':
+          return ['Sandbox: access token expired', { status: 401 }];
+        case 'permission':
+          return ['Sandbox: permission denied for this page', { status: 403 }];
+        case 'rate-limit':
+          return ['Sandbox: too many requests', { status: 429 }];
+        case 'media':
+          return ['Sandbox: media upload failed', {}];
+        case 'network':
+          return ['Sandbox: connection timed out', { code: 'ETIMEDOUT' }];
+        default:
+          return ['Sandbox: service unavailable', { status: 503 }];
+      }
+    })();
+
+    return Object.assign(new Error(message), extra);
+  }
+}
@@ -13,6 +13,9 @@ import { pipeline } from 'stream/promises';
 import { randomUUID } from 'crypto';
 import {
   ISocialProvider,
+  PublishMedia,
+  PublishPoll,
+  RemotePostState,
   SocialCredentials,
 } from '../interfaces/social-provider.interface';
 
@@ -25,8 +28,8 @@ export class TwitterProvider implements ISocialProvider {
   async publish(
     credentials: SocialCredentials,
     content: string,
-    mediaFiles: { url: string; mimeType: string }[],
-    metadata?: { replyToPostId?: string },
+    mediaFiles: PublishMedia[],
+    metadata?: { replyToPostId?: string; poll?: PublishPoll },
   ) {
     const client = new TwitterApi({
       appKey: this.configService.getOrThrow('TWITTER_API_KEY'),
@@ -48,6 +51,9 @@ export class TwitterProvider implements ISocialProvider {
             file.url,
             file.mimeType,
           );
+          if (file.altText) {
+            await this.attachAltText(client, mediaId, file.altText);
+          }
           mediaIds.push(mediaId);
         }
       }
@@ -58,6 +64,14 @@ export class TwitterProvider implements ISocialProvider {
         payload.media = { media_ids: mediaIds };
       }
 
+      // Polls can't carry media; the tweet text is the question
+      if (metadata?.poll) {
+        payload.poll = {
+          options: metadata.poll.options,
+          duration_minutes: metadata.poll.durationDays * 24 * 60,
+        };
+      }
+
       if (metadata?.replyToPostId) {
         payload.reply = {
           in_reply_to_tweet_id: metadata.replyToPostId,
@@ -78,6 +92,59 @@ export class TwitterProvider implements ISocialProvider {
     }
   }
 
+  // ==================================================
+  // 💬 FIRST COMMENT = a reply to our own tweet
+  // ==================================================
+  async comment(
+    credentials: SocialCredentials,
+    platformPostId: string,
+    content: string,
+  ) {
+    const res = await this.publish(credentials, content, [], {
+      replyToPostId: platformPostId,
+    });
+    return { platformCommentId: res.platformPostId };
+  }
+
+  // ==================================================
+  // 🔎 LOOK UP A PUBLISHED TWEET (reconciliation)
+  // ==================================================
+  async fetchPost(
+    credentials: SocialCredentials,
+    platformPostId: string,
+  ): Promise<RemotePostState> {
+    const client = new TwitterApi({
+      appKey: this.configService.getOrThrow('TWITTER_API_KEY'),
+      appSecret: this.configService.getOrThrow('TWITTER_API_SECRET'),
+      accessToken: credentials.accessToken,
+      accessSecret: credentials.accessSecret,
+    });
+
+    try {
+      // Deleted tweets come back as a partial error rather than a throw
+      const response = await client.v2.singleTweet(platformPostId);
+      if (!response.data) {
+        const notFound = response.errors?.some((e: any) =>
+          String(e?.type ?? e?.title ?? '').includes('not-found') ||
+          e?.title === 'Not Found Error',
+        );
+        if (notFound) return { exists: false };
+        throw new Error(response.errors?.[0]?.detail ?? 'Tweet lookup failed');
+      }
+
+      return {
+        exists: true,
+        url: `https://twitter.com/user/status/${platformPostId}`,
+        text: response.data.text ?? null,
+      };
+    } catch (error) {
+      this.logger.error('Twitter lookup failed', error);
+      const message =
+        error?.data?.detail || error?.message || 'Unknown Twitter error';
+      throw new InternalServerErrorException(`Twitter Error: ${message}`);
+    }
+  }
+
   // ==================================================
   // 📸 STREAM-TO-DISK -> UPLOAD -> CLEANUP
   // ==================================================
@@ -149,6 +216,17 @@ export class TwitterProvider implements ISocialProvider {
     }
   }
 
+  // X caps alt text at 1000 characters; videos ignore it
+  private async attachAltText(
+    client: TwitterApiReadWrite,
+    mediaId: string,
+    altText: string,
+  ) {
+    await client.v1.createMediaMetadata(mediaId, {
+      alt_text: { text: altText.slice(0, 1000) },
+    });
+  }
+
   private getExtension(mimeType: string): string {
     const map = {
       'image/jpeg': 'jpg',
@@ -0,0 +1,86 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { PrismaService } from '@/prisma/prisma.service';
+import { ConnectionStatus } from '@generated/enums';
+
+/**
+ * Queues a reconcile job per profile with published posts, so deleted or
+ * edited posts are noticed and analytics stops fetching dead IDs. Each job
+ * checks a small batch; a backlog drains over a few runs.
+ */
+@Injectable()
+export class PostReconciliationScheduler {
+  private readonly logger = new Logger(PostReconciliationScheduler.name);
+  private readonly BATCH_SIZE = 100;
+  // Spread jobs over this window to stay clear of per-app rate limits
+  private readonly JITTER_MS = 30 * 60 * 1000;
+
+  constructor(
+    @InjectQueue('post-verification')
+    private readonly verificationQueue: Queue,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_6_HOURS)
+  async scheduleReconciliation() {
+    let cursor: string | undefined;
+    let total = 0;
+
+    try {
+      while (true) {
+        const profiles = await this.prisma.socialProfile.findMany({
+          take: this.BATCH_SIZE,
+          skip: cursor ? 1 : 0,
+          cursor: cursor ? { id: cursor } : undefined,
+          orderBy: { id: 'asc' },
+          where: {
+            isActive: true,
+            status: ConnectionStatus.CONNECTED,
+            workspace: { organization: { isActive: true } },
+            postDestinations: {
+              some: { status: 'SUCCESS', platformPostId: { not: null } },
+            },
+          },
+          select: { id: true },
+        });
+        if (!profiles.length) break;
+
+        // A failed batch is picked up again on the next run
+        try {
+          await this.verificationQueue.addBulk(
+            profiles.map((profile) => ({
+              name: 'reconcile-profile',
+              data: { socialProfileId: profile.id },
+              opts: {
+                // One pending job per profile; a slow run doesn't pile up
+                jobId: `reconcile-${profile.id}`,
+                delay: Math.floor(Math.random() * this.JITTER_MS),
+                attempts: 1,
+                removeOnComplete: true,
+                removeOnFail: true,
+              },
+            })),
+          );
+          total += profiles.length;
+        } catch (error: any) {
+          this.logger.error(
+            `Queueing reconciliation failed for ${profiles.length} profiles: ${error.message}`,
+            error.stack,
+          );
+        }
+
+        cursor = profiles[profiles.length - 1].id;
+        if (profiles.length < this.BATCH_SIZE) break;
+      }
+    } catch (error: any) {
+      this.logger.error(
+        `Reconciliation scheduling failed: ${error.message}`,
+        error.stack,
+      );
+    }
+
+    if (total) this.logger.log(`Queued reconciliation for ${total} profiles`);
+  }
+}
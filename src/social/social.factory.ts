@@ -4,6 +4,7 @@ import { ISocialProvider } from './interfaces/social-provider.interface';
 import { FacebookProvider } from './providers/facbook.provider';
 import { InstagramProvider } from './providers/instagram.provider';
 import { LinkedInProvider } from './providers/linkedin.provider';
+import { SandboxProvider } from './providers/sandbox.provider';
 import { Platform } from '@generated/enums';
 
 @Injectable()
@@ -12,7 +13,8 @@ export class SocialFactory {
     private twitter: TwitterProvider,
     private linkedin: LinkedInProvider,
     private facebook: FacebookProvider,
-    private instagram: InstagramProvider
+    private instagram: InstagramProvider,
+    private sandbox: SandboxProvider,
   ) {}
 
   getProvider(platform: Platform): ISocialProvider {
@@ -25,6 +27,8 @@ export class SocialFactory {
         return this.facebook;
       case 'INSTAGRAM': 
         return this.instagram;
+      case 'SANDBOX':
+        return this.sandbox;
       default:
         throw new BadRequestException(`Platform ${platform} is not supported yet.`);
     }
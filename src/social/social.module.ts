@@ -4,6 +4,8 @@ import { SocialFactory } from './social.factory';
 import { LinkedInProvider } from './providers/linkedin.provider';
 import { FacebookProvider } from './providers/facbook.provider';
 import { InstagramProvider } from './providers/instagram.provider';
+import { SandboxProvider } from './providers/sandbox.provider';
+import { PostReconciliationScheduler } from './schedulers/post-reconciliation.scheduler';
 import { HttpModule } from '@nestjs/axios';
 import { BullModule } from '@nestjs/bullmq';
 
@@ -19,6 +21,8 @@ import { BullModule } from '@nestjs/bullmq';
     LinkedInProvider,
     FacebookProvider,
     InstagramProvider,
+    SandboxProvider,
+    PostReconciliationScheduler,
   ],
   exports: [SocialFactory, FacebookProvider],
 })
@@ -0,0 +1,80 @@
+import { ContentType, Platform, TemplateCategory } from '@generated/enums';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+
+export class TemplateContentDto {
+  @ApiProperty({
+    description: 'Body of the post. Supports {{placeholders}}.',
+    example: 'Meet {{product}} 🚀 Follow {{brand.handle}} for more.',
+  })
+  @IsString()
+  @IsNotEmpty()
+  text: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Follow-up replies for thread templates. Supports {{placeholders}}.',
+    type: [String],
+    example: ['Here is why {{product}} matters 👇'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  threads?: string[];
+}
+
+export class CreateTemplateDto {
+  @ApiProperty({ example: 'Weekly product launch' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({ example: 'Approved copy for Monday launches' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({ enum: Platform })
+  @IsEnum(Platform)
+  platform: Platform;
+
+  @ApiPropertyOptional({ enum: ContentType, default: ContentType.POST })
+  @IsOptional()
+  @IsEnum(ContentType)
+  contentType?: ContentType = ContentType.POST;
+
+  @ApiProperty({ enum: TemplateCategory })
+  @IsEnum(TemplateCategory)
+  category: TemplateCategory;
+
+  @ApiPropertyOptional({ type: [String], example: ['launch', 'promo'] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+
+  @ApiProperty({ type: TemplateContentDto })
+  @ValidateNested()
+  @Type(() => TemplateContentDto)
+  content: TemplateContentDto;
+
+  @ApiPropertyOptional({
+    description: 'Public templates are visible to every organization',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isPublic?: boolean;
+}
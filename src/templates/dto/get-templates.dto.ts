@@ -0,0 +1,42 @@
+import { PaginationDto } from '@/common/dtos/pagination.dto';
+import { ContentType, Platform, TemplateCategory } from '@generated/enums';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsEnum, IsOptional, IsString } from 'class-validator';
+
+export class GetTemplatesDto extends PaginationDto {
+  @ApiPropertyOptional({ enum: Platform })
+  @IsOptional()
+  @IsEnum(Platform)
+  platform?: Platform;
+
+  @ApiPropertyOptional({ enum: ContentType })
+  @IsOptional()
+  @IsEnum(ContentType)
+  contentType?: ContentType;
+
+  @ApiPropertyOptional({ enum: TemplateCategory })
+  @IsOptional()
+  @IsEnum(TemplateCategory)
+  category?: TemplateCategory;
+
+  @ApiPropertyOptional({ description: 'Search in name and description' })
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @ApiPropertyOptional({ description: 'Only return templates I starred' })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  favoritesOnly?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Include public templates from the shared library',
+    default: true,
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  includePublic?: boolean = true;
+}
@@ -0,0 +1,39 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsDateString,
+  IsObject,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+
+export class RenderTemplateDto {
+  @ApiPropertyOptional({
+    description:
+      'Values for custom placeholders. Brand values ({{brand.*}}) are filled from the workspace brand kit.',
+    example: { product: 'Rooli Analytics', discount: '20%' },
+  })
+  @IsOptional()
+  @IsObject()
+  variables?: Record<string, string>;
+
+  @ApiPropertyOptional({
+    description: 'Profiles the draft should target',
+    type: [String],
+    example: ['cl9abc123facebook_page_id'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  socialProfileIds?: string[];
+
+  @ApiPropertyOptional({ example: '2026-01-10T09:00:00.000' })
+  @IsOptional()
+  @IsDateString()
+  scheduledAt?: string;
+
+  @ApiPropertyOptional({ example: 'Africa/Lagos' })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+}
@@ -0,0 +1,27 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TemplatesController } from './templates.controller';
+import { TemplatesService } from './templates.service';
+import { ContextGuard } from '@/common/guards/context.guard';
+import { PermissionsGuard } from '@/common/guards/permission.guard';
+
+describe('TemplatesController', () => {
+  let controller: TemplatesController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TemplatesController],
+      providers: [{ provide: TemplatesService, useValue: {} }],
+    })
+      .overrideGuard(ContextGuard)
+      .useValue({ canActivate: () => true })
+      .overrideGuard(PermissionsGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<TemplatesController>(TemplatesController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,140 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ContextGuard } from '@/common/guards/context.guard';
+import { PermissionsGuard } from '@/common/guards/permission.guard';
+import { RequirePermission } from '@/common/decorators/require-permission.decorator';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+import { PermissionAction, PermissionResource } from '@generated/enums';
+import { TemplatesService } from './templates.service';
+import { CreateTemplateDto } from './dto/create-template.dto';
+import { UpdateTemplateDto } from './dto/update-template.dto';
+import { GetTemplatesDto } from './dto/get-templates.dto';
+import { RenderTemplateDto } from './dto/render-template.dto';
+
+@ApiTags('Content Templates')
+@ApiBearerAuth()
+@UseGuards(ContextGuard, PermissionsGuard)
+@Controller('workspaces/:workspaceId/templates')
+export class TemplatesController {
+  constructor(private readonly service: TemplatesService) {}
+
+  @Post()
+  @RequirePermission(PermissionResource.TEMPLATE, PermissionAction.CREATE)
+  @ApiOperation({ summary: 'Create a content template' })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  @ApiResponse({ status: 201, description: 'Template created' })
+  create(
+    @CurrentUser('userId') userId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Body() dto: CreateTemplateDto,
+  ) {
+    return this.service.create(userId, workspaceId, dto);
+  }
+
+  @Get()
+  @RequirePermission(PermissionResource.TEMPLATE, PermissionAction.READ)
+  @ApiOperation({
+    summary: 'List organization templates (plus the public library)',
+  })
+  @ApiParam({ name: 'workspaceId', example: 'ws_123' })
+  list(
+    @CurrentUser('userId') userId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Query() query: GetTemplatesDto,
+  ) {
+    return this.service.list(userId, workspaceId, query);
+  }
+
+  @Get(':templateId')
+  @RequirePermission(PermissionResource.TEMPLATE, PermissionAction.READ)
+  @ApiOperation({ summary: 'Get one template' })
+  get(
+    @Param('workspaceId') workspaceId: string,
+    @Param('templateId') templateId: string,
+  ) {
+    return this.service.get(workspaceId, templateId);
+  }
+
+  @Patch(':templateId')
+  @RequirePermission(PermissionResource.TEMPLATE, PermissionAction.UPDATE)
+  @ApiOperation({ summary: 'Update a template owned by this organization' })
+  @ApiResponse({
+    status: 403,
+    description: 'Template belongs to another organization',
+  })
+  update(
+    @Param('workspaceId') workspaceId: string,
+    @Param('templateId') templateId: string,
+    @Body() dto: UpdateTemplateDto,
+  ) {
+    return this.service.update(workspaceId, templateId, dto);
+  }
+
+  @Delete(':templateId')
+  @RequirePermission(PermissionResource.TEMPLATE, PermissionAction.DELETE)
+  @ApiOperation({ summary: 'Delete a template owned by this organization' })
+  remove(
+    @Param('workspaceId') workspaceId: string,
+    @Param('templateId') templateId: string,
+  ) {
+    return this.service.delete(workspaceId, templateId);
+  }
+
+  @Post(':templateId/favorite')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Star a template' })
+  favorite(
+    @CurrentUser('userId') userId: string,
+    @Param('workspaceId') workspaceId: string,
+    @Param('templateId') templateId: string,
+  ) {
+    return this.service.favorite(userId, workspaceId, templateId);
+  }
+
+  @Delete(':templateId/favorite')
+  @ApiOperation({ summary: 'Remove a template from favourites' })
+  unfavorite(
+    @CurrentUser('userId') userId: string,
+    @Param('templateId') templateId: string,
+  ) {
+    return this.service.unfavorite(userId, templateId);
+  }
+
+  @Post(':templateId/render')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermission(PermissionResource.TEMPLATE, PermissionAction.READ)
+  @ApiOperation({
+    summary: 'Render a template into a post draft',
+    description:
+      'Fills {{placeholders}} from the workspace brand kit and supplied variables. The returned draft can be sent as-is to POST /workspaces/:workspaceId/posts.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Draft returned; usage count incremented',
+  })
+  render(
+    @Param('workspaceId') workspaceId: string,
+    @Param('templateId') templateId: string,
+    @Body() dto: RenderTemplateDto,
+  ) {
+    return this.service.render(workspaceId, templateId, dto);
+  }
+}
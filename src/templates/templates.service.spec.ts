@@ -0,0 +1,62 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TemplatesService } from './templates.service';
+import { PrismaService } from '@/prisma/prisma.service';
+
+describe('TemplatesService', () => {
+  let service: TemplatesService;
+  const prisma = {
+    workspace: {
+      findUnique: jest.fn().mockResolvedValue({ organizationId: 'org_1' }),
+    },
+    contentTemplate: {
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+    brandKit: { findUnique: jest.fn() },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TemplatesService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<TemplatesService>(TemplatesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('renders brand and custom placeholders into a post draft', async () => {
+    prisma.contentTemplate.findFirst.mockResolvedValue({
+      id: 'tpl_1',
+      organizationId: 'org_1',
+      contentType: 'POST',
+      content: { text: 'Meet {{product}} by {{brand.handle}} {{ discount }}' },
+    });
+    prisma.brandKit.findUnique.mockResolvedValue({
+      name: 'Rooli',
+      handle: 'rooli',
+      tone: null,
+      brandVoice: null,
+    });
+
+    const result = await service.render('ws_1', 'tpl_1', {
+      variables: { product: 'Analytics' },
+      socialProfileIds: ['sp_1'],
+    });
+
+    expect(result.draft.content).toBe(
+      'Meet Analytics by @rooli {{ discount }}',
+    );
+    expect(result.draft.socialProfileIds).toEqual(['sp_1']);
+    expect(result.missingVariables).toEqual(['discount']);
+    expect(prisma.contentTemplate.update).toHaveBeenCalledWith({
+      where: { id: 'tpl_1' },
+      data: { usageCount: { increment: 1 } },
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '@/prisma/prisma.service';
+import { Prisma } from '@generated/client';
+import { QueryMode } from '@generated/internal/prismaNamespace';
+import { CreatePostDto } from '@/post/dto/request/create-post.dto';
+import {
+  CreateTemplateDto,
+  TemplateContentDto,
+} from './dto/create-template.dto';
+import { UpdateTemplateDto } from './dto/update-template.dto';
+import { GetTemplatesDto } from './dto/get-templates.dto';
+import { RenderTemplateDto } from './dto/render-template.dto';
+
+const PLACEHOLDER_REGEX = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+@Injectable()
+export class TemplatesService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(userId: string, workspaceId: string, dto: CreateTemplateDto) {
+    const organizationId = await this.getOrganizationId(workspaceId);
+
+    return this.prisma.contentTemplate.create({
+      data: {
+        organizationId,
+        userId,
+        name: dto.name.trim(),
+        description: dto.description?.trim(),
+        platform: dto.platform,
+        contentType: dto.contentType,
+        category: dto.category,
+        tags: dto.tags ?? [],
+        content: dto.content as unknown as Prisma.JsonObject,
+        isPublic: dto.isPublic ?? false,
+      },
+    });
+  }
+
+  async list(userId: string, workspaceId: string, query: GetTemplatesDto) {
+    const organizationId = await this.getOrganizationId(workspaceId);
+    const {
+      page,
+      limit,
+      platform,
+      contentType,
+      category,
+      search,
+      favoritesOnly,
+      includePublic,
+    } = query;
+
+    const where: Prisma.ContentTemplateWhereInput = {
+      OR: [
+        { organizationId },
+        ...(includePublic !== false ? [{ isPublic: true }] : []),
+      ],
+      ...(platform && { platform }),
+      ...(contentType && { contentType }),
+      ...(category && { category }),
+      ...(favoritesOnly && { favorites: { some: { userId } } }),
+      ...(search && {
+        AND: [
+          {
+            OR: [
+              { name: { contains: search, mode: QueryMode.insensitive } },
+              {
+                description: { contains: search, mode: QueryMode.insensitive },
+              },
+            ],
+          },
+        ],
+      }),
+    };
+
+    const [items, total] = await this.prisma.$transaction([
+      this.prisma.contentTemplate.findMany({
+        where,
+        include: {
+          favorites: { where: { userId }, select: { id: true } },
+        },
+        orderBy: [{ usageCount: 'desc' }, { createdAt: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.contentTemplate.count({ where }),
+    ]);
+
+    return {
+      data: items.map(({ favorites, ...template }) => ({
+        ...template,
+        isFavorite: favorites.length > 0,
+      })),
+      meta: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async get(workspaceId: string, templateId: string) {
+    const organizationId = await this.getOrganizationId(workspaceId);
+    return this.findVisibleTemplate(organizationId, templateId);
+  }
+
+  async update(
+    workspaceId: string,
+    templateId: string,
+    dto: UpdateTemplateDto,
+  ) {
+    const organizationId = await this.getOrganizationId(workspaceId);
+    await this.findOwnedTemplate(organizationId, templateId);
+
+    return this.prisma.contentTemplate.update({
+      where: { id: templateId },
+      data: {
+        name: dto.name?.trim(),
+        description: dto.description?.trim(),
+        platform: dto.platform,
+        contentType: dto.contentType,
+        category: dto.category,
+        tags: dto.tags,
+        content: dto.content
+          ? (dto.content as unknown as Prisma.JsonObject)
+          : undefined,
+        isPublic: dto.isPublic,
+      },
+    });
+  }
+
+  async delete(workspaceId: string, templateId: string) {
+    const organizationId = await this.getOrganizationId(workspaceId);
+    await this.findOwnedTemplate(organizationId, templateId);
+
+    await this.prisma.contentTemplate.delete({ where: { id: templateId } });
+    return { success: true };
+  }
+
+  // -----------------------
+  // Favourites
+  // -----------------------
+
+  async favorite(userId: string, workspaceId: string, templateId: string) {
+    const organizationId = await this.getOrganizationId(workspaceId);
+    await this.findVisibleTemplate(organizationId, templateId);
+
+    await this.prisma.userFavoriteTemplate.upsert({
+      where: { userId_templateId: { userId, templateId } },
+      create: { userId, templateId },
+      update: {},
+    });
+    return { success: true };
+  }
+
+  async unfavorite(userId: string, templateId: string) {
+    await this.prisma.userFavoriteTemplate.deleteMany({
+      where: { userId, templateId },
+    });
+    return { success: true };
+  }
+
+  // -----------------------
+  // Rendering
+  // -----------------------
+
+  /**
+   * Fills {{placeholders}} from the workspace brand kit and caller-supplied
+   * variables, bumps usageCount and returns a draft ready for POST /posts.
+   * Unknown placeholders are left as-is and reported in `missingVariables`.
+   */
+  async render(
+    workspaceId: string,
+    templateId: string,
+    dto: RenderTemplateDto,
+  ) {
+    const organizationId = await this.getOrganizationId(workspaceId);
+    const template = await this.findVisibleTemplate(organizationId, templateId);
+
+    const brandKit = await this.prisma.brandKit.findUnique({
+      where: { workspaceId },
+      select: { name: true, handle: true, tone: true, brandVoice: true },
+    });
+
+    const values: Record<string, string> = {
+      ...(brandKit && this.buildBrandVariables(brandKit)),
+      ...(dto.variables ?? {}),
+    };
+
+    const content = template.content as unknown as TemplateContentDto;
+    const missing = new Set<string>();
+
+    const text = this.fillPlaceholders(content?.text ?? '', values, missing);
+    const threads = (content?.threads ?? []).map((item) => ({
+      content: this.fillPlaceholders(item, values, missing),
+    }));
+
+    await this.prisma.contentTemplate.update({
+      where: { id: template.id },
+      data: { usageCount: { increment: 1 } },
+    });
+
+    const draft: CreatePostDto = {
+      content: text,
+      contentType: template.contentType,
+      socialProfileIds: dto.socialProfileIds ?? [],
+      mediaIds: [],
+      scheduledAt: dto.scheduledAt,
+      timezone: dto.timezone ?? 'UTC',
+      ...(threads.length > 0 && { threads }),
+    };
+
+    return {
+      templateId: template.id,
+      draft,
+      missingVariables: [...missing],
+    };
+  }
+
+  // -----------------------
+  // Helpers
+  // -----------------------
+
+  private fillPlaceholders(
+    text: string,
+    values: Record<string, string>,
+    missing: Set<string>,
+  ) {
+    return text.replace(PLACEHOLDER_REGEX, (match, key: string) => {
+      const value = values[key];
+      if (value === undefined || value === null || value === '') {
+        missing.add(key);
+        return match;
+      }
+      return String(value);
+    });
+  }
+
+  private buildBrandVariables(brandKit: {
+    name: string;
+    handle: string | null;
+    tone: string | null;
+    brandVoice: string | null;
+  }) {
+    const vars: Record<string, string> = { 'brand.name': brandKit.name };
+    if (brandKit.handle) {
+      vars['brand.handle'] = brandKit.handle.startsWith('@')
+        ? brandKit.handle
+        : `@${brandKit.handle}`;
+    }
+    if (brandKit.tone) vars['brand.tone'] = brandKit.tone;
+    if (brandKit.brandVoice) vars['brand.voice'] = brandKit.brandVoice;
+    return vars;
+  }
+
+  private async getOrganizationId(workspaceId: string) {
+    const workspace = await this.prisma.workspace.findUnique({
+      where: { id: workspaceId },
+      select: { organizationId: true },
+    });
+    if (!workspace) throw new NotFoundException('Workspace not found');
+    return workspace.organizationId;
+  }
+
+  private async findVisibleTemplate(
+    organizationId: string,
+    templateId: string,
+  ) {
+    const template = await this.prisma.contentTemplate.findFirst({
+      where: {
+        id: templateId,
+        OR: [{ organizationId }, { isPublic: true }],
+      },
+    });
+    if (!template) throw new NotFoundException('Template not found');
+    return template;
+  }
+
+  private async findOwnedTemplate(organizationId: string, templateId: string) {
+    const template = await this.findVisibleTemplate(organizationId, templateId);
+    if (template.organizationId !== organizationId) {
+      throw new ForbiddenException(
+        'Public templates from other organizations are read-only',
+      );
+    }
+    return template;
+  }
+}
@@ -6,11 +6,12 @@ import { AnalyticsNormalizerService } from '@/analytics/services/analytics-norma
 import { AnalyticsRepository } from '@/analytics/services/analytics.repository';
 import { AnalyticsService } from '@/analytics/services/analytics.service';
 import { EncryptionService } from '@/common/utility/encryption.service';
+import { PlatformRateLimiterService } from '@/common/utility/platform-rate-limiter.service';
 import { PrismaService } from '@/prisma/prisma.service';
 import { Platform } from '@generated/enums';
 import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
 import { Logger } from '@nestjs/common';
-import { Job } from 'bullmq';
+import { DelayedError, Job } from 'bullmq';
 
 @Processor('analytics-queue')
 export class AnalyticsProcessor extends WorkerHost {
@@ -22,14 +23,18 @@ export class AnalyticsProcessor extends WorkerHost {
     private readonly fetcher: AnalyticsService,
     private readonly normalizer: AnalyticsNormalizerService,
     private readonly repo: AnalyticsRepository,
+    private readonly rateLimiter: PlatformRateLimiterService,
   ) {
     super();
   }
 
-  async process(job: Job<{ socialProfileId: string }>): Promise<void> {
+  async process(
+    job: Job<{ socialProfileId: string }>,
+    token?: string,
+  ): Promise<void> {
     switch (job.name) {
       case 'fetch-stats':
-        await this.handleDailyFetch(job);
+        await this.handleDailyFetch(job, token);
         break;
       default:
         this.logger.warn(`Unknown job name: ${job.name}`);
@@ -51,7 +56,10 @@ export class AnalyticsProcessor extends WorkerHost {
     );
   }
 
-  private async handleDailyFetch(job: Job<{ socialProfileId: string }>) {
+  private async handleDailyFetch(
+    job: Job<{ socialProfileId: string }>,
+    token?: string,
+  ) {
     const { socialProfileId } = job.data;
     this.logger.log(`Starting analytics fetch for profile: ${socialProfileId}`);
 
@@ -67,6 +75,14 @@ export class AnalyticsProcessor extends WorkerHost {
         );
       }
 
+      // One call for the account, one batched call for recent posts
+      await this.rateLimiter.deferJobIfLimited(job, token, {
+        platform: profile.platform,
+        socialProfileId: profile.id,
+        requestType: 'insights',
+        cost: 2,
+      });
+
       const credentials = await this.getCredentials(profile);
 
       this.logger.debug(`Fetching account stats for ${profile.platform}...`);
@@ -94,6 +110,8 @@ export class AnalyticsProcessor extends WorkerHost {
 
       this.logger.log(`Analytics fetch completed for ${socialProfileId}`);
     } catch (error: any) {
+      if (error instanceof DelayedError) throw error;
+
       console.log(error);
       this.logger.error(`Analytics job failed: ${error.message}`);
       throw error;
@@ -137,6 +155,26 @@ export class AnalyticsProcessor extends WorkerHost {
 
     const postMap = new Map(postsToUpdate.map((p) => [p.platformPostId, p]));
 
+    // Poll votes, where the post stats above didn't already carry them
+    const pollIds = rawPosts
+      .filter(
+        (r) =>
+          !r.unified.poll &&
+          postMap.get(r.unified.postId)?.post.contentType === 'POLL',
+      )
+      .map((r) => r.unified.postId);
+    if (pollIds.length) {
+      const polls = await this.fetcher.fetchPollResults(
+        platform,
+        pollIds,
+        credentials,
+      );
+      for (const rawPost of rawPosts) {
+        const poll = polls.get(rawPost.unified.postId);
+        if (poll) rawPost.unified.poll = poll;
+      }
+    }
+
     for (const rawPost of rawPosts) {
       try {
         // Extract the ID from the unified object
@@ -62,6 +62,9 @@ export class MediaIngestProcessor extends WorkerHost {
           size: BigInt(uploadResult.bytes),
           width: uploadResult.width,
           height: uploadResult.height,
+          duration: uploadResult.duration
+            ? Math.round(uploadResult.duration)
+            : null,
           mimeType: `${uploadResult.resource_type}/${uploadResult.format}`,
         },
       });
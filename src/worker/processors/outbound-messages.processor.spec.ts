@@ -0,0 +1,143 @@
+import { CommentOutboundService } from '@/messages/outbound-service/comments.service';
+import { OutboundMessagesProcessor } from './outbound-messages.processor';
+
+describe('OutboundMessagesProcessor (first comments)', () => {
+  const prisma: any = {
+    comment: { findUnique: jest.fn(), update: jest.fn() },
+  };
+  const events: any = { emit: jest.fn() };
+  const encryption: any = {
+    decrypt: jest.fn(async (v: string) => `plain:${v}`),
+  };
+  const provider = { comment: jest.fn() };
+  const socialFactory: any = { getProvider: jest.fn(() => provider) };
+
+  const comments = new CommentOutboundService(
+    prisma,
+    encryption,
+    {} as any,
+    {} as any,
+    events,
+    {} as any,
+    socialFactory,
+  );
+  const processor = new OutboundMessagesProcessor(
+    prisma,
+    events,
+    {} as any,
+    comments,
+    {} as any,
+  );
+
+  const job: any = {
+    id: 'j1',
+    name: 'send-first-comment',
+    data: { commentId: 'c1', workspaceId: 'ws_1' },
+    attemptsMade: 1,
+    opts: { attempts: 3 },
+  };
+
+  const pendingComment = (overrides: Record<string, any> = {}) => ({
+    id: 'c1',
+    workspaceId: 'ws_1',
+    platform: 'FACEBOOK',
+    externalPostId: 'fb_post_1',
+    externalCommentId: 'pending_abc',
+    content: 'Link in the comments',
+    postDestination: {
+      id: 'pd_1',
+      profile: {
+        platform: 'FACEBOOK',
+        platformId: 'page_1',
+        name: 'Acme',
+        accessToken: 'enc_page',
+        connection: { accessToken: 'enc_user' },
+      },
+    },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    encryption.decrypt.mockImplementation(async (v: string) => `plain:${v}`);
+    socialFactory.getProvider.mockReturnValue(provider);
+  });
+
+  it('posts a pending comment and marks it visible', async () => {
+    prisma.comment.findUnique.mockResolvedValue(pendingComment());
+    provider.comment.mockResolvedValue({ platformCommentId: 'fb_c_9' });
+
+    await processor.process(job);
+
+    expect(provider.comment).toHaveBeenCalledWith(
+      { accessToken: 'plain:enc_page' },
+      'fb_post_1',
+      'Link in the comments',
+      { pageId: 'page_1' },
+    );
+    expect(prisma.comment.update).toHaveBeenCalledWith({
+      where: { id: 'c1' },
+      data: expect.objectContaining({
+        externalCommentId: 'fb_c_9',
+        status: 'VISIBLE',
+        senderExternalId: 'page_1',
+      }),
+    });
+    expect(events.emit).toHaveBeenCalledWith('inbox.comment.updated', {
+      workspaceId: 'ws_1',
+      commentId: 'c1',
+      status: 'VISIBLE',
+    });
+  });
+
+  it('does nothing when the comment was already sent or deleted', async () => {
+    prisma.comment.findUnique.mockResolvedValueOnce(
+      pendingComment({ externalCommentId: 'fb_c_9' }),
+    );
+    await processor.process(job);
+
+    prisma.comment.findUnique.mockResolvedValueOnce(null);
+    await processor.process(job);
+
+    expect(provider.comment).not.toHaveBeenCalled();
+    expect(prisma.comment.update).not.toHaveBeenCalled();
+  });
+
+  it('fails when the comment has lost its post', async () => {
+    prisma.comment.findUnique.mockResolvedValue(
+      pendingComment({ postDestination: null }),
+    );
+
+    await expect(processor.process(job)).rejects.toThrow(
+      'First comment is not linked to a destination',
+    );
+    expect(provider.comment).not.toHaveBeenCalled();
+  });
+
+  it('rethrows platform errors without marking the comment sent', async () => {
+    prisma.comment.findUnique.mockResolvedValue(pendingComment());
+    provider.comment.mockRejectedValue(new Error('(#200) Permissions error'));
+
+    await expect(processor.process(job)).rejects.toThrow('Permissions error');
+    expect(prisma.comment.update).not.toHaveBeenCalled();
+  });
+
+  it('marks the comment failed only after the last attempt', async () => {
+    const error = new Error('(#200) Permissions error');
+
+    await processor.onFailed(job, error);
+    expect(prisma.comment.update).not.toHaveBeenCalled();
+
+    await processor.onFailed({ ...job, attemptsMade: 3 }, error);
+    expect(prisma.comment.update).toHaveBeenCalledWith({
+      where: { id: 'c1' },
+      data: { status: 'FAILED' },
+    });
+    expect(events.emit).toHaveBeenCalledWith('inbox.comment.updated', {
+      workspaceId: 'ws_1',
+      commentId: 'c1',
+      status: 'FAILED',
+      error: error.message,
+    });
+  });
+});
@@ -1,10 +1,11 @@
 import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
-import { Job } from 'bullmq';
+import { DelayedError, Job } from 'bullmq';
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '@/prisma/prisma.service';
 import { DomainEventsService } from '@/events/domain-events.service';
 import { MessagingOutboundService } from '@/messages/outbound-service/messages.service';
 import { CommentOutboundService } from '@/messages/outbound-service/comments.service';
+import { PlatformRateLimiterService } from '@/common/utility/platform-rate-limiter.service';
 
 
 @Injectable()
@@ -16,24 +17,31 @@ export class OutboundMessagesProcessor extends WorkerHost {
     private readonly prisma: PrismaService,
     private readonly events: DomainEventsService,
     private readonly outboundMessage: MessagingOutboundService,
-    private readonly outboundComment: CommentOutboundService
+    private readonly outboundComment: CommentOutboundService,
+    private readonly rateLimiter: PlatformRateLimiterService,
   ) {
     super();
   }
 
-  async process(job: Job<any>) {
+  async process(job: Job<any>, token?: string) {
     try {
       switch (job.name) {
         case 'send-outbound-message':
-          await this.processOutboundMessage(job);
+          await this.processOutboundMessage(job, token);
           break;
         case 'send-outbound-comment':
           await this.processOutboundComment(job);
           break;
+        case 'send-first-comment':
+          await this.processFirstComment(job);
+          break;
         default:
           this.logger.warn(`Unknown outbound job: ${job.name}`);
       }
     } catch (err: any) {
+      // Rate-limited: job was moved back to delayed, not a failure
+      if (err instanceof DelayedError) throw err;
+
       this.logger.error(
         `Outbound failed [${job.name}] jobId=${job.id}: ${err?.message ?? String(err)}`,
       );
@@ -41,7 +49,7 @@ export class OutboundMessagesProcessor extends WorkerHost {
     }
   }
 
-  async processOutboundMessage(job: Job<any>) {
+  async processOutboundMessage(job: Job<any>, token?: string) {
     try {
 
       const { messageId, memberId } = job.data as { messageId: string, memberId?: string };
@@ -61,6 +69,13 @@ export class OutboundMessagesProcessor extends WorkerHost {
         return;
       }
 
+      // Wait for room in the DM window instead of getting a 429 from the platform
+      await this.rateLimiter.deferJobIfLimited(job, token, {
+        platform: msg.conversation.socialProfile.platform,
+        socialProfileId: msg.conversation.socialProfile.id,
+        requestType: 'dm',
+      });
+
       // Set SENDING (best effort)
       await this.prisma.inboxMessage.update({
         where: { id: msg.id },
@@ -79,8 +94,15 @@ export class OutboundMessagesProcessor extends WorkerHost {
         return;
       }
 
+      if (platform === 'SANDBOX') {
+        await this.outboundMessage.sendSandboxMessage(msg);
+        return;
+      }
+
       throw new Error(`Unsupported platform: ${platform}`);
     } catch (err: any) {
+      if (err instanceof DelayedError) throw err;
+
       this.logger.error(
         `Outbound failed [${job.name}] jobId=${job.id}: ${err?.message ?? String(err)}`,
       );
@@ -127,6 +149,11 @@ export class OutboundMessagesProcessor extends WorkerHost {
         return;
       }
 
+      if (platform === 'SANDBOX') {
+        await this.outboundComment.sendSandboxComment(comment);
+        return;
+      }
+
       throw new Error(`Unsupported platform for comments: ${platform}`);
     } catch (error: any) {
       throw error; 
@@ -134,9 +161,37 @@ export class OutboundMessagesProcessor extends WorkerHost {
   }
  
 
+  private async processFirstComment(job: Job<any>) {
+    const { commentId } = job.data;
+    if (!commentId) throw new Error('First comment job missing commentId');
+
+    const comment = await this.prisma.comment.findUnique({
+      where: { id: commentId },
+      include: {
+        postDestination: {
+          include: { profile: { include: { connection: true } } },
+        },
+      },
+    });
+
+    if (!comment) return;
+
+    // Idempotency check
+    if (!comment.externalCommentId.startsWith('pending_')) {
+      return;
+    }
+
+    await this.outboundComment.sendFirstComment(comment);
+  }
+
   @OnWorkerEvent('failed')
   async onFailed(job: Job, error: Error) {
-    if (job.name === 'send-outbound-comment') {
+    // First comments retry on their own; only the last attempt counts
+    const isFinalFirstComment =
+      job.name === 'send-first-comment' &&
+      job.attemptsMade >= (job.opts.attempts ?? 1);
+
+    if (job.name === 'send-outbound-comment' || isFinalFirstComment) {
       const { commentId, workspaceId } = job.data;
       
       this.logger.error(`Comment ${commentId} failed to send: ${error.message}`);
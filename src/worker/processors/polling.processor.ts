@@ -1,11 +1,13 @@
 import { EncryptionService } from '@/common/utility/encryption.service';
 import { LinkedInAdapter } from '@/messages/adapters/linkedIn.adapter';
 import { MetaAdapter } from '@/messages/adapters/meta.adapter';
+import { SandboxAdapter } from '@/messages/adapters/sandbox.adapter';
 import { InboxIngestService } from '@/messages/services/inbox-ingest.service';
 import { InboundCommentPayload } from '@/messages/types/adapter.types';
 import { InstagramInboxProvider } from '@/polling/providers/instagram-inbox.provider';
 import { LinkedInInboxProvider } from '@/polling/providers/linkedin-inbox.provider';
 import { MetaInboxProvider } from '@/polling/providers/meta-inbox.provider';
+import { SandboxInboxProvider } from '@/polling/providers/sandbox-inbox.provider';
 import { PrismaService } from '@/prisma/prisma.service';
 import { Platform } from '@generated/enums';
 import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
@@ -27,6 +29,8 @@ export class InboxSyncProcessor extends WorkerHost {
     private readonly instagramProvider: InstagramInboxProvider,
     private readonly metaAdapter: MetaAdapter,
     private readonly ingest: InboxIngestService,
+    private readonly sandboxProvider: SandboxInboxProvider,
+    private readonly sandboxAdapter: SandboxAdapter,
   ) {
     super();
   }
@@ -59,6 +63,9 @@ export class InboxSyncProcessor extends WorkerHost {
           case Platform.INSTAGRAM:
           await this.syncInstagram(profile, accessToken);
           break;
+        case Platform.SANDBOX:
+          await this.syncSandbox(profile);
+          break;
         default:
           this.logger.warn(`Polling not supported for platform: ${platform}`);
       }
@@ -143,6 +150,32 @@ export class InboxSyncProcessor extends WorkerHost {
     }
   }
 
+  // ==========================================
+  // SANDBOX SYNC LOGIC (simulated, no network)
+  // ==========================================
+  private async syncSandbox(profile: any) {
+    const rawComments = await this.sandboxProvider.getRecentComments(profile.platformId);
+    for (const raw of rawComments) {
+      const normalized = this.sandboxAdapter.normalizeComment(raw);
+      if (normalized) {
+        const payload = this.mapToCommentPayload(normalized, profile.workspaceId, profile.id);
+        await this.ingest.ingestInboundComment(payload);
+      }
+    }
+
+    const rawDms = await this.sandboxProvider.getRecentDMs(profile.platformId);
+    for (const dm of rawDms) {
+      const normalizedDm = this.sandboxAdapter.normalizeDirectMessage(dm);
+      if (normalizedDm) {
+        await this.ingest.ingestInboundMessage({
+          ...normalizedDm,
+          workspaceId: profile.workspaceId,
+          socialProfileId: profile.id,
+        });
+      }
+    }
+  }
+
   private mapToCommentPayload(
     normalized: any, 
     workspaceId: string, 
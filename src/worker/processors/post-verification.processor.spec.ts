@@ -0,0 +1,130 @@
+import { PostVerificationProcessor } from './post-verification.processor';
+
+describe('PostVerificationProcessor (reconcile-profile)', () => {
+  const prisma = {
+    socialProfile: { findUnique: jest.fn() },
+    postDestination: { findMany: jest.fn(), update: jest.fn() },
+  };
+  const provider = { fetchPost: jest.fn() };
+  const socialFactory = { getProvider: jest.fn() };
+  const encryption = { decrypt: jest.fn() };
+  const events = { emit: jest.fn() };
+  const rateLimiter = { deferJobIfLimited: jest.fn() };
+
+  const processor = new PostVerificationProcessor(
+    prisma as any,
+    {} as any,
+    socialFactory as any,
+    encryption as any,
+    events as any,
+    rateLimiter as any,
+  );
+
+  const job = { name: 'reconcile-profile', data: { socialProfileId: 'sp_1' } };
+
+  const dest = (overrides: Record<string, any> = {}) => ({
+    id: 'pd_1',
+    postId: 'post_1',
+    platformPostId: 'fb_123',
+    platformUrl: null,
+    contentOverride: null,
+    missingSince: null,
+    remoteFingerprint: null,
+    post: { workspaceId: 'ws_1', content: 'Hello' },
+    profile: { name: 'Acme', platform: 'FACEBOOK' },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    prisma.socialProfile.findUnique.mockResolvedValue({
+      id: 'sp_1',
+      platform: 'FACEBOOK',
+      platformId: 'page_1',
+      isActive: true,
+      status: 'CONNECTED',
+      accessToken: 'enc',
+    });
+    socialFactory.getProvider.mockReturnValue(provider);
+    encryption.decrypt.mockResolvedValue('token');
+  });
+
+  it('records a baseline and the live URL on the first check', async () => {
+    prisma.postDestination.findMany.mockResolvedValue([dest()]);
+    provider.fetchPost.mockResolvedValue({
+      exists: true,
+      url: 'https://facebook.com/p/123',
+      text: 'Hello',
+    });
+
+    await processor.process(job as any);
+
+    const { data } = prisma.postDestination.update.mock.calls[0][0];
+    expect(data.platformUrl).toBe('https://facebook.com/p/123');
+    expect(data.remoteFingerprint).toEqual(expect.any(String));
+    expect(data.editedExternallyAt).toBeUndefined();
+    expect(events.emit).not.toHaveBeenCalled();
+  });
+
+  it('flags an edit when the text changes after the baseline', async () => {
+    provider.fetchPost.mockResolvedValue({ exists: true, text: 'Hello' });
+    prisma.postDestination.findMany.mockResolvedValue([dest()]);
+    await processor.process(job as any);
+    const baseline =
+      prisma.postDestination.update.mock.calls[0][0].data.remoteFingerprint;
+
+    prisma.postDestination.findMany.mockResolvedValue([
+      dest({ remoteFingerprint: baseline }),
+    ]);
+    provider.fetchPost.mockResolvedValue({
+      exists: true,
+      text: 'Hello, world',
+    });
+    await processor.process(job as any);
+
+    const { data } = prisma.postDestination.update.mock.calls[1][0];
+    expect(data.editedExternallyAt).toBeInstanceOf(Date);
+    expect(events.emit).toHaveBeenCalledWith(
+      'publishing.post.edited',
+      expect.objectContaining({ postDestinationId: 'pd_1' }),
+    );
+  });
+
+  it('marks a post DELETED only after two misses in a row', async () => {
+    provider.fetchPost.mockResolvedValue({ exists: false });
+
+    prisma.postDestination.findMany.mockResolvedValue([dest()]);
+    await processor.process(job as any);
+    expect(prisma.postDestination.update.mock.calls[0][0].data).toEqual(
+      expect.objectContaining({ missingSince: expect.any(Date) }),
+    );
+    expect(events.emit).not.toHaveBeenCalled();
+
+    prisma.postDestination.findMany.mockResolvedValue([
+      dest({ missingSince: new Date(Date.now() - 7 * 3_600_000) }),
+    ]);
+    await processor.process(job as any);
+    expect(prisma.postDestination.update.mock.calls[1][0].data.status).toBe(
+      'DELETED',
+    );
+    expect(events.emit).toHaveBeenCalledWith(
+      'publishing.post.removed',
+      expect.objectContaining({ postId: 'post_1', platform: 'FACEBOOK' }),
+    );
+  });
+
+  it('stops the batch on an auth error instead of marking posts missing', async () => {
+    prisma.postDestination.findMany.mockResolvedValue([
+      dest(),
+      dest({ id: 'pd_2' }),
+    ]);
+    provider.fetchPost.mockRejectedValue(
+      Object.assign(new Error('token expired'), { status: 401 }),
+    );
+
+    await processor.process(job as any);
+
+    expect(provider.fetchPost).toHaveBeenCalledTimes(1);
+    expect(prisma.postDestination.update).not.toHaveBeenCalled();
+  });
+});
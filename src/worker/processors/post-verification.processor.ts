@@ -1,26 +1,62 @@
 import { Processor, WorkerHost } from '@nestjs/bullmq';
-import { Job } from 'bullmq';
+import { DelayedError, Job } from 'bullmq';
 import { Logger } from '@nestjs/common';
 import { PrismaService } from '@/prisma/prisma.service';
 import { HttpService } from '@nestjs/axios';
 import { lastValueFrom } from 'rxjs';
+import { createHash } from 'crypto';
+import { subDays } from 'date-fns';
+import { SocialFactory } from '@/social/social.factory';
+import {
+  RemotePostState,
+  SocialCredentials,
+} from '@/social/interfaces/social-provider.interface';
+import { EncryptionService } from '@/common/utility/encryption.service';
+import { DomainEventsService } from '@/events/domain-events.service';
+import { PlatformRateLimiterService } from '@/common/utility/platform-rate-limiter.service';
+import { classifyPublishError } from '@/common/utility/publish-error.util';
+import { Prisma } from '@generated/client';
+import { ConnectionStatus, PublishErrorClass } from '@generated/enums';
+
+type ReconcileTarget = Prisma.PostDestinationGetPayload<{
+  include: {
+    post: { select: { workspaceId: true; content: true } };
+    profile: { select: { name: true; platform: true } };
+  };
+}>;
 
 @Processor('post-verification')
 export class PostVerificationProcessor extends WorkerHost {
   private readonly logger = new Logger(PostVerificationProcessor.name);
 
+  // Published destinations one reconcile job checks
+  private readonly RECONCILE_BATCH = 25;
+  // Each post is re-checked at most this often
+  private readonly RECHECK_AFTER_MS = 24 * 60 * 60 * 1000;
+  // A "not found" only counts once a later check agrees
+  private readonly CONFIRM_MISSING_AFTER_MS = 60 * 60 * 1000;
+  // Posts older than this are left alone
+  private readonly RECONCILE_MAX_AGE_DAYS = 90;
+
   constructor(
     private readonly prisma: PrismaService,
     private readonly httpService: HttpService,
+    private readonly socialFactory: SocialFactory,
+    private readonly encryption: EncryptionService,
+    private readonly events: DomainEventsService,
+    private readonly rateLimiter: PlatformRateLimiterService,
   ) {
     super(); // Required when extending WorkerHost
   }
 
   // This is the main entry point for BullMQ
-  async process(job: Job<any, any, string>): Promise<any> {
+  async process(job: Job<any, any, string>, token?: string): Promise<any> {
     switch (job.name) {
       case 'fetch-real-post-id':
         return this.handleFetchRealPostId(job);
+
+      case 'reconcile-profile':
+        return this.handleReconcileProfile(job, token);
       
       // Add other job types for this queue here
       default:
@@ -74,4 +110,192 @@ export class PostVerificationProcessor extends WorkerHost {
       throw error; 
     }
   }
-}
\ No newline at end of file
+
+  // ===========================================================================
+  // Reconciliation: what the network shows vs. what we think we published
+  // ===========================================================================
+  private async handleReconcileProfile(
+    job: Job<{ socialProfileId: string }>,
+    token?: string,
+  ) {
+    const { socialProfileId } = job.data;
+
+    const profile = await this.prisma.socialProfile.findUnique({
+      where: { id: socialProfileId },
+      include: { connection: true },
+    });
+    if (
+      !profile ||
+      !profile.isActive ||
+      profile.status !== ConnectionStatus.CONNECTED
+    ) {
+      return { checked: 0 };
+    }
+
+    const provider = this.socialFactory.getProvider(profile.platform);
+    if (!provider.fetchPost) return { checked: 0 };
+
+    const now = Date.now();
+    const targets = await this.prisma.postDestination.findMany({
+      where: {
+        socialProfileId: profile.id,
+        status: 'SUCCESS',
+        platformPostId: { not: null },
+        publishedAt: { gte: subDays(now, this.RECONCILE_MAX_AGE_DAYS) },
+        OR: [
+          { lastVerifiedAt: null },
+          { lastVerifiedAt: { lt: new Date(now - this.RECHECK_AFTER_MS) } },
+          {
+            missingSince: {
+              lt: new Date(now - this.CONFIRM_MISSING_AFTER_MS),
+            },
+          },
+        ],
+      },
+      orderBy: { lastVerifiedAt: { sort: 'asc', nulls: 'first' } },
+      take: this.RECONCILE_BATCH,
+      include: {
+        post: { select: { workspaceId: true, content: true } },
+        profile: { select: { name: true, platform: true } },
+      },
+    });
+    if (!targets.length) return { checked: 0 };
+
+    await this.rateLimiter.deferJobIfLimited(job, token, {
+      platform: profile.platform,
+      socialProfileId: profile.id,
+      requestType: 'insights',
+      cost: targets.length,
+    });
+
+    const credentials = await this.resolveCredentials(profile);
+    const result = { checked: 0, missing: 0, removed: 0, edited: 0 };
+
+    for (const dest of targets) {
+      try {
+        const remote = await provider.fetchPost(
+          credentials,
+          dest.platformPostId!,
+          { pageId: profile.platformId },
+        );
+        const outcome = await this.applyRemoteState(dest, remote);
+        result.checked++;
+        if (outcome !== 'ok') result[outcome]++;
+      } catch (error: any) {
+        if (error instanceof DelayedError) throw error;
+
+        this.logger.warn(
+          `Reconcile ${dest.id} (${profile.platform}) failed: ${error?.message}`,
+        );
+        // A dead token fails every post the same way; try again next run
+        const errorClass = classifyPublishError(error);
+        if (
+          errorClass === PublishErrorClass.AUTH ||
+          errorClass === PublishErrorClass.PERMISSION
+        ) {
+          break;
+        }
+      }
+    }
+
+    this.logger.log(
+      `Reconciled ${result.checked}/${targets.length} posts for profile ${profile.id}: ` +
+        `${result.removed} removed, ${result.edited} edited, ${result.missing} pending confirmation`,
+    );
+    return result;
+  }
+
+  private async applyRemoteState(
+    dest: ReconcileTarget,
+    remote: RemotePostState,
+  ): Promise<'ok' | 'missing' | 'removed' | 'edited'> {
+    const now = new Date();
+
+    if (!remote.exists) {
+      if (!dest.missingSince) {
+        await this.prisma.postDestination.update({
+          where: { id: dest.id },
+          data: { missingSince: now, lastVerifiedAt: now },
+        });
+        return 'missing';
+      }
+
+      // Second miss in a row: it's gone. Analytics only fetches SUCCESS rows.
+      await this.prisma.postDestination.update({
+        where: { id: dest.id },
+        data: { status: 'DELETED', lastVerifiedAt: now },
+      });
+      this.events.emit('publishing.post.removed', {
+        workspaceId: dest.post.workspaceId,
+        postId: dest.postId,
+        postDestinationId: dest.id,
+        platform: dest.profile.platform,
+        profileName: dest.profile.name,
+        snippet: this.snippet(dest),
+        missingSince: dest.missingSince,
+      });
+      return 'removed';
+    }
+
+    // The first check only records a baseline: networks rewrite text on
+    // publish (t.co links, escaping), so comparing with our copy misfires.
+    const fingerprint =
+      remote.text != null ? this.fingerprint(remote.text) : dest.remoteFingerprint;
+    const edited =
+      !!dest.remoteFingerprint &&
+      !!fingerprint &&
+      fingerprint !== dest.remoteFingerprint;
+
+    await this.prisma.postDestination.update({
+      where: { id: dest.id },
+      data: {
+        lastVerifiedAt: now,
+        missingSince: null,
+        remoteFingerprint: fingerprint,
+        ...(remote.url &&
+          remote.url !== dest.platformUrl && { platformUrl: remote.url }),
+        ...(edited && { editedExternallyAt: now }),
+      },
+    });
+
+    if (edited) {
+      this.events.emit('publishing.post.edited', {
+        workspaceId: dest.post.workspaceId,
+        postId: dest.postId,
+        postDestinationId: dest.id,
+        platform: dest.profile.platform,
+        profileName: dest.profile.name,
+        snippet: remote.text!.replace(/\n/g, ' ').slice(0, 60),
+      });
+      return 'edited';
+    }
+    return 'ok';
+  }
+
+  private fingerprint(text: string) {
+    return createHash('sha256')
+      .update(text.replace(/\s+/g, ' ').trim())
+      .digest('hex');
+  }
+
+  private snippet(dest: ReconcileTarget) {
+    return (dest.contentOverride || dest.post.content || 'Media post')
+      .replace(/\n/g, ' ')
+      .slice(0, 60);
+  }
+
+  private async resolveCredentials(profile: any): Promise<SocialCredentials> {
+    const encrypted = profile.accessToken ?? profile.connection?.accessToken;
+    if (!encrypted) throw new Error(`Missing ${profile.platform} access token`);
+    const accessToken = await this.encryption.decrypt(encrypted);
+
+    // X uses OAuth1: the token secret lives in connection.refreshToken
+    if (profile.platform === 'TWITTER') {
+      const secret = profile.connection?.refreshToken;
+      if (!secret) throw new Error('Missing X OAuth1 user tokens');
+      return { accessToken, accessSecret: await this.encryption.decrypt(secret) };
+    }
+
+    return { accessToken };
+  }
+}
@@ -0,0 +1,292 @@
+import { PublishPostProcessor } from './publish-post.processor';
+
+describe('PublishPostProcessor', () => {
+  const prisma = {
+    post: { findUnique: jest.fn(), update: jest.fn() },
+    publishingPause: { findMany: jest.fn() },
+    postDestination: {
+      updateMany: jest.fn(),
+      update: jest.fn(),
+      findUnique: jest.fn(),
+      groupBy: jest.fn(),
+    },
+    mediaFile: { findMany: jest.fn() },
+    publishingMetric: { create: jest.fn() },
+    comment: { findFirst: jest.fn(), create: jest.fn() },
+  };
+  const provider = { publish: jest.fn() };
+  const socialFactory = { getProvider: jest.fn() };
+  const encryption = { decrypt: jest.fn() };
+  const events = { emit: jest.fn() };
+  const rateLimiter = { consume: jest.fn(), deferJob: jest.fn() };
+  const outboundQueue = { add: jest.fn() };
+  const publishingQueue = { add: jest.fn() };
+
+  const processor = new PublishPostProcessor(
+    prisma as any,
+    socialFactory as any,
+    encryption as any,
+    events as any,
+    rateLimiter as any,
+    outboundQueue as any,
+    publishingQueue as any,
+  );
+
+  const job = { data: { postId: 'post_1', destinationId: 'pd_1' } };
+
+  const loadPost = (
+    dest: Record<string, any>,
+    post: Record<string, any> = {},
+  ) =>
+    prisma.post.findUnique.mockImplementation(({ select }) =>
+      select
+        ? { id: 'post_1', workspaceId: 'ws_1', status: 'PUBLISHING' }
+        : {
+            id: 'post_1',
+            workspaceId: 'ws_1',
+            content: 'Tweet 1',
+            contentType: 'POST',
+            workspace: { organizationId: 'org_1' },
+            media: [],
+            destinations: [
+              {
+                id: 'pd_1',
+                status: 'SCHEDULED',
+                attempts: 0,
+                socialProfileId: 'sp_1',
+                contentOverride: 'Tweet 1',
+                firstComment: null,
+                platformPostId: null,
+                metadata: {
+                  thread: [{ content: 'Reply 1' }, { content: 'Reply 2' }],
+                },
+                profile: {
+                  platform: 'TWITTER',
+                  platformId: 'x_1',
+                  name: 'Acme',
+                  accessToken: 'enc',
+                  connection: { refreshToken: 'enc' },
+                },
+                ...dest,
+              },
+            ],
+            ...post,
+          },
+    );
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    prisma.publishingPause.findMany.mockResolvedValue([]);
+    prisma.postDestination.updateMany.mockResolvedValue({ count: 1 });
+    prisma.postDestination.groupBy.mockResolvedValue([]);
+    rateLimiter.consume.mockResolvedValue({ allowed: true, retryAfterMs: 0 });
+    socialFactory.getProvider.mockReturnValue(provider);
+    encryption.decrypt.mockResolvedValue('secret');
+  });
+
+  describe('X threads', () => {
+    const postedTexts = () => provider.publish.mock.calls.map((c) => c[1]);
+
+    it('schedules a retry that resumes after the replies already posted', async () => {
+      loadPost({});
+      provider.publish
+        .mockResolvedValueOnce({ platformPostId: 't1' })
+        .mockResolvedValueOnce({ platformPostId: 't2' })
+        .mockRejectedValueOnce(
+          Object.assign(new Error('busy'), { status: 503 }),
+        );
+
+      await processor.process(job as any);
+
+      expect(postedTexts()).toEqual(['Tweet 1', 'Reply 1', 'Reply 2']);
+      expect(publishingQueue.add).toHaveBeenCalledWith(
+        'retry-destination',
+        { postId: 'post_1', destinationId: 'pd_1' },
+        expect.any(Object),
+      );
+      const progress = prisma.postDestination.update.mock.calls
+        .map((c) => c[0].data.metadata?.threadProgress)
+        .filter(Boolean);
+      expect(progress).toEqual([{ posted: 1, lastId: 't2' }]);
+
+      // The retry job sees what the first attempt saved
+      provider.publish.mockReset();
+      prisma.postDestination.update.mockReset();
+      provider.publish.mockResolvedValueOnce({ platformPostId: 't3' });
+      loadPost({
+        attempts: 1,
+        platformPostId: 't1',
+        metadata: {
+          thread: [{ content: 'Reply 1' }, { content: 'Reply 2' }],
+          threadProgress: { posted: 1, lastId: 't2' },
+        },
+      });
+
+      await processor.process(job as any);
+
+      expect(postedTexts()).toEqual(['Reply 2']);
+      expect(provider.publish.mock.calls[0][3].replyToPostId).toBe('t2');
+      expect(prisma.postDestination.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ status: 'SUCCESS' }),
+        }),
+      );
+    });
+
+    it('does not post tweet 1 again when it failed before any reply', async () => {
+      loadPost({ platformPostId: 't1', attempts: 1 });
+      provider.publish
+        .mockResolvedValueOnce({ platformPostId: 't2' })
+        .mockResolvedValueOnce({ platformPostId: 't3' });
+
+      await processor.process(job as any);
+
+      expect(postedTexts()).toEqual(['Reply 1', 'Reply 2']);
+      expect(provider.publish.mock.calls[0][3].replyToPostId).toBe('t1');
+    });
+  });
+
+  describe('first comments', () => {
+    const sandboxDest = {
+      firstComment: '  #launch  ',
+      metadata: null,
+      profile: {
+        platform: 'SANDBOX',
+        platformId: 'sbx_page',
+        name: 'Acme',
+        accessToken: 'enc',
+        connection: {},
+      },
+    };
+
+    beforeEach(() => {
+      provider.publish.mockResolvedValue({ platformPostId: 'sbx_1' });
+      prisma.postDestination.findUnique.mockResolvedValue({
+        platformPostId: 'sbx_1',
+      });
+      prisma.comment.create.mockResolvedValue({ id: 'c1' });
+    });
+
+    it('queues the comment once the destination is live', async () => {
+      loadPost(sandboxDest);
+
+      await processor.process(job as any);
+
+      expect(prisma.comment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          postDestinationId: 'pd_1',
+          externalPostId: 'sbx_1',
+          content: '#launch',
+          direction: 'OUTBOUND',
+          status: 'QUEUED',
+        }),
+      });
+      expect(outboundQueue.add).toHaveBeenCalledWith(
+        'send-first-comment',
+        { commentId: 'c1', workspaceId: 'ws_1' },
+        expect.objectContaining({ jobId: 'first-comment-pd_1' }),
+      );
+    });
+
+    it('does not queue a second comment when the publish job runs again', async () => {
+      loadPost(sandboxDest);
+      prisma.comment.findFirst.mockResolvedValue({ id: 'c1' });
+
+      await processor.process(job as any);
+
+      expect(prisma.comment.create).not.toHaveBeenCalled();
+      expect(outboundQueue.add).not.toHaveBeenCalled();
+    });
+
+    it('stores the sandbox post link', async () => {
+      provider.publish.mockResolvedValue({
+        platformPostId: 'sbx_1',
+        url: 'https://sandbox.rooli.app/posts/sbx_1',
+      });
+      loadPost({ ...sandboxDest, firstComment: null });
+
+      await processor.process(job as any);
+
+      expect(prisma.postDestination.update).toHaveBeenCalledWith({
+        where: { id: 'pd_1' },
+        data: expect.objectContaining({
+          platformPostId: 'sbx_1',
+          platformUrl: 'https://sandbox.rooli.app/posts/sbx_1',
+        }),
+      });
+    });
+
+    it('skips destinations without a comment', async () => {
+      loadPost({ ...sandboxDest, firstComment: '   ' });
+
+      await processor.process(job as any);
+
+      expect(provider.publish).toHaveBeenCalled();
+      expect(prisma.comment.findFirst).not.toHaveBeenCalled();
+      expect(outboundQueue.add).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('LinkedIn documents', () => {
+    const linkedInDest = {
+      contentOverride: 'Our 2026 report',
+      metadata: null,
+      profile: {
+        platform: 'LINKEDIN',
+        platformId: 'urn:li:organization:1',
+        name: 'Acme',
+        accessToken: 'enc',
+        connection: {},
+      },
+    };
+    const pdf = {
+      altText: null,
+      mediaFile: {
+        url: 'https://cdn.example.com/report.pdf',
+        mimeType: 'application/pdf',
+        originalName: 'annual-report.pdf',
+        altText: null,
+      },
+    };
+
+    beforeEach(() => {
+      provider.publish.mockResolvedValue({ platformPostId: 'urn:li:share:1' });
+    });
+
+    it('publishes a PDF with the post title', async () => {
+      loadPost(linkedInDest, {
+        contentType: 'DOCUMENT',
+        documentTitle: 'Annual Report 2026',
+        media: [pdf],
+      });
+
+      await processor.process(job as any);
+
+      expect(provider.publish).toHaveBeenCalledWith(
+        expect.anything(),
+        'Our 2026 report',
+        [
+          {
+            url: 'https://cdn.example.com/report.pdf',
+            mimeType: 'application/pdf',
+            altText: null,
+            title: 'Annual Report 2026',
+          },
+        ],
+        expect.anything(),
+      );
+    });
+
+    it('falls back to the file name when the post has no title', async () => {
+      loadPost(linkedInDest, {
+        contentType: 'DOCUMENT',
+        documentTitle: null,
+        media: [pdf],
+      });
+
+      await processor.process(job as any);
+
+      expect(provider.publish.mock.calls[0][2][0].title).toBe('annual-report');
+    });
+  });
+});
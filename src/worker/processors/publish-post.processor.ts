@@ -1,8 +1,18 @@
 import { EncryptionService } from '@/common/utility/encryption.service';
+import { PlatformRateLimiterService } from '@/common/utility/platform-rate-limiter.service';
+import {
+  classifyPublishError,
+  decidePublishRetry,
+} from '@/common/utility/publish-error.util';
+import { settledPostStatus } from '@/common/utility/post-status.util';
 import { DomainEventsService } from '@/events/domain-events.service';
 import { ThreadNode } from '@/post/interfaces/post.interface';
 import { PrismaService } from '@/prisma/prisma.service';
 import { SocialFactory } from '@/social/social.factory';
+import {
+  PublishMedia,
+  PublishPoll,
+} from '@/social/interfaces/social-provider.interface';
 import { Processor, WorkerHost } from '@nestjs/bullmq';
 import { InjectQueue } from '@nestjs/bullmq';
 import { Logger } from '@nestjs/common';
@@ -16,17 +26,26 @@ export class PublishPostProcessor extends WorkerHost {
     private socialFactory: SocialFactory,
     private encryptionService: EncryptionService,
     private events: DomainEventsService,
+    private rateLimiter: PlatformRateLimiterService,
+    @InjectQueue('outbound-messages') private outboundQueue: Queue,
+    @InjectQueue('publishing-queue') private publishingQueue: Queue,
   ) {
     super();
   }
 
-  async process(job: Job<{ postId: string }>) {
-    const { postId } = job.data;
+  // 'publish-post' runs every destination; 'retry-destination' (backoff or a
+  // manual retry) carries a destinationId and runs only that one
+  async process(
+    job: Job<{ postId: string; destinationId?: string }>,
+    token?: string,
+  ) {
+    const { postId, destinationId } = job.data;
 
     // Load once for routing
     const post = await this.prisma.post.findUnique({
       where: { id: postId },
       include: {
+        workspace: { select: { organizationId: true } },
         media: { include: { mediaFile: true }, orderBy: { order: 'asc' } },
         destinations: {
           include: { profile: { include: { connection: true } } },
@@ -37,10 +56,45 @@ export class PublishPostProcessor extends WorkerHost {
 
     if (!post) return;
 
+    const paused = await this.loadPausedProfiles(post.workspaceId);
+    let held = false;
+
+    // Shortest wait among rate-limited destinations (0 = none limited)
+    let deferMs = 0;
+
     // Publish per destination (isolated execution)
     // This avoids needing a replyId map.
     for (const dest of post.destinations) {
+      if (destinationId && dest.id !== destinationId) continue;
+
+      // Crisis mode: keep it SCHEDULED and mark it held for the resume decision
+      if (
+        dest.status === 'SCHEDULED' &&
+        (paused === 'ALL' || paused.has(dest.socialProfileId))
+      ) {
+        await this.prisma.postDestination.updateMany({
+          where: { id: dest.id, heldAt: null },
+          data: { heldAt: new Date() },
+        });
+        held = true;
+        continue;
+      }
+
+      // Waiting out a backoff; its own retry job will pick it up
+      if (!destinationId && dest.nextRetryAt && dest.nextRetryAt > new Date()) {
+        continue;
+      }
+
       try {
+        const decision = await this.checkPublishLimit(dest);
+        if (!decision.allowed) {
+          // Leave it SCHEDULED; the delayed re-run picks it up
+          deferMs = deferMs
+            ? Math.min(deferMs, decision.retryAfterMs)
+            : Math.max(decision.retryAfterMs, 1000);
+          continue;
+        }
+
         await this.publishOneDestination(post, dest);
       } catch (e: any) {
         this.logger.error(
@@ -52,7 +106,45 @@ export class PublishPostProcessor extends WorkerHost {
     }
 
     // Recompute post status from destination statuses
-    await this.recomputeMasterPostStatus(postId);
+    await this.recomputeMasterPostStatus(postId, held);
+
+    // Some destinations hit the platform limit: retry them later instead of failing
+    if (deferMs > 0) {
+      await this.rateLimiter.deferJob(job, token, deferMs);
+    }
+  }
+
+  /** 'ALL' when the whole workspace is paused, else the paused profile IDs. */
+  private async loadPausedProfiles(
+    workspaceId: string,
+  ): Promise<'ALL' | Set<string>> {
+    const pauses = await this.prisma.publishingPause.findMany({
+      where: { workspaceId, resumedAt: null },
+      select: { socialProfileId: true },
+    });
+    if (pauses.some((p) => !p.socialProfileId)) return 'ALL';
+    return new Set(pauses.map((p) => p.socialProfileId!));
+  }
+
+  private async checkPublishLimit(dest: any) {
+    // Nothing will be sent for these, so don't spend quota
+    if (dest.status === 'SUCCESS' || dest.status === 'PUBLISHING') {
+      return { allowed: true, retryAfterMs: 0 };
+    }
+
+    // Every reply in an X thread is its own tweet
+    const thread = (dest.metadata as any)?.thread;
+    const cost =
+      dest.profile.platform === 'TWITTER' && Array.isArray(thread)
+        ? 1 + thread.length
+        : 1;
+
+    return this.rateLimiter.consume({
+      platform: dest.profile.platform,
+      socialProfileId: dest.socialProfileId,
+      requestType: 'publish',
+      cost,
+    });
   }
 
   // ===========================================================================
@@ -64,17 +156,26 @@ export class PublishPostProcessor extends WorkerHost {
     // Skip already successful
     if (dest.status === 'SUCCESS') return;
 
-    // Atomic claim to avoid double publish
+    // Atomic claim to avoid double publish. Dead-lettered destinations wait
+    // for a manual retry, which clears deadLetteredAt.
     const claimed = await this.prisma.postDestination.updateMany({
       where: {
         id: dest.id,
         status: { in: ['SCHEDULED', 'FAILED'] },
+        deadLetteredAt: null,
+      },
+      data: {
+        status: 'PUBLISHING',
+        errorMessage: null,
+        nextRetryAt: null,
+        attempts: { increment: 1 },
       },
-      data: { status: 'PUBLISHING', errorMessage: null },
     });
 
     if (claimed.count === 0) return; // someone else / already publishing
 
+    const startedAt = Date.now();
+
     try {
       switch (platform) {
         case 'TWITTER':
@@ -93,10 +194,20 @@ export class PublishPostProcessor extends WorkerHost {
           await this.publishInstagram(post, dest);
           break;
 
+        case 'SANDBOX':
+          await this.publishSandbox(post, dest);
+          break;
+
         default:
           throw new Error(`Unsupported platform: ${platform}`);
       }
 
+      await this.recordMetric(post, dest, startedAt);
+      await this.prisma.postDestination.update({
+        where: { id: dest.id },
+        data: { errorClass: null },
+      });
+
       const textPreview = (dest.contentOverride || post.content || 'Media post')
         .replace(/\n/g, ' ')
         .substring(0, 60) + '...';
@@ -110,11 +221,15 @@ export class PublishPostProcessor extends WorkerHost {
         profileName: dest.profile.name, 
         snippet: textPreview,
       });
+
+      await this.queueFirstComment(post, dest);
     } catch (e: any) {
-      await this.prisma.postDestination.update({
-        where: { id: dest.id },
-        data: { status: 'FAILED', errorMessage: e?.message ?? 'Unknown error' },
-      });
+      const retrying = await this.handleFailure(post, dest, e);
+      await this.recordMetric(post, dest, startedAt, e);
+
+      // Only tell people once we've stopped trying on our own
+      if (retrying) throw e;
+
       // 3. EXTRACT RICH DATA
       const textPreview = (dest.contentOverride || post.content || 'Media post')
         .replace(/\n/g, ' ')
@@ -134,50 +249,119 @@ export class PublishPostProcessor extends WorkerHost {
     }
   }
 
-  // ===========================================================================
-  // TWITTER: publish Tweet1 + replies from dest.metadata.thread
-  // (isolated execution per destination)
-  // ===========================================================================
-  private async publishTwitterThreadForOneDestination(post: any, dest: any) {
-    const provider = this.socialFactory.getProvider('TWITTER');
-    const creds = await this.resolveTwitterCreds(dest);
+  /**
+   * Transient errors go back to SCHEDULED with a delayed retry job for this
+   * destination only. Auth/permission errors are dead-lettered; everything
+   * else is a plain FAILED that needs an edit. Returns true when retrying.
+   */
+  private async handleFailure(post: any, dest: any, error: any) {
+    const errorClass = classifyPublishError(error);
+    const errorMessage = error?.message ?? 'Unknown error';
+    const attempts = (dest.attempts ?? 0) + 1; // the claim already incremented it
+    const decision = decidePublishRetry(errorClass, attempts);
 
-    const tweet1Text = (dest.contentOverride || post.content || '').trim();
-    if (!tweet1Text) throw new Error('Tweet 1 content is empty.');
+    if (decision.action === 'retry') {
+      const nextRetryAt = new Date(Date.now() + decision.delayMs);
 
-    // Root media comes from master post media
-    const rootMedia = post.media.map((m: any) => ({
-      url: m.mediaFile.url,
-      mimeType: m.mediaFile.mimeType,
-    }));
+      await this.prisma.postDestination.update({
+        where: { id: dest.id },
+        data: { status: 'SCHEDULED', errorMessage, errorClass, nextRetryAt },
+      });
 
-    // 1) Tweet 1
-    const first = await provider.publish(creds as any, tweet1Text, rootMedia, {
-      pageId: dest.profile.platformId,
-      replyToPostId: undefined,
-      postType: post.contentType,
-    });
+      await this.publishingQueue.add(
+        'retry-destination',
+        { postId: post.id, destinationId: dest.id },
+        {
+          delay: decision.delayMs,
+          jobId: `retry-${dest.id}-${attempts}`,
+          removeOnComplete: true,
+        },
+      );
 
-    if (!first?.platformPostId) {
-      throw new Error('Twitter returned empty platformPostId for Tweet 1.');
+      this.logger.warn(
+        `Publish to dest=${dest.id} failed (${errorClass}), retry #${attempts} at ${nextRetryAt.toISOString()}`,
+      );
+      return true;
     }
 
-    // Persist Tweet 1 result early (good for retries/observability)
     await this.prisma.postDestination.update({
       where: { id: dest.id },
       data: {
-        platformPostId: first.platformPostId,
-        publishedAt: new Date(),
+        status: 'FAILED',
+        errorMessage,
+        errorClass,
+        nextRetryAt: null,
+        deadLetteredAt: decision.action === 'dead-letter' ? new Date() : null,
       },
     });
+    return false;
+  }
 
-    let lastId = first.platformPostId;
+  // ===========================================================================
+  // TWITTER: publish Tweet1 + replies from dest.metadata.thread
+  // (isolated execution per destination)
+  // ===========================================================================
+  private async publishTwitterThreadForOneDestination(post: any, dest: any) {
+    const provider = this.socialFactory.getProvider('TWITTER');
+    const creds = await this.resolveTwitterCreds(dest);
 
-    // 2) Replies
     const meta = (dest.metadata ?? {}) as any;
     const thread: ThreadNode[] = Array.isArray(meta.thread) ? meta.thread : [];
 
-    for (const node of thread) {
+    // An earlier attempt that failed part-way already posted Tweet 1 (and
+    // maybe some replies): carry on from there instead of posting them twice
+    const progress: { posted: number; lastId: string } | undefined =
+      dest.platformPostId
+        ? (meta.threadProgress ?? { posted: 0, lastId: dest.platformPostId })
+        : undefined;
+
+    let lastId: string;
+
+    if (progress) {
+      lastId = progress.lastId;
+      this.logger.log(
+        `Resuming thread for dest=${dest.id} after ${progress.posted} of ${thread.length} replies`,
+      );
+    } else {
+      const tweet1Text = (dest.contentOverride || post.content || '').trim();
+      if (!tweet1Text) throw new Error('Tweet 1 content is empty.');
+
+      // Root media comes from master post media
+      const rootMedia = this.toMediaPayload(post.media);
+
+      // 1) Tweet 1
+      const first = await provider.publish(
+        creds as any,
+        tweet1Text,
+        rootMedia,
+        {
+          pageId: dest.profile.platformId,
+          replyToPostId: undefined,
+          postType: post.contentType,
+          poll: this.pollFor(post),
+        },
+      );
+
+      if (!first?.platformPostId) {
+        throw new Error('Twitter returned empty platformPostId for Tweet 1.');
+      }
+
+      // Persist Tweet 1 result early: a retry resumes from it
+      await this.prisma.postDestination.update({
+        where: { id: dest.id },
+        data: {
+          platformPostId: first.platformPostId,
+          publishedAt: new Date(),
+        },
+      });
+
+      lastId = first.platformPostId;
+    }
+
+    // 2) Replies
+    for (let i = progress?.posted ?? 0; i < thread.length; i++) {
+      const node = thread[i];
+
       // Optional targeting per node
       if (
         Array.isArray(node.targetProfileIds) &&
@@ -205,6 +389,13 @@ export class PublishPostProcessor extends WorkerHost {
       }
 
       lastId = res.platformPostId;
+
+      await this.prisma.postDestination.update({
+        where: { id: dest.id },
+        data: {
+          metadata: { ...meta, threadProgress: { posted: i + 1, lastId } },
+        },
+      });
     }
 
     // Mark destination success
@@ -227,14 +418,12 @@ export class PublishPostProcessor extends WorkerHost {
 
     const text = (dest.contentOverride || post.content || '').trim();
 
-    const mediaPayload = post.media.map((m: any) => ({
-      url: m.mediaFile.url,
-      mimeType: m.mediaFile.mimeType,
-    }));
+    const mediaPayload = this.toMediaPayload(post.media, post.documentTitle);
 
     const res = await provider.publish(creds as any, text, mediaPayload, {
       pageId: dest.profile.platformId,
       postType: post.contentType,
+      poll: this.pollFor(post),
     });
 
     await this.prisma.postDestination.update({
@@ -254,10 +443,7 @@ export class PublishPostProcessor extends WorkerHost {
 
     const text = (dest.contentOverride || post.content || '').trim();
 
-    const mediaPayload = post.media.map((m: any) => ({
-      url: m.mediaFile.url,
-      mimeType: m.mediaFile.mimeType,
-    }));
+    const mediaPayload = this.toMediaPayload(post.media);
 
     const res = await provider.publish(creds as any, text, mediaPayload, {
       pageId: dest.profile.platformId,
@@ -281,10 +467,7 @@ export class PublishPostProcessor extends WorkerHost {
 
     const text = (dest.contentOverride || post.content || '').trim();
 
-    const mediaPayload = post.media.map((m: any) => ({
-      url: m.mediaFile.url,
-      mimeType: m.mediaFile.mimeType,
-    }));
+    const mediaPayload = this.toMediaPayload(post.media);
 
     const res = await provider.publish(creds as any, text, mediaPayload, {
       pageId: dest.profile.platformId,
@@ -302,6 +485,70 @@ export class PublishPostProcessor extends WorkerHost {
     });
   }
 
+  // ===========================================================================
+  // First comment: stored as an OUTBOUND Comment and sent by the outbound
+  // worker, so a comment failure never marks the publish as failed
+  // ===========================================================================
+  private async queueFirstComment(post: any, dest: any) {
+    const content = (dest.firstComment ?? '').trim();
+    if (!content) return;
+
+    try {
+      const { platformPostId } =
+        (await this.prisma.postDestination.findUnique({
+          where: { id: dest.id },
+          select: { platformPostId: true },
+        })) ?? {};
+      if (!platformPostId) return;
+
+      // A re-run of the publish job must not comment twice
+      const existing = await this.prisma.comment.findFirst({
+        where: {
+          postDestinationId: dest.id,
+          externalPostId: platformPostId,
+          direction: 'OUTBOUND',
+          parentId: null,
+        },
+        select: { id: true },
+      });
+      if (existing) return;
+
+      const now = Date.now();
+      const comment = await this.prisma.comment.create({
+        data: {
+          workspaceId: post.workspaceId,
+          profileId: dest.socialProfileId,
+          postDestinationId: dest.id,
+          platform: dest.profile.platform,
+          direction: 'OUTBOUND',
+          status: 'QUEUED',
+          senderExternalId: dest.profile.platformId,
+          senderName: dest.profile.name,
+          externalPostId: platformPostId,
+          content,
+          externalCommentId: `pending_${now}_${Math.random().toString(36).slice(2)}`,
+        },
+      });
+
+      await this.outboundQueue.add(
+        'send-first-comment',
+        { commentId: comment.id, workspaceId: post.workspaceId },
+        {
+          jobId: `first-comment-${dest.id}`,
+          // Give the platform a moment to finish processing the new post
+          delay: 15_000,
+          attempts: 3,
+          backoff: { type: 'exponential', delay: 30_000 },
+          removeOnComplete: true,
+        },
+      );
+    } catch (e: any) {
+      this.logger.warn(
+        `Failed to queue first comment for dest=${dest.id}: ${e?.message ?? e}`,
+      );
+    }
+  }
+
   // ===========================================================================
   // Credentials + media helpers
   // ===========================================================================
@@ -326,6 +573,30 @@ export class PublishPostProcessor extends WorkerHost {
     return { accessToken: rawAccessToken, accessSecret: rawAccessSecret };
   }
 
+  private async publishSandbox(post: any, dest: any) {
+    const provider = this.socialFactory.getProvider('SANDBOX');
+    const creds = await this.resolveOAuth2Creds(dest);
+
+    const text = (dest.contentOverride || post.content || '').trim();
+
+    const mediaPayload = this.toMediaPayload(post.media);
+
+    const res = await provider.publish(creds as any, text, mediaPayload, {
+      pageId: dest.profile.platformId,
+    });
+
+    await this.prisma.postDestination.update({
+      where: { id: dest.id },
+      data: {
+        status: 'SUCCESS',
+        platformPostId: res.platformPostId,
+        platformUrl: res.url ?? null,
+        publishedAt: new Date(),
+        errorMessage: null,
+      },
+    });
+  }
+
   private async resolveOAuth2Creds(dest: any) {
     // Generic OAuth2 (LinkedIn/FB/IG typically):
     const encrypted =
@@ -342,10 +613,72 @@ export class PublishPostProcessor extends WorkerHost {
 
     const files = await this.prisma.mediaFile.findMany({
       where: { id: { in: mediaIds } },
-      select: { url: true, mimeType: true },
+      select: { url: true, mimeType: true, altText: true },
     });
 
-    return files.map((f) => ({ url: f.url, mimeType: f.mimeType }));
+    return files.map((f) => ({
+      url: f.url,
+      mimeType: f.mimeType,
+      altText: f.altText,
+    }));
+  }
+
+  private pollFor(post: any): PublishPoll | undefined {
+    return post.contentType === 'POLL' && post.poll
+      ? (post.poll as PublishPoll)
+      : undefined;
+  }
+
+  // The post's own alt text wins, even when it's '' (explicitly none).
+  // Documents take the post's title, else the file name without its extension.
+  private toMediaPayload(
+    media: any[],
+    documentTitle?: string | null,
+  ): PublishMedia[] {
+    return media.map((m) => ({
+      url: m.mediaFile.url,
+      mimeType: m.mediaFile.mimeType,
+      altText: m.altText ?? m.mediaFile.altText ?? null,
+      ...(m.mediaFile.mimeType === 'application/pdf' && {
+        title:
+          documentTitle ||
+          m.mediaFile.originalName.replace(/\.[^/.]+$/, '').trim() ||
+          'Document',
+      }),
+    }));
+  }
+
+  // ===========================================================================
+  // Reliability metrics (one row per destination attempt)
+  // ===========================================================================
+  private async recordMetric(
+    post: any,
+    dest: any,
+    startedAt: number,
+    error?: any,
+  ) {
+    try {
+      await this.prisma.publishingMetric.create({
+        data: {
+          organizationId: post.workspace.organizationId,
+          workspaceId: post.workspaceId,
+          socialProfileId: dest.socialProfileId,
+          postDestinationId: dest.id,
+          platform: dest.profile.platform,
+          success: !error,
+          errorClass: error ? classifyPublishError(error) : null,
+          errorMessage: error
+            ? String(error?.message ?? 'Unknown error').slice(0, 1000)
+            : null,
+          latencyMs: Date.now() - startedAt,
+        },
+      });
+    } catch (e: any) {
+      // Metrics must never change the outcome of a publish
+      this.logger.warn(
+        `Failed to record publishing metric for dest=${dest.id}: ${e?.message ?? e}`,
+      );
+    }
   }
 
   // ===========================================================================
@@ -353,7 +686,7 @@ export class PublishPostProcessor extends WorkerHost {
   // ===========================================================================
   // inside PublishPostProcessor
 
-  private async recomputeMasterPostStatus(postId: string) {
+  private async recomputeMasterPostStatus(postId: string, held = false) {
     const post = await this.prisma.post.findUnique({
       where: { id: postId },
       select: { id: true, workspaceId: true, status: true },
@@ -366,22 +699,14 @@ export class PublishPostProcessor extends WorkerHost {
       _count: { status: true },
     });
 
-    const map = new Map(counts.map((c) => [c.status, c._count.status]));
-    const success = map.get('SUCCESS') ?? 0;
-    const failed = map.get('FAILED') ?? 0;
-    const scheduled = map.get('SCHEDULED') ?? 0;
-    const publishing = map.get('PUBLISHING') ?? 0;
-
-    const remaining = scheduled + publishing;
+    const byStatus = Object.fromEntries(
+      counts.map((c) => [c.status, c._count.status]),
+    );
 
-    let nextStatus: 'PUBLISHING' | 'PUBLISHED' | 'PARTIAL' | 'FAILED' =
-      'PUBLISHING';
-
-    if (remaining === 0) {
-      if (success > 0 && failed === 0) nextStatus = 'PUBLISHED';
-      else if (success > 0 && failed > 0) nextStatus = 'PARTIAL';
-      else nextStatus = 'FAILED';
-    }
+    // Held destinations are waiting, not in flight
+    const nextStatus =
+      settledPostStatus(byStatus) ??
+      (held && !byStatus.PUBLISHING ? 'SCHEDULED' : 'PUBLISHING');
 
     // Only update+emit on actual change
     if (post.status !== nextStatus) {
@@ -19,6 +19,7 @@ import { RedisModule } from '@/redis/redis.module';
 import { NotificationsModule } from '@/notifications/notifications.module';
 import { PostVerificationProcessor } from './processors/post-verification.processor';
 import { HttpModule } from '@nestjs/axios';
+import { PlatformRateLimiterService } from '@/common/utility/platform-rate-limiter.service';
 
 @Module({
   imports: [
@@ -51,6 +52,7 @@ import { HttpModule } from '@nestjs/axios';
     OutboundMessagesProcessor,
     InboxSyncProcessor,
     PostVerificationProcessor,
+    PlatformRateLimiterService,
   ],
   exports: [BullModule],
 })
@@ -1,5 +1,5 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsOptional, IsString, IsUUID } from 'class-validator';
+import { IsBoolean, IsOptional, IsString, IsUUID } from 'class-validator';
 
 export class CreateWorkspaceDto {
   @ApiProperty({
@@ -60,4 +60,13 @@ export class CreateWorkspaceDto {
   @IsOptional()
   @IsString()
   agencyClientColor?: string | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Replace links in new posts with tracked short links tagged with the UTM template',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  shortenLinks?: boolean;
 }
@@ -240,6 +240,7 @@ export class WorkspaceService {
       data.agencyClientContact = dto.agencyClientContact;
     if (dto.agencyClientColor !== undefined)
       data.agencyClientColor = dto.agencyClientColor;
+    if (dto.shortenLinks !== undefined) data.shortenLinks = dto.shortenLinks;
 
     try {
       return await this.prisma.workspace.update({